@@ -0,0 +1,817 @@
+// ─────────────────────────────────────────────────────────────────
+// ARROW RUNTIME
+// Routes and draws arrows inside exported documents once their layout
+// is known: the print document behind the PDF and the interactive HTML.
+// ─────────────────────────────────────────────────────────────────
+
+import { getBodyPageLabels } from './pageNumbering.js';
+
+/** @typedef {import('./src/types').ArrowConnector} ArrowConnector */
+/** @typedef {import('./src/types').ArrowLabelPlacement} ArrowLabelPlacement */
+/** @typedef {import('./src/types').BookStructure} BookStructure */
+/** @typedef {import('./src/types').PageData} PageData */
+/** @typedef {import('./src/types').WordGroup} WordGroup */
+
+/**
+ * @typedef {object} Box
+ * @property {number} x
+ * @property {number} y
+ * @property {number} width
+ * @property {number} height
+ */
+
+/** @typedef {{ x: number, y: number }} Point */
+/** @typedef {NonNullable<ArrowConnector['startAnchor']>} ArrowAnchor */
+/** @typedef {Exclude<ArrowAnchor, 'auto'>} Side */
+
+/**
+ * @typedef {object} ArrowRouteRequest
+ * @property {string} id
+ * @property {Box} source
+ * @property {Box} target
+ * @property {ArrowAnchor} [startAnchor]
+ * @property {ArrowAnchor} [endAnchor]
+ * @property {number} curvature
+ */
+
+/**
+ * @typedef {object} LabelPlacement
+ * @property {number} x
+ * @property {number} y
+ * @property {number} angle Degrees, always upright
+ * @property {number} width
+ * @property {number} height
+ */
+
+/**
+ * @typedef {object} Continuation
+ * @property {Box} end Stands in for the group on the other page
+ * @property {Side} side Side of the stand-in the arrow meets
+ * @property {{ x: number, y: number, lines: [string, string] }} label
+ */
+
+/**
+ * @typedef {object} RoutedArrow
+ * @property {string} id
+ * @property {string} d
+ * @property {Point[]} points
+ */
+
+/** @typedef {Omit<ArrowConnector, 'sourceGroupIds' | 'targetGroupIds'>} ArrowStyle */
+/** @typedef {typeof DEFAULT_ARROW_LABEL} ArrowLabelDefaults */
+/** @typedef {ReturnType<typeof arrowRouter>} ArrowRouter */
+
+/**
+ * @typedef {object} ArrowPageGroup
+ * @property {number} page
+ * @property {string} label Page number as printed
+ * @property {string[]} wordIds
+ */
+
+/**
+ * @typedef {object} ArrowPage
+ * @property {string} pageId
+ * @property {number} pageNumber
+ * @property {(ArrowStyle & { sources: ArrowPageGroup[], targets: ArrowPageGroup[] })[]} arrows
+ */
+
+/**
+ * Label settings of arrows that leave them unset
+ * @type {{ labelPlacement: ArrowLabelPlacement, labelPosition: number, labelOffset: number, labelFontSize: number, labelBackground: string }}
+ */
+export const DEFAULT_ARROW_LABEL = { labelPlacement: 'pill', labelPosition: 0.5, labelOffset: 0, labelFontSize: 10, labelBackground: '#ffffff' };
+
+// Arrows are routed as orthogonal paths with rounded corners through the gaps between
+// words. Word boxes and the source/target groups are hard obstacles; arrows routed earlier
+// are soft ones, so later arrows pay to cross or run along them. Arrows that join the same
+// two anchors are bundled: they share one route, offset into parallel lanes. An arrow whose
+// groups sit on different pages breaks off into a marker in the page margin on each side.
+// Labels are placed on the routed points, so they follow the path whatever its shape.
+//
+// The one router: the editor uses it through src/utils/arrowRouting.ts, and the exports
+// embed its source in the document. It must stay self-contained for that, so the label
+// defaults come in as an argument.
+/**
+ * @param {ArrowLabelDefaults} labelDefaults
+ */
+export function arrowRouter(labelDefaults) {
+  // Directions of travel on the routing grid; `direction ^ 1` is the opposite one
+  const LEFT = 0;
+  const RIGHT = 1;
+  const UP = 2;
+  const DOWN = 3;
+
+  const PORT_GAP = 4; // Distance between a word box and the arrow end
+  const STUB = 4; // Straight leg out of a port before the first bend
+  const CLEARANCE = 2; // Space kept around words
+  const ROUTE_MARGIN = 30; // How far a route may wander outside its endpoints
+  const LANE_SPACING = 5;
+  const BEND_COST = 30;
+  const CROSS_COST = 30;
+  const OVERLAP_COST = 1; // Per pixel run along another arrow
+  const CONTINUATION_INSET = 28; // From the page edge to a continuation marker
+
+  /**
+   * @typedef {object} Port
+   * @property {Point} point Where the arrow touches the word group
+   * @property {Point} exit Where routing starts, clear of the group
+   * @property {number} direction Way out of the group
+   */
+  /** @typedef {{ a: Point, b: Point }} Segment */
+  /**
+   * @typedef {object} Bundle
+   * @property {Box} source
+   * @property {Box} target
+   * @property {[Side, Side]} sides
+   * @property {[number, number]} slots Where along each edge the bundle meets its groups
+   * @property {number[]} members Indices of the requests routed together
+   */
+
+  /** @param {number} v */
+  const round = (v) => Math.round(v * 10) / 10;
+  /** @param {Box} b */
+  const right = (b) => b.x + b.width;
+  /** @param {Box} b */
+  const bottom = (b) => b.y + b.height;
+  /** @type {(b: Box, by: number) => Box} */
+  const inflate = (b, by) => ({ x: b.x - by, y: b.y - by, width: b.width + by * 2, height: b.height + by * 2 });
+  /** @type {(a: Box, b: Box) => boolean} */
+  const overlaps = (a, b) => a.x < right(b) && b.x < right(a) && a.y < bottom(b) && b.y < bottom(a);
+  /** @type {(b: Box, p: Point) => boolean} */
+  const containsStrictly = (b, p) => p.x > b.x && p.x < right(b) && p.y > b.y && p.y < bottom(b);
+
+  /**
+   * Resolve `auto` anchors: groups on the same line connect below the text, groups on
+   * different lines connect between the lines
+   * @param {Box} source
+   * @param {Box} target
+   * @param {ArrowAnchor} [startAnchor]
+   * @param {ArrowAnchor} [endAnchor]
+   * @returns {[Side, Side]}
+   */
+  function resolveAnchors(
+    source,
+    target,
+    startAnchor = 'auto',
+    endAnchor = 'auto'
+  ) {
+    const sameLine = source.y < bottom(target) && target.y < bottom(source);
+    const targetBelow = target.y >= bottom(source);
+    const autoStart = sameLine || targetBelow ? 'bottom' : 'top';
+    const autoEnd = sameLine || !targetBelow ? 'bottom' : 'top';
+    return [startAnchor === 'auto' ? autoStart : startAnchor, endAnchor === 'auto' ? autoEnd : endAnchor];
+  }
+
+  /**
+   * Where an arrow meets a group. `slot` places it along the edge (0-1) when several
+   * bundles share that edge; otherwise it sits at the centre.
+   * @param {Box} box
+   * @param {Side} side
+   * @returns {Port}
+   */
+  function getPort(box, side, slot = 0.5) {
+    const cx = box.x + box.width * (side === 'middle' ? 0.5 : slot);
+    const cy = box.y + box.height * (side === 'middle' ? 0.5 : slot);
+    // Rounded like the routing grid, so legs out of the port stay straight
+    /** @type {(x: number, y: number) => Point} */
+    const at = (x, y) => ({ x: round(x), y: round(y) });
+    switch (side) {
+      case 'top':
+        return { point: at(cx, box.y - PORT_GAP), exit: at(cx, box.y - PORT_GAP - STUB), direction: UP };
+      case 'left':
+        return { point: at(box.x - PORT_GAP, cy), exit: at(box.x - PORT_GAP - STUB, cy), direction: LEFT };
+      case 'right':
+        return { point: at(right(box) + PORT_GAP, cy), exit: at(right(box) + PORT_GAP + STUB, cy), direction: RIGHT };
+      case 'middle':
+        // Starts inside the group and leaves through its bottom edge
+        return { point: at(cx, cy), exit: at(cx, bottom(box) + PORT_GAP + STUB), direction: DOWN };
+      default:
+        return { point: at(cx, bottom(box) + PORT_GAP), exit: at(cx, bottom(box) + PORT_GAP + STUB), direction: DOWN };
+    }
+  }
+
+  // Minimal binary heap keyed on cost. No class fields: the build lowers them to helpers
+  // outside the router, which the embedded copy would not have.
+  class MinHeap {
+    constructor() {
+      /** @type {{ key: number, value: number }[]} */
+      this.items = [];
+    }
+
+    get size() {
+      return this.items.length;
+    }
+
+    /**
+     * @param {number} key
+     * @param {number} value
+     */
+    push(key, value) {
+      const items = this.items;
+      items.push({ key, value });
+      let i = items.length - 1;
+      while (i > 0) {
+        const parent = (i - 1) >> 1;
+        if (items[parent].key <= items[i].key) break;
+        [items[parent], items[i]] = [items[i], items[parent]];
+        i = parent;
+      }
+    }
+
+    pop() {
+      const items = this.items;
+      const top = items[0].value;
+      const last = items.pop();
+      if (last && items.length > 0) {
+        items[0] = last;
+        let i = 0;
+        for (;;) {
+          const l = i * 2 + 1;
+          const r = l + 1;
+          let smallest = i;
+          if (l < items.length && items[l].key < items[smallest].key) smallest = l;
+          if (r < items.length && items[r].key < items[smallest].key) smallest = r;
+          if (smallest === i) break;
+          [items[smallest], items[i]] = [items[i], items[smallest]];
+          i = smallest;
+        }
+      }
+      return top;
+    }
+  }
+
+  /**
+   * Cost of running along a grid edge given the arrows already routed
+   * @param {Point} a
+   * @param {Point} b
+   * @param {Segment[]} routed
+   */
+  function trafficCost(a, b, routed) {
+    let cost = 0;
+    const horizontal = a.y === b.y;
+    const lo = horizontal ? Math.min(a.x, b.x) : Math.min(a.y, b.y);
+    const hi = horizontal ? Math.max(a.x, b.x) : Math.max(a.y, b.y);
+    const at = horizontal ? a.y : a.x;
+
+    routed.forEach(s => {
+      const sHorizontal = s.a.y === s.b.y;
+      const sLo = sHorizontal ? Math.min(s.a.x, s.b.x) : Math.min(s.a.y, s.b.y);
+      const sHi = sHorizontal ? Math.max(s.a.x, s.b.x) : Math.max(s.a.y, s.b.y);
+      const sAt = sHorizontal ? s.a.y : s.a.x;
+
+      if (sHorizontal === horizontal) {
+        if (Math.abs(sAt - at) < LANE_SPACING / 2) {
+          cost += Math.max(0, Math.min(hi, sHi) - Math.max(lo, sLo)) * OVERLAP_COST;
+        }
+      } else if (sAt > lo && sAt < hi && at > sLo && at < sHi) {
+        cost += CROSS_COST;
+      }
+    });
+    return cost;
+  }
+
+  /**
+   * Shortest orthogonal route between two port exits that avoids the blockers, on a sparse
+   * grid through the blockers' edges and the gaps between them
+   * @param {Port} start
+   * @param {Port} end
+   * @param {Box[]} blockers
+   * @param {Segment[]} routed
+   * @returns {Point[] | null}
+   */
+  function findRoute(start, end, blockers, routed) {
+    const region = inflate({
+      x: Math.min(start.exit.x, end.exit.x),
+      y: Math.min(start.exit.y, end.exit.y),
+      width: Math.abs(start.exit.x - end.exit.x),
+      height: Math.abs(start.exit.y - end.exit.y)
+    }, ROUTE_MARGIN);
+    const inRegion = blockers.filter(b => overlaps(b, region) && !containsStrictly(b, start.exit) && !containsStrictly(b, end.exit));
+
+    /** @type {(values: number[], lo: number, hi: number) => number[]} */
+    const axis = (values, lo, hi) => {
+      const sorted = Array.from(new Set(values.filter(v => v >= lo && v <= hi).map(round)))
+        .sort((a, b) => a - b);
+      // Midlines keep routes centred in the gaps between words and lines
+      const withGaps = sorted.flatMap((v, i) => (i === 0 ? [v] : [round((sorted[i - 1] + v) / 2), v]));
+      return withGaps;
+    };
+
+    /** @param {boolean} horizontal */
+    const laneLines = (horizontal) => routed
+      .filter(s => (s.a.y === s.b.y) === horizontal)
+      .flatMap(s => {
+        const at = horizontal ? s.a.y : s.a.x;
+        return [at - LANE_SPACING, at + LANE_SPACING];
+      });
+
+    const xs = axis([start.exit.x, end.exit.x, region.x, right(region), ...inRegion.flatMap(b => [b.x, right(b)]), ...laneLines(false)], region.x, right(region));
+    const ys = axis([start.exit.y, end.exit.y, region.y, bottom(region), ...inRegion.flatMap(b => [b.y, bottom(b)]), ...laneLines(true)], region.y, bottom(region));
+
+    const ny = ys.length;
+    /** @type {(node: number) => Point} */
+    const pointOf = (node) => ({ x: xs[Math.floor(node / ny)], y: ys[node % ny] });
+    /** @param {Point} p */
+    const isFree = (p) => !inRegion.some(b => containsStrictly(b, p));
+    const free = Array.from({ length: xs.length * ny }, (_, node) => isFree(pointOf(node)));
+    /** @param {Point} p */
+    const find = (p) => {
+      const i = xs.indexOf(round(p.x));
+      const j = ys.indexOf(round(p.y));
+      return i === -1 || j === -1 ? -1 : i * ny + j;
+    };
+
+    const startNode = find(start.exit);
+    const endNode = find(end.exit);
+    if (startNode === -1 || endNode === -1) return null;
+
+    // Search states are grid nodes paired with the direction they were entered in. Routes
+    // leave the start port outwards and never come into the end port from the group's side.
+    /** @type {(node: number, direction: number) => number} */
+    const state = (node, direction) => node * 4 + direction;
+    const arrival = end.direction ^ 1; // Straight into the end port, without a last bend
+    /** @type {Map<number, number>} */
+    const cost = new Map();
+    const closed = new Set();
+    /** @type {Map<number, number>} */
+    const previous = new Map();
+    const heap = new MinHeap();
+    const endPoint = pointOf(endNode);
+    /** @param {Point} p */
+    const heuristic = (p) => Math.abs(p.x - endPoint.x) + Math.abs(p.y - endPoint.y);
+
+    const startState = state(startNode, start.direction);
+    cost.set(startState, 0);
+    heap.push(heuristic(pointOf(startNode)), startState);
+
+    let reached = -1;
+    while (heap.size > 0) {
+      const current = heap.pop();
+      if (closed.has(current)) continue;
+      closed.add(current);
+
+      const node = current >> 2;
+      const direction = current & 3;
+      if (node === endNode && direction !== end.direction) {
+        reached = current;
+        break;
+      }
+
+      const i = Math.floor(node / ny);
+      const j = node % ny;
+      const here = pointOf(node);
+      const neighbours = [[i - 1, j, LEFT], [i + 1, j, RIGHT], [i, j - 1, UP], [i, j + 1, DOWN]];
+
+      neighbours.forEach(([ni, nj, step]) => {
+        if (step === (direction ^ 1)) return; // No doubling back
+        if (ni < 0 || ni >= xs.length || nj < 0 || nj >= ny) return;
+        const next = ni * ny + nj;
+        const there = pointOf(next);
+        if (!free[next] || !isFree({ x: (here.x + there.x) / 2, y: (here.y + there.y) / 2 })) return;
+
+        let stepCost = Math.abs(there.x - here.x) + Math.abs(there.y - here.y) + trafficCost(here, there, routed);
+        if (step !== direction) stepCost += BEND_COST;
+        if (next === endNode && step !== arrival) stepCost += BEND_COST;
+
+        const nextState = state(next, step);
+        const total = (cost.get(current) ?? 0) + stepCost;
+        if (total < (cost.get(nextState) ?? Infinity)) {
+          cost.set(nextState, total);
+          previous.set(nextState, current);
+          heap.push(total + heuristic(there), nextState);
+        }
+      });
+    }
+
+    if (reached === -1) return null;
+
+    /** @type {Point[]} */
+    const path = [];
+    for (let s = /** @type {number | undefined} */ (reached); s !== undefined; s = previous.get(s)) {
+      path.unshift(pointOf(s >> 2));
+    }
+    return path;
+  }
+
+  /**
+   * Drop repeated points and points in the middle of straight runs
+   * @param {Point[]} points
+   */
+  function simplify(points) {
+    const unique = points.filter((p, i) => i === 0 || p.x !== points[i - 1].x || p.y !== points[i - 1].y);
+    return unique.filter((p, i) => {
+      if (i === 0 || i === unique.length - 1) return true;
+      const prev = unique[i - 1];
+      const next = unique[i + 1];
+      return !((prev.x === p.x && p.x === next.x) || (prev.y === p.y && p.y === next.y));
+    });
+  }
+
+  /**
+   * Shift an orthogonal route sideways into a parallel lane
+   * @param {Point[]} points
+   * @param {number} offset
+   */
+  function offsetRoute(points, offset) {
+    if (offset === 0 || points.length < 2) return points;
+    /** @param {number} i */
+    const horizontal = (i) => points[i].y === points[i + 1].y;
+    const last = points.length - 1;
+
+    // Horizontal segments move down, vertical ones right; corners move both ways
+    return points.map((p, i) => {
+      const adjoining = [...(i > 0 ? [horizontal(i - 1)] : []), ...(i < last ? [horizontal(i)] : [])];
+      return {
+        x: adjoining.some(h => !h) ? p.x + offset : p.x,
+        y: adjoining.some(h => h) ? p.y + offset : p.y
+      };
+    });
+  }
+
+  /**
+   * SVG path through the route's points with rounded corners
+   * @param {Point[]} points
+   * @param {number} radius
+   */
+  function toRoundedPath(points, radius) {
+    /** @param {Point} p */
+    const fmt = (p) => `${round(p.x)} ${round(p.y)}`;
+    /** @type {(a: Point, b: Point) => number} */
+    const distance = (a, b) => Math.hypot(b.x - a.x, b.y - a.y);
+    /** @type {(from: Point, to: Point, by: number) => Point} */
+    const toward = (from, to, by) => {
+      const length = distance(from, to) || 1;
+      return { x: from.x + ((to.x - from.x) * by) / length, y: from.y + ((to.y - from.y) * by) / length };
+    };
+
+    let d = `M ${fmt(points[0])}`;
+    for (let i = 1; i < points.length - 1; i++) {
+      const [prev, corner, next] = [points[i - 1], points[i], points[i + 1]];
+      const r = Math.min(radius, distance(prev, corner) / 2, distance(corner, next) / 2);
+      d += ` L ${fmt(toward(corner, prev, r))} Q ${fmt(corner)} ${fmt(toward(corner, next, r))}`;
+    }
+    return `${d} L ${fmt(points[points.length - 1])}`;
+  }
+
+  /**
+   * Curve below both ports, used when no clear route exists
+   * @param {Point} start
+   * @param {Point} end
+   * @param {number} curvature
+   */
+  function fallbackPath(start, end, curvature) {
+    const distance = Math.hypot(end.x - start.x, end.y - start.y);
+    const depth = Math.abs(end.x - start.x) < 20 ? 30 : Math.min(80, Math.max(20, distance * 0.2)) * curvature;
+    const cpY = Math.max(start.y, end.y) + depth;
+    const cp1X = start.x + (end.x - start.x) * 0.2;
+    const cp2X = end.x - (end.x - start.x) * 0.2;
+    return `M ${start.x} ${start.y} C ${cp1X} ${cpY}, ${cp2X} ${cpY}, ${end.x} ${end.y}`;
+  }
+
+  // Offsets tried for the extra lanes of a bundle: +1, -1, +2, -2... lane widths
+  const LANE_OFFSETS = [1, -1, 2, -2, 3, -3, 4, -4].map(n => n * LANE_SPACING);
+
+  /** @param {Box} b */
+  const boxKey = (b) => [b.x, b.y, b.width, b.height].map(Math.round).join(',');
+  /** @type {(b: Box) => Point} */
+  const centre = (b) => ({ x: b.x + b.width / 2, y: b.y + b.height / 2 });
+
+  /**
+   * A lane is usable if it keeps every leg's direction, ends on the groups' edges and
+   * passes no words other than the groups it joins
+   * @param {Point[]} lane
+   * @param {Point[]} route
+   * @param {Box} source
+   * @param {Box} target
+   * @param {Box[]} words
+   */
+  function isClearLane(lane, route, source, target, words) {
+    const sameDirection = lane.slice(1).every((p, i) => {
+      const [a, b, c, d] = [lane[i], p, route[i], route[i + 1]];
+      return Math.sign(b.x - a.x) === Math.sign(d.x - c.x) && Math.sign(b.y - a.y) === Math.sign(d.y - c.y);
+    });
+    /** @type {(p: Point, box: Box) => boolean} */
+    const onEdge = (p, box) => {
+      const outer = inflate(box, PORT_GAP + STUB);
+      return p.x >= outer.x && p.x <= right(outer) && p.y >= outer.y && p.y <= bottom(outer);
+    };
+    /** @param {Box} box */
+    const crosses = (box) => lane.slice(1).some((p, i) => overlaps(box, {
+      x: Math.min(lane[i].x, p.x),
+      y: Math.min(lane[i].y, p.y),
+      width: Math.abs(p.x - lane[i].x) || 0.01,
+      height: Math.abs(p.y - lane[i].y) || 0.01
+    }));
+
+    return sameDirection
+      && onEdge(lane[0], source)
+      && onEdge(lane[lane.length - 1], target)
+      && !words.some(w => !overlaps(w, source) && !overlaps(w, target) && crosses(w));
+  }
+
+  /**
+   * Route arrows around the word boxes and each other. Results are in request order.
+   * @param {ArrowRouteRequest[]} requests
+   * @param {Box[]} obstacles
+   */
+  function routeArrows(requests, obstacles) {
+    /** @type {RoutedArrow[]} */
+    const results = new Array(requests.length);
+    /** @type {Segment[]} */
+    const routed = [];
+
+    // Arrows joining the same two groups at the same sides are bundled
+    /** @type {Map<string, Bundle>} */
+    const bundles = new Map();
+    requests.forEach((request, index) => {
+      const sides = resolveAnchors(request.source, request.target, request.startAnchor, request.endAnchor);
+      const key = [boxKey(request.source), sides[0], boxKey(request.target), sides[1]].join('|');
+      const bundle = bundles.get(key);
+      if (bundle) bundle.members.push(index);
+      else bundles.set(key, { source: request.source, target: request.target, sides, slots: [0.5, 0.5], members: [index] });
+    });
+
+    // Bundles meeting the same group edge spread out along it, ordered by where they head,
+    // so they leave side by side instead of on top of each other
+    /** @type {Map<string, { bundle: Bundle, end: number, toward: Point }[]>} */
+    const edges = new Map();
+    bundles.forEach(bundle => {
+      ([0, 1]).forEach(end => {
+        const [box, other] = end === 0 ? [bundle.source, bundle.target] : [bundle.target, bundle.source];
+        if (bundle.sides[end] === 'middle') return;
+        const key = `${boxKey(box)}|${bundle.sides[end]}`;
+        edges.set(key, [...(edges.get(key) || []), { bundle, end, toward: centre(other) }]);
+      });
+    });
+    edges.forEach(users => {
+      if (users.length < 2) return;
+      const horizontalEdge = ['top', 'bottom'].includes(users[0].bundle.sides[users[0].end]);
+      users
+        .sort((a, b) => (horizontalEdge ? a.toward.x - b.toward.x : a.toward.y - b.toward.y))
+        .forEach((user, i) => { user.bundle.slots[user.end] = (i + 1) / (users.length + 1); });
+    });
+
+    const planned = Array.from(bundles.values()).map(bundle => {
+      const start = getPort(bundle.source, bundle.sides[0], bundle.slots[0]);
+      const end = getPort(bundle.target, bundle.sides[1], bundle.slots[1]);
+      const length = Math.abs(start.point.x - end.point.x) + Math.abs(start.point.y - end.point.y);
+      return { bundle, start, end, length };
+    });
+
+    // Short arrows first, so longer ones route around them instead of through them
+    planned.sort((a, b) => a.length - b.length || a.bundle.members[0] - b.bundle.members[0]);
+
+    planned.forEach(({ bundle, start, end }) => {
+      const blockers = [...obstacles, bundle.source, bundle.target].map(b => inflate(b, CLEARANCE));
+      const findPoints = () => {
+        const route = findRoute(start, end, blockers, routed);
+        return route && simplify([start.point, ...route, end.point]);
+      };
+      const route = findPoints();
+      const offsets = [...LANE_OFFSETS];
+
+      bundle.members.forEach((index, lane) => {
+        const request = requests[index];
+        let points = route;
+        if (route && lane > 0) {
+          // Extra arrows take the nearest clear lane beside the first, or a route of their own
+          const offset = offsets.find(o => isClearLane(offsetRoute(route, o), route, bundle.source, bundle.target, obstacles));
+          if (offset !== undefined) offsets.splice(offsets.indexOf(offset), 1);
+          points = offset !== undefined ? offsetRoute(route, offset) : findPoints();
+        }
+
+        if (!points) {
+          results[index] = { id: request.id, d: fallbackPath(start.point, end.point, request.curvature), points: [start.point, end.point] };
+          return;
+        }
+
+        points.slice(1).forEach((p, i) => routed.push({ a: points[i], b: p }));
+        results[index] = { id: request.id, d: toRoundedPath(points, 6 + 12 * Math.max(0, request.curvature)), points };
+      });
+    });
+
+    return results;
+  }
+
+  /**
+   * Break-off end for an arrow whose other group is on another page: a marker in the side
+   * margin level with the group, labelled with the other page's number as printed.
+   * `outgoing` is true on the source group's page.
+   * @param {Box} page
+   * @param {Box} group
+   * @param {string} otherPageLabel
+   * @param {boolean} otherPageIsLater
+   * @param {boolean} outgoing
+   * @returns {Continuation}
+   */
+  function getContinuation(page, group, otherPageLabel, otherPageIsLater, outgoing) {
+    const x = otherPageIsLater ? right(page) - CONTINUATION_INSET : page.x + CONTINUATION_INSET;
+    const y = group.y + group.height / 2;
+    return {
+      end: { x: x - 1, y: y - 1, width: 2, height: 2 },
+      side: otherPageIsLater ? 'left' : 'right',
+      label: { x, y: y + 12, lines: [outgoing ? 'continues on' : 'continued from', `p. ${otherPageLabel}`] }
+    };
+  }
+
+  /**
+   * Where an arrow's label sits: at `position` (0-1) along the route, moved `offset` px away
+   * from it. Labels along the path take the angle of the segment they sit on; pills stay level.
+   * @param {Point[]} points
+   * @param {ArrowStyle} arrow
+   * @returns {LabelPlacement}
+   */
+  function placeLabel(points, arrow) {
+    const { labelPlacement, labelPosition, labelOffset, labelFontSize } = { ...labelDefaults, ...arrow };
+    const lengths = points.slice(1).map((p, i) => Math.hypot(p.x - points[i].x, p.y - points[i].y));
+    let remaining = Math.min(1, Math.max(0, labelPosition)) * lengths.reduce((sum, l) => sum + l, 0);
+
+    let i = 0;
+    while (i < lengths.length - 1 && remaining > lengths[i]) remaining -= lengths[i++];
+    const from = points[i];
+    const to = points[Math.min(i + 1, points.length - 1)];
+    const t = lengths[i] ? remaining / lengths[i] : 0;
+
+    // Keep the text upright, and the offset on the side above it
+    let angle = (Math.atan2(to.y - from.y, to.x - from.x) * 180) / Math.PI;
+    if (angle > 90) angle -= 180;
+    if (angle <= -90) angle += 180;
+    const radians = (angle * Math.PI) / 180;
+
+    return {
+      x: round(from.x + (to.x - from.x) * t + Math.sin(radians) * labelOffset),
+      y: round(from.y + (to.y - from.y) * t - Math.cos(radians) * labelOffset),
+      angle: labelPlacement === 'path' ? round(angle) : 0,
+      width: round((arrow.label || '').length * labelFontSize * 0.55 + 8),
+      height: round(labelFontSize + 4)
+    };
+  }
+
+  return { resolveAnchors, routeArrows, getContinuation, placeLabel, toRoundedPath, labelDefaults };
+}
+
+// Runs in the exported page: measures the words around each page's arrow layer, routes that
+// page's arrows and draws them with the editor's arrowheads, one <g data-arrow-id> per route.
+// Arrows to another page end in a continuation marker. Self-contained like arrowRouter.
+/**
+ * @param {ArrowPage[]} arrowPages
+ * @param {ArrowRouter} router
+ */
+export function drawArrows(arrowPages, { routeArrows, getContinuation, placeLabel, labelDefaults }) {
+  /** @type {Record<string, string>} */
+  const DASHES = { dashed: '8,4', dotted: '2,4' };
+  /** @type {Record<string, ((color: string) => string) | undefined>} */
+  const HEADS = {
+    arrow: (color) => `<polygon points="0 0, 10 3.5, 0 7" fill="${color}" />`,
+    dot: (color) => `<circle cx="5" cy="3.5" r="3" fill="${color}" />`,
+    diamond: (color) => `<polygon points="0 3.5, 5 0, 10 3.5, 5 7" fill="${color}" />`
+  };
+  /** @param {string} text */
+  const escape = (text) => text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+  // A pill with a background, or text along the path with the background as a halo
+  /** @type {(arrow: ArrowStyle, points: Point[]) => string} */
+  const drawLabel = (arrow, points) => {
+    const style = { ...labelDefaults, ...arrow };
+    const label = placeLabel(points, arrow);
+    const hasBackground = style.labelBackground !== 'transparent';
+    const pill = style.labelPlacement === 'pill' && hasBackground
+      ? `<rect x="${label.x - label.width / 2}" y="${label.y - label.height / 2}" width="${label.width}" height="${label.height}"
+          rx="${label.height / 2}" fill="${style.labelBackground}" stroke="${arrow.color}" stroke-width="0.75" />`
+      : '';
+    const halo = style.labelPlacement === 'path' && hasBackground
+      ? `stroke="${style.labelBackground}" stroke-width="3" paint-order="stroke"`
+      : '';
+    return `<g transform="rotate(${label.angle} ${label.x} ${label.y})">${pill}<text x="${label.x}" y="${label.y}"
+      text-anchor="middle" dominant-baseline="central" font-size="${style.labelFontSize}" fill="${arrow.color}" ${halo}>${escape(arrow.label || '')}</text></g>`;
+  };
+
+  arrowPages.forEach(({ pageId, pageNumber, arrows }) => {
+    const layer = document.querySelector(`[data-page-id="${pageId}"] .arrow-layer`);
+    if (!layer) return;
+
+    const origin = layer.getBoundingClientRect();
+    /** @type {(rect: DOMRect) => Box} */
+    const toBox = (rect) => ({ x: rect.left - origin.left, y: rect.top - origin.top, width: rect.width, height: rect.height });
+    const words = Array.from(/** @type {HTMLElement} */ (layer.parentElement).querySelectorAll('[data-word-id]'))
+      .map(el => ({ id: el.getAttribute('data-word-id') || '', box: toBox(el.getBoundingClientRect()) }));
+
+    /** @type {(wordIds: string[]) => Box | null} */
+    const groupBox = (wordIds) => {
+      const boxes = words.filter(w => wordIds.includes(w.id)).map(w => w.box);
+      if (boxes.length === 0) return null;
+      const x = Math.min(...boxes.map(b => b.x));
+      const y = Math.min(...boxes.map(b => b.y));
+      return {
+        x,
+        y,
+        width: Math.max(...boxes.map(b => b.x + b.width)) - x,
+        height: Math.max(...boxes.map(b => b.y + b.height)) - y
+      };
+    };
+
+    const pageBox = { x: 0, y: 0, width: origin.width, height: origin.height };
+    /** @type {ArrowRouteRequest[]} */
+    const requests = [];
+    /** @type {{ arrow: ArrowPage['arrows'][number], continuation?: Continuation['label'] }[]} */
+    const owners = [];
+    arrows.forEach(arrow => {
+      const base = { id: arrow.id, startAnchor: arrow.startAnchor, endAnchor: arrow.endAnchor, curvature: arrow.curvature ?? 0.5 };
+      arrow.sources.forEach(source => arrow.targets.forEach(target => {
+        if (source.page !== pageNumber && target.page !== pageNumber) return;
+        const sourceBox = source.page === pageNumber ? groupBox(source.wordIds) : null;
+        const targetBox = target.page === pageNumber ? groupBox(target.wordIds) : null;
+
+        if (source.page === target.page) {
+          if (!sourceBox || !targetBox) return;
+          requests.push({ ...base, source: sourceBox, target: targetBox });
+          owners.push({ arrow });
+        } else if (sourceBox) {
+          const out = getContinuation(pageBox, sourceBox, target.label, target.page > pageNumber, true);
+          requests.push({ ...base, source: sourceBox, target: out.end, endAnchor: out.side });
+          owners.push({ arrow, continuation: out.label });
+        } else if (targetBox) {
+          const into = getContinuation(pageBox, targetBox, source.label, source.page > pageNumber, false);
+          requests.push({ ...base, source: into.end, target: targetBox, startAnchor: into.side });
+          owners.push({ arrow, continuation: into.label });
+        }
+      }));
+    });
+
+    const labelled = new Set();
+    layer.innerHTML = routeArrows(requests, words.map(w => w.box)).map((route, i) => {
+      const { arrow, continuation } = owners[i];
+      const showLabel = !!arrow.label && !labelled.has(arrow.id);
+      if (showLabel) labelled.add(arrow.id);
+      const head = HEADS[arrow.headStyle];
+      const marker = head
+        ? `<marker id="arrowhead-${pageId}-${i}" markerWidth="10" markerHeight="7" refX="9" refY="3.5" orient="auto">${head(arrow.color)}</marker>`
+        : '';
+      return `<g data-arrow-id="${arrow.id}">${marker}<path d="${route.d}" stroke="${arrow.color}" stroke-width="${arrow.strokeWidth || 2}" fill="none"
+        ${DASHES[arrow.style] ? `stroke-dasharray="${DASHES[arrow.style]}"` : ''}
+        ${head ? `marker-end="url(#arrowhead-${pageId}-${i})"` : ''} />${continuation
+        ? `<text x="${continuation.x}" y="${continuation.y}" text-anchor="middle" font-size="8" font-style="italic" fill="${arrow.color}">${continuation.lines
+          .map((line, n) => `<tspan x="${continuation.x}" dy="${n === 0 ? 0 : 9}">${line}</tspan>`).join('')}</text>`
+        : ''}${showLabel ? drawLabel(arrow, route.points) : ''}</g>`;
+    }).join('');
+  });
+}
+
+/**
+ * Arrows with a source or target group on the page, each group with its page number, page
+ * label and word IDs so that arrows to other pages can be drawn as continuations
+ * @param {{ wordGroups?: WordGroup[], arrows?: ArrowConnector[] }} project
+ * @param {PageData[]} pages
+ * @param {number} pageIndex
+ * @param {string[]} pageLabels
+ * @returns {ArrowPage['arrows']}
+ */
+function getPageArrows(project, pages, pageIndex, pageLabels) {
+  /** @type {Map<string, number>} */
+  const pageNumberByLine = new Map();
+  pages.forEach((page, i) => (page.lines || []).forEach(line => pageNumberByLine.set(line.id, i + 1)));
+  /** @type {Map<string, ArrowPageGroup>} */
+  const groups = new Map();
+  (project.wordGroups || []).forEach(g => {
+    const page = pageNumberByLine.get(g.lineId);
+    if (page !== undefined) groups.set(g.id, { page, label: pageLabels[page - 1], wordIds: g.wordIds });
+  });
+  /** @param {ArrowPageGroup} group */
+  const onPage = (group) => group.page === pageIndex + 1;
+
+  return (project.arrows || [])
+    .map(arrow => ({
+      id: arrow.id,
+      color: arrow.color,
+      style: arrow.style,
+      strokeWidth: arrow.strokeWidth,
+      headStyle: arrow.headStyle,
+      curvature: arrow.curvature,
+      startAnchor: arrow.startAnchor,
+      endAnchor: arrow.endAnchor,
+      label: arrow.label,
+      labelPlacement: arrow.labelPlacement,
+      labelPosition: arrow.labelPosition,
+      labelOffset: arrow.labelOffset,
+      labelFontSize: arrow.labelFontSize,
+      labelBackground: arrow.labelBackground,
+      sources: (arrow.sourceGroupIds || []).flatMap(id => groups.get(id) ?? []),
+      targets: (arrow.targetGroupIds || []).flatMap(id => groups.get(id) ?? [])
+    }))
+    .filter(arrow => arrow.sources.length > 0 && arrow.targets.length > 0)
+    .filter(arrow => arrow.sources.some(onPage) || arrow.targets.some(onPage));
+}
+
+/**
+ * Arrow data for each body page with arrows on it, as passed to drawArrows
+ * @param {{ wordGroups?: WordGroup[], arrows?: ArrowConnector[], bookStructure?: BookStructure }} project
+ * @param {PageData[]} pages
+ * @returns {ArrowPage[]}
+ */
+export function getArrowPages(project, pages) {
+  // Unnumbered pages still have a number to point readers to
+  const pageLabels = getBodyPageLabels(pages, project.bookStructure).map(l => l.label || String(l.value));
+  return pages
+    .map((page, pageIndex) => ({ pageId: page.id, pageNumber: pageIndex + 1, arrows: getPageArrows(project, pages, pageIndex, pageLabels) }))
+    .filter(page => page.arrows.length > 0);
+}
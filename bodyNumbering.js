@@ -0,0 +1,104 @@
+// ─────────────────────────────────────────────────────────────────
+// BODY NUMBERING
+// Line numbers and footnote numbers of the body pages, shared by the
+// editor, the exports and the print document behind the PDF so they all
+// print the same numbers.
+// ─────────────────────────────────────────────────────────────────
+
+/** @typedef {import('./src/types').Footnote} Footnote */
+/** @typedef {import('./src/types').LineData} LineData */
+/** @typedef {import('./src/types').PageData} PageData */
+/** @typedef {import('./src/types').TypographySettings} TypographySettings */
+/** @typedef {import('./src/types').WordData} WordData */
+
+/** @param {LineData} line */
+const isContentBlock = (line) => !!line.contentData && line.contentData.type !== 'text';
+
+/** @type {(line: LineData, language: 'french' | 'english') => WordData[]} */
+const wordsOf = (line, language) => (language === 'french' ? line.frenchWords : line.englishWords) || [];
+
+/**
+ * Display line numbers. Numbering runs on across the pages of a chapter and restarts at
+ * each chapter (or at `lineNumberingStart`); pages outside chapters keep their own numbers.
+ * @param {PageData[]} pages
+ * @returns {Map<string, number>}
+ */
+export function getDisplayLineNumbers(pages) {
+  /** @type {Map<string, number>} */
+  const numbers = new Map();
+  /** @type {string | undefined} */
+  let chapterId;
+  let next = 1;
+
+  pages.forEach(page => {
+    if (page.chapterId !== chapterId) {
+      chapterId = page.chapterId;
+      next = 1;
+    }
+    if (page.lineNumberingStart !== undefined) {
+      next = page.lineNumberingStart;
+    }
+
+    page.lines.forEach(line => {
+      if (!chapterId && page.lineNumberingStart === undefined) {
+        numbers.set(line.id, line.lineNumber);
+        return;
+      }
+      if (isContentBlock(line)) return;
+      numbers.set(line.id, next++);
+    });
+  });
+
+  return numbers;
+}
+
+// Position of the anchor word within its line (French words first), or -1 if it is gone
+/**
+ * @param {LineData} line
+ * @param {string} wordId
+ * @returns {number}
+ */
+function wordPosition(line, wordId) {
+  const french = wordsOf(line, 'french');
+  const frenchIndex = french.findIndex(w => w.id === wordId);
+  if (frenchIndex !== -1) return frenchIndex;
+  const englishIndex = wordsOf(line, 'english').findIndex(w => w.id === wordId);
+  return englishIndex === -1 ? -1 : french.length + englishIndex;
+}
+
+/**
+ * Number footnotes in reading order, restarting on every page or at every chapter.
+ * Footnotes whose word no longer exists are left out.
+ * @param {PageData[]} pages
+ * @param {Footnote[]} footnotes
+ * @param {NonNullable<TypographySettings['footnoteNumbering']>} [numbering]
+ * @returns {Footnote[]}
+ */
+export function numberFootnotes(pages, footnotes, numbering = 'page') {
+  if (footnotes.length === 0) return [];
+
+  /** @type {Map<string, Footnote[]>} */
+  const byLine = new Map();
+  footnotes.forEach(f => byLine.set(f.lineId, [...(byLine.get(f.lineId) || []), f]));
+
+  /** @type {Footnote[]} */
+  const numbered = [];
+  let counter = 0;
+  /** @type {string | undefined} */
+  let chapterId;
+
+  pages.forEach((page, pageIndex) => {
+    if (numbering === 'page' || pageIndex === 0 || page.chapterId !== chapterId) counter = 0;
+    chapterId = page.chapterId;
+
+    page.lines.forEach(line => {
+      (byLine.get(line.id) || [])
+        .map(f => ({ footnote: f, position: wordPosition(line, f.wordId) }))
+        .filter(({ position }) => position !== -1)
+        .sort((a, b) => a.position - b.position)
+        .forEach(({ footnote }) => numbered.push({ ...footnote, number: ++counter, pageId: page.id }));
+    });
+  });
+
+  return numbered;
+}
@@ -0,0 +1,350 @@
+// ─────────────────────────────────────────────────────────────────
+// BOOK MATTER
+// Generated front matter (title, copyright, dedication, preface and
+// contents pages) and back matter (glossary and word index). The editor,
+// the exports and the print document behind the PDF all lay them out
+// from here, so they agree on pages, entries and page references.
+// ─────────────────────────────────────────────────────────────────
+
+import { getBodyPageLabels } from './pageNumbering.js';
+import { getContentArea, parseToPixels } from './pageGeometry.js';
+
+/** @typedef {import('./src/types').BackMatter} BackMatter */
+/** @typedef {import('./src/types').BookStructure} BookStructure */
+/** @typedef {import('./src/types').FrontMatter} FrontMatter */
+/** @typedef {import('./src/types').LineData} LineData */
+/** @typedef {import('./src/types').LinkedPair} LinkedPair */
+/** @typedef {import('./src/types').PageData} PageData */
+/** @typedef {import('./src/types').ProjectMetadata} ProjectMetadata */
+/** @typedef {import('./src/types').ThemeConfig} ThemeConfig */
+/** @typedef {import('./src/types').WordData} WordData */
+/** @typedef {import('./src/types').WordGroup} WordGroup */
+/** @typedef {import('./pageNumbering.js').PageLabel} PageLabel */
+
+/** @typedef {'title' | 'copyright' | 'dedication' | 'preface' | 'toc' | 'blank'} FrontMatterPageKind */
+
+/**
+ * @typedef {object} FrontMatterPage
+ * @property {string} id
+ * @property {FrontMatterPageKind} kind
+ */
+
+/**
+ * @typedef {object} TocEntry
+ * @property {string} chapterId
+ * @property {string} title
+ * @property {number} pageNumber Position of the chapter's first page in the body
+ * @property {string} label Printed page number, from the numbering sections
+ */
+
+/**
+ * @typedef {object} GlossaryEntry
+ * @property {string} key Lemma used for deduplication
+ * @property {string} french
+ * @property {string[]} english
+ * @property {string[]} lineIds
+ */
+
+/** @typedef {'glossary' | 'index'} BackMatterPageKind */
+
+/**
+ * @typedef {object} BackMatterPage
+ * @property {string} id
+ * @property {BackMatterPageKind} kind
+ * @property {GlossaryEntry[]} entries
+ * @property {boolean} continued Not the first page of its section
+ */
+
+// Blank pages inserted so a chapter opens on a recto page
+/** @param {PageData} page */
+const isPaddingPage = (page) => !!page.isBlank && page.lines.length === 0;
+
+/** @type {(line: LineData, language: 'french' | 'english') => WordData[]} */
+const wordsOf = (line, language) => (language === 'french' ? line.frenchWords : line.englishWords) || [];
+
+// ─────────────────────────────────────────────────────────────────
+// FRONT MATTER - Generated from the project metadata and chapter list at
+// render time, so it never goes stale and stays out of the page body
+// ─────────────────────────────────────────────────────────────────
+
+/**
+ * Generated pages in book order, padded so the body opens on a recto
+ * @param {FrontMatter} [frontMatter]
+ * @returns {FrontMatterPage[]}
+ */
+export function getFrontMatterPages(frontMatter) {
+  if (!frontMatter) return [];
+
+  /** @type {FrontMatterPageKind[]} */
+  const kinds = [];
+  if (frontMatter.titlePage) kinds.push('title');
+  if (frontMatter.copyrightPage) kinds.push('copyright');
+  if (frontMatter.dedication?.trim()) kinds.push('dedication');
+  if (frontMatter.preface?.trim()) kinds.push('preface');
+  if (frontMatter.tableOfContents) kinds.push('toc');
+  if (kinds.length % 2 === 1) kinds.push('blank');
+
+  return kinds.map(kind => ({ id: `front-${kind}`, kind }));
+}
+
+/**
+ * Table of contents from the current page order, so page numbers follow every reflow
+ * @param {PageData[]} pages
+ * @param {BookStructure} [bookStructure]
+ * @returns {TocEntry[]}
+ */
+export function buildTableOfContents(pages, bookStructure) {
+  const labels = getBodyPageLabels(pages, bookStructure);
+  /** @type {TocEntry[]} */
+  const entries = [];
+  (bookStructure?.chapters || []).forEach(chapter => {
+    const index = pages.findIndex(p => p.chapterId === chapter.id && !isPaddingPage(p));
+    if (index !== -1) {
+      entries.push({ chapterId: chapter.id, title: chapter.title, pageNumber: index + 1, label: labels[index].label });
+    }
+  });
+  return entries.sort((a, b) => a.pageNumber - b.pageNumber);
+}
+
+/**
+ * @param {ProjectMetadata} metadata
+ * @returns {string[]}
+ */
+export function getCopyrightLines(metadata) {
+  const year = metadata.year || new Date().getFullYear();
+  const lines = [`© ${year}${metadata.author ? ` ${metadata.author}` : ''}`, 'All rights reserved.'];
+  if (metadata.publisher) lines.push(`Published by ${metadata.publisher}`);
+  if (metadata.isbn) lines.push(`ISBN ${metadata.isbn}`);
+  return lines;
+}
+
+/**
+ * @param {string} text
+ * @returns {string[]}
+ */
+export function splitParagraphs(text) {
+  return text.split(/\n\s*\n/).map(p => p.trim()).filter(Boolean);
+}
+
+// ─────────────────────────────────────────────────────────────────
+// BACK MATTER - Generated from the annotations at render time. Entries keep
+// the lines they come from, and page numbers are looked up from the current
+// page order, so references follow every reflow.
+// ─────────────────────────────────────────────────────────────────
+
+const ELISION = /^(?:l|d|j|m|n|s|t|c|qu|jusqu|lorsqu|puisqu)'/;
+const LEADING_ARTICLE = /^(?:le|la|les|un|une|des|du|de la)\s+/;
+
+/** @param {string} text */
+const normalizeApostrophes = (text) => text.normalize('NFC').replace(/[’‘`]/g, "'");
+
+/**
+ * Headword without a leading article or elided determiner ("l'arbre" → "arbre")
+ * @param {string} term
+ * @returns {string}
+ */
+export function toHeadword(term) {
+  const trimmed = normalizeApostrophes(term).trim();
+  const lower = trimmed.toLowerCase();
+  const elided = lower.match(ELISION);
+  if (elided && trimmed.length > elided[0].length) return trimmed.slice(elided[0].length);
+  const article = lower.match(LEADING_ARTICLE);
+  if (article && trimmed.length > article[0].length) return trimmed.slice(article[0].length);
+  return trimmed;
+}
+
+/**
+ * Deduplication key: case-insensitive headword
+ * @param {string} term
+ * @returns {string}
+ */
+export function lemmaKey(term) {
+  return toHeadword(term).toLowerCase().replace(/\s+/g, ' ');
+}
+
+// Accents are secondary differences and ligatures expand (œ = oe, æ = ae), as in French dictionaries
+/** @param {string} text */
+const foldForSort = (text) =>
+  text.toLowerCase()
+    .replace(/œ/g, 'oe')
+    .replace(/æ/g, 'ae')
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '');
+
+const frenchCollator = new Intl.Collator('fr', { sensitivity: 'variant', numeric: true });
+
+/**
+ * @param {string} a
+ * @param {string} b
+ * @returns {number}
+ */
+export function compareFrench(a, b) {
+  return frenchCollator.compare(foldForSort(a), foldForSort(b)) || frenchCollator.compare(a, b);
+}
+
+/**
+ * Letter an entry is filed under in the index
+ * @param {string} term
+ * @returns {string}
+ */
+export function indexLetter(term) {
+  return foldForSort(term).charAt(0).toUpperCase();
+}
+
+/**
+ * Collect glossary entries from vocabulary/custom word groups and linked word pairs
+ * @param {PageData[]} pages
+ * @param {WordGroup[]} wordGroups
+ * @param {LinkedPair[]} linkedPairs
+ * @returns {GlossaryEntry[]}
+ */
+export function collectGlossaryEntries(pages, wordGroups, linkedPairs) {
+  /** @type {Map<string, { text: string, index: number }>} */
+  const wordText = new Map();
+  pages.forEach(page => page.lines.forEach(line => {
+    /** @type {const} */ (['french', 'english']).forEach(language => {
+      wordsOf(line, language).forEach(w => wordText.set(w.id, { text: w.text, index: w.index }));
+    });
+  }));
+
+  /** @param {string[]} ids */
+  const textOf = (ids) => ids
+    .flatMap(id => wordText.get(id) ?? [])
+    .sort((a, b) => a.index - b.index)
+    .map(w => w.text)
+    .join(' ');
+
+  /** @type {Map<string, GlossaryEntry>} */
+  const entries = new Map();
+  /** @type {(french: string, english: string, lineId: string) => void} */
+  const add = (french, english, lineId) => {
+    const key = lemmaKey(french);
+    if (!key) return;
+    const entry = entries.get(key) || { key, french: toHeadword(french), english: [], lineIds: [] };
+    if (english && !entry.english.some(e => e.toLowerCase() === english.toLowerCase())) {
+      entry.english.push(english);
+    }
+    if (!entry.lineIds.includes(lineId)) entry.lineIds.push(lineId);
+    entries.set(key, entry);
+  };
+
+  /** @type {(a: string[], b: string[]) => boolean} */
+  const overlaps = (a, b) => a.some(id => b.includes(id));
+
+  wordGroups
+    .filter(g => g.type === 'custom' || g.anecdoteType === 'vocab')
+    .forEach(group => {
+      const pairs = linkedPairs.filter(p => p.lineId === group.lineId &&
+        overlaps(group.language === 'french' ? p.sourceWordIds : p.targetWordIds, group.wordIds));
+      if (group.language === 'french') {
+        const english = pairs.map(p => textOf(p.targetWordIds)).filter(Boolean);
+        (english.length > 0 ? english : [group.label || '']).forEach(e => add(textOf(group.wordIds), e, group.lineId));
+      } else {
+        pairs.forEach(p => add(textOf(p.sourceWordIds), textOf(group.wordIds), group.lineId));
+      }
+    });
+
+  linkedPairs.forEach(pair => add(textOf(pair.sourceWordIds), textOf(pair.targetWordIds), pair.lineId));
+
+  // Fold regular plurals into their singular when both are present
+  entries.forEach((entry, key) => {
+    const singular = key.replace(/[sx]$/, '');
+    const target = singular !== key ? entries.get(singular) : undefined;
+    if (!target) return;
+    entry.english.forEach(e => {
+      if (!target.english.some(t => t.toLowerCase() === e.toLowerCase())) target.english.push(e);
+    });
+    entry.lineIds.forEach(id => { if (!target.lineIds.includes(id)) target.lineIds.push(id); });
+    entries.delete(key);
+  });
+
+  return Array.from(entries.values()).sort((a, b) => compareFrench(a.french, b.french));
+}
+
+/**
+ * 1-based page number of every body line
+ * @param {PageData[]} pages
+ * @returns {Map<string, number>}
+ */
+export function getPageNumbersByLine(pages) {
+  /** @type {Map<string, number>} */
+  const numbers = new Map();
+  pages.forEach((page, i) => page.lines.forEach(line => numbers.set(line.id, i + 1)));
+  return numbers;
+}
+
+/**
+ * @param {GlossaryEntry} entry
+ * @param {Map<string, number>} pageByLine
+ * @returns {number[]}
+ */
+export function getEntryPageNumbers(entry, pageByLine) {
+  /** @type {Set<number>} */
+  const numbers = new Set();
+  entry.lineIds.forEach(id => {
+    const page = pageByLine.get(id);
+    if (page !== undefined) numbers.add(page);
+  });
+  return Array.from(numbers).sort((a, b) => a - b);
+}
+
+/**
+ * Printed page numbers of an entry's pages; pages in an unnumbered section are left out
+ * @param {GlossaryEntry} entry
+ * @param {Map<string, number>} pageByLine
+ * @param {PageLabel[]} labels
+ * @returns {string[]}
+ */
+export function getEntryPageLabels(entry, pageByLine, labels) {
+  return getEntryPageNumbers(entry, pageByLine).flatMap(n => labels[n - 1]?.label || []);
+}
+
+/**
+ * How many glossary or index rows fit on a page for the current layout
+ * @param {Partial<ThemeConfig>} theme
+ * @returns {number}
+ */
+export function getEntriesPerPage(theme) {
+  const rowHeight = parseToPixels(theme.fontSize || '18px') * 1.5;
+  const headingReserve = 96;
+  return Math.max(5, Math.floor((getContentArea(theme).height - headingReserve) / rowHeight));
+}
+
+/**
+ * Generated back matter pages, each section split over as many pages as it needs
+ * @param {BackMatter | undefined} backMatter
+ * @param {GlossaryEntry[]} entries
+ * @param {number} entriesPerPage
+ * @returns {BackMatterPage[]}
+ */
+export function getBackMatterPages(backMatter, entries, entriesPerPage) {
+  if (!backMatter) return [];
+
+  /** @type {BackMatterPageKind[]} */
+  const sections = [];
+  if (backMatter.glossary) sections.push('glossary');
+  if (backMatter.index) sections.push('index');
+
+  return sections.flatMap(kind => {
+    /** @type {GlossaryEntry[][]} */
+    const chunks = [];
+    for (let i = 0; i < entries.length; i += entriesPerPage) {
+      chunks.push(entries.slice(i, i + entriesPerPage));
+    }
+    if (chunks.length === 0) chunks.push([]);
+    return chunks.map((chunk, i) => ({ id: `back-${kind}-${i + 1}`, kind, entries: chunk, continued: i > 0 }));
+  });
+}
+
+/**
+ * Glossary and index pages of a project, or none when the book has neither
+ * @param {{ bookStructure?: BookStructure, wordGroups?: WordGroup[], linkedPairs?: LinkedPair[], theme?: ThemeConfig }} project
+ * @param {PageData[]} pages
+ * @returns {BackMatterPage[]}
+ */
+export function getProjectBackMatterPages(project, pages) {
+  const backMatter = project.bookStructure?.backMatter;
+  if (!backMatter?.glossary && !backMatter?.index) return [];
+  const entries = collectGlossaryEntries(pages, project.wordGroups || [], project.linkedPairs || []);
+  return getBackMatterPages(backMatter, entries, getEntriesPerPage(project.theme || {}));
+}
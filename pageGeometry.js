@@ -0,0 +1,51 @@
+// ─────────────────────────────────────────────────────────────────
+// PAGE GEOMETRY
+// Page measurements in CSS pixels, shared by the editor's pagination and
+// the generated back matter so both fit the same amount on a page, and the
+// default margin the editor and the print document both fall back to.
+// ─────────────────────────────────────────────────────────────────
+
+/** @typedef {import('./src/types').ThemeConfig} ThemeConfig */
+
+// Space reserved for the running header and footer
+const HEADER_FOOTER_HEIGHT = 60;
+
+// Page margin wherever the layout sets none, in the editor and in print alike
+export const DEFAULT_MARGIN = '15mm';
+
+/**
+ * Convert a CSS length (mm, in, pt, px) to pixels at 96 DPI. Bare numbers are mm.
+ * @param {string} value
+ * @returns {number}
+ */
+export function parseToPixels(value) {
+  const num = parseFloat(value) || 0;
+  if (value.includes('mm')) return num * 3.78; // 1mm ≈ 3.78px at 96 DPI
+  if (value.includes('in')) return num * 96;
+  if (value.includes('pt')) return num * 1.33;
+  if (value.includes('px')) return num;
+  return num * 3.78; // Default to mm
+}
+
+/**
+ * Size of the area available to the page body, in pixels
+ * @param {Partial<ThemeConfig>} theme
+ * @returns {{ width: number, height: number }}
+ */
+export function getContentArea(theme) {
+  const layout = theme.pageLayout;
+  if (!layout) {
+    // Workspace default: A4 with the default margins
+    return {
+      width: parseToPixels('210mm') - 2 * parseToPixels(DEFAULT_MARGIN),
+      height: parseToPixels('297mm') - 2 * parseToPixels(DEFAULT_MARGIN) - HEADER_FOOTER_HEIGHT
+    };
+  }
+
+  // The gutter widens the inside margin of every page, mirrored or not
+  const gutter = parseToPixels(layout.gutter || '0mm');
+  return {
+    width: parseToPixels(layout.width) - parseToPixels(layout.margins?.left || DEFAULT_MARGIN) - parseToPixels(layout.margins?.right || DEFAULT_MARGIN) - gutter,
+    height: parseToPixels(layout.height) - parseToPixels(layout.margins?.top || DEFAULT_MARGIN) - parseToPixels(layout.margins?.bottom || DEFAULT_MARGIN) - HEADER_FOOTER_HEIGHT
+  };
+}
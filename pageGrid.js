@@ -0,0 +1,44 @@
+// ─────────────────────────────────────────────────────────────────
+// PAGE GRID
+// Columns of a body line, shared by the workspace, the pagination
+// measurements and the print document behind the PDF, so a line wraps
+// the same way in all of them and the page breaks still hold in print.
+// ─────────────────────────────────────────────────────────────────
+
+/** @typedef {import('./src/types').ThemeConfig} ThemeConfig */
+
+const LINE_NUMBER_COLUMN = '3rem';
+// Sidebar cards sit in the last column; the print document leaves it empty
+const SIDEBAR_COLUMN = '12rem';
+
+// Space between the columns (`gap-4`)
+export const LINE_COLUMN_GAP = '1rem';
+// Padding of each text cell (`p-1`)
+export const LINE_CELL_PADDING = '0.25rem';
+// Rule and inset before the second text column side by side (`border-l pl-4`)
+export const SECOND_COLUMN_RULE = '1px';
+export const SECOND_COLUMN_INSET = '1rem';
+
+/**
+ * Grid columns of a bilingual line: line number, text column(s), sidebar cards
+ * @param {ThemeConfig['layoutMode']} layoutMode
+ * @param {boolean} showFrench
+ * @param {boolean} showEnglish
+ * @param {number} splitRatio
+ * @returns {string}
+ */
+export function getLineGridTemplate(layoutMode, showFrench, showEnglish, splitRatio) {
+  if (layoutMode === 'interlinear') return `${LINE_NUMBER_COLUMN} 1fr ${SIDEBAR_COLUMN}`;
+
+  const parts = [LINE_NUMBER_COLUMN];
+  if (showFrench && showEnglish) {
+    // Use minmax to prevent columns from crushing below readable width
+    // Each text column gets at least 120px minimum
+    parts.push(`minmax(120px, ${splitRatio}fr)`);
+    parts.push(`minmax(120px, ${1 - splitRatio}fr)`);
+  } else if (showFrench || showEnglish) {
+    parts.push("minmax(200px, 1fr)");
+  }
+  parts.push(SIDEBAR_COLUMN);
+  return parts.join(" ");
+}
@@ -0,0 +1,158 @@
+// ─────────────────────────────────────────────────────────────────
+// PAGE NUMBERING
+// Resolves the printed number of every page from the book's numbering
+// sections, for the editor, the table of contents, the index, the running
+// heads and the exports.
+// ─────────────────────────────────────────────────────────────────
+
+/** @typedef {import('./src/types').BookStructure} BookStructure */
+/** @typedef {import('./src/types').Chapter} Chapter */
+/** @typedef {import('./src/types').PageData} PageData */
+/** @typedef {import('./src/types').PageNumbering} PageNumbering */
+/** @typedef {import('./src/types').PageNumberStyle} PageNumberStyle */
+
+/**
+ * @typedef {object} PageLabel
+ * @property {number} value
+ * @property {string} label Empty when the section is not numbered
+ * @property {boolean} visible Printed in running heads; hidden numbers still serve the TOC and index
+ */
+
+/**
+ * @typedef {object} BookPageLabels
+ * @property {PageLabel[]} frontMatter
+ * @property {PageLabel[]} body
+ * @property {PageLabel[]} backMatter
+ */
+
+// Sections: the front matter, the body, chapters that set their own numbering (a new
+// section that lasts until the next one), and the back matter, which continues the body
+// unless it has its own. A page with an explicit `pageNumber` restarts the count there.
+/** @type {PageNumbering} */
+export const DEFAULT_FRONT_MATTER_NUMBERING = { style: 'lowerRoman', start: 1 };
+/** @type {PageNumbering} */
+export const DEFAULT_BODY_NUMBERING = { style: 'arabic', start: 1 };
+
+/** @type {[number, string][]} */
+const ROMAN_NUMERALS = [
+  [1000, 'm'], [900, 'cm'], [500, 'd'], [400, 'cd'], [100, 'c'], [90, 'xc'],
+  [50, 'l'], [40, 'xl'], [10, 'x'], [9, 'ix'], [5, 'v'], [4, 'iv'], [1, 'i']
+];
+
+/**
+ * Lower-case roman numerals
+ * @param {number} value
+ * @returns {string}
+ */
+export function toRoman(value) {
+  let remaining = value;
+  let result = '';
+  ROMAN_NUMERALS.forEach(([n, numeral]) => {
+    while (remaining >= n) {
+      result += numeral;
+      remaining -= n;
+    }
+  });
+  return result;
+}
+
+/**
+ * A page number in a numbering style. 'none', and roman numerals below 1, give ''.
+ * @param {number} value
+ * @param {PageNumberStyle} style
+ * @returns {string}
+ */
+export function formatPageNumber(value, style) {
+  switch (style) {
+    case 'none':
+      return '';
+    case 'lowerRoman':
+      return value > 0 ? toRoman(value) : '';
+    case 'upperRoman':
+      return value > 0 ? toRoman(value).toUpperCase() : '';
+    default:
+      return String(value);
+  }
+}
+
+/** @type {(value: number, section: PageNumbering) => PageLabel} */
+const label = (value, section) => {
+  const text = formatPageNumber(value, section.style);
+  return { value, label: text, visible: !!text && !section.hidden };
+};
+
+// Consecutive numbers in one section
+/** @type {(count: number, section: PageNumbering, start: number) => PageLabel[]} */
+const numberRun = (count, section, start) =>
+  Array.from({ length: count }, (_, i) => label(start + i, section));
+
+/** @param {Chapter} chapter */
+const opensSection = (chapter) =>
+  chapter.startingPageNumber !== undefined || chapter.pageNumberStyle !== undefined || chapter.hidePageNumbers !== undefined;
+
+// Walks the body pages, returning their numbers and where the last section leaves off
+/**
+ * @param {PageData[]} pages
+ * @param {BookStructure} [bookStructure]
+ * @returns {{ labels: PageLabel[], section: PageNumbering, next: number }}
+ */
+function numberBody(pages, bookStructure) {
+  const chapters = bookStructure?.chapters || [];
+  /** @type {PageNumbering} */
+  let section = { ...DEFAULT_BODY_NUMBERING, ...bookStructure?.bodyPageNumbering };
+  let value = section.start ?? 1;
+  /** @type {string | undefined} */
+  let previousChapterId;
+
+  const labels = pages.map(page => {
+    const padding = !!page.isBlank && page.lines.length === 0;
+    if (!padding && page.chapterId && page.chapterId !== previousChapterId) {
+      const chapter = chapters.find(c => c.id === page.chapterId);
+      if (chapter && opensSection(chapter)) {
+        section = {
+          style: chapter.pageNumberStyle ?? section.style,
+          hidden: chapter.hidePageNumbers
+        };
+        if (chapter.startingPageNumber !== undefined) value = chapter.startingPageNumber;
+      }
+    }
+    if (!padding) previousChapterId = page.chapterId;
+    if (page.pageNumber !== undefined) value = page.pageNumber;
+    return label(value++, section);
+  });
+
+  return { labels, section, next: value };
+}
+
+/**
+ * Number of every body page. A chapter with its own numbering starts a new section on its
+ * opening page; padding before it still belongs to the previous section.
+ * @param {PageData[]} pages
+ * @param {BookStructure} [bookStructure]
+ * @returns {PageLabel[]}
+ */
+export function getBodyPageLabels(pages, bookStructure) {
+  return numberBody(pages, bookStructure).labels;
+}
+
+/**
+ * Numbers of the generated front matter, the body and the generated back matter
+ * @param {BookStructure | undefined} bookStructure
+ * @param {PageData[]} pages
+ * @param {number} [frontMatterCount]
+ * @param {number} [backMatterCount]
+ * @returns {BookPageLabels}
+ */
+export function getPageLabels(bookStructure, pages, frontMatterCount = 0, backMatterCount = 0) {
+  const front = { ...DEFAULT_FRONT_MATTER_NUMBERING, ...bookStructure?.frontMatter?.pageNumbering };
+  const back = bookStructure?.backMatter?.pageNumbering;
+  const body = numberBody(pages, bookStructure);
+
+  return {
+    frontMatter: numberRun(frontMatterCount, front, front.start ?? 1),
+    body: body.labels,
+    backMatter: back
+      ? numberRun(backMatterCount, back, back.start ?? 1)
+      : numberRun(backMatterCount, body.section, body.next)
+  };
+}
@@ -0,0 +1,695 @@
+// ─────────────────────────────────────────────────────────────────
+// PRINT RENDERER
+// Builds a standalone print document from saved project JSON, so the
+// PDF export does not depend on the editor being open in a browser.
+// ─────────────────────────────────────────────────────────────────
+
+import { PDFDocument, rgb } from 'pdf-lib';
+import { arrowRouter, drawArrows, getArrowPages, DEFAULT_ARROW_LABEL } from './arrowRuntime.js';
+import { getRunningHeads } from './runningHeads.js';
+import { getDisplayLineNumbers, numberFootnotes } from './bodyNumbering.js';
+import { getPageLabels } from './pageNumbering.js';
+import { DEFAULT_MARGIN } from './pageGeometry.js';
+import {
+  getLineGridTemplate, LINE_COLUMN_GAP, LINE_CELL_PADDING, SECOND_COLUMN_RULE, SECOND_COLUMN_INSET
+} from './pageGrid.js';
+import {
+  getFrontMatterPages, buildTableOfContents, getCopyrightLines, splitParagraphs,
+  getProjectBackMatterPages, getPageNumbersByLine, getEntryPageLabels, indexLetter
+} from './bookMatter.js';
+
+// Same word definition as the editor's tokenizer (src/utils/wordTokens.ts)
+const WORD_SPLIT = /([a-zA-Z0-9À-ÿ'']+)/;
+const WORD_TEST = /^[a-zA-Z0-9À-ÿ'']+$/;
+
+const MM_PER_UNIT = { mm: 1, cm: 10, in: 25.4, pt: 25.4 / 72, px: 25.4 / 96 };
+
+// Room outside the bleed for crop and registration marks
+const MARK_AREA_MM = 10;
+const CROP_MARK_OFFSET_MM = 2;
+const REGISTRATION_MARK_MM = 5;
+
+const PT_PER_MM = 72 / 25.4;
+
+const escapeHtml = (text) => String(text ?? '')
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;');
+
+/**
+ * Convert a CSS length ('3mm', '0.125in', '12pt') to millimetres
+ */
+export function toMm(value, fallback = 0) {
+  const match = String(value ?? '').trim().match(/^(-?[\d.]+)\s*(mm|cm|in|pt|px)?$/);
+  if (!match) return fallback;
+  return parseFloat(match[1]) * MM_PER_UNIT[match[2] || 'mm'];
+}
+
+const isContentBlock = (line) => !!line.contentData && line.contentData.type !== 'text';
+
+const wordsOf = (line, language) => (language === 'french' ? line.frenchWords : line.englishWords) || [];
+
+// ─────────────────────────────────────────────────────────────────
+// LAYOUT - Finished in the print page once its fonts have loaded
+// ─────────────────────────────────────────────────────────────────
+
+// Runs in the print page. The body is paginated on the same line grid, so a page should
+// fit its sheet; one that does not (a font that failed to load, say) continues on an extra
+// sheet rather than being cut off at the sheet edge, and the count is left on the body.
+function breakOverflowingSheets() {
+  const overflows = (sheet) => {
+    const trim = sheet.querySelector('.trim');
+    return trim.scrollHeight > trim.clientHeight + 1;
+  };
+  let continued = 0;
+
+  Array.from(document.querySelectorAll('.sheet')).forEach(sheet => {
+    let current = sheet;
+    let body = current.querySelector('.body');
+    while (body && body.children.length > 1 && overflows(current)) {
+      const next = current.cloneNode(true);
+      next.removeAttribute('id');
+      next.removeAttribute('data-page-id');
+      next.querySelector('.footnotes')?.remove();
+      const nextBody = next.querySelector('.body');
+      nextBody.replaceChildren();
+      current.after(next);
+
+      while (body.children.length > 1 && overflows(current)) nextBody.prepend(body.lastElementChild);
+      continued++;
+      current = next;
+      body = nextBody;
+    }
+  });
+
+  if (continued > 0) document.body.dataset.continuedSheets = String(continued);
+}
+
+// Breaks overflowing pages, routes the arrows after layout and marks the body when done,
+// which the PDF export waits for
+function renderLayoutScript(project, pages) {
+  const data = JSON.stringify(getArrowPages(project, pages)).replace(/</g, '\\u003c');
+
+  return `<script>
+    document.fonts.ready.then(() => {
+      try {
+        (${breakOverflowingSheets.toString()})();
+        (${drawArrows.toString()})(${data}, (${arrowRouter.toString()})(${JSON.stringify(DEFAULT_ARROW_LABEL)}));
+      } finally {
+        document.body.dataset.arrowsRouted = 'true';
+      }
+    });
+  </script>`;
+}
+
+// ─────────────────────────────────────────────────────────────────
+// PAGE CONTENT
+// ─────────────────────────────────────────────────────────────────
+
+function renderText(text, line, language, groups, footnotes) {
+  if (!text) return '';
+  const words = wordsOf(line, language);
+  const styles = (language === 'french' ? line.frenchStyles : line.englishStyles) || [];
+  const languageGroups = groups.filter(g => g.language === language);
+  let wordIndex = 0;
+
+  return text.split(WORD_SPLIT).filter(Boolean).map(token => {
+    if (!WORD_TEST.test(token)) return escapeHtml(token);
+
+    // Word identity is the line's WordData UUID; the editor migrates projects to it on load
+    const wordId = words[wordIndex++]?.id;
+    if (!wordId) return escapeHtml(token);
+
+    const group = languageGroups.find(g => g.wordIds.includes(wordId));
+    const style = styles.find(s => s.wordId === wordId);
+    const css = [
+      group ? `border-bottom: 2px solid ${group.color}` : '',
+      style?.bold ? 'font-weight: bold' : '',
+      style?.italic ? 'font-style: italic' : '',
+      style?.underline || style?.strikethrough
+        ? `text-decoration: ${style.underline ? 'underline' : ''} ${style.strikethrough ? 'line-through' : ''}`
+        : ''
+    ].filter(Boolean).join('; ');
+
+    const markers = footnotes
+      .filter(f => f.wordId === wordId)
+      .map(f => `<sup class="footnote-ref">${f.number}</sup>`)
+      .join('');
+
+    // Every word is a span so the arrow router can measure it
+    return `<span data-word-id="${escapeHtml(wordId)}"${css ? ` style="${css}"` : ''}>${escapeHtml(token)}</span>${markers}`;
+  }).join('');
+}
+
+function renderContentBlock(block, assetBase) {
+  switch (block.type) {
+    case 'image': {
+      const src = block.src.startsWith('/') ? `${assetBase}${block.src}` : block.src;
+      const captions = [block.captionFrench, block.caption].filter(Boolean)
+        .map((c, i) => `<span class="${i === 0 && block.captionFrench ? 'caption-french' : ''}">${escapeHtml(c)}</span>`)
+        .join('');
+      return `
+        <figure class="block block-image" style="text-align: ${block.alignment || 'center'}">
+          <img src="${escapeHtml(src)}" alt="${escapeHtml(block.alt || '')}" style="width: ${block.width || 'auto'}; max-width: 100%" />
+          ${captions ? `<figcaption>${captions}</figcaption>` : ''}
+        </figure>`;
+    }
+    case 'table':
+      return `
+        <table class="block block-table border-${block.borderStyle || 'solid'}">
+          ${block.caption || block.captionFrench ? `<caption>${escapeHtml(block.captionFrench || block.caption)}</caption>` : ''}
+          <thead><tr>${block.headers.map(h => `<th>${escapeHtml(h)}</th>`).join('')}</tr></thead>
+          <tbody>${block.rows.map(row => `<tr>${row.map(cell => `<td>${escapeHtml(cell)}</td>`).join('')}</tr>`).join('')}</tbody>
+        </table>`;
+    case 'divider': {
+      const symbols = { line: '', dots: '• • •', ornament: '❦', asterisks: '* * *', fleuron: '❧' };
+      return `<div class="block block-divider divider-${block.dividerStyle}" style="margin: ${block.spacing || '6mm'} 0">${symbols[block.dividerStyle] || ''}</div>`;
+    }
+    case 'callout':
+      return `
+        <aside class="block block-callout" style="border-color: ${block.color || '#9ca3af'}">
+          <strong>${escapeHtml(block.title)}</strong>
+          <p>${escapeHtml(block.content)}</p>
+        </aside>`;
+    default:
+      return '';
+  }
+}
+
+function renderLine(line, context) {
+  const { project, lineNumbers, footnotes } = context;
+  const theme = project.theme || {};
+  const ui = project.uiSettings || {};
+  const groups = (project.wordGroups || []).filter(g => g.lineId === line.id);
+  const lineFootnotes = footnotes.filter(f => f.lineId === line.id);
+
+  const french = ui.showFrench === false ? '' : `<div class="french">${renderText(line.frenchText, line, 'french', groups, lineFootnotes)}</div>`;
+  const english = ui.showEnglish === false ? '' : `<div class="english">${renderText(line.englishText, line, 'english', groups, lineFootnotes)}</div>`;
+  const number = ui.showLineNumbers === false ? '' : (lineNumbers.get(line.id) ?? line.lineNumber ?? '');
+
+  return `
+    <div class="line section-${line.sectionType || 'paragraph'} ${theme.layoutMode === 'interlinear' ? 'interlinear' : 'side-by-side'}">
+      <span class="line-number">${number}</span>
+      ${french}${english}
+    </div>`;
+}
+
+function renderRunningHead(type, pageIndex, context) {
+  const head = context.runningHeads[pageIndex]?.[type];
+  if (!head) return '';
+
+  const style = `font-family: ${head.font || 'inherit'}; font-size: ${head.fontSize || '9pt'}`;
+  return `
+    <div class="running-${type}" style="${style}">
+      <span>${escapeHtml(head.left)}</span>
+      <span>${escapeHtml(head.center)}</span>
+      <span>${escapeHtml(head.right)}</span>
+    </div>`;
+}
+
+// ─────────────────────────────────────────────────────────────────
+// FRONT AND BACK MATTER - The generated pages, as the editor lays them out
+// ─────────────────────────────────────────────────────────────────
+
+function renderFrontMatterPage(page, project, toc) {
+  const metadata = project.metadata || {};
+  const frontMatter = project.bookStructure?.frontMatter || {};
+
+  switch (page.kind) {
+    case 'title':
+      return `
+        <div class="front-title">
+          <h1>${escapeHtml(metadata.title)}</h1>
+          ${metadata.subtitle ? `<h2>${escapeHtml(metadata.subtitle)}</h2>` : ''}
+          ${metadata.author ? `<p class="front-author">${escapeHtml(metadata.author)}</p>` : ''}
+          ${metadata.publisher ? `<p class="front-publisher">${escapeHtml(metadata.publisher)}</p>` : ''}
+        </div>`;
+    case 'copyright':
+      return `<div class="front-copyright">${getCopyrightLines(metadata).map(line => `<p>${escapeHtml(line)}</p>`).join('')}</div>`;
+    case 'dedication':
+      return `<div class="front-dedication"><p>${escapeHtml(frontMatter.dedication)}</p></div>`;
+    case 'preface':
+      return `
+        <div class="front-preface">
+          <h2 class="matter-heading">Preface</h2>
+          ${splitParagraphs(frontMatter.preface || '').map(p => `<p>${escapeHtml(p)}</p>`).join('')}
+        </div>`;
+    case 'toc':
+      return `
+        <div class="front-toc">
+          <h2 class="matter-heading">Contents</h2>
+          <ol class="leader-list">${toc.map(entry => `
+            <li><span>${escapeHtml(entry.title)}</span><span class="leader"></span><span>${escapeHtml(entry.label)}</span></li>`).join('')}
+          </ol>
+        </div>`;
+    default:
+      return '';
+  }
+}
+
+function renderBackMatterPage(page, pageByLine, bodyLabels) {
+  const title = page.kind === 'glossary' ? 'Glossary' : 'Index';
+  const references = (entry) => escapeHtml(getEntryPageLabels(entry, pageByLine, bodyLabels).join(', '));
+  const heading = `<h2 class="matter-heading">${title}${page.continued ? ' <span class="continued">(continued)</span>' : ''}</h2>`;
+
+  if (page.kind === 'glossary') {
+    return `${heading}
+      <dl class="glossary">${page.entries.map(entry => `
+        <div><dt>${escapeHtml(entry.french)}</dt><dd>${escapeHtml(entry.english.join('; '))}</dd><dd class="references">${references(entry)}</dd></div>`).join('')}
+      </dl>`;
+  }
+
+  const rows = page.entries.map((entry, i) => {
+    const letter = indexLetter(entry.french);
+    const startsLetter = i === 0 || indexLetter(page.entries[i - 1].french) !== letter;
+    return `${startsLetter ? `<li class="index-letter">${escapeHtml(letter)}</li>` : ''}
+        <li><span>${escapeHtml(entry.french)}</span><span class="leader"></span><span>${references(entry)}</span></li>`;
+  }).join('');
+  return `${heading}<ul class="leader-list">${rows}</ul>`;
+}
+
+// Folio of a generated page, from its numbering section; title and blank pages carry none
+function renderFolio(label, kind) {
+  if (!label?.visible || kind === 'title' || kind === 'blank') return '';
+  return `<div class="folio">${escapeHtml(label.label)}</div>`;
+}
+
+// Target centred in the mark area at the middle of each trim edge, clear of the bleed
+function renderRegistrationMarks(geometry) {
+  const { markArea, sheetWidth, sheetHeight } = geometry;
+  const size = REGISTRATION_MARK_MM;
+  const r = size / 2;
+  const target = (cx, cy) => `
+    <svg class="registration-mark" style="left: ${cx - r}mm; top: ${cy - r}mm; width: ${size}mm; height: ${size}mm" viewBox="0 0 ${size} ${size}">
+      <circle cx="${r}" cy="${r}" r="${r * 0.6}" fill="none" stroke="#000" stroke-width="0.1" />
+      <circle cx="${r}" cy="${r}" r="${r * 0.3}" fill="#000" />
+      <line x1="0" y1="${r}" x2="${size}" y2="${r}" stroke="#000" stroke-width="0.1" />
+      <line x1="${r}" y1="0" x2="${r}" y2="${size}" stroke="#000" stroke-width="0.1" />
+    </svg>`;
+
+  return [
+    target(sheetWidth / 2, markArea / 2),
+    target(sheetWidth / 2, sheetHeight - markArea / 2),
+    target(markArea / 2, sheetHeight / 2),
+    target(sheetWidth - markArea / 2, sheetHeight / 2)
+  ].join('');
+}
+
+function renderCropMarks(geometry) {
+  const { markArea, bleed, trimWidth, trimHeight } = geometry;
+  const gap = bleed + CROP_MARK_OFFSET_MM;
+  const length = Math.max(markArea - CROP_MARK_OFFSET_MM, 0);
+  const left = markArea + bleed;
+  const top = markArea + bleed;
+  const right = left + trimWidth;
+  const bottom = top + trimHeight;
+
+  const horizontal = (x, y) => `<div class="crop-mark" style="left: ${x}mm; top: ${y}mm; width: ${length}mm; height: 0"></div>`;
+  const vertical = (x, y) => `<div class="crop-mark" style="left: ${x}mm; top: ${y}mm; width: 0; height: ${length}mm"></div>`;
+
+  return [
+    horizontal(left - gap - length, top), vertical(left, top - gap - length),
+    horizontal(right + gap, top), vertical(right, top - gap - length),
+    horizontal(left - gap - length, bottom), vertical(left, bottom + gap),
+    horizontal(right + gap, bottom), vertical(right, bottom + gap)
+  ].join('');
+}
+
+// @font-face rules for local font files, so the PDF uses the same faces as the editor
+function renderFontFaces(fonts, assetBase) {
+  return fonts.map(font => `@font-face {
+      font-family: '${font.family}';
+      src: url('${assetBase}${font.path}') format('${font.format}');
+      font-weight: ${font.weight};
+      font-style: ${font.style};
+    }`).join('\n    ');
+}
+
+/**
+ * Margins of a page, as in the editor (src/utils/pageSides.ts): the layout's left margin is
+ * the inside one, the gutter widens it, and mirrored margins swap inside and outside on versos
+ */
+function getPageMargins(layout, pageIndex) {
+  const margins = layout?.margins || {};
+  const inside = toMm(margins.left ?? DEFAULT_MARGIN);
+  const outside = toMm(margins.right ?? DEFAULT_MARGIN);
+  const gutter = toMm(layout?.gutter);
+  const top = toMm(margins.top ?? DEFAULT_MARGIN);
+  const bottom = toMm(margins.bottom ?? DEFAULT_MARGIN);
+
+  // Odd pages are rectos, bound on the left
+  if ((pageIndex + 1) % 2 === 1) return { top, bottom, left: inside + gutter, right: outside };
+  return layout?.mirrorMargins
+    ? { top, bottom, left: outside, right: inside + gutter }
+    : { top, bottom, left: inside, right: outside + gutter };
+}
+
+// ─────────────────────────────────────────────────────────────────
+// DOCUMENT
+// ─────────────────────────────────────────────────────────────────
+
+/**
+ * Sheet geometry in millimetres: the trim size, plus bleed and room for printer's marks.
+ * Works from the layout's own width and height, so custom sizes behave like the presets.
+ */
+export function getSheetGeometry(theme = {}, options = {}) {
+  const layout = theme.pageLayout;
+  const trimWidth = toMm(layout?.width, 210);
+  const trimHeight = toMm(layout?.height, 297);
+  const bleed = Math.max(0, toMm(options.bleed || layout?.bleed || theme.printSettings?.bleed));
+  const showCropMarks = options.showCropMarks ?? theme.printSettings?.showCropMarks ?? false;
+  const showRegistrationMarks = options.showRegistrationMarks ?? theme.printSettings?.showRegistrationMarks ?? false;
+  const markArea = showCropMarks || showRegistrationMarks ? MARK_AREA_MM : 0;
+
+  return {
+    trimWidth,
+    trimHeight,
+    bleed,
+    markArea,
+    showCropMarks,
+    showRegistrationMarks,
+    sheetWidth: trimWidth + 2 * (bleed + markArea),
+    sheetHeight: trimHeight + 2 * (bleed + markArea)
+  };
+}
+
+/**
+ * Set the PDF page boxes print shops rely on: MediaBox and CropBox cover the whole sheet,
+ * BleedBox the trim plus bleed, TrimBox the finished page
+ */
+export async function applyPageBoxes(pdfBytes, geometry) {
+  const { trimWidth, trimHeight, bleed, markArea, sheetWidth, sheetHeight } = geometry;
+  const pt = (mm) => mm * PT_PER_MM;
+  const pdf = await PDFDocument.load(pdfBytes);
+
+  pdf.getPages().forEach(page => {
+    page.setMediaBox(0, 0, pt(sheetWidth), pt(sheetHeight));
+    page.setCropBox(0, 0, pt(sheetWidth), pt(sheetHeight));
+    page.setBleedBox(pt(markArea), pt(markArea), pt(trimWidth + 2 * bleed), pt(trimHeight + 2 * bleed));
+    page.setTrimBox(pt(markArea + bleed), pt(markArea + bleed), pt(trimWidth), pt(trimHeight));
+  });
+
+  return Buffer.from(await pdf.save());
+}
+
+// ─────────────────────────────────────────────────────────────────
+// IMPOSITION
+// Lays the finished pages out on press sheets: saddle-stitched booklets
+// folded from sheets printed on both sides, and 2-up or 4-up sheets that
+// are cut apart after printing.
+// ─────────────────────────────────────────────────────────────────
+
+const IMPOSITION_GRIDS = {
+  booklet: { columns: 2, rows: 1 },
+  '2up': { columns: 2, rows: 1 },
+  '4up': { columns: 2, rows: 2 }
+};
+
+/**
+ * Pages on each printed side, left to right and top to bottom; `null` is a blank slot.
+ * Booklets are padded to a multiple of four and printed on both sides, flipping on the
+ * short edge: the outer sheet carries the last and first pages on its front and the second
+ * and second-to-last on its back, each sheet inside it the next pairs, so the folded stack
+ * reads in order.
+ */
+export function getImpositionSides(pageCount, layout) {
+  const grid = IMPOSITION_GRIDS[layout];
+  if (!grid) throw new Error(`Unknown imposition layout: ${layout}`);
+  const slot = (index) => (index < pageCount ? index : null);
+
+  if (layout === 'booklet') {
+    const total = Math.ceil(pageCount / 4) * 4;
+    const sides = [];
+    for (let sheet = 0; sheet < total / 4; sheet++) {
+      sides.push({ sheet, slots: [slot(total - 1 - 2 * sheet), slot(2 * sheet)] });
+      sides.push({ sheet, slots: [slot(2 * sheet + 1), slot(total - 2 - 2 * sheet)] });
+    }
+    return sides;
+  }
+
+  const perSide = grid.columns * grid.rows;
+  const sides = [];
+  for (let first = 0; first < pageCount; first += perSide) {
+    sides.push({ sheet: sides.length, slots: Array.from({ length: perSide }, (_, i) => slot(first + i)) });
+  }
+  return sides;
+}
+
+/**
+ * Impose a PDF rendered with `getSheetGeometry` sheets onto press sheets. Pages are cut to
+ * their trim box and scaled down only if the grid does not fit; the press sheet is turned
+ * whichever way fits them best.
+ *
+ * Options: `layout` ('booklet', '2up' or '4up'); `sheetWidth` and `sheetHeight` as CSS
+ * lengths (A4 by default); `creep`, how far each inner booklet sheet is pushed out at the
+ * fore edge once folded; `foldMarks` and `cutMarks`, drawn in a margin kept around the pages.
+ */
+export async function imposePdf(pdfBytes, geometry, options = {}) {
+  const layout = options.layout || 'booklet';
+  const grid = IMPOSITION_GRIDS[layout];
+  const { trimWidth, trimHeight, bleed, markArea } = geometry;
+  const pt = (mm) => mm * PT_PER_MM;
+
+  const marks = { cutMarks: !!options.cutMarks, foldMarks: layout === 'booklet' && !!options.foldMarks };
+  const markMargin = marks.foldMarks || marks.cutMarks ? MARK_AREA_MM : 0;
+  const fit = (width, height) => ({
+    width,
+    height,
+    scale: Math.min(1, (width - 2 * markMargin) / (grid.columns * trimWidth), (height - 2 * markMargin) / (grid.rows * trimHeight))
+  });
+  const paperWidth = toMm(options.sheetWidth, 210);
+  const paperHeight = toMm(options.sheetHeight, 297);
+  const portrait = fit(paperWidth, paperHeight);
+  const landscape = fit(paperHeight, paperWidth);
+  const sheet = landscape.scale > portrait.scale ? landscape : portrait;
+
+  const cellWidth = trimWidth * sheet.scale;
+  const cellHeight = trimHeight * sheet.scale;
+  const gridLeft = (sheet.width - grid.columns * cellWidth) / 2;
+  const gridBottom = (sheet.height - grid.rows * cellHeight) / 2;
+  const creep = layout === 'booklet' ? Math.max(0, toMm(options.creep)) : 0;
+
+  const source = await PDFDocument.load(pdfBytes);
+  const sourcePages = source.getPages();
+  const output = await PDFDocument.create();
+  const trimLeft = markArea + bleed;
+
+  for (const side of getImpositionSides(sourcePages.length, layout)) {
+    const page = output.addPage([pt(sheet.width), pt(sheet.height)]);
+
+    for (const [slotIndex, pageIndex] of side.slots.entries()) {
+      if (pageIndex === null) continue;
+      const column = slotIndex % grid.columns;
+      const row = Math.floor(slotIndex / grid.columns);
+
+      // Move the pages of inner booklet sheets towards the spine by their creep, cutting
+      // the same amount off their inside margin so they still meet at the fold
+      const shift = Math.min(creep * side.sheet, trimWidth / 4);
+      const spineOnRight = column === 0;
+      const box = {
+        left: pt(trimLeft + (spineOnRight ? 0 : shift)),
+        bottom: pt(trimLeft),
+        right: pt(trimLeft + trimWidth - (spineOnRight ? shift : 0)),
+        top: pt(trimLeft + trimHeight)
+      };
+      const [embedded] = await output.embedPages([sourcePages[pageIndex]], [box]);
+      page.drawPage(embedded, {
+        x: pt(gridLeft + column * cellWidth + (spineOnRight ? shift * sheet.scale : 0)),
+        y: pt(gridBottom + (grid.rows - 1 - row) * cellHeight),
+        width: pt((trimWidth - shift) * sheet.scale),
+        height: pt(cellHeight)
+      });
+    }
+
+    if (markMargin) drawImpositionMarks(page, grid, layout, { gridLeft, gridBottom, cellWidth, cellHeight }, marks);
+  }
+
+  return Buffer.from(await output.save());
+}
+
+// Marks sit outside the page grid: cut marks continue every page edge, the fold mark is
+// dashed over the spine of a booklet
+function drawImpositionMarks(page, grid, layout, cells, marks) {
+  const { gridLeft, gridBottom, cellWidth, cellHeight } = cells;
+  const pt = (mm) => mm * PT_PER_MM;
+  const gridRight = gridLeft + grid.columns * cellWidth;
+  const gridTop = gridBottom + grid.rows * cellHeight;
+  const length = MARK_AREA_MM - CROP_MARK_OFFSET_MM;
+  const line = (x1, y1, x2, y2, dashed) => page.drawLine({
+    start: { x: pt(x1), y: pt(y1) },
+    end: { x: pt(x2), y: pt(y2) },
+    thickness: 0.25,
+    color: rgb(0, 0, 0),
+    dashArray: dashed ? [3, 2] : undefined
+  });
+  const vertical = (x, dashed) => {
+    line(x, gridTop + CROP_MARK_OFFSET_MM, x, gridTop + CROP_MARK_OFFSET_MM + length, dashed);
+    line(x, gridBottom - CROP_MARK_OFFSET_MM, x, gridBottom - CROP_MARK_OFFSET_MM - length, dashed);
+  };
+  const horizontal = (y) => {
+    line(gridLeft - CROP_MARK_OFFSET_MM, y, gridLeft - CROP_MARK_OFFSET_MM - length, y);
+    line(gridRight + CROP_MARK_OFFSET_MM, y, gridRight + CROP_MARK_OFFSET_MM + length, y);
+  };
+
+  if (marks.cutMarks) {
+    // A booklet is only trimmed round the outside; n-up sheets are cut between pages too
+    const inner = layout === 'booklet' ? [] : Array.from({ length: grid.columns - 1 }, (_, i) => gridLeft + (i + 1) * cellWidth);
+    [gridLeft, ...inner, gridRight].forEach(x => vertical(x));
+    const innerRows = Array.from({ length: grid.rows - 1 }, (_, i) => gridBottom + (i + 1) * cellHeight);
+    [gridBottom, ...innerRows, gridTop].forEach(y => horizontal(y));
+  }
+  if (marks.foldMarks) vertical(gridLeft + cellWidth, true);
+}
+
+/**
+ * Render a saved project as a print-ready HTML document, one sheet per page: the generated
+ * front matter, the body pages and the generated back matter.
+ *
+ * Options: `bleed`, `showCropMarks` and `showRegistrationMarks` override the project's print settings;
+ * `assetBase` is prepended to root-relative image and font paths (e.g. '/assets/x.png');
+ * `fonts` lists the local font files to declare with @font-face.
+ */
+export function renderPrintDocument(project, options = {}) {
+  const theme = project.theme || {};
+  const pages = (project.pages || []).filter(Boolean);
+  const geometry = getSheetGeometry(theme, options);
+  const assetBase = options.assetBase || '';
+  const context = {
+    project,
+    pages,
+    lineNumbers: getDisplayLineNumbers(pages),
+    runningHeads: getRunningHeads(project, pages),
+    footnotes: numberFootnotes(pages, project.footnotes || [], theme.typography?.footnoteNumbering)
+  };
+
+  const { trimWidth, trimHeight, bleed, markArea, sheetWidth, sheetHeight } = geometry;
+  const splitRatio = theme.pageLayout?.splitRatio ?? 0.5;
+  const ui = project.uiSettings || {};
+  const lineGrid = getLineGridTemplate(theme.layoutMode, ui.showFrench !== false, ui.showEnglish !== false, splitRatio);
+
+  // Generated front and back matter around the body, numbered by their own sections
+  const frontPages = getFrontMatterPages(project.bookStructure?.frontMatter);
+  const backPages = getProjectBackMatterPages(project, pages);
+  const labels = getPageLabels(project.bookStructure, pages, frontPages.length, backPages.length);
+  const toc = buildTableOfContents(pages, project.bookStructure);
+  const pageByLine = getPageNumbersByLine(pages);
+
+  // Sides follow the whole book; the front matter is padded to an even count, so body
+  // pages keep their own parity
+  const renderSheet = (id, pageId, sideIndex, content) => {
+    const margins = getPageMargins(theme.pageLayout, sideIndex);
+    return `
+      <section class="sheet" id="${escapeHtml(id)}" data-page-id="${escapeHtml(pageId)}">
+        <div class="bleed-area" style="left: ${markArea}mm; top: ${markArea}mm; width: ${trimWidth + 2 * bleed}mm; height: ${trimHeight + 2 * bleed}mm"></div>
+        <div class="trim" style="left: ${markArea + bleed}mm; top: ${markArea + bleed}mm; width: ${trimWidth}mm; height: ${trimHeight}mm;
+          padding: ${margins.top}mm ${margins.right}mm ${margins.bottom}mm ${margins.left}mm">
+          ${content}
+        </div>
+        ${geometry.showCropMarks ? renderCropMarks(geometry) : ''}
+        ${geometry.showRegistrationMarks ? renderRegistrationMarks(geometry) : ''}
+      </section>`;
+  };
+
+  const frontSheets = frontPages.map((page, frontIndex) => renderSheet(page.id, page.id, frontIndex, `
+          ${renderFrontMatterPage(page, project, toc)}
+          ${renderFolio(labels.frontMatter[frontIndex], page.kind)}`));
+
+  const bodySheets = pages.map((page, pageIndex) => {
+    const body = page.lines.map(line => isContentBlock(line)
+      ? renderContentBlock(line.contentData, assetBase)
+      : renderLine(line, context)
+    ).join('');
+
+    const pageFootnotes = context.footnotes.filter(f => f.pageId === page.id);
+    const footnotesHtml = pageFootnotes.length > 0
+      ? `<div class="footnotes">${pageFootnotes.map(f => `<p><sup>${f.number}</sup> ${escapeHtml(f.content)}</p>`).join('')}</div>`
+      : '';
+
+    return renderSheet(`page-${pageIndex + 1}`, page.id, pageIndex, `
+          ${renderRunningHead('header', pageIndex, context)}
+          <div class="body">${body}</div>
+          ${footnotesHtml}
+          ${renderRunningHead('footer', pageIndex, context)}
+          <svg class="arrow-layer"></svg>`);
+  });
+
+  const backSheets = backPages.map((page, backIndex) => renderSheet(page.id, page.id, pages.length + backIndex, `
+          ${renderBackMatterPage(page, pageByLine, labels.body)}
+          ${renderFolio(labels.backMatter[backIndex], page.kind)}`));
+
+  const sheets = [...frontSheets, ...bodySheets, ...backSheets].join('');
+
+  return `<!DOCTYPE html>
+<html lang="fr">
+<head>
+  <meta charset="UTF-8">
+  <title>${escapeHtml(project.metadata?.title || 'Untitled')}</title>
+  <style>
+    ${renderFontFaces(options.fonts || [], assetBase)}
+    @page { size: ${sheetWidth}mm ${sheetHeight}mm; margin: 0; }
+    * { box-sizing: border-box; margin: 0; padding: 0; }
+    html, body { background: white; -webkit-print-color-adjust: exact; print-color-adjust: exact; }
+    body { font-size: ${theme.fontSize || '18px'}; line-height: ${theme.lineHeight || '1.6'}; color: #111827; }
+    .sheet { position: relative; width: ${sheetWidth}mm; height: ${sheetHeight}mm; overflow: hidden; break-after: page; }
+    .sheet:last-child { break-after: auto; }
+    .bleed-area { position: absolute; background: ${theme.pageBackground || '#ffffff'}; }
+    .trim { position: absolute; display: flex; flex-direction: column; }
+    .arrow-layer { position: absolute; inset: 0; width: 100%; height: 100%; overflow: visible; pointer-events: none; }
+    .body > * + * { margin-top: 24px; }
+    .line { display: grid; column-gap: ${LINE_COLUMN_GAP}; grid-template-columns: ${lineGrid}; }
+    .line .french, .line .english { padding: ${LINE_CELL_PADDING}; }
+    .line.side-by-side .french + .english { border-left: ${SECOND_COLUMN_RULE} solid #e5e7eb; padding-left: ${SECOND_COLUMN_INSET}; }
+    .line.interlinear { row-gap: 0.5rem; }
+    .line.interlinear .english { grid-column: 2; }
+    .line-number { color: #9ca3af; font-family: monospace; font-size: 0.75em; text-align: right; padding-top: 0.25em; }
+    .french { font-family: ${theme.frenchFontFamily || 'serif'}; }
+    .english { font-family: ${theme.englishFontFamily || 'sans-serif'}; color: #4b5563; }
+    .section-title .french { font-size: 1.5em; font-weight: bold; text-align: center; }
+    .section-title .english { font-style: italic; text-align: center; }
+    .section-heading .french { font-size: 1.25em; font-weight: bold; }
+    .section-heading .english { font-style: italic; }
+    .section-note { font-size: 0.875em; font-style: italic; }
+    .footnote-ref { font-size: 0.65em; }
+    .block-image img { display: inline-block; }
+    .block-image figcaption { font-size: 0.8em; color: #6b7280; }
+    .caption-french { font-style: italic; margin-right: 0.5em; }
+    .block-table { width: 100%; border-collapse: collapse; font-size: 0.85em; }
+    .block-table th, .block-table td { border: 1px solid #d1d5db; padding: 0.25em 0.5em; text-align: left; }
+    .block-table.border-dashed th, .block-table.border-dashed td { border-style: dashed; }
+    .block-table.border-none th, .block-table.border-none td { border: none; }
+    .block-divider { text-align: center; color: #6b7280; }
+    .divider-line { border-top: 1px solid #d1d5db; }
+    .block-callout { border-left: 4px solid; padding: 0.5em 0.75em; background: #f9fafb; font-size: 0.9em; }
+    .footnotes { margin-top: auto; padding-top: 8px; border-top: 1px solid #d1d5db; font-size: 12px; line-height: 1.375; }
+    .footnotes sup { margin-right: 4px; }
+    .running-header, .running-footer { position: absolute; left: 4mm; right: 4mm; display: flex; justify-content: space-between; color: #6b7280; }
+    .running-header { top: 2mm; }
+    .running-footer, .folio { bottom: 2mm; }
+    .folio { position: absolute; left: 0; right: 0; text-align: center; font-size: 9pt; color: #6b7280; }
+    .front-title { flex: 1; display: flex; flex-direction: column; align-items: center; text-align: center; padding-top: 25%; font-family: ${theme.frenchFontFamily || 'serif'}; }
+    .front-title h1 { font-size: 2.25em; margin-bottom: 0.5em; }
+    .front-title h2 { font-size: 1.25em; font-style: italic; font-weight: normal; color: #4b5563; }
+    .front-author { margin-top: 2em; font-size: 1.125em; }
+    .front-publisher { margin-top: auto; font-size: 0.75em; text-transform: uppercase; letter-spacing: 0.1em; color: #6b7280; }
+    .front-copyright { margin-top: auto; font-size: 0.75em; color: #4b5563; }
+    .front-dedication { padding-top: 30%; text-align: center; font-style: italic; white-space: pre-line; }
+    .front-preface p { text-align: justify; margin-bottom: 1em; }
+    .matter-heading { font-size: 1.5em; text-align: center; margin-bottom: 1.5em; font-family: ${theme.frenchFontFamily || 'serif'}; }
+    .continued { font-size: 0.6em; font-weight: normal; color: #6b7280; }
+    .leader-list { list-style: none; }
+    .leader-list li { display: flex; align-items: baseline; gap: 0.5em; margin-bottom: 0.25em; }
+    .leader { flex: 1; border-bottom: 1px dotted #9ca3af; }
+    .index-letter { font-weight: bold; color: #6b7280; padding-top: 0.5em; }
+    .glossary { font-size: 0.875em; }
+    .glossary div { display: flex; gap: 0.5em; margin-bottom: 0.25em; }
+    .glossary dt { font-weight: 600; }
+    .glossary dd { font-style: italic; color: #4b5563; }
+    .glossary .references { margin-left: auto; font-style: normal; font-size: 0.85em; color: #9ca3af; }
+    .crop-mark { position: absolute; border-top: 0.25pt solid #000; border-left: 0.25pt solid #000; }
+    .registration-mark { position: absolute; overflow: visible; }
+  </style>
+</head>
+<body>${sheets}${renderLayoutScript(project, pages)}</body>
+</html>`;
+}
@@ -0,0 +1,156 @@
+// ─────────────────────────────────────────────────────────────────
+// RUNNING HEADS
+// Resolves the running header and footer of every body page from the
+// theme's page template. The editor, the print document behind the PDF
+// and the interactive HTML all use it, so the three print the same heads.
+// ─────────────────────────────────────────────────────────────────
+
+import { getBodyPageLabels } from './pageNumbering.js';
+
+/** @typedef {import('./src/types').BookStructure} BookStructure */
+/** @typedef {import('./src/types').HeaderFooterTemplate} HeaderFooterTemplate */
+/** @typedef {import('./src/types').LineData} LineData */
+/** @typedef {import('./src/types').PageData} PageData */
+/** @typedef {import('./src/types').PageTemplate} PageTemplate */
+/** @typedef {import('./src/types').ProjectMetadata} ProjectMetadata */
+/** @typedef {import('./src/types').ThemeConfig} ThemeConfig */
+
+/**
+ * @typedef {object} RunningHead
+ * @property {string} left
+ * @property {string} center
+ * @property {string} right
+ * @property {string} [font]
+ * @property {string} [fontSize]
+ */
+
+/**
+ * @typedef {object} PageRunningHeads
+ * @property {RunningHead} [header]
+ * @property {RunningHead} [footer]
+ */
+
+// Pages left blank on purpose, like the padding that makes a chapter open on a recto
+/** @param {PageData} page */
+const isBlankPage = (page) => !!page.isBlank || page.lines.length === 0;
+/** @param {LineData} line */
+const isContentBlock = (line) => !!line.contentData && line.contentData.type !== 'text';
+/** @param {LineData} line */
+const isSectionHeading = (line) => !isContentBlock(line) && line.sectionType === 'heading';
+
+/**
+ * Whether a page starts a chapter: the first page carrying its chapter after any padding
+ * @param {PageData[]} pages
+ * @returns {boolean[]}
+ */
+export function getChapterOpeners(pages) {
+  /** @type {string | undefined} */
+  let previousChapterId;
+  return pages.map(page => {
+    if (isBlankPage(page)) return false;
+    const opener = !!page.chapterId && page.chapterId !== previousChapterId;
+    previousChapterId = page.chapterId;
+    return opener;
+  });
+}
+
+/**
+ * Section title of each page: its first heading, or else the last heading before it in the
+ * same chapter. A new chapter starts without a section.
+ * @param {PageData[]} pages
+ * @returns {string[]}
+ */
+export function getSectionTitles(pages) {
+  let current = '';
+  /** @type {string | undefined} */
+  let chapterId;
+  return pages.map(page => {
+    if (page.chapterId !== chapterId) {
+      chapterId = page.chapterId;
+      current = '';
+    }
+    const headings = page.lines.filter(isSectionHeading).map(line => line.frenchText.trim()).filter(Boolean);
+    const title = headings[0] || current;
+    if (headings.length > 0) current = headings[headings.length - 1];
+    return title;
+  });
+}
+
+// Versos swap the outer slots so page numbers and titles stay on the outside edge
+/** @type {(template: HeaderFooterTemplate) => HeaderFooterTemplate} */
+const mirror = (template) => ({ ...template, left: template.right, right: template.left });
+
+/**
+ * Template for one side of a page. Odd page numbers are rectos; with alternating heads a
+ * verso uses its own template, or the recto one mirrored.
+ * @param {PageTemplate | undefined} pageTemplate
+ * @param {'header' | 'footer'} type
+ * @param {number} pageNumber
+ * @returns {HeaderFooterTemplate | undefined}
+ */
+export function getHeadTemplate(pageTemplate, type, pageNumber) {
+  const template = pageTemplate?.[type];
+  if (!template || !pageTemplate.alternateForEvenPages || pageNumber % 2 === 1) return template;
+  const verso = type === 'header' ? pageTemplate.versoHeader : pageTemplate.versoFooter;
+  if (verso && (verso.left || verso.center || verso.right)) return { ...template, ...verso };
+  return mirror(template);
+}
+
+/**
+ * Replace the {{placeholders}} of a template slot. Returns plain text; callers escape it
+ * for their own output.
+ * @param {string | undefined} text
+ * @param {Record<string, string | number>} values
+ */
+export function fillTemplate(text, values) {
+  return (text || '').replace(/\{\{(\w+)\}\}/g, (match, key) => (key in values ? String(values[key]) : match));
+}
+
+/**
+ * Running header and footer of every page, with placeholders filled in. Blank pages
+ * and chapter openers get none, and the first page only when the template allows it.
+ * @param {{ theme?: ThemeConfig, metadata?: ProjectMetadata, bookStructure?: BookStructure }} project
+ * @param {PageData[]} pages
+ * @returns {PageRunningHeads[]}
+ */
+export function getRunningHeads(project, pages) {
+  const pageTemplate = project.theme?.pageTemplate;
+  /** @type {Partial<ProjectMetadata>} */
+  const metadata = project.metadata || {};
+  const chapters = project.bookStructure?.chapters || [];
+  const openers = getChapterOpeners(pages);
+  const sectionTitles = getSectionTitles(pages);
+  const labels = getBodyPageLabels(pages, project.bookStructure);
+
+  return pages.map((page, pageIndex) => {
+    // Sides follow the physical page; the printed number comes from its numbering section
+    const pageNumber = pageIndex + 1;
+    const values = {
+      pageNumber: labels[pageIndex].visible ? labels[pageIndex].label : '',
+      totalPages: pages.length,
+      chapterTitle: chapters.find(c => c.id === page.chapterId)?.title || '',
+      sectionTitle: sectionTitles[pageIndex],
+      bookTitle: metadata.title || '',
+      author: metadata.author || '',
+      year: metadata.year || new Date().getFullYear()
+    };
+
+    /** @type {(type: 'header' | 'footer') => RunningHead | undefined} */
+    const resolve = (type) => {
+      const template = getHeadTemplate(pageTemplate, type, pageNumber);
+      if (!template || isBlankPage(page)) return undefined;
+      if (pageIndex === 0 && template.showOnFirstPage === false) return undefined;
+      if (openers[pageIndex] && !template.showOnChapterOpeners) return undefined;
+      if (!template.left && !template.center && !template.right) return undefined;
+      return {
+        left: fillTemplate(template.left, values),
+        center: fillTemplate(template.center, values),
+        right: fillTemplate(template.right, values),
+        font: template.font,
+        fontSize: template.fontSize
+      };
+    };
+
+    return { header: resolve('header'), footer: resolve('footer') };
+  });
+}
@@ -4,6 +4,7 @@ import cors from 'cors';
 import fs from 'fs';
 import path from 'path';
 import { fileURLToPath } from 'url';
+import { renderPrintDocument, getSheetGeometry, applyPageBoxes, imposePdf } from './printRenderer.js';
 
 const app = express();
 const PORT = 3001;
@@ -47,113 +48,80 @@ app.use('/assets', express.static(ASSETS_DIR));
 app.use('/fonts', express.static(FONTS_DIR));
 
 // ─────────────────────────────────────────────────────────────────
-// PDF EXPORT - High Resolution (300 DPI)
+// PDF EXPORT - Rendered from project data
 // ─────────────────────────────────────────────────────────────────
 
-// Page size definitions in pixels at 300 DPI
-const PAGE_SIZES_300DPI = {
-  'A4': { width: 2480, height: 3508 },      // 210mm x 297mm at 300 DPI
-  'A3': { width: 3508, height: 4961 },      // 297mm x 420mm at 300 DPI
-  'A5': { width: 1748, height: 2480 },      // 148mm x 210mm at 300 DPI
-  'Letter': { width: 2550, height: 3300 },   // 8.5" x 11" at 300 DPI
-  'Legal': { width: 2550, height: 4200 },    // 8.5" x 14" at 300 DPI
-  'TradeBook': { width: 1800, height: 2700 }, // 6" x 9" at 300 DPI
-  'Custom': { width: 2480, height: 3508 }    // Default to A4
+// Load a project sent with the request, or one saved in PROJECTS_DIR by name
+const resolveProject = (project, projectName) => {
+  if (project) return project;
+  if (!projectName) return null;
+  const safeName = projectName.replace(/[^a-z0-9\-_]/gi, '_');
+  const filePath = path.join(PROJECTS_DIR, `${safeName}.json`);
+  if (!fs.existsSync(filePath)) return null;
+  return JSON.parse(fs.readFileSync(filePath, 'utf-8'));
 };
 
 app.post('/export-pdf', async (req, res) => {
+  let browser;
   try {
     const { 
-      url, 
-      options = {},
-      projectTitle = 'export',
-      pageSize = 'A4',
-      quality = 'high', // 'draft' (72 DPI), 'standard' (150 DPI), 'high' (300 DPI)
-      showCropMarks = false,
-      bleed = '0mm',
-      metadata = {}
+      project,
+      projectName,
+      showCropMarks,
+      showRegistrationMarks,
+      bleed,
+      imposition // { layout: 'booklet' | '2up' | '4up', sheetWidth, sheetHeight, creep, foldMarks, cutMarks }
     } = req.body;
 
-    console.log(`[PDF Export] Starting: ${projectTitle}, Size: ${pageSize}, Quality: ${quality}`);
-
-    // Determine device scale factor based on quality
-    let deviceScaleFactor;
-    switch (quality) {
-      case 'draft': deviceScaleFactor = 0.75; break;  // ~72 DPI
-      case 'standard': deviceScaleFactor = 1.56; break; // ~150 DPI
-      case 'high': 
-      default: deviceScaleFactor = 3.125; break; // ~300 DPI
+    const projectData = resolveProject(project, projectName);
+    if (!projectData) {
+      return res.status(projectName ? 404 : 400).json({
+        error: projectName ? 'Project not found' : 'A project or projectName is required'
+      });
     }
 
-    // Launch Puppeteer with high-quality settings
-    const browser = await puppeteer.launch({
+    const projectTitle = projectData.metadata?.title || projectName || 'export';
+    console.log(`[PDF Export] Starting: ${projectTitle}`);
+
+    // Render the print document from the project data; no editor needs to be running.
+    // Imposed sheets get their own marks, so the pages are rendered without any.
+    const printOptions = imposition
+      ? { showCropMarks: false, showRegistrationMarks: false, bleed }
+      : { showCropMarks, showRegistrationMarks, bleed };
+    const html = renderPrintDocument(projectData, {
+      ...printOptions,
+      assetBase: `http://localhost:${PORT}`,
+      fonts: listLocalFonts() // Served by /fonts and embedded by Chrome in the PDF
+    });
+    const geometry = getSheetGeometry(projectData.theme, printOptions);
+
+    browser = await puppeteer.launch({
       headless: 'new',
       args: [
         '--no-sandbox',
         '--disable-setuid-sandbox',
         '--disable-dev-shm-usage',
-        '--font-render-hinting=none', // Better font rendering
-        '--disable-gpu-sandbox'
+        '--font-render-hinting=none' // Better font rendering
       ]
     });
 
     const page = await browser.newPage();
-
-    // Get page dimensions
-    const pageDimensions = PAGE_SIZES_300DPI[pageSize] || PAGE_SIZES_300DPI['A4'];
-    
-    // Set viewport for high-res rendering
-    await page.setViewport({
-      width: Math.round(pageDimensions.width / deviceScaleFactor),
-      height: Math.round(pageDimensions.height / deviceScaleFactor),
-      deviceScaleFactor: deviceScaleFactor
-    });
-
-    // Navigate to the page
-    await page.goto(url || 'http://localhost:5173', { 
+    await page.setContent(html, {
       waitUntil: 'networkidle0',
       timeout: 60000 // 60 second timeout for large documents
     });
 
-    // Inject print-specific styles
-    await page.addStyleTag({ content: `
-      .no-print, 
-      [data-no-print="true"],
-      .sidebar,
-      .toolbar,
-      .controls { 
-        display: none !important; 
-      }
-      
-      body {
-        background: white !important;
-        margin: 0 !important;
-        padding: 0 !important;
-      }
-      
-      .page {
-        box-shadow: none !important;
-        margin: 0 !important;
-        page-break-after: always;
-      }
-      
-      /* Ensure arrows are visible */
-      .arrow-layer {
-        overflow: visible !important;
-      }
-    `});
-
-    // Wait for any fonts to load
+    // Wait for fonts to load and for the arrows, which are routed once the text is laid out
     await page.evaluateHandle('document.fonts.ready');
+    await page.waitForSelector('body[data-arrows-routed]', { timeout: 10000 });
+    const continuedSheets = await page.evaluate(() => document.body.dataset.continuedSheets);
+    if (continuedSheets) {
+      console.warn(`[PDF Export] ${continuedSheets} page(s) did not fit their sheet and continue on an extra one`);
+    }
 
-    // Wait a bit more for any dynamic content
-    await new Promise(resolve => setTimeout(resolve, 1000));
-
-    // Generate PDF with high quality settings
-    const pdfBuffer = await page.pdf({
-      format: pageSize === 'TradeBook' ? undefined : pageSize,
-      width: pageSize === 'TradeBook' ? '6in' : undefined,
-      height: pageSize === 'TradeBook' ? '9in' : undefined,
+    const renderedPdf = await page.pdf({
+      width: `${geometry.sheetWidth}mm`,
+      height: `${geometry.sheetHeight}mm`,
       printBackground: true,
       preferCSSPageSize: true,
       displayHeaderFooter: false,
@@ -162,7 +130,9 @@ app.post('/export-pdf', async (req, res) => {
       outline: true // PDF bookmarks
     });
 
-    await browser.close();
+    // The sheet is trim + bleed + mark area; tell prepress where the trim and bleed are
+    const pagesPdf = await applyPageBoxes(renderedPdf, geometry);
+    const pdfBuffer = imposition ? await imposePdf(pagesPdf, geometry, imposition) : pagesPdf;
 
     console.log(`[PDF Export] Complete: ${pdfBuffer.length} bytes`);
 
@@ -182,6 +152,25 @@ app.post('/export-pdf', async (req, res) => {
       error: 'Error generating PDF',
       message: error.message 
     });
+  } finally {
+    if (browser) await browser.close();
+  }
+});
+
+// Print document preview, the same HTML the PDF export renders
+app.get('/projects/:name/print', (req, res) => {
+  try {
+    const projectData = resolveProject(null, req.params.name);
+    if (!projectData) {
+      return res.status(404).json({ error: 'Project not found' });
+    }
+    res.type('html').send(renderPrintDocument(projectData, {
+      assetBase: `http://localhost:${PORT}`,
+      fonts: listLocalFonts()
+    }));
+  } catch (error) {
+    console.error('[PDF Export] Preview error:', error);
+    res.status(500).json({ error: 'Error rendering print preview' });
   }
 });
 
@@ -473,6 +462,105 @@ app.delete('/assets/:filename', (req, res) => {
   }
 });
 
+// ─────────────────────────────────────────────────────────────────
+// FONT MANAGEMENT (Local TTF/OTF/WOFF/WOFF2 files)
+// ─────────────────────────────────────────────────────────────────
+const FONT_FORMATS = { '.ttf': 'truetype', '.otf': 'opentype', '.woff': 'woff', '.woff2': 'woff2' };
+const FONT_WEIGHTS = {
+  thin: 100, hairline: 100, extralight: 200, ultralight: 200, light: 300,
+  regular: 400, normal: 400, book: 400, medium: 500, semibold: 600, demibold: 600,
+  bold: 700, extrabold: 800, ultrabold: 800, black: 900, heavy: 900
+};
+
+// Family, weight and style from a file name such as "Lora-BoldItalic.woff2"
+const describeFontFile = (file) => {
+  const ext = path.extname(file);
+  const base = path.basename(file, ext);
+  const dash = base.lastIndexOf('-');
+  const variant = dash > 0 ? base.slice(dash + 1).toLowerCase() : '';
+  const italic = /italic|oblique/.test(variant);
+  const weightName = variant.replace(/italic|oblique/, '');
+  const weight = /^[1-9]00$/.test(weightName) ? Number(weightName) : FONT_WEIGHTS[weightName || 'regular'];
+  const isVariant = !!variant && weight !== undefined;
+
+  return {
+    file,
+    path: `/fonts/${file}`,
+    family: (isVariant ? base.slice(0, dash) : base).replace(/_+/g, ' ').trim(),
+    weight: isVariant ? weight : 400,
+    style: isVariant && italic ? 'italic' : 'normal',
+    format: FONT_FORMATS[ext.toLowerCase()]
+  };
+};
+
+const listLocalFonts = () => fs.readdirSync(FONTS_DIR)
+  .filter(file => FONT_FORMATS[path.extname(file).toLowerCase()])
+  .map(file => ({ ...describeFontFile(file), size: fs.statSync(path.join(FONTS_DIR, file)).size }))
+  .sort((a, b) => a.family.localeCompare(b.family) || a.weight - b.weight || a.style.localeCompare(b.style));
+
+// Font files keep their name, since it carries the family and variant
+const fontUpload = multer({
+  storage: multer.diskStorage({
+    destination: (req, file, cb) => {
+      cb(null, FONTS_DIR);
+    },
+    filename: (req, file, cb) => {
+      cb(null, file.originalname.replace(/[^a-z0-9\-_.]/gi, '_'));
+    }
+  }),
+  limits: { fileSize: 20 * 1024 * 1024 }, // 20MB limit
+  fileFilter: (req, file, cb) => {
+    if (FONT_FORMATS[path.extname(file.originalname).toLowerCase()]) {
+      cb(null, true);
+    } else {
+      cb(new Error('Invalid file type. Only TTF, OTF, WOFF and WOFF2 fonts are allowed.'));
+    }
+  }
+});
+
+// Upload font
+app.post('/fonts', fontUpload.single('file'), (req, res) => {
+  try {
+    if (!req.file) {
+      return res.status(400).json({ error: 'No file uploaded' });
+    }
+
+    console.log(`[Fonts] Uploaded: ${req.file.filename}`);
+    res.json({ success: true, ...describeFontFile(req.file.filename), size: req.file.size });
+  } catch (error) {
+    console.error('[Fonts] Upload error:', error);
+    res.status(500).json({ error: 'Error uploading font' });
+  }
+});
+
+// List fonts
+app.get('/fonts-list', (req, res) => {
+  try {
+    res.json(listLocalFonts());
+  } catch (error) {
+    console.error('[Fonts] Error listing:', error);
+    res.status(500).json({ error: 'Error listing fonts' });
+  }
+});
+
+// Delete font
+app.delete('/fonts/:filename', (req, res) => {
+  try {
+    const safeName = path.basename(req.params.filename);
+    const filePath = path.join(FONTS_DIR, safeName);
+
+    if (!fs.existsSync(filePath)) {
+      return res.status(404).json({ error: 'Font not found' });
+    }
+
+    fs.unlinkSync(filePath);
+    res.json({ success: true });
+  } catch (error) {
+    console.error('[Fonts] Error deleting:', error);
+    res.status(500).json({ error: 'Error deleting font' });
+  }
+});
+
 // ─────────────────────────────────────────────────────────────────
 // PALETTE ENDPOINTS
 // ─────────────────────────────────────────────────────────────────
@@ -43,7 +43,10 @@ import { SearchBar } from './components/SearchBar';
 import { ExportModal } from './components/ExportModal';
 import { FontLoader } from './components/FontLoader';
 import { StatisticsModal } from './components/StatisticsModal';
+import { SentenceAlignModal } from './components/SentenceAlignModal';
 import { ImportModal } from './components/ImportModal';
+import { CsvImportModal } from './components/CsvImportModal';
+import { ChapterNavigator } from './components/ChapterNavigator';
 
 // Word type configuration with colors and labels
 const WORD_TYPES: { type: WordGroupType; label: string; shortLabel: string }[] = [
@@ -58,7 +61,6 @@ const WORD_TYPES: { type: WordGroupType; label: string; shortLabel: string }[] =
 function App() {
   const {
     parseAndSetText,
-    importFromCSV,
     reflowPages,
     selectionMode,
     selectedColor,
@@ -77,6 +79,7 @@ function App() {
     loadProject,
     saveProject,
     fetchPalettes,
+    fetchLocalFonts,
     uiSettings,
     toggleFrench,
     toggleEnglish,
@@ -90,8 +93,7 @@ function App() {
     redo,
     saveToHistory,
     canUndo,
-    canRedo,
-    autoAlign
+    canRedo
   } = useStore();
 
   const csvInputRef = useRef<HTMLInputElement>(null);
@@ -108,6 +110,8 @@ function App() {
   const [showExportModal, setShowExportModal] = useState(false);
   const [showStatsModal, setShowStatsModal] = useState(false);
   const [showImportModal, setShowImportModal] = useState(false);
+  const [csvImport, setCsvImport] = useState<{ text: string; fileName: string } | null>(null);
+  const [showAlignModal, setShowAlignModal] = useState(false);
 
   // Sync dark mode with body class
   useEffect(() => {
@@ -120,6 +124,7 @@ function App() {
 
   useEffect(() => {
     fetchPalettes();
+    fetchLocalFonts();
   }, []);
 
   // Get active palette
@@ -291,8 +296,7 @@ function App() {
 
     const reader = new FileReader();
     reader.onload = (e) => {
-      const csv = e.target?.result as string;
-      importFromCSV(csv);
+      setCsvImport({ text: e.target?.result as string, fileName: file.name });
     };
     reader.readAsText(file);
     event.target.value = '';
@@ -384,7 +388,7 @@ function App() {
               type="file"
               ref={csvInputRef}
               onChange={handleCSVImport}
-              accept=".csv"
+              accept=".csv,.tsv,.txt"
               className="hidden"
             />
 
@@ -452,11 +456,7 @@ function App() {
             </div>
 
             <button
-               onClick={() => {
-                 if(confirm("Auto-align will split text by sentences and reset all annotations. Continue?")) {
-                   autoAlign();
-                 }
-               }}
+               onClick={() => setShowAlignModal(true)}
                className="w-full flex items-center justify-center gap-2 p-2 bg-purple-50 text-purple-700 border border-purple-200 rounded hover:bg-purple-100 text-xs font-medium"
             >
                <Wand2 size={14} /> Auto-Align Sentences
@@ -522,6 +522,11 @@ function App() {
 
           <div className="border-t my-2"></div>
 
+          {/* Chapters */}
+          <ChapterNavigator />
+
+          <div className="border-t my-2"></div>
+
           {/* Mode Switcher - Updated with Word Group mode */}
           <div className="space-y-2">
             <label className="text-xs font-bold text-gray-500 uppercase">Toolbox</label>
@@ -874,12 +879,27 @@ function App() {
         onClose={() => setShowStatsModal(false)}
       />
 
+      {/* Sentence Alignment Review */}
+      <SentenceAlignModal
+        isOpen={showAlignModal}
+        onClose={() => setShowAlignModal(false)}
+      />
+
       {/* Import Modal */}
       <ImportModal
         isOpen={showImportModal}
         onClose={() => setShowImportModal(false)}
       />
 
+      {/* CSV Import Wizard */}
+      {csvImport && (
+        <CsvImportModal
+          csvText={csvImport.text}
+          fileName={csvImport.fileName}
+          onClose={() => setCsvImport(null)}
+        />
+      )}
+
       {/* Keyboard Shortcuts Help Panel */}
       {showShortcuts && (
         <div 
@@ -921,6 +941,7 @@ function App() {
                   <div className="flex justify-between"><span>⌘/Ctrl + Y</span><span className="text-gray-500">Redo</span></div>
                   <div className="flex justify-between"><span>⌘/Ctrl + G</span><span className="text-gray-500">Group Mode</span></div>
                   <div className="flex justify-between"><span>⌘/Ctrl + ⇧ + A</span><span className="text-gray-500">Arrow Mode</span></div>
+                  <div className="flex justify-between"><span>Alt + Click word</span><span className="text-gray-500">Add Footnote</span></div>
                   <div className="flex justify-between"><span>Enter</span><span className="text-gray-500">Confirm Selection</span></div>
                   <div className="flex justify-between"><span>Escape</span><span className="text-gray-500">Cancel / Exit Focus</span></div>
                 </div>
@@ -1,6 +1,6 @@
 import React from 'react';
 import { Trash2, X, MoveHorizontal, GripHorizontal } from 'lucide-react';
-import { ArrowStyle, ArrowHeadStyle } from '../types';
+import { ArrowStyle, ArrowHeadStyle, ArrowConnector, ArrowLabelPlacement, DEFAULT_ARROW_LABEL } from '../types';
 import { useDraggable } from '../hooks/useDraggable';
 
 interface ArrowEditMenuProps {
@@ -9,6 +9,7 @@ interface ArrowEditMenuProps {
   currentHeadStyle: ArrowHeadStyle;
   currentWidth: number;
   currentColor: string;
+  currentLabel: Pick<ArrowConnector, 'label' | 'labelPlacement' | 'labelPosition' | 'labelOffset' | 'labelFontSize' | 'labelBackground'>;
   onUpdate: (id: string, updates: any) => void; // Using any for partial ArrowConnector
   onDelete: (id: string) => void;
   onClose: () => void;
@@ -28,12 +29,18 @@ const ARROW_HEADS: { value: ArrowHeadStyle; label: string }[] = [
   { value: 'none', label: 'None' }
 ];
 
+const LABEL_PLACEMENTS: { value: ArrowLabelPlacement; label: string }[] = [
+  { value: 'pill', label: 'Pill' },
+  { value: 'path', label: 'Along path' }
+];
+
 export const ArrowEditMenu: React.FC<ArrowEditMenuProps> = ({
   arrowId,
   currentStyle,
   currentHeadStyle,
   currentWidth,
   currentColor,
+  currentLabel,
   onUpdate,
   onDelete,
   onClose,
@@ -42,6 +49,7 @@ export const ArrowEditMenu: React.FC<ArrowEditMenuProps> = ({
   const { position: dragPos, dragHandleProps } = useDraggable({
     initialPosition: position || { x: window.innerWidth / 2 - 128, y: window.innerHeight / 2 - 100 }
   });
+  const label = { ...DEFAULT_ARROW_LABEL, ...currentLabel };
 
   return (
     <div 
@@ -140,6 +148,97 @@ export const ArrowEditMenu: React.FC<ArrowEditMenuProps> = ({
            </div>
         </div>
 
+        {/* Label */}
+        <div className="pt-2 border-t dark:border-gray-700 space-y-2">
+          <label className="block text-[10px] text-gray-500 mb-1">Label</label>
+          <input
+            type="text"
+            value={label.label || ''}
+            placeholder="e.g. agrees with"
+            onChange={(e) => onUpdate(arrowId, { label: e.target.value || undefined })}
+            className="w-full px-2 py-1 text-xs border rounded dark:bg-gray-700 dark:border-gray-600"
+          />
+          {label.label && (
+            <>
+              <div className="grid grid-cols-2 gap-1">
+                {LABEL_PLACEMENTS.map(({ value, label: name }) => (
+                  <button
+                    key={value}
+                    onClick={() => onUpdate(arrowId, { labelPlacement: value })}
+                    className={`px-2 py-1 text-xs border rounded ${
+                      label.labelPlacement === value
+                        ? 'bg-blue-50 border-blue-500 text-blue-700 font-medium'
+                        : 'hover:bg-gray-50 text-gray-600'
+                    }`}
+                  >
+                    {name}
+                  </button>
+                ))}
+              </div>
+              <div>
+                <label className="flex justify-between text-[10px] text-gray-500 mb-1">
+                  <span>Position</span>
+                  <span>{Math.round(label.labelPosition * 100)}%</span>
+                </label>
+                <input
+                  type="range"
+                  min="0"
+                  max="100"
+                  value={Math.round(label.labelPosition * 100)}
+                  onChange={(e) => onUpdate(arrowId, { labelPosition: Number(e.target.value) / 100 })}
+                  className="w-full h-1 bg-gray-200 rounded-lg appearance-none cursor-pointer"
+                />
+              </div>
+              <div>
+                <label className="flex justify-between text-[10px] text-gray-500 mb-1">
+                  <span>Offset</span>
+                  <span>{label.labelOffset}px</span>
+                </label>
+                <input
+                  type="range"
+                  min="-30"
+                  max="30"
+                  value={label.labelOffset}
+                  onChange={(e) => onUpdate(arrowId, { labelOffset: Number(e.target.value) })}
+                  className="w-full h-1 bg-gray-200 rounded-lg appearance-none cursor-pointer"
+                />
+              </div>
+              <div>
+                <label className="flex justify-between text-[10px] text-gray-500 mb-1">
+                  <span>Font Size</span>
+                  <span>{label.labelFontSize}px</span>
+                </label>
+                <input
+                  type="range"
+                  min="6"
+                  max="24"
+                  value={label.labelFontSize}
+                  onChange={(e) => onUpdate(arrowId, { labelFontSize: Number(e.target.value) })}
+                  className="w-full h-1 bg-gray-200 rounded-lg appearance-none cursor-pointer"
+                />
+              </div>
+              <div className="flex gap-2 items-center">
+                <span className="text-[10px] text-gray-500">Background</span>
+                <input
+                  type="color"
+                  value={label.labelBackground === 'transparent' ? '#ffffff' : label.labelBackground}
+                  disabled={label.labelBackground === 'transparent'}
+                  onChange={(e) => onUpdate(arrowId, { labelBackground: e.target.value })}
+                  className="w-6 h-6 p-0 border-0 rounded cursor-pointer disabled:opacity-40"
+                />
+                <label className="flex items-center gap-1 text-[10px] text-gray-500">
+                  <input
+                    type="checkbox"
+                    checked={label.labelBackground === 'transparent'}
+                    onChange={(e) => onUpdate(arrowId, { labelBackground: e.target.checked ? 'transparent' : DEFAULT_ARROW_LABEL.labelBackground })}
+                  />
+                  None
+                </label>
+              </div>
+            </>
+          )}
+        </div>
+
         <div className="pt-2 border-t mt-2">
           <button
             onClick={() => {
@@ -0,0 +1,64 @@
+import React from 'react';
+import { BackMatterPage, getEntryPageLabels, indexLetter } from '../utils/backMatter';
+import type { PageLabel } from '../../pageNumbering.js';
+
+// ─────────────────────────────────────────────────────────────────
+// BACK MATTER PAGE
+// Bilingual glossary and word index with page references
+// ─────────────────────────────────────────────────────────────────
+
+interface BackMatterPageViewProps {
+  page: BackMatterPage;
+  pageByLine: Map<string, number>;
+  pageLabels: PageLabel[]; // Printed numbers of the body pages
+  fontFamily?: string;
+}
+
+export const BackMatterPageView: React.FC<BackMatterPageViewProps> = ({ page, pageByLine, pageLabels, fontFamily }) => {
+  const title = page.kind === 'glossary' ? 'Glossary' : 'Index';
+
+  return (
+    <div className="flex-1" style={{ fontFamily }}>
+      <h2 className="text-2xl font-bold text-center mb-6">
+        {title}{page.continued && <span className="text-sm font-normal text-gray-500"> (continued)</span>}
+      </h2>
+
+      {page.entries.length === 0 && (
+        <p className="text-sm text-gray-400 italic text-center no-print">
+          Mark words as vocabulary or link French and English words to fill the {title.toLowerCase()}.
+        </p>
+      )}
+
+      {page.kind === 'glossary' ? (
+        <dl className="text-sm space-y-1">
+          {page.entries.map(entry => (
+            <div key={entry.key} className="flex gap-2">
+              <dt className="font-semibold">{entry.french}</dt>
+              <dd className="text-gray-600 italic">{entry.english.join('; ')}</dd>
+              <dd className="ml-auto text-xs text-gray-400 tabular-nums">{getEntryPageLabels(entry, pageByLine, pageLabels).join(', ')}</dd>
+            </div>
+          ))}
+        </dl>
+      ) : (
+        <ul className="text-sm space-y-1">
+          {page.entries.map((entry, i) => {
+            const letter = indexLetter(entry.french);
+            const startsLetter = i === 0 || indexLetter(page.entries[i - 1].french) !== letter;
+            return (
+              <React.Fragment key={entry.key}>
+                {startsLetter && <li className="font-bold text-gray-500 pt-2">{letter}</li>}
+                <li className="flex gap-2">
+                  <span>{entry.french}</span>
+                  <span className="flex-1 border-b border-dotted border-gray-300 mb-1" />
+                  <span className="tabular-nums">{getEntryPageLabels(entry, pageByLine, pageLabels).join(', ')}</span>
+                </li>
+              </React.Fragment>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default BackMatterPageView;
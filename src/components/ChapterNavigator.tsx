@@ -0,0 +1,190 @@
+import React, { useState, useEffect } from 'react';
+import { clsx } from 'clsx';
+import { BookOpen, ChevronUp, ChevronDown, Plus, Trash2 } from 'lucide-react';
+import { useStore } from '../store';
+import { Chapter, PageNumberStyle, PAGE_NUMBER_STYLE_LABELS } from '../types';
+
+// ─────────────────────────────────────────────────────────────────
+// CHAPTER NAVIGATOR
+// Create, rename, reorder chapters, assign their page ranges and numbering
+// ─────────────────────────────────────────────────────────────────
+
+interface ChapterRowProps {
+  chapter: Chapter;
+  index: number;
+  count: number;
+  firstPage: number | null;
+  lastPage: number | null;
+  isCurrent: boolean;
+}
+
+const ChapterRow: React.FC<ChapterRowProps> = ({ chapter, index, count, firstPage, lastPage, isCurrent }) => {
+  const { updateChapter, removeChapter, moveChapter, assignChapterPages, setCurrentPageIndex, pages } = useStore();
+  const [title, setTitle] = useState(chapter.title);
+  const [range, setRange] = useState<{ from: number; to: number } | null>(null);
+
+  // Follow undo/redo and renames made elsewhere
+  useEffect(() => setTitle(chapter.title), [chapter.title]);
+
+  const commitTitle = () => {
+    if (title.trim() && title !== chapter.title) {
+      updateChapter(chapter.id, { title: title.trim() });
+    } else {
+      setTitle(chapter.title);
+    }
+  };
+
+  return (
+    <div className={clsx("border rounded p-2 space-y-1 text-xs", isCurrent ? "border-indigo-400 bg-indigo-50" : "bg-white")}>
+      <div className="flex items-center gap-1">
+        <input
+          type="text"
+          value={title}
+          onChange={(e) => setTitle(e.target.value)}
+          onBlur={commitTitle}
+          onKeyDown={(e) => { if (e.key === 'Enter') e.currentTarget.blur(); }}
+          className="flex-1 min-w-0 p-1 border rounded text-xs font-medium"
+          aria-label="Chapter title"
+        />
+        <button onClick={() => moveChapter(chapter.id, index - 1)} disabled={index === 0}
+          className="p-1 hover:bg-gray-200 rounded disabled:opacity-30" title="Move up">
+          <ChevronUp size={12} />
+        </button>
+        <button onClick={() => moveChapter(chapter.id, index + 1)} disabled={index === count - 1}
+          className="p-1 hover:bg-gray-200 rounded disabled:opacity-30" title="Move down">
+          <ChevronDown size={12} />
+        </button>
+        <button onClick={() => { if (confirm(`Remove chapter "${chapter.title}"? Its pages are kept.`)) removeChapter(chapter.id); }}
+          className="p-1 text-red-500 hover:bg-red-50 rounded" title="Remove chapter">
+          <Trash2 size={12} />
+        </button>
+      </div>
+
+      <div className="flex items-center justify-between text-gray-500">
+        <button
+          onClick={() => firstPage !== null && setCurrentPageIndex(firstPage - 1)}
+          disabled={firstPage === null}
+          className="hover:text-indigo-600 disabled:hover:text-gray-500"
+          title="Go to chapter"
+        >
+          {firstPage === null ? 'No pages' : firstPage === lastPage ? `p. ${firstPage}` : `pp. ${firstPage}–${lastPage}`}
+        </button>
+        <label className="flex items-center gap-1" title="Insert a blank page when the chapter would open on a verso">
+          <input
+            type="checkbox"
+            checked={!!chapter.startOnRecto}
+            onChange={(e) => updateChapter(chapter.id, { startOnRecto: e.target.checked })}
+          />
+          Start on recto
+        </label>
+      </div>
+
+      {/* Setting any of these starts a new numbering section at the chapter */}
+      <div className="flex items-center gap-1 text-gray-500">
+        <select
+          value={chapter.pageNumberStyle || ''}
+          onChange={(e) => updateChapter(chapter.id, { pageNumberStyle: (e.target.value || undefined) as PageNumberStyle | undefined })}
+          className="flex-1 p-1 border rounded"
+          aria-label="Page number style"
+        >
+          <option value="">Same numbers</option>
+          {(Object.keys(PAGE_NUMBER_STYLE_LABELS) as PageNumberStyle[]).map(style => (
+            <option key={style} value={style}>{PAGE_NUMBER_STYLE_LABELS[style]}</option>
+          ))}
+        </select>
+        <input
+          type="number"
+          min={1}
+          placeholder="Cont."
+          value={chapter.startingPageNumber ?? ''}
+          onChange={(e) => updateChapter(chapter.id, { startingPageNumber: e.target.value ? Math.max(1, Number(e.target.value)) : undefined })}
+          className="w-14 p-1 border rounded"
+          title="Restart page numbers at"
+        />
+        <label className="flex items-center gap-1" title="Count the pages but leave the numbers out of the running heads">
+          <input
+            type="checkbox"
+            checked={!!chapter.hidePageNumbers}
+            onChange={(e) => updateChapter(chapter.id, { hidePageNumbers: e.target.checked || undefined })}
+          />
+          Hide
+        </label>
+      </div>
+
+      {range ? (
+        <div className="flex items-center gap-1">
+          <input type="number" min={1} max={pages.length} value={range.from}
+            onChange={(e) => setRange({ ...range, from: Number(e.target.value) })}
+            className="w-12 p-1 border rounded" aria-label="First page" />
+          <span>–</span>
+          <input type="number" min={1} max={pages.length} value={range.to}
+            onChange={(e) => setRange({ ...range, to: Number(e.target.value) })}
+            className="w-12 p-1 border rounded" aria-label="Last page" />
+          <button
+            onClick={() => { assignChapterPages(chapter.id, range.from - 1, range.to - 1); setRange(null); }}
+            className="flex-1 p-1 bg-indigo-600 text-white rounded hover:bg-indigo-700"
+          >
+            Assign
+          </button>
+          <button onClick={() => setRange(null)} className="p-1 bg-gray-100 rounded hover:bg-gray-200">Cancel</button>
+        </div>
+      ) : (
+        <button
+          onClick={() => setRange({ from: firstPage ?? 1, to: lastPage ?? firstPage ?? 1 })}
+          className="text-indigo-600 hover:underline"
+        >
+          Assign pages…
+        </button>
+      )}
+    </div>
+  );
+};
+
+export const ChapterNavigator: React.FC = () => {
+  const { bookStructure, pages, currentPageIndex, addChapter } = useStore();
+  const chapters = bookStructure?.chapters || [];
+  const currentChapterId = pages[currentPageIndex || 0]?.chapterId;
+
+  // Page numbers are 1-based positions in the page list
+  const pageRange = (chapter: Chapter) => {
+    const positions = pages
+      .map((p, i) => (p.chapterId === chapter.id && chapter.pageIds.includes(p.id) ? i + 1 : null))
+      .filter((n): n is number => n !== null);
+    return positions.length > 0
+      ? { firstPage: positions[0], lastPage: positions[positions.length - 1] }
+      : { firstPage: null, lastPage: null };
+  };
+
+  return (
+    <div className="space-y-2">
+      <label className="text-xs font-bold text-gray-500 uppercase flex items-center gap-1">
+        <BookOpen size={12} /> Chapters
+      </label>
+
+      {chapters.length === 0 && (
+        <p className="text-xs text-gray-400 italic">No chapters yet.</p>
+      )}
+
+      {chapters.map((chapter, index) => (
+        <ChapterRow
+          key={chapter.id}
+          chapter={chapter}
+          index={index}
+          count={chapters.length}
+          isCurrent={chapter.id === currentChapterId}
+          {...pageRange(chapter)}
+        />
+      ))}
+
+      <button
+        onClick={() => addChapter(`Chapter ${chapters.length + 1}`, currentPageIndex || 0)}
+        className="w-full flex items-center justify-center gap-2 p-2 bg-indigo-50 text-indigo-700 border border-indigo-200 rounded hover:bg-indigo-100 text-xs font-medium"
+        title="Start a new chapter at the current page"
+      >
+        <Plus size={14} /> New Chapter at Page {(currentPageIndex || 0) + 1}
+      </button>
+    </div>
+  );
+};
+
+export default ChapterNavigator;
@@ -175,6 +175,7 @@ const TextBlockRenderer: React.FC<TextBlockRendererProps> = ({
             language="french" 
             lineId={content.id}
             styles={content.frenchStyles}
+            words={content.frenchWords}
           />
         </div>
       )}
@@ -196,6 +197,7 @@ const TextBlockRenderer: React.FC<TextBlockRendererProps> = ({
             language="english" 
             lineId={content.id}
             styles={content.englishStyles}
+            words={content.englishWords}
           />
         </div>
       )}
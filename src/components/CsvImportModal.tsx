@@ -0,0 +1,319 @@
+import React, { useMemo, useState } from 'react';
+import { useStore } from '../store';
+import { X, FileSpreadsheet, ArrowRight, ArrowLeft, AlertTriangle } from 'lucide-react';
+import {
+  parseCsv,
+  guessColumnMapping,
+  planCsvImport,
+  CSV_FIELDS,
+  CsvColumnMapping,
+  CsvField,
+  CsvMergeMode,
+  CsvImportReport
+} from '../utils/csvImport';
+import { isTextLine } from '../utils/pageBody';
+
+interface CsvImportModalProps {
+  csvText: string;
+  fileName?: string;
+  onClose: () => void;
+}
+
+type Step = 'mapping' | 'merge' | 'report';
+
+const MERGE_MODES: { mode: CsvMergeMode; label: string; description: string }[] = [
+  { mode: 'append', label: 'Insert at position', description: 'Add every row as a new line before the chosen line.' },
+  { mode: 'replace', label: 'Replace a range', description: 'Replace a range of lines. Rows with unchanged text keep their line and its annotations.' },
+  { mode: 'match', label: 'Match by ID', description: 'Update the lines named in the ID column. Rows without a known ID are inserted.' }
+];
+
+const PREVIEW_ROWS = 8;
+const JSON_FIELDS: CsvField[] = ['words', 'annotations']; // Shown as a marker in the preview
+
+const ReportSummary: React.FC<{ report: CsvImportReport }> = ({ report }) => (
+  <div className="flex flex-wrap gap-4 text-xs">
+    <span className="text-green-700 dark:text-green-400">{report.added.length} added</span>
+    <span className="text-blue-700 dark:text-blue-400">{report.changed.length} changed</span>
+    <span className={report.dropped.length > 0 ? 'text-red-700 dark:text-red-400 font-medium' : 'text-gray-500'}>
+      {report.dropped.length} dropped
+    </span>
+    <span className="text-gray-500 dark:text-gray-400">{report.unchanged} unchanged</span>
+  </div>
+);
+
+const ReportDetails: React.FC<{ report: CsvImportReport }> = ({ report }) => (
+  <div className="space-y-4 text-sm">
+    {report.warnings.length > 0 && (
+      <div className="p-2 rounded bg-amber-50 dark:bg-amber-900/20 text-xs text-amber-800 dark:text-amber-300 space-y-1">
+        {report.warnings.map((warning, index) => <div key={index}>{warning}</div>)}
+      </div>
+    )}
+    {report.changed.length > 0 && (
+      <div>
+        <h4 className="text-xs font-bold text-gray-500 uppercase mb-1">Changed — annotations on edited words are removed</h4>
+        {report.changed.map(({ before, after }) => (
+          <div key={after.id} className="border-t dark:border-gray-700 py-1 grid grid-cols-2 gap-2">
+            <span className="text-gray-400 line-through font-serif italic">{before.frenchText} / {before.englishText}</span>
+            <span className="text-gray-800 dark:text-gray-100 font-serif italic">{after.frenchText} / {after.englishText}</span>
+          </div>
+        ))}
+      </div>
+    )}
+    {report.dropped.length > 0 && (
+      <div>
+        <h4 className="text-xs font-bold text-red-600 uppercase mb-1">Dropped</h4>
+        {report.dropped.map(line => (
+          <div key={line.id} className="border-t dark:border-gray-700 py-1 text-gray-500 font-serif italic">
+            {line.frenchText} / {line.englishText}
+          </div>
+        ))}
+      </div>
+    )}
+    {report.added.length > 0 && (
+      <div>
+        <h4 className="text-xs font-bold text-green-600 uppercase mb-1">Added</h4>
+        {report.added.map(line => (
+          <div key={line.id} className="border-t dark:border-gray-700 py-1 text-gray-700 dark:text-gray-200 font-serif italic">
+            {line.frenchText} / {line.englishText}
+          </div>
+        ))}
+      </div>
+    )}
+  </div>
+);
+
+/**
+ * CSV import wizard: map the columns, choose how the rows merge into the book, review the
+ * lines that will be added, changed and dropped, then apply. Mount it once per file.
+ */
+export const CsvImportModal: React.FC<CsvImportModalProps> = ({ csvText, fileName, onClose }) => {
+  const { pages, applyCsvImport } = useStore();
+  const parsed = useMemo(() => parseCsv(csvText), [csvText]);
+  const textLineCount = useMemo(() => pages.flatMap(p => p.lines).filter(isTextLine).length, [pages]);
+
+  // Start from the guessed mapping, appending after the last line
+  const [step, setStep] = useState<Step>('mapping');
+  const [mapping, setMapping] = useState<CsvColumnMapping>(() => guessColumnMapping(parsed.headers));
+  const [mode, setMode] = useState<CsvMergeMode>(() => (mapping.id ? 'match' : 'append'));
+  const [position, setPosition] = useState(textLineCount + 1);
+  const [rangeStart, setRangeStart] = useState(1);
+  const [rangeEnd, setRangeEnd] = useState(textLineCount);
+  const [dropMissing, setDropMissing] = useState(false);
+  const [appliedReport, setAppliedReport] = useState<CsvImportReport | null>(null);
+
+  // The UI counts lines from 1 and includes both ends of a range
+  const plan = useMemo(() => {
+    if (step !== 'merge') return null;
+    return planCsvImport(pages, parsed.rows, mapping, {
+      mode,
+      position: position - 1,
+      rangeStart: rangeStart - 1,
+      rangeEnd,
+      dropMissing
+    });
+  }, [parsed, step, pages, mapping, mode, position, rangeStart, rangeEnd, dropMissing]);
+
+  const hasText = !!(mapping.french || mapping.english);
+  const lineInput = (value: number, onChange: (n: number) => void, min: number, max: number) => (
+    <input
+      type="number"
+      min={min}
+      max={max}
+      value={value}
+      onChange={(e) => onChange(Math.min(max, Math.max(min, Number(e.target.value) || min)))}
+      className="w-20 p-1 border rounded text-sm dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+    />
+  );
+
+  const handleApply = () => {
+    if (!plan) return;
+    applyCsvImport(plan);
+    setAppliedReport(plan.report);
+    setStep('report');
+  };
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/50 z-[200] flex items-center justify-center"
+      onClick={onClose}
+    >
+      <div
+        className="bg-white dark:bg-gray-800 rounded-xl shadow-2xl w-3/4 h-3/4 flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="p-4 border-b dark:border-gray-700 flex justify-between items-center">
+          <h2 className="font-bold text-gray-800 dark:text-gray-100 flex items-center gap-2">
+            <FileSpreadsheet size={18} /> Import CSV
+            {fileName && <span className="text-xs font-normal text-gray-500">{fileName}</span>}
+          </h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-300">
+            <X size={18} />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-auto p-4 space-y-4">
+          {parsed.errors.length > 0 && (
+            <div className="p-2 rounded bg-amber-50 dark:bg-amber-900/20 text-xs text-amber-800 dark:text-amber-300 flex gap-2">
+              <AlertTriangle size={14} className="shrink-0" />
+              <span>{parsed.errors.slice(0, 3).join(' · ')}{parsed.errors.length > 3 && ` · ${parsed.errors.length - 3} more`}</span>
+            </div>
+          )}
+
+          {step === 'mapping' && (
+            <>
+              <p className="text-xs text-gray-500 dark:text-gray-400">
+                {parsed.rows.length} rows. Choose the column that holds each field.
+              </p>
+              <div className="grid grid-cols-5 gap-3">
+                {CSV_FIELDS.map(({ field, label }) => (
+                  <label key={field} className="flex flex-col gap-1 text-xs font-medium text-gray-600 dark:text-gray-300">
+                    {label}
+                    <select
+                      value={mapping[field] || ''}
+                      onChange={(e) => setMapping({ ...mapping, [field]: e.target.value || undefined })}
+                      className="p-1 border rounded text-sm dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+                    >
+                      <option value="">(none)</option>
+                      {parsed.headers.map(h => <option key={h} value={h}>{h}</option>)}
+                    </select>
+                  </label>
+                ))}
+              </div>
+
+              <table className="w-full text-sm">
+                <thead className="bg-gray-50 dark:bg-gray-700 text-xs text-gray-500 dark:text-gray-300">
+                  <tr>
+                    {CSV_FIELDS.filter(({ field }) => mapping[field]).map(({ field, label }) => (
+                      <th key={field} className="p-2 text-left">{label}</th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {parsed.rows.slice(0, PREVIEW_ROWS).map((row, index) => (
+                    <tr key={index} className="border-t dark:border-gray-700 align-top">
+                      {CSV_FIELDS.filter(({ field }) => mapping[field]).map(({ field }) => (
+                        <td
+                          key={field}
+                          className={`p-2 ${field === 'french' ? 'font-serif italic text-gray-800 dark:text-gray-100' : 'text-gray-600 dark:text-gray-300'}`}
+                        >
+                          {JSON_FIELDS.includes(field) ? (row[mapping[field]!] ? '{…}' : '') : row[mapping[field]!]}
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              {parsed.rows.length > PREVIEW_ROWS && (
+                <p className="text-xs text-gray-400">…and {parsed.rows.length - PREVIEW_ROWS} more rows</p>
+              )}
+            </>
+          )}
+
+          {step === 'merge' && plan && (
+            <>
+              <div className="grid grid-cols-3 gap-3">
+                {MERGE_MODES.map(m => (
+                  <button
+                    key={m.mode}
+                    onClick={() => setMode(m.mode)}
+                    disabled={m.mode === 'match' && !mapping.id}
+                    className={`p-3 rounded border text-left disabled:opacity-40 ${
+                      mode === m.mode
+                        ? 'border-blue-500 bg-blue-50 dark:bg-blue-900/30'
+                        : 'border-gray-200 dark:border-gray-600 hover:bg-gray-50 dark:hover:bg-gray-700'
+                    }`}
+                  >
+                    <div className="text-sm font-medium text-gray-800 dark:text-gray-100">{m.label}</div>
+                    <div className="text-xs text-gray-500 dark:text-gray-400 mt-1">{m.description}</div>
+                  </button>
+                ))}
+              </div>
+
+              <div className="flex items-center gap-3 text-sm text-gray-700 dark:text-gray-200">
+                {(mode === 'append' || mode === 'match') && (
+                  <label className="flex items-center gap-2">
+                    {mode === 'append' ? 'Insert before line' : 'Insert new rows before line'}
+                    {lineInput(position, setPosition, 1, textLineCount + 1)}
+                    <span className="text-xs text-gray-400">({textLineCount + 1} = at the end)</span>
+                  </label>
+                )}
+                {mode === 'replace' && (
+                  <>
+                    <label className="flex items-center gap-2">
+                      Replace lines {lineInput(rangeStart, setRangeStart, 1, Math.max(1, textLineCount))}
+                    </label>
+                    <label className="flex items-center gap-2">
+                      to {lineInput(rangeEnd, setRangeEnd, 0, textLineCount)}
+                    </label>
+                  </>
+                )}
+                {mode === 'match' && (
+                  <label className="flex items-center gap-2 ml-4">
+                    <input type="checkbox" checked={dropMissing} onChange={(e) => setDropMissing(e.target.checked)} />
+                    Drop lines whose ID is not in the CSV
+                  </label>
+                )}
+              </div>
+
+              <div className="border-t dark:border-gray-700 pt-3 space-y-3">
+                <ReportSummary report={plan.report} />
+                <ReportDetails report={plan.report} />
+              </div>
+            </>
+          )}
+
+          {step === 'report' && appliedReport && (
+            <>
+              <p className="text-sm text-gray-700 dark:text-gray-200">
+                Import applied. Pages were reflowed at 25 lines; undo restores the previous book.
+              </p>
+              <ReportSummary report={appliedReport} />
+              <ReportDetails report={appliedReport} />
+            </>
+          )}
+        </div>
+
+        <div className="p-4 border-t dark:border-gray-700 flex items-center gap-2">
+          {step === 'merge' && (
+            <button
+              onClick={() => setStep('mapping')}
+              className="px-4 py-2 text-sm rounded border border-gray-200 dark:border-gray-600 hover:bg-gray-50 dark:hover:bg-gray-700 flex items-center gap-1"
+            >
+              <ArrowLeft size={14} /> Columns
+            </button>
+          )}
+          {step === 'mapping' && !hasText && (
+            <p className="text-xs text-amber-700 dark:text-amber-400">Map a French or English column to continue.</p>
+          )}
+          <button
+            onClick={onClose}
+            className="ml-auto px-4 py-2 text-sm rounded border border-gray-200 dark:border-gray-600 hover:bg-gray-50 dark:hover:bg-gray-700"
+          >
+            {step === 'report' ? 'Done' : 'Cancel'}
+          </button>
+          {step === 'mapping' && (
+            <button
+              onClick={() => {
+                if (mode === 'match' && !mapping.id) setMode('append');
+                setStep('merge');
+              }}
+              disabled={!hasText}
+              className="px-4 py-2 text-sm rounded bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50 flex items-center gap-1"
+            >
+              Next <ArrowRight size={14} />
+            </button>
+          )}
+          {step === 'merge' && (
+            <button
+              onClick={handleApply}
+              disabled={!plan || plan.report.added.length + plan.report.changed.length + plan.report.dropped.length === 0}
+              className="px-4 py-2 text-sm rounded bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50"
+            >
+              Apply Import
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
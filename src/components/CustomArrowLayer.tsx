@@ -1,6 +1,9 @@
-import React, { useEffect, useState, useCallback } from 'react';
+import React, { useEffect, useState, useCallback, useRef } from 'react';
 import { useStore } from '../store';
 import { debounce } from '../utils/debounce';
+import { routeArrows, getContinuation, placeLabel, ArrowRouteRequest, Box, Continuation, LabelPlacement, RoutedArrow } from '../utils/arrowRouting';
+import { getBodyPageLabels } from '../../pageNumbering.js';
+import { DEFAULT_ARROW_LABEL, ArrowConnector, ArrowLabelPlacement } from '../types';
 
 interface ArrowPath {
   id: string;
@@ -10,14 +13,19 @@ interface ArrowPath {
   strokeWidth: number;
   headStyle: 'arrow' | 'none' | 'dot' | 'diamond';
   isSelected: boolean;
+  continuation?: Continuation['label']; // "continues on p. N" marker of a cross-page arrow
+  label?: LabelPlacement & { text: string; placement: ArrowLabelPlacement; fontSize: number; background: string };
 }
 
 /**
- * CustomArrowLayer - Renders curved arrows between word groups
+ * CustomArrowLayer - Renders routed arrows between word groups
  * 
  * Features:
- * - Arrows curve BELOW the text (not through words)
- * - Connects from underline to underline
+ * - Arrows route around words and other arrows (see utils/arrowRouting)
+ * - Anchors follow startAnchor/endAnchor, with `auto` picking sides by position
+ * - Parallel arrows between the same groups are bundled into lanes
+ * - Arrows to another page break off into a "continues on p. N" marker
+ * - Labels along the path or in a pill, placed on the arrow's first route
  * - Supports one-to-many and many-to-one connections
  * - Custom styling (solid, dashed, dotted)
  * - Selectable arrows for editing
@@ -27,67 +35,106 @@ interface CustomArrowLayerProps {
 }
 
 export const CustomArrowLayer: React.FC<CustomArrowLayerProps> = ({ onArrowClick }) => {
-  const { arrows, wordGroups, selectedElementId, setSelectedElement, selectionMode, zoomLevel } = useStore();
+  const { arrows, wordGroups, pages, bookStructure, selectedElementId, setSelectedElement, selectionMode, zoomLevel } = useStore();
   const [arrowPaths, setArrowPaths] = useState<ArrowPath[]>([]);
 
+  // Last routing input and result; routing only reruns when the layout changes
+  const lastRouting = useRef<{ key: string; routes: RoutedArrow[] } | null>(null);
+
   // Calculate arrow paths when arrows or word groups change
   const calculatePaths = useCallback(() => {
-    const paths: ArrowPath[] = [];
-
     // Get workspace inner container for relative positioning
     const workspaceInner = document.querySelector('.workspace-inner');
     if (!workspaceInner) return;
     const innerRect = workspaceInner.getBoundingClientRect();
 
+    const pageIndexByLine = new Map<string, number>();
+    pages.forEach((page, pageIndex) => page.lines.forEach(line => pageIndexByLine.set(line.id, pageIndex)));
+    // Continuation markers give the other page's number as printed
+    const pageLabels = getBodyPageLabels(pages, bookStructure).map(l => l.label || String(l.value));
+
+    // Where each group is laid out, if its page is rendered in the current view
+    const locateGroup = (groupId: string) => {
+      const group = wordGroups.find(g => g.id === groupId);
+      const pageIndex = group ? pageIndexByLine.get(group.lineId) : undefined;
+      if (!group || pageIndex === undefined) return null;
+      return { pageIndex, box: getGroupBoundingRect(group.wordIds, innerRect, zoomLevel) };
+    };
+    const pageBox = (pageIndex: number) => {
+      const el = workspaceInner.querySelector(`[data-page-id="${pages[pageIndex].id}"]`);
+      return el ? toLayerBox(el.getBoundingClientRect(), innerRect, zoomLevel) : null;
+    };
+
+    // One route from each source group to each target group. Groups on different pages
+    // get a break-off stub on each rendered side instead.
+    const requests: ArrowRouteRequest[] = [];
+    const owners: { arrow: ArrowConnector; continuation?: Continuation['label'] }[] = [];
     arrows.forEach(arrow => {
-      // Get source and target group elements
-      const sourcePositions: DOMRect[] = [];
-      const targetPositions: DOMRect[] = [];
-
-      // Gather source group positions
-      arrow.sourceGroupIds.forEach(groupId => {
-        const group = wordGroups.find(g => g.id === groupId);
-        if (!group) return;
-
-        // Get all word elements in this group
-        const groupRect = getGroupBoundingRect(group.wordIds, innerRect, zoomLevel);
-        if (groupRect) {
-          sourcePositions.push(groupRect);
-        }
-      });
+      const sources = arrow.sourceGroupIds.map(locateGroup);
+      const targets = arrow.targetGroupIds.map(locateGroup);
+      const base = { id: arrow.id, startAnchor: arrow.startAnchor, endAnchor: arrow.endAnchor, curvature: arrow.curvature };
 
-      // Gather target group positions
-      arrow.targetGroupIds.forEach(groupId => {
-        const group = wordGroups.find(g => g.id === groupId);
-        if (!group) return;
+      sources.forEach(source => targets.forEach(target => {
+        if (!source || !target) return;
+        if (source.pageIndex === target.pageIndex) {
+          if (!source.box || !target.box) return;
+          requests.push({ ...base, source: source.box, target: target.box });
+          owners.push({ arrow });
+          return;
+        }
 
-        const groupRect = getGroupBoundingRect(group.wordIds, innerRect, zoomLevel);
-        if (groupRect) {
-          targetPositions.push(groupRect);
+        const targetIsLater = target.pageIndex > source.pageIndex;
+        const sourcePage = source.box && pageBox(source.pageIndex);
+        if (source.box && sourcePage) {
+          const out = getContinuation(sourcePage, source.box, pageLabels[target.pageIndex], targetIsLater, true);
+          requests.push({ ...base, source: source.box, target: out.end, endAnchor: out.side });
+          owners.push({ arrow, continuation: out.label });
+        }
+        const targetPage = target.box && pageBox(target.pageIndex);
+        if (target.box && targetPage) {
+          const into = getContinuation(targetPage, target.box, pageLabels[source.pageIndex], !targetIsLater, false);
+          requests.push({ ...base, source: into.end, target: target.box, startAnchor: into.side });
+          owners.push({ arrow, continuation: into.label });
         }
-      });
-
-      // Create arrow paths from each source to each target
-      sourcePositions.forEach((sourceRect, sIdx) => {
-        targetPositions.forEach((targetRect, tIdx) => {
-          // Use a combined index for offset
-          const offsetIndex = sIdx + tIdx; 
-          const path = calculateBezierPath(sourceRect, targetRect, arrow.curvature, offsetIndex);
-          paths.push({
-            id: arrow.id,
-            d: path,
-            color: arrow.color,
-            style: arrow.style,
-            strokeWidth: arrow.strokeWidth,
-            headStyle: arrow.headStyle,
-            isSelected: selectedElementId === arrow.id
-          });
-        });
-      });
+      }));
     });
 
-    setArrowPaths(paths);
-  }, [arrows, wordGroups, selectedElementId, zoomLevel]);
+    // Every word on the pages is an obstacle
+    const obstacles = Array.from(workspaceInner.querySelectorAll('[data-word-index]'))
+      .map(el => toLayerBox(el.getBoundingClientRect(), innerRect, zoomLevel))
+      .filter(box => box.width > 0 && box.height > 0);
+
+    const key = JSON.stringify([requests, obstacles]);
+    if (lastRouting.current?.key !== key) {
+      lastRouting.current = { key, routes: routeArrows(requests, obstacles) };
+    }
+
+    const labelled = new Set<string>();
+    setArrowPaths(lastRouting.current.routes.map((route, i) => {
+      const { arrow, continuation } = owners[i];
+      const showLabel = !!arrow.label && !labelled.has(arrow.id);
+      if (showLabel) labelled.add(arrow.id);
+      const labelStyle = { ...DEFAULT_ARROW_LABEL, ...arrow };
+
+      return {
+        id: route.id,
+        d: route.d,
+        color: arrow.color,
+        style: arrow.style,
+        strokeWidth: arrow.strokeWidth,
+        headStyle: arrow.headStyle,
+        isSelected: selectedElementId === route.id,
+        continuation,
+        label: showLabel ? {
+          ...placeLabel(route.points, arrow),
+          text: arrow.label!,
+          placement: labelStyle.labelPlacement,
+          fontSize: labelStyle.labelFontSize,
+          background: labelStyle.labelBackground
+        } : undefined
+      };
+    }));
+  }, [arrows, wordGroups, pages, bookStructure, selectedElementId, zoomLevel]);
 
   // Recalculate on mount and when dependencies change
   useEffect(() => {
@@ -155,7 +202,7 @@ export const CustomArrowLayer: React.FC<CustomArrowLayerProps> = ({ onArrowClick
 
   return (
     <svg
-      className="absolute inset-0 w-full h-full pointer-events-none overflow-visible"
+      className="arrow-layer absolute inset-0 w-full h-full pointer-events-none overflow-visible"
       style={{ zIndex: 10 }}
     >
       <defs>
@@ -210,6 +257,21 @@ export const CustomArrowLayer: React.FC<CustomArrowLayerProps> = ({ onArrowClick
             markerEnd={path.headStyle !== 'none' ? `url(#arrowhead-${path.id})` : undefined}
             style={{ pointerEvents: 'none' }}
           />
+          {path.continuation && (
+            <text
+              x={path.continuation.x}
+              y={path.continuation.y}
+              textAnchor="middle"
+              fontSize={8}
+              fontStyle="italic"
+              fill={path.isSelected ? '#3b82f6' : path.color}
+            >
+              {path.continuation.lines.map((line, i) => (
+                <tspan key={i} x={path.continuation!.x} dy={i === 0 ? 0 : 9}>{line}</tspan>
+              ))}
+            </text>
+          )}
+          {path.label && <ArrowLabel label={path.label} color={path.isSelected ? '#3b82f6' : path.color} />}
         </g>
       ))}
     </svg>
@@ -217,10 +279,59 @@ export const CustomArrowLayer: React.FC<CustomArrowLayerProps> = ({ onArrowClick
 };
 
 /**
- * Get the combined bounding rect for a group of word elements
- * Returns coordinates relative to the workspace-inner container, adjusted for zoom
+ * An arrow's label: a pill with a background, or text along the path with the background
+ * as a halo so the line does not run through it
  */
-function getGroupBoundingRect(wordIds: string[], innerRect: DOMRect, zoom: number): DOMRect | null {
+const ArrowLabel: React.FC<{ label: NonNullable<ArrowPath['label']>; color: string }> = ({ label, color }) => {
+  const hasBackground = label.background !== 'transparent';
+  return (
+    <g transform={`rotate(${label.angle} ${label.x} ${label.y})`} style={{ pointerEvents: 'none' }}>
+      {label.placement === 'pill' && hasBackground && (
+        <rect
+          x={label.x - label.width / 2}
+          y={label.y - label.height / 2}
+          width={label.width}
+          height={label.height}
+          rx={label.height / 2}
+          fill={label.background}
+          stroke={color}
+          strokeWidth={0.75}
+        />
+      )}
+      <text
+        x={label.x}
+        y={label.y}
+        textAnchor="middle"
+        dominantBaseline="central"
+        fontSize={label.fontSize}
+        fill={color}
+        stroke={label.placement === 'path' && hasBackground ? label.background : undefined}
+        strokeWidth={label.placement === 'path' && hasBackground ? 3 : undefined}
+        paintOrder="stroke"
+      >
+        {label.text}
+      </text>
+    </g>
+  );
+};
+
+/**
+ * Convert a viewport rect to coordinates relative to the workspace-inner container,
+ * adjusted for zoom
+ */
+function toLayerBox(rect: DOMRect, innerRect: DOMRect, zoom: number): Box {
+  return {
+    x: (rect.left - innerRect.left) / zoom,
+    y: (rect.top - innerRect.top) / zoom,
+    width: rect.width / zoom,
+    height: rect.height / zoom
+  };
+}
+
+/**
+ * Get the combined bounding box for a group of word elements, in layer coordinates
+ */
+function getGroupBoundingRect(wordIds: string[], innerRect: DOMRect, zoom: number): Box | null {
   let minX = Infinity;
   let minY = Infinity;
   let maxX = -Infinity;
@@ -231,76 +342,17 @@ function getGroupBoundingRect(wordIds: string[], innerRect: DOMRect, zoom: numbe
     const el = document.getElementById(wordId);
     if (!el) return;
 
-    const rect = el.getBoundingClientRect();
-    
-    // Calculate position relative to the workspace-inner container
-    // And un-scale it by dividing by zoom
-    const x = (rect.left - innerRect.left) / zoom;
-    const y = (rect.top - innerRect.top) / zoom;
-    const w = rect.width / zoom;
-    const h = rect.height / zoom;
-
+    const { x, y, width, height } = toLayerBox(el.getBoundingClientRect(), innerRect, zoom);
     minX = Math.min(minX, x);
     minY = Math.min(minY, y);
-    maxX = Math.max(maxX, x + w);
-    maxY = Math.max(maxY, y + h);
+    maxX = Math.max(maxX, x + width);
+    maxY = Math.max(maxY, y + height);
     found = true;
   });
 
   if (!found) return null;
 
-  return new DOMRect(minX, minY, maxX - minX, maxY - minY);
+  return { x: minX, y: minY, width: maxX - minX, height: maxY - minY };
 }
 
-  // Calculate a bezier path that curves BELOW the text
-  function calculateBezierPath(
-    source: DOMRect,
-    target: DOMRect,
-    curvature: number,
-    index: number = 0 // Offset index to avoid overlap
-  ): string {
-    // Start point: bottom center of source
-    const startX = source.left + source.width / 2;
-    const startY = source.top + source.height + 5; 
-  
-    // End point: bottom center of target
-    const endX = target.left + target.width / 2;
-    const endY = target.top + target.height + 5;
-  
-    // Add small jitter/offset based on index to prevent exact overlaps
-    const offset = (index % 5) * 4; // 0, 4, 8, 12, 16px offset
-    
-    // For flatness: reduce curve depth significantly for short arrows
-    // And limit the max depth
-    const distanceX = Math.abs(endX - startX);
-    const distanceY = Math.abs(endY - startY);
-    const distance = Math.sqrt(distanceX * distanceX + distanceY * distanceY);
-    
-    // Flatten logic: 
-    // If distance is short (< 150px), make it very flat
-    // If distance is long, allow more curve but clamp it.
-    let curveDepth = Math.min(80, Math.max(20, distance * 0.2)) * curvature;
-    
-    // Push the curve further down if we have offset
-    curveDepth += offset;
-  
-    // Control points go below the line
-    // We use a more "square-ish" bezier for better readability sometimes, 
-    // but a smooth cubic bezier is usually nicer.
-    
-    // If mostly vertical (rare in this app?), adjust differently
-    if (distanceX < 20) {
-        curveDepth = 30;
-    }
-  
-    const cp1Y = Math.max(startY, endY) + curveDepth;
-    const cp2Y = Math.max(startY, endY) + curveDepth;
-    
-    // Spread control points horizontally to widen the bottom of the U shape
-    const cp1X = startX + (endX - startX) * 0.2;
-    const cp2X = endX - (endX - startX) * 0.2;
-  
-    return `M ${startX} ${startY} C ${cp1X} ${cp1Y}, ${cp2X} ${cp2Y}, ${endX} ${endY}`;
-  }
-
 export default CustomArrowLayer;
@@ -2,6 +2,7 @@ import React, { useEffect, useState } from 'react';
 import { useStore } from '../store';
 import { FolderOpen, FilePlus, Loader, Clock, Trash2, Edit2, Check, X, Copy, FileSpreadsheet } from 'lucide-react';
 import { CSVCreator } from './CSVCreator';
+import { LOCAL_SERVER } from '../utils/localServer';
 
 interface DashboardProps {
   onOpenProject: (name: string) => void;
@@ -43,7 +44,7 @@ export const Dashboard: React.FC<DashboardProps> = ({ onOpenProject, onCreatePro
     if (deletingProject === name) {
       // Second click - confirm deletion
       try {
-        const response = await fetch(`http://localhost:3001/projects/${encodeURIComponent(name)}`, {
+        const response = await fetch(`${LOCAL_SERVER}/projects/${encodeURIComponent(name)}`, {
           method: 'DELETE'
         });
         if (response.ok) {
@@ -74,7 +75,7 @@ export const Dashboard: React.FC<DashboardProps> = ({ onOpenProject, onCreatePro
     }
     
     try {
-      const response = await fetch(`http://localhost:3001/projects/${encodeURIComponent(oldName)}/rename`, {
+      const response = await fetch(`${LOCAL_SERVER}/projects/${encodeURIComponent(oldName)}/rename`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({ newName: renameValue.trim() })
@@ -83,15 +84,15 @@ export const Dashboard: React.FC<DashboardProps> = ({ onOpenProject, onCreatePro
         await loadProjects();
       } else {
         // Fallback: copy and delete approach
-        const getRes = await fetch(`http://localhost:3001/projects/${encodeURIComponent(oldName)}`);
+        const getRes = await fetch(`${LOCAL_SERVER}/projects/${encodeURIComponent(oldName)}`);
         if (getRes.ok) {
           const projectData = await getRes.json();
-          await fetch(`http://localhost:3001/projects/${encodeURIComponent(renameValue.trim())}`, {
+          await fetch(`${LOCAL_SERVER}/projects/${encodeURIComponent(renameValue.trim())}`, {
             method: 'PUT',
             headers: { 'Content-Type': 'application/json' },
             body: JSON.stringify(projectData)
           });
-          await fetch(`http://localhost:3001/projects/${encodeURIComponent(oldName)}`, { method: 'DELETE' });
+          await fetch(`${LOCAL_SERVER}/projects/${encodeURIComponent(oldName)}`, { method: 'DELETE' });
           await loadProjects();
         }
       }
@@ -104,12 +105,12 @@ export const Dashboard: React.FC<DashboardProps> = ({ onOpenProject, onCreatePro
   const handleDuplicate = async (name: string, e: React.MouseEvent) => {
     e.stopPropagation();
     try {
-      const response = await fetch(`http://localhost:3001/projects/${encodeURIComponent(name)}`);
+      const response = await fetch(`${LOCAL_SERVER}/projects/${encodeURIComponent(name)}`);
       if (response.ok) {
         const projectData = await response.json();
         const newName = `${name} (Copy)`;
 
-        await fetch(`http://localhost:3001/projects`, {
+        await fetch(`${LOCAL_SERVER}/projects`, {
           method: 'POST',
           headers: { 'Content-Type': 'application/json' },
           body: JSON.stringify({ name: newName, data: projectData })
@@ -253,7 +254,7 @@ export const Dashboard: React.FC<DashboardProps> = ({ onOpenProject, onCreatePro
                                     <button
                                         onClick={(e) => {
                                           e.stopPropagation();
-                                          fetch('http://localhost:3001/open-folder', { 
+                                          fetch(`${LOCAL_SERVER}/open-folder`, { 
                                             method: 'POST',
                                             headers: { 'Content-Type': 'application/json' },
                                             body: JSON.stringify({ path: `projects/${p.name}.json` })
@@ -1,27 +1,58 @@
 import React, { useState, useCallback } from 'react';
-import { X, Download, FileText, Globe, File, Check, Image, Archive, Loader2 } from 'lucide-react';
+import { v4 as uuidv4 } from 'uuid';
+import { X, Download, FileText, FileSpreadsheet, Globe, File, Check, Image, Archive, Loader2, BookOpen } from 'lucide-react';
 import { useStore } from '../store';
 import { generateInteractiveHTML } from '../utils/htmlExport';
+import { exportAnnotatedCsv, CsvDelimiter } from '../utils/csvExport';
+import { generateEpub } from '../utils/epubExport';
+import { generateEmbeddedFontFaceCss, getFontsForFamilies } from '../utils/fonts';
 import { exportSinglePageAsPng, exportMultiplePagesAsZip, PngExportOptions } from '../utils/pngExport';
+import { getFrontMatterPages } from '../utils/frontMatter';
+import { collectGlossaryEntries, getBackMatterPages, getEntriesPerPage } from '../utils/backMatter';
 import { clsx } from 'clsx';
+import { PAGE_SIZES, ImpositionLayout, ImpositionSettings, PageSize } from '../types';
+import { LOCAL_SERVER } from '../utils/localServer';
 
 interface ExportModalProps {
   isOpen: boolean;
   onClose: () => void;
 }
 
-type ExportFormat = 'pdf' | 'html' | 'print' | 'json' | 'png' | 'png-zip';
+type ExportFormat = 'pdf' | 'html' | 'epub' | 'print' | 'json' | 'csv' | 'png' | 'png-zip';
+
+// Resolves once every page is in the workspace, checking each frame; rejects after `timeout` ms
+const waitForPageElements = (pageIds: string[], timeout = 5000) => new Promise<void>((resolve, reject) => {
+  const started = performance.now();
+  const check = () => {
+    const workspace = document.querySelector('.workspace-inner');
+    if (workspace && pageIds.every(id => workspace.querySelector(`[data-page-id="${id}"]`))) resolve();
+    else if (performance.now() - started > timeout) reject(new Error('Pages did not render in time'));
+    else requestAnimationFrame(check);
+  };
+  requestAnimationFrame(check);
+});
 
 export const ExportModal: React.FC<ExportModalProps> = ({ isOpen, onClose }) => {
-  const { pages, wordGroups, arrows, theme, palettes, metadata, sidebars, linkedPairs, templates, uiSettings } = useStore();
+  const { pages, wordGroups, arrows, theme, palettes, metadata, setMetadata, sidebars, highlights, linkedPairs, templates, uiSettings, bookStructure, footnotes, localFonts, viewMode, setViewMode } = useStore();
   
   const [selectedFormat, setSelectedFormat] = useState<ExportFormat>('html');
   const [htmlOptions, setHtmlOptions] = useState({
     hoverReveal: true,
+    includeArrows: true,
+    arrowsOnHover: false,
     includeStyles: true,
     includeAnnotations: true,
     theme: 'auto' as 'light' | 'dark' | 'auto'
   });
+  const [csvDelimiter, setCsvDelimiter] = useState<CsvDelimiter>(',');
+  // Press sheets for the PDF; without a layout the PDF has one page per sheet
+  const [imposition, setImposition] = useState<Omit<ImpositionSettings, 'layout'> & { layout: ImpositionLayout | 'none' }>({
+    layout: 'none',
+    sheetSize: 'A4',
+    creep: '0.1mm',
+    foldMarks: true,
+    cutMarks: false
+  });
   const [pngOptions, setPngOptions] = useState<PngExportOptions>({
     transparentBackground: false,
     scale: 2,
@@ -33,6 +64,26 @@ export const ExportModal: React.FC<ExportModalProps> = ({ isOpen, onClose }) =>
   const [exportProgress, setExportProgress] = useState<{ current: number; total: number } | null>(null);
 
   const activePalette = palettes.find(p => p.id === theme.activePaletteId) || palettes[0];
+  const frontMatterCount = getFrontMatterPages(bookStructure?.frontMatter).length;
+  const backMatterCount = isOpen && (bookStructure?.backMatter.glossary || bookStructure?.backMatter.index)
+    ? getBackMatterPages(bookStructure.backMatter, collectGlossaryEntries(pages, wordGroups, linkedPairs), getEntriesPerPage(theme)).length
+    : 0;
+
+  // Whole-book exports capture the continuous view, the only one that lays out every page
+  // including the generated front matter. Resolves to a function that restores the view.
+  const showAllPages = async (): Promise<() => void> => {
+    const previousMode = viewMode;
+    if (previousMode === 'continuous') return () => {};
+    setViewMode('continuous');
+    const restore = () => setViewMode(previousMode);
+    try {
+      await waitForPageElements(pages.map(p => p.id));
+    } catch (e) {
+      restore();
+      throw e;
+    }
+    return restore;
+  };
 
   // Find page elements in the DOM
   const getPageElements = useCallback((): HTMLElement[] => {
@@ -44,12 +95,21 @@ export const ExportModal: React.FC<ExportModalProps> = ({ isOpen, onClose }) =>
     return Array.from(pageContainers) as HTMLElement[];
   }, []);
 
+  // Generated front and back matter pages are exported with the book but are not body pages
+  const getBodyPageElements = useCallback((): HTMLElement[] => {
+    return getPageElements().filter(el => !el.hasAttribute('data-front-matter') && !el.hasAttribute('data-back-matter'));
+  }, [getPageElements]);
+
   const handleExport = async () => {
     setIsExporting(true);
     setExportProgress(null);
     
     try {
       if (selectedFormat === 'html') {
+        // Inline the local fonts the book uses so the file renders the same offline
+        const fontFaceCss = await generateEmbeddedFontFaceCss(
+          getFontsForFamilies(localFonts, [theme.frenchFontFamily, theme.englishFontFamily])
+        );
         const html = generateInteractiveHTML(
           pages,
           wordGroups,
@@ -58,7 +118,8 @@ export const ExportModal: React.FC<ExportModalProps> = ({ isOpen, onClose }) =>
           theme,
           activePalette,
           metadata.title || 'Untitled',
-          htmlOptions
+          { ...htmlOptions, fontFaceCss },
+          { metadata, bookStructure, linkedPairs, footnotes }
         );
         
         // Download the HTML file
@@ -72,11 +133,31 @@ export const ExportModal: React.FC<ExportModalProps> = ({ isOpen, onClose }) =>
         document.body.removeChild(a);
         URL.revokeObjectURL(url);
         
+        setExported(true);
+        setTimeout(() => setExported(false), 2000);
+      } else if (selectedFormat === 'epub') {
+        // Without an ISBN the e-book is identified by a UUID, created on the first export and
+        // saved with the project so every later export is the same book
+        const bookId = metadata.bookId || uuidv4();
+        if (!metadata.bookId) setMetadata({ bookId });
+        const blob = await generateEpub(
+          { metadata: { ...metadata, bookId }, pages, wordGroups, sidebars: useStore.getState().sidebars, theme, palette: activePalette, bookStructure, footnotes },
+          getFontsForFamilies(localFonts, [theme.frenchFontFamily, theme.englishFontFamily])
+        );
+        const url = URL.createObjectURL(blob);
+        const a = document.createElement('a');
+        a.href = url;
+        a.download = `${(metadata.title || 'export').replace(/[^a-z0-9]/gi, '_')}.epub`;
+        document.body.appendChild(a);
+        a.click();
+        document.body.removeChild(a);
+        URL.revokeObjectURL(url);
+
         setExported(true);
         setTimeout(() => setExported(false), 2000);
       } else if (selectedFormat === 'json') {
         const projectData = {
-           metadata, pages, highlights: [], wordGroups, arrows, sidebars, theme, palettes, linkedPairs, templates, uiSettings
+           metadata, pages, highlights: [], wordGroups, arrows, sidebars, theme, palettes, linkedPairs, templates, uiSettings, bookStructure, footnotes
         };
         const blob = new Blob([JSON.stringify(projectData, null, 2)], { type: 'application/json' });
         const url = URL.createObjectURL(blob);
@@ -90,11 +171,59 @@ export const ExportModal: React.FC<ExportModalProps> = ({ isOpen, onClose }) =>
 
         setExported(true);
         setTimeout(() => setExported(false), 2000);
-      } else if (selectedFormat === 'print' || selectedFormat === 'pdf') {
+      } else if (selectedFormat === 'csv') {
+        const csv = exportAnnotatedCsv({ pages, wordGroups, arrows, linkedPairs, sidebars, highlights, footnotes }, csvDelimiter);
+        const isTsv = csvDelimiter === '\t';
+        const blob = new Blob([csv], { type: `${isTsv ? 'text/tab-separated-values' : 'text/csv'};charset=utf-8;` });
+        const url = URL.createObjectURL(blob);
+        const a = document.createElement('a');
+        a.href = url;
+        a.download = `${(metadata.title || 'project').replace(/[^a-z0-9]/gi, '_')}.${isTsv ? 'tsv' : 'csv'}`;
+        document.body.appendChild(a);
+        a.click();
+        document.body.removeChild(a);
+        URL.revokeObjectURL(url);
+
+        setExported(true);
+        setTimeout(() => setExported(false), 2000);
+      } else if (selectedFormat === 'pdf') {
+        // The server renders the PDF from the project data, independent of the editor view
+        const response = await fetch(`${LOCAL_SERVER}/export-pdf`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            project: { metadata, pages, wordGroups, arrows, sidebars, theme, linkedPairs, uiSettings, bookStructure, footnotes },
+            imposition: imposition.layout === 'none' ? undefined : {
+              layout: imposition.layout,
+              sheetWidth: PAGE_SIZES[imposition.sheetSize].width,
+              sheetHeight: PAGE_SIZES[imposition.sheetSize].height,
+              creep: imposition.creep,
+              foldMarks: imposition.foldMarks,
+              cutMarks: imposition.cutMarks
+            }
+          })
+        });
+        if (!response.ok) throw new Error(`PDF export failed: ${response.status}`);
+
+        const blob = await response.blob();
+        const url = URL.createObjectURL(blob);
+        const a = document.createElement('a');
+        a.href = url;
+        a.download = `${(metadata.title || 'export').replace(/[^a-z0-9]/gi, '_')}${imposition.layout === 'none' ? '' : `-${imposition.layout}`}.pdf`;
+        document.body.appendChild(a);
+        a.click();
+        document.body.removeChild(a);
+        URL.revokeObjectURL(url);
+
+        setExported(true);
+        setTimeout(() => setExported(false), 2000);
+      } else if (selectedFormat === 'print') {
+        const restoreView = await showAllPages();
+        window.addEventListener('afterprint', restoreView, { once: true });
         window.print();
       } else if (selectedFormat === 'png') {
         // Export current page as PNG
-        const pageElements = getPageElements();
+        const pageElements = getBodyPageElements();
         const currentPageIndex = useStore.getState().currentPageIndex || 0;
         
         if (pageElements.length > 0 && pageElements[currentPageIndex]) {
@@ -108,24 +237,29 @@ export const ExportModal: React.FC<ExportModalProps> = ({ isOpen, onClose }) =>
         }
       } else if (selectedFormat === 'png-zip') {
         // Export all pages as ZIP of PNGs
-        const pageElements = getPageElements();
-        
-        if (pageElements.length > 0) {
-          const zipFilename = `${(metadata.title || 'pages').replace(/[^a-z0-9]/gi, '_')}_all_pages.zip`;
-          const basePageName = (metadata.title || 'page').replace(/[^a-z0-9]/gi, '_');
-          
-          await exportMultiplePagesAsZip(
-            pageElements,
-            zipFilename,
-            basePageName,
-            pngOptions,
-            (current, total) => setExportProgress({ current, total })
-          );
-          
-          setExported(true);
-          setTimeout(() => setExported(false), 2000);
-        } else {
-          throw new Error('No pages found to export');
+        const restoreView = await showAllPages();
+        try {
+          const pageElements = getPageElements();
+
+          if (pageElements.length > 0) {
+            const zipFilename = `${(metadata.title || 'pages').replace(/[^a-z0-9]/gi, '_')}_all_pages.zip`;
+            const basePageName = (metadata.title || 'page').replace(/[^a-z0-9]/gi, '_');
+
+            await exportMultiplePagesAsZip(
+              pageElements,
+              zipFilename,
+              basePageName,
+              pngOptions,
+              (current, total) => setExportProgress({ current, total })
+            );
+
+            setExported(true);
+            setTimeout(() => setExported(false), 2000);
+          } else {
+            throw new Error('No pages found to export');
+          }
+        } finally {
+          restoreView();
         }
       }
     } catch (error) {
@@ -166,7 +300,7 @@ export const ExportModal: React.FC<ExportModalProps> = ({ isOpen, onClose }) =>
           <label className="text-sm font-medium text-gray-500 dark:text-gray-400 uppercase mb-2 block">
             Export Format
           </label>
-          <div className="grid grid-cols-3 gap-2 sm:grid-cols-6">
+          <div className="grid grid-cols-4 gap-2 sm:grid-cols-8">
             <button
               onClick={() => setSelectedFormat('html')}
               className={clsx(
@@ -191,6 +325,18 @@ export const ExportModal: React.FC<ExportModalProps> = ({ isOpen, onClose }) =>
               <FileText size={22} />
               <span className="text-[10px] font-medium">PDF</span>
             </button>
+            <button
+              onClick={() => setSelectedFormat('epub')}
+              className={clsx(
+                "p-3 rounded-lg border flex flex-col items-center gap-1 transition-all",
+                selectedFormat === 'epub'
+                  ? "bg-blue-50 border-blue-300 text-blue-700 dark:bg-blue-900/30 dark:border-blue-700"
+                  : "bg-gray-50 border-gray-200 text-gray-600 hover:bg-gray-100 dark:bg-gray-700 dark:border-gray-600"
+              )}
+            >
+              <BookOpen size={22} />
+              <span className="text-[10px] font-medium">EPUB</span>
+            </button>
             <button
               onClick={() => setSelectedFormat('print')}
               className={clsx(
@@ -239,6 +385,18 @@ export const ExportModal: React.FC<ExportModalProps> = ({ isOpen, onClose }) =>
               <FileText size={22} />
               <span className="text-[10px] font-medium">JSON</span>
             </button>
+            <button
+              onClick={() => setSelectedFormat('csv')}
+              className={clsx(
+                "p-3 rounded-lg border flex flex-col items-center gap-1 transition-all",
+                selectedFormat === 'csv'
+                  ? "bg-blue-50 border-blue-300 text-blue-700 dark:bg-blue-900/30 dark:border-blue-700"
+                  : "bg-gray-50 border-gray-200 text-gray-600 hover:bg-gray-100 dark:bg-gray-700 dark:border-gray-600"
+              )}
+            >
+              <FileSpreadsheet size={22} />
+              <span className="text-[10px] font-medium">CSV</span>
+            </button>
           </div>
         </div>
 
@@ -267,6 +425,28 @@ export const ExportModal: React.FC<ExportModalProps> = ({ isOpen, onClose }) =>
               Include word group highlights
             </label>
             
+            <label className="flex items-center gap-2 text-sm text-gray-600 dark:text-gray-300">
+              <input
+                type="checkbox"
+                checked={htmlOptions.includeArrows}
+                onChange={(e) => setHtmlOptions({ ...htmlOptions, includeArrows: e.target.checked })}
+                className="w-4 h-4 rounded"
+              />
+              Include arrows
+            </label>
+            
+            {htmlOptions.includeArrows && (
+              <label className="flex items-center gap-2 text-sm text-gray-600 dark:text-gray-300 pl-6">
+                <input
+                  type="checkbox"
+                  checked={htmlOptions.arrowsOnHover}
+                  onChange={(e) => setHtmlOptions({ ...htmlOptions, arrowsOnHover: e.target.checked })}
+                  className="w-4 h-4 rounded"
+                />
+                Show arrows only when hovering their source
+              </label>
+            )}
+            
             <div className="flex items-center gap-2 text-sm text-gray-600 dark:text-gray-300">
               <span>Theme:</span>
               <select
@@ -282,6 +462,97 @@ export const ExportModal: React.FC<ExportModalProps> = ({ isOpen, onClose }) =>
           </div>
         )}
 
+        {/* PDF Imposition Options */}
+        {selectedFormat === 'pdf' && (
+          <div className="mb-4 p-3 bg-gray-50 dark:bg-gray-700 rounded-lg space-y-2">
+            <h3 className="text-sm font-medium text-gray-700 dark:text-gray-200">Imposition</h3>
+            <div className="flex items-center gap-2 text-sm text-gray-600 dark:text-gray-300">
+              <select
+                value={imposition.layout}
+                onChange={(e) => setImposition({ ...imposition, layout: e.target.value as ImpositionLayout | 'none' })}
+                className="bg-white dark:bg-gray-600 border border-gray-300 dark:border-gray-500 rounded px-2 py-1 text-sm"
+              >
+                <option value="none">One page per sheet</option>
+                <option value="booklet">Saddle-stitch booklet</option>
+                <option value="2up">2 pages per sheet</option>
+                <option value="4up">4 pages per sheet</option>
+              </select>
+              {imposition.layout !== 'none' && (
+                <>
+                  <span>on</span>
+                  <select
+                    value={imposition.sheetSize}
+                    onChange={(e) => setImposition({ ...imposition, sheetSize: e.target.value as PageSize })}
+                    className="bg-white dark:bg-gray-600 border border-gray-300 dark:border-gray-500 rounded px-2 py-1 text-sm"
+                  >
+                    {(Object.keys(PAGE_SIZES) as PageSize[]).filter(size => size !== 'Custom').map(size => (
+                      <option key={size} value={size}>{size}</option>
+                    ))}
+                  </select>
+                </>
+              )}
+            </div>
+            {imposition.layout !== 'none' && (
+              <div className="flex flex-wrap items-center gap-4 text-sm text-gray-600 dark:text-gray-300">
+                {imposition.layout === 'booklet' && (
+                  <label className="flex items-center gap-2" title="How far each inner sheet sticks out once folded; its pages move towards the spine by that much">
+                    Creep per sheet
+                    <input
+                      type="text"
+                      value={imposition.creep}
+                      onChange={(e) => setImposition({ ...imposition, creep: e.target.value })}
+                      className="w-16 bg-white dark:bg-gray-600 border border-gray-300 dark:border-gray-500 rounded px-2 py-1 text-sm"
+                    />
+                  </label>
+                )}
+                {imposition.layout === 'booklet' && (
+                  <label className="flex items-center gap-2">
+                    <input
+                      type="checkbox"
+                      checked={!!imposition.foldMarks}
+                      onChange={(e) => setImposition({ ...imposition, foldMarks: e.target.checked })}
+                      className="w-4 h-4 rounded"
+                    />
+                    Fold marks
+                  </label>
+                )}
+                <label className="flex items-center gap-2">
+                  <input
+                    type="checkbox"
+                    checked={!!imposition.cutMarks}
+                    onChange={(e) => setImposition({ ...imposition, cutMarks: e.target.checked })}
+                    className="w-4 h-4 rounded"
+                  />
+                  Cut marks
+                </label>
+              </div>
+            )}
+            {imposition.layout === 'booklet' && (
+              <p className="text-xs text-gray-500 dark:text-gray-400">
+                {pages.length} pages, padded with {(4 - pages.length % 4) % 4} blank{(4 - pages.length % 4) % 4 === 1 ? '' : 's'} to {Math.ceil(pages.length / 4) * 4}: {Math.ceil(pages.length / 4)} sheet{Math.ceil(pages.length / 4) === 1 ? '' : 's'}.
+                Print on both sides, flipping on the short edge.
+              </p>
+            )}
+          </div>
+        )}
+
+        {/* CSV Export Options */}
+        {selectedFormat === 'csv' && (
+          <div className="mb-4 p-3 bg-gray-50 dark:bg-gray-700 rounded-lg space-y-2">
+            <h3 className="text-sm font-medium text-gray-700 dark:text-gray-200">CSV Options</h3>
+            <div className="flex gap-4 text-sm text-gray-600 dark:text-gray-300">
+              <label className="flex items-center gap-2">
+                <input type="radio" checked={csvDelimiter === ','} onChange={() => setCsvDelimiter(',')} />
+                Comma-separated (.csv)
+              </label>
+              <label className="flex items-center gap-2">
+                <input type="radio" checked={csvDelimiter === '\t'} onChange={() => setCsvDelimiter('\t')} />
+                Tab-separated (.tsv)
+              </label>
+            </div>
+          </div>
+        )}
+
         {/* PNG Export Options */}
         {(selectedFormat === 'png' || selectedFormat === 'png-zip') && (
           <div className="mb-4 p-3 bg-gray-50 dark:bg-gray-700 rounded-lg space-y-3">
@@ -363,7 +634,10 @@ export const ExportModal: React.FC<ExportModalProps> = ({ isOpen, onClose }) =>
               <>📱 Creates a standalone HTML file with interactive features. Works offline, no server needed. Perfect for sharing with students.</>
             )}
             {selectedFormat === 'pdf' && (
-              <>📄 Opens print dialog for PDF export. Use your browser's "Save as PDF" option for best results.</>
+              <>📄 Renders a print-ready PDF on the local server from the project data, with running heads, page numbers, footnotes, and the bleed, crop and registration marks from Print Production. Local fonts are embedded, and the generated front and back matter are included. With imposition, the pages of your page size are laid out on press sheets, scaled down only if they do not fit.</>
+            )}
+            {selectedFormat === 'epub' && (
+              <>📚 Creates a reflowable EPUB 3 e-book with one section per chapter and a table of contents from your chapters. Word group colours, sidebar notes and footnotes are kept; local fonts and images are embedded. Lines with audio are read aloud with media overlays in readers that support them. Title, author, publisher, language and ISBN come from the book metadata.</>
             )}
             {selectedFormat === 'print' && (
               <>🖨️ Opens print dialog. Make sure to enable "Print backgrounds" for colors and highlights.</>
@@ -372,11 +646,14 @@ export const ExportModal: React.FC<ExportModalProps> = ({ isOpen, onClose }) =>
               <>🖼️ Exports the <strong>current page</strong> as a high-quality PNG image. {pngOptions.transparentBackground ? 'Background will be transparent.' : 'Background will be solid.'}</>
             )}
             {selectedFormat === 'png-zip' && (
-              <>📦 Exports <strong>all {pages.length} pages</strong> as PNG images bundled in a ZIP file. {pngOptions.transparentBackground ? 'Backgrounds will be transparent.' : 'Backgrounds will be solid.'}</>
+              <>📦 Exports <strong>all {pages.length + frontMatterCount + backMatterCount} pages</strong> as PNG images bundled in a ZIP file. {pngOptions.transparentBackground ? 'Backgrounds will be transparent.' : 'Backgrounds will be solid.'}</>
             )}
             {selectedFormat === 'json' && (
               <>💾 Exports the project data as JSON for backup or programmatic access.</>
             )}
+            {selectedFormat === 'csv' && (
+              <>📊 One row per line with its ID and text, plus its words and annotations as JSON. Edit the text in a spreadsheet, then import the file with Match by ID to bring the edits back without losing annotations.</>
+            )}
           </p>
         </div>
 
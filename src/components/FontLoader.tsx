@@ -1,18 +1,33 @@
 import React, { useEffect } from 'react';
 import { useStore } from '../store';
+import { generateFontFaceCss, getPrimaryFontName } from '../utils/fonts';
+import { LOCAL_SERVER } from '../utils/localServer';
+
+const LOCAL_FONTS_STYLE_ID = 'local-font-faces';
 
 export const FontLoader: React.FC = () => {
-  const { theme } = useStore();
+  const { theme, localFonts } = useStore();
+
+  // Local fonts are served by the backend and need no network access
+  useEffect(() => {
+    let style = document.getElementById(LOCAL_FONTS_STYLE_ID);
+    if (!style) {
+      style = document.createElement('style');
+      style.id = LOCAL_FONTS_STYLE_ID;
+      document.head.appendChild(style);
+    }
+    style.textContent = generateFontFaceCss(localFonts, font => `${LOCAL_SERVER}${font.path}`);
+  }, [localFonts]);
 
   useEffect(() => {
     const loadFont = (fontFamily: string) => {
-      const match = fontFamily.match(/'([^']+)'/);
-      if (!match) return;
+      const fontName = getPrimaryFontName(fontFamily);
+      if (!fontName) return;
 
-      const fontName = match[1];
       if (['Arial', 'Courier New', 'Verdana', 'Tahoma', 'Trebuchet MS', 'Impact', 'Comic Sans MS'].includes(fontName)) {
         return;
       }
+      if (localFonts.some(f => f.family === fontName)) return;
 
       const googleFontName = fontName.replace(/ /g, '+');
       const href = `https://fonts.googleapis.com/css2?family=${googleFontName}:wght@400;700&display=swap`;
@@ -28,7 +43,7 @@ export const FontLoader: React.FC = () => {
     loadFont(theme.frenchFontFamily);
     loadFont(theme.englishFontFamily);
 
-  }, [theme.frenchFontFamily, theme.englishFontFamily]);
+  }, [theme.frenchFontFamily, theme.englishFontFamily, localFonts]);
 
   return null;
 };
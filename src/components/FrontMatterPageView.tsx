@@ -0,0 +1,93 @@
+import React from 'react';
+import type { FrontMatter, ProjectMetadata } from '../types';
+import { FrontMatterPage, TocEntry, getCopyrightLines, splitParagraphs } from '../utils/frontMatter';
+
+// ─────────────────────────────────────────────────────────────────
+// FRONT MATTER PAGE
+// Title, copyright, dedication, preface and contents pages
+// ─────────────────────────────────────────────────────────────────
+
+interface FrontMatterPageViewProps {
+  page: FrontMatterPage;
+  metadata: ProjectMetadata;
+  frontMatter: FrontMatter;
+  toc: TocEntry[];
+  fontFamily?: string;
+  onNavigate?: (pageNumber: number) => void;
+}
+
+export const FrontMatterPageView: React.FC<FrontMatterPageViewProps> = ({
+  page,
+  metadata,
+  frontMatter,
+  toc,
+  fontFamily,
+  onNavigate
+}) => {
+  switch (page.kind) {
+    case 'title':
+      return (
+        <div className="flex-1 flex flex-col items-center text-center pt-[25%]" style={{ fontFamily }}>
+          <h1 className="text-4xl font-bold mb-4">{metadata.title}</h1>
+          {metadata.subtitle && <h2 className="text-xl italic text-gray-600 mb-12">{metadata.subtitle}</h2>}
+          {metadata.author && <p className="text-lg mt-8">{metadata.author}</p>}
+          <div className="flex-1" />
+          {metadata.publisher && <p className="text-sm uppercase tracking-widest text-gray-500">{metadata.publisher}</p>}
+        </div>
+      );
+
+    case 'copyright':
+      return (
+        <div className="flex-1 flex flex-col justify-end text-xs text-gray-600 space-y-1" style={{ fontFamily }}>
+          {getCopyrightLines(metadata).map(line => <p key={line}>{line}</p>)}
+        </div>
+      );
+
+    case 'dedication':
+      return (
+        <div className="flex-1 flex items-start justify-center pt-[30%]" style={{ fontFamily }}>
+          <p className="italic text-center whitespace-pre-line max-w-[70%]">{frontMatter.dedication}</p>
+        </div>
+      );
+
+    case 'preface':
+      return (
+        <div className="flex-1" style={{ fontFamily }}>
+          <h2 className="text-2xl font-bold text-center mb-8">Preface</h2>
+          <div className="space-y-4 text-justify">
+            {splitParagraphs(frontMatter.preface || '').map((paragraph, i) => <p key={i}>{paragraph}</p>)}
+          </div>
+        </div>
+      );
+
+    case 'toc':
+      return (
+        <div className="flex-1" style={{ fontFamily }}>
+          <h2 className="text-2xl font-bold text-center mb-8">Contents</h2>
+          {toc.length === 0 ? (
+            <p className="text-sm text-gray-400 italic text-center no-print">Add chapters to build the table of contents.</p>
+          ) : (
+            <ol className="space-y-2">
+              {toc.map(entry => (
+                <li key={entry.chapterId} className="flex items-baseline gap-2">
+                  <button
+                    onClick={() => onNavigate?.(entry.pageNumber)}
+                    className="text-left hover:text-indigo-600"
+                  >
+                    {entry.title}
+                  </button>
+                  <span className="flex-1 border-b border-dotted border-gray-400" />
+                  <span className="tabular-nums">{entry.label}</span>
+                </li>
+              ))}
+            </ol>
+          )}
+        </div>
+      );
+
+    default:
+      return null;
+  }
+};
+
+export default FrontMatterPageView;
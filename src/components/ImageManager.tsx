@@ -1,6 +1,7 @@
 import React, { useState, useEffect, useCallback } from 'react';
 import { clsx } from 'clsx';
 import { Upload, Trash2, Image, FolderOpen, X, RefreshCw } from 'lucide-react';
+import { LOCAL_SERVER } from '../utils/localServer';
 
 // ─────────────────────────────────────────────────────────────────
 // IMAGE MANAGER COMPONENT
@@ -21,8 +22,6 @@ interface ImageManagerProps {
   onToggleCollapse?: () => void;
 }
 
-const API_BASE = 'http://localhost:3001';
-
 export const ImageManager: React.FC<ImageManagerProps> = ({
   onSelectImage,
   onInsertImage,
@@ -41,7 +40,7 @@ export const ImageManager: React.FC<ImageManagerProps> = ({
     setLoading(true);
     setError(null);
     try {
-      const response = await fetch(`${API_BASE}/assets-list`);
+      const response = await fetch(`${LOCAL_SERVER}/assets-list`);
       if (!response.ok) throw new Error('Failed to load assets');
       const data = await response.json();
       setAssets(data);
@@ -67,7 +66,7 @@ export const ImageManager: React.FC<ImageManagerProps> = ({
       const formData = new FormData();
       formData.append('file', file);
       
-      const response = await fetch(`${API_BASE}/assets`, {
+      const response = await fetch(`${LOCAL_SERVER}/assets`, {
         method: 'POST',
         body: formData,
       });
@@ -90,7 +89,7 @@ export const ImageManager: React.FC<ImageManagerProps> = ({
     if (!confirm(`Delete "${filename}"?`)) return;
     
     try {
-      const response = await fetch(`${API_BASE}/assets/${encodeURIComponent(filename)}`, {
+      const response = await fetch(`${LOCAL_SERVER}/assets/${encodeURIComponent(filename)}`, {
         method: 'DELETE',
       });
       
@@ -146,7 +145,7 @@ export const ImageManager: React.FC<ImageManagerProps> = ({
   // Open assets folder
   const openAssetsFolder = async () => {
     try {
-      await fetch(`${API_BASE}/open-folder`, {
+      await fetch(`${LOCAL_SERVER}/open-folder`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({ path: 'assets' }),
@@ -275,7 +274,7 @@ export const ImageManager: React.FC<ImageManagerProps> = ({
                 title={`${asset.name}\n${formatSize(asset.size)}\nDrag to insert`}
               >
                 <img
-                  src={`${API_BASE}${asset.path}`}
+                  src={`${LOCAL_SERVER}${asset.path}`}
                   alt={asset.name}
                   className="w-full h-full object-cover"
                   loading="lazy"
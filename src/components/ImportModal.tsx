@@ -1,16 +1,46 @@
 import React, { useState } from 'react';
+import { v4 as uuidv4 } from 'uuid';
 import { useStore } from '../store';
-import { X, ClipboardPaste } from 'lucide-react';
+import { X, ClipboardPaste, FileUp, Loader2 } from 'lucide-react';
+import { clsx } from 'clsx';
+import {
+  readImportFile,
+  combineImports,
+  blocksToLines,
+  IMPORT_FILE_TYPES,
+  DocumentBlock,
+  ImportedFile
+} from '../utils/documentImport';
+import { LOCAL_SERVER } from '../utils/localServer';
 
 interface ImportModalProps {
   isOpen: boolean;
   onClose: () => void;
 }
 
+// Images found in imported files go to the asset folder, like uploads in the Image Manager
+const uploadAsset = async (data: Blob, name: string): Promise<string> => {
+  const formData = new FormData();
+  formData.append('file', new File([data], name, { type: data.type }));
+  const response = await fetch(`${LOCAL_SERVER}/assets`, { method: 'POST', body: formData });
+  if (!response.ok) throw new Error('Upload failed');
+  const { path } = await response.json();
+  return `${LOCAL_SERVER}${path}`;
+};
+
+type ImportTab = 'paste' | 'files';
+
 export const ImportModal: React.FC<ImportModalProps> = ({ isOpen, onClose }) => {
-  const { parseAndSetText } = useStore();
+  const { parseAndSetText, importLines } = useStore();
+  const [tab, setTab] = useState<ImportTab>('paste');
   const [frenchText, setFrenchText] = useState('');
   const [englishText, setEnglishText] = useState('');
+  const [files, setFiles] = useState<{ french?: ImportedFile; english?: ImportedFile }>({});
+  const [fileNames, setFileNames] = useState<{ french?: string; english?: string }>({});
+  const [blocks, setBlocks] = useState<DocumentBlock[]>([]);
+  const [mode, setMode] = useState<'replace' | 'append'>('append');
+  const [reading, setReading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
 
   const handleImport = () => {
     if (!frenchText && !englishText) return;
@@ -20,8 +50,56 @@ export const ImportModal: React.FC<ImportModalProps> = ({ isOpen, onClose }) =>
     }
   };
 
+  const handleFile = async (language: 'french' | 'english', file: File | undefined) => {
+    if (!file) return;
+    setReading(true);
+    setError(null);
+    try {
+      const imported = await readImportFile(file, uploadAsset);
+      const next = { ...files, [language]: imported };
+      setFiles(next);
+      setFileNames({ ...fileNames, [language]: file.name });
+      setBlocks(combineImports(next.french, next.english));
+    } catch (err) {
+      console.error('Failed to read import file:', err);
+      setError(err instanceof Error ? err.message : 'Failed to read file');
+    } finally {
+      setReading(false);
+    }
+  };
+
+  const handleFileImport = () => {
+    const lines = blocksToLines(blocks, uuidv4);
+    if (lines.length === 0) return;
+    if (mode === 'replace' && !confirm("This will replace current project content. Continue?")) return;
+    importLines(lines, mode);
+    onClose();
+  };
+
   if (!isOpen) return null;
 
+  const pairs = blocks.filter(b => b.kind === 'pair');
+  const images = blocks.filter(b => b.kind === 'image').length;
+  const headings = pairs.filter(b => b.kind === 'pair' && b.sectionType && b.sectionType !== 'list').length;
+  const bilingualFile = files.french?.bilingual || files.english?.bilingual;
+
+  const fileInput = (language: 'french' | 'english', label: string) => (
+    <label className="flex flex-col gap-1">
+      <span className="text-xs font-bold text-gray-500">{label}</span>
+      <input
+        type="file"
+        accept={IMPORT_FILE_TYPES}
+        disabled={reading}
+        onChange={e => {
+          handleFile(language, e.target.files?.[0]);
+          e.target.value = '';
+        }}
+        className="text-xs text-gray-600 dark:text-gray-300"
+      />
+      {fileNames[language] && <span className="text-xs text-gray-400 truncate">{fileNames[language]}</span>}
+    </label>
+  );
+
   return (
     <div
       className="fixed inset-0 bg-black/50 z-[200] flex items-center justify-center"
@@ -40,31 +118,113 @@ export const ImportModal: React.FC<ImportModalProps> = ({ isOpen, onClose }) =>
           </button>
         </div>
 
-        <div className="flex-1 grid grid-cols-2 gap-4 min-h-0">
-          <div className="flex flex-col">
-            <label className="text-xs font-bold text-gray-500 mb-1">French Text</label>
-            <textarea
-              className="flex-1 p-2 border rounded resize-none text-sm dark:bg-gray-700 dark:text-white"
-              placeholder="Paste French text here..."
-              value={frenchText}
-              onChange={e => setFrenchText(e.target.value)}
-            />
-          </div>
-          <div className="flex flex-col">
-            <label className="text-xs font-bold text-gray-500 mb-1">English Text</label>
-            <textarea
-              className="flex-1 p-2 border rounded resize-none text-sm dark:bg-gray-700 dark:text-white"
-              placeholder="Paste English text here..."
-              value={englishText}
-              onChange={e => setEnglishText(e.target.value)}
-            />
-          </div>
+        <div className="flex gap-2 mb-4">
+          {(['paste', 'files'] as ImportTab[]).map(t => (
+            <button
+              key={t}
+              onClick={() => setTab(t)}
+              className={clsx(
+                "px-3 py-1 text-sm rounded flex items-center gap-1",
+                tab === t ? "bg-blue-100 text-blue-700 dark:bg-blue-900/40 dark:text-blue-300" : "text-gray-500 hover:bg-gray-100 dark:hover:bg-gray-700"
+              )}
+            >
+              {t === 'paste' ? <><ClipboardPaste size={14} /> Paste</> : <><FileUp size={14} /> From Files</>}
+            </button>
+          ))}
         </div>
 
-        <div className="mt-4 flex justify-end gap-2">
-           <button onClick={onClose} className="px-4 py-2 text-gray-600 hover:bg-gray-100 rounded">Cancel</button>
-           <button onClick={handleImport} className="px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700">Import Text</button>
-        </div>
+        {tab === 'paste' && (
+          <>
+            <div className="flex-1 grid grid-cols-2 gap-4 min-h-0">
+              <div className="flex flex-col">
+                <label className="text-xs font-bold text-gray-500 mb-1">French Text</label>
+                <textarea
+                  className="flex-1 p-2 border rounded resize-none text-sm dark:bg-gray-700 dark:text-white"
+                  placeholder="Paste French text here..."
+                  value={frenchText}
+                  onChange={e => setFrenchText(e.target.value)}
+                />
+              </div>
+              <div className="flex flex-col">
+                <label className="text-xs font-bold text-gray-500 mb-1">English Text</label>
+                <textarea
+                  className="flex-1 p-2 border rounded resize-none text-sm dark:bg-gray-700 dark:text-white"
+                  placeholder="Paste English text here..."
+                  value={englishText}
+                  onChange={e => setEnglishText(e.target.value)}
+                />
+              </div>
+            </div>
+
+            <div className="mt-4 flex justify-end gap-2">
+               <button onClick={onClose} className="px-4 py-2 text-gray-600 hover:bg-gray-100 rounded">Cancel</button>
+               <button onClick={handleImport} className="px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700">Import Text</button>
+            </div>
+          </>
+        )}
+
+        {tab === 'files' && (
+          <>
+            <p className="text-xs text-gray-500 dark:text-gray-400 mb-3">
+              EPUB, DOCX, SRT/VTT or TMX. Give one file per language, or a single TMX or two-column DOCX that holds both.
+              Subtitles are paired by time, documents section by section; headings and images are kept.
+            </p>
+            <div className="grid grid-cols-2 gap-4 mb-3">
+              {fileInput('french', 'French File')}
+              {fileInput('english', bilingualFile ? 'English File (not needed)' : 'English File')}
+            </div>
+
+            {error && <p className="text-xs text-red-600 mb-2">{error}</p>}
+            {reading && (
+              <p className="text-xs text-gray-500 flex items-center gap-1 mb-2">
+                <Loader2 size={12} className="animate-spin" /> Reading file…
+              </p>
+            )}
+
+            <div className="text-xs text-gray-500 dark:text-gray-400 mb-2">
+              {pairs.length} lines · {headings} headings · {images} images
+            </div>
+            <div className="flex-1 overflow-auto border rounded dark:border-gray-700 min-h-0">
+              <table className="w-full text-sm">
+                <tbody>
+                  {blocks.slice(0, 100).map((block, index) => (
+                    <tr key={index} className="border-t dark:border-gray-700 align-top">
+                      {block.kind === 'image' ? (
+                        <td colSpan={2} className="p-2 text-xs text-gray-400 italic">Image {block.alt && `— ${block.alt}`}</td>
+                      ) : block.kind === 'pair' ? (
+                        <>
+                          <td className={clsx("p-2 font-serif italic text-gray-800 dark:text-gray-100", block.sectionType && block.sectionType !== 'list' && "font-bold")}>{block.french}</td>
+                          <td className={clsx("p-2 text-gray-600 dark:text-gray-300", block.sectionType && block.sectionType !== 'list' && "font-bold")}>{block.english}</td>
+                        </>
+                      ) : null}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            <div className="mt-4 flex items-center gap-4">
+              <label className="flex items-center gap-2 text-sm text-gray-600 dark:text-gray-300">
+                <input type="radio" checked={mode === 'append'} onChange={() => setMode('append')} />
+                Add after the last page
+              </label>
+              <label className="flex items-center gap-2 text-sm text-gray-600 dark:text-gray-300">
+                <input type="radio" checked={mode === 'replace'} onChange={() => setMode('replace')} />
+                Replace the book
+              </label>
+              <div className="ml-auto flex gap-2">
+                <button onClick={onClose} className="px-4 py-2 text-gray-600 hover:bg-gray-100 rounded">Cancel</button>
+                <button
+                  onClick={handleFileImport}
+                  disabled={reading || pairs.length === 0}
+                  className="px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50"
+                >
+                  Import Files
+                </button>
+              </div>
+            </div>
+          </>
+        )}
       </div>
     </div>
   );
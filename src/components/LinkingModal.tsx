@@ -1,6 +1,10 @@
 import React, { useState } from 'react';
 import { useStore } from '../store';
-import { X, Link as LinkIcon, Unlink } from 'lucide-react';
+import { X, Link as LinkIcon, Unlink, Wand2, Check } from 'lucide-react';
+import { tokenizeText } from '../utils/wordTokens';
+import { isTextLine } from '../utils/pageBody';
+import { proposeAlignments, AlignmentProposal, MIN_CONFIDENCE } from '../utils/wordAlignment';
+import type { LineData } from '../types';
 
 interface LinkingModalProps {
   isOpen: boolean;
@@ -13,11 +17,15 @@ export const LinkingModal: React.FC<LinkingModalProps> = ({ isOpen, onClose }) =
     currentPageIndex, 
     linkedPairs, 
     addLinkedPair, 
+    addLinkedPairs,
     removeLinkedPair 
   } = useStore();
 
   const [selectedFrench, setSelectedFrench] = useState<string[]>([]);
   const [selectedEnglish, setSelectedEnglish] = useState<string[]>([]);
+  const [proposals, setProposals] = useState<AlignmentProposal[]>([]);
+  const [checkedProposals, setCheckedProposals] = useState<string[]>([]);
+  const [minConfidence, setMinConfidence] = useState(Math.round(MIN_CONFIDENCE * 100));
 
   if (!isOpen) return null;
 
@@ -36,6 +44,36 @@ export const LinkingModal: React.FC<LinkingModalProps> = ({ isOpen, onClose }) =
     }
   };
 
+  // Replace the proposals for the given lines with fresh ones; confident ones start checked
+  const handlePropose = (lines: LineData[]) => {
+    const lineIds = new Set(lines.map(l => l.id));
+    const fresh = proposeAlignments(lines, linkedPairs);
+    setProposals(prev => [...prev.filter(p => !lineIds.has(p.lineId)), ...fresh]);
+    setCheckedProposals(prev => [
+      ...prev.filter(id => !proposals.some(p => p.id === id && lineIds.has(p.lineId))),
+      ...fresh.filter(p => p.confidence * 100 >= minConfidence).map(p => p.id)
+    ]);
+  };
+
+  const handleAcceptProposals = (ids: string[]) => {
+    addLinkedPairs(proposals
+      .filter(p => ids.includes(p.id))
+      .map(({ lineId, sourceWordIds, targetWordIds }) => ({ lineId, sourceWordIds, targetWordIds })));
+    handleRejectProposals(ids);
+  };
+
+  const handleRejectProposals = (ids: string[]) => {
+    setProposals(prev => prev.filter(p => !ids.includes(p.id)));
+    setCheckedProposals(prev => prev.filter(id => !ids.includes(id)));
+  };
+
+  const toggleProposal = (id: string) => {
+    setCheckedProposals(prev => prev.includes(id) ? prev.filter(p => p !== id) : [...prev, id]);
+  };
+
+  const lineNumbers = new Map(pages.flatMap(p => p.lines).map(l => [l.id, l.lineNumber]));
+  const proposedWordIds = new Set(proposals.flatMap(p => [...p.sourceWordIds, ...p.targetWordIds]));
+
   const handleLink = (lineId: string) => {
     if (selectedFrench.length === 0 || selectedEnglish.length === 0) return;
 
@@ -69,10 +107,100 @@ export const LinkingModal: React.FC<LinkingModalProps> = ({ isOpen, onClose }) =
                 Formatting changes to one will apply to the other.
             </p>
 
-            {currentPage.lines.map(line => (
+            {/* Automatic alignment */}
+            <div className="border rounded p-4 bg-amber-50/50 border-amber-100 space-y-3">
+                <div className="flex flex-wrap items-center gap-2">
+                    <Wand2 size={16} className="text-amber-600" />
+                    <span className="text-sm font-medium text-gray-700 mr-2">Propose links</span>
+                    <button
+                        onClick={() => handlePropose(currentPage.lines)}
+                        className="bg-white border px-3 py-1 rounded text-xs hover:bg-gray-50"
+                    >
+                        This page
+                    </button>
+                    <button
+                        onClick={() => handlePropose(pages.flatMap(p => p.lines))}
+                        className="bg-white border px-3 py-1 rounded text-xs hover:bg-gray-50"
+                    >
+                        Whole book
+                    </button>
+                    <label className="flex items-center gap-2 text-xs text-gray-500 ml-auto">
+                        Check at least
+                        <input
+                            type="range"
+                            min="50"
+                            max="100"
+                            value={minConfidence}
+                            onChange={(e) => {
+                                const value = Number(e.target.value);
+                                setMinConfidence(value);
+                                setCheckedProposals(proposals.filter(p => p.confidence * 100 >= value).map(p => p.id));
+                            }}
+                            className="w-24"
+                        />
+                        {minConfidence}%
+                    </label>
+                </div>
+
+                {proposals.length > 0 && (
+                    <>
+                        <div className="flex items-center gap-2">
+                            <span className="text-xs text-gray-500">{checkedProposals.length} of {proposals.length} checked</span>
+                            <button
+                                onClick={() => handleAcceptProposals(checkedProposals)}
+                                disabled={checkedProposals.length === 0}
+                                className="bg-green-600 text-white px-3 py-1 rounded text-xs disabled:opacity-50 hover:bg-green-700 flex items-center gap-1"
+                            >
+                                <Check size={12} /> Accept checked
+                            </button>
+                            <button
+                                onClick={() => handleRejectProposals(checkedProposals)}
+                                disabled={checkedProposals.length === 0}
+                                className="bg-white border px-3 py-1 rounded text-xs disabled:opacity-50 hover:bg-gray-50"
+                            >
+                                Reject checked
+                            </button>
+                            <button
+                                onClick={() => handleRejectProposals(proposals.map(p => p.id))}
+                                className="text-xs text-gray-500 hover:text-gray-700 ml-auto"
+                            >
+                                Clear all
+                            </button>
+                        </div>
+                        <div className="max-h-48 overflow-auto grid grid-cols-2 gap-1">
+                            {proposals.map(proposal => (
+                                <label key={proposal.id} className="flex items-center gap-2 text-xs bg-white border rounded px-2 py-1 cursor-pointer">
+                                    <input
+                                        type="checkbox"
+                                        checked={checkedProposals.includes(proposal.id)}
+                                        onChange={() => toggleProposal(proposal.id)}
+                                    />
+                                    <span className="font-mono text-gray-400">L{lineNumbers.get(proposal.lineId)}</span>
+                                    <span className="truncate">{proposal.sourceText} ↔ {proposal.targetText}</span>
+                                    <span className={`ml-auto px-1 rounded ${
+                                        proposal.confidence >= 0.8 ? 'bg-green-100 text-green-700'
+                                            : proposal.confidence >= 0.65 ? 'bg-amber-100 text-amber-700'
+                                            : 'bg-gray-100 text-gray-600'
+                                    }`}>
+                                        {Math.round(proposal.confidence * 100)}%
+                                    </span>
+                                </label>
+                            ))}
+                        </div>
+                    </>
+                )}
+            </div>
+
+            {currentPage.lines.filter(isTextLine).map(line => (
                 <div key={line.id} className="border rounded p-4 shadow-sm">
                     <div className="flex justify-between items-center mb-2">
                          <span className="text-xs font-mono text-gray-400">Line {line.lineNumber}</span>
+                         <button
+                            className="ml-auto mr-2 border px-3 py-1 rounded text-xs hover:bg-gray-50 flex items-center gap-1"
+                            onClick={() => handlePropose([line])}
+                         >
+                            <Wand2 size={12} /> Propose
+                         </button>
                          <button 
                             className="bg-blue-600 text-white px-3 py-1 rounded text-xs disabled:opacity-50 hover:bg-blue-700"
                             disabled={selectedFrench.length === 0 || selectedEnglish.length === 0}
@@ -87,14 +215,11 @@ export const LinkingModal: React.FC<LinkingModalProps> = ({ isOpen, onClose }) =
                         <div className="p-2 bg-gray-50 rounded">
                             <div className="flex flex-wrap gap-1">
                                 {(() => {
-                                    const tokens = line.frenchText.split(/([a-zA-Z0-9À-ÿ'']+)/).filter(Boolean);
-                                    let wordIndex = 0;
-                                    return tokens.map((token, i) => {
-                                        const isWord = /^[a-zA-Z0-9À-ÿ'']+$/.test(token);
+                                    const words = line.frenchWords || [];
+                                    return tokenizeText(line.frenchText).map(({ text: token, isWord, wordIndex }, i) => {
                                         if (!isWord) return <span key={i} className="text-gray-400">{token}</span>;
 
-                                        const currentWordIndex = wordIndex++;
-                                        const wordId = `${line.id}-french-${currentWordIndex}`;
+                                        const wordId = words[wordIndex!]?.id;
                                         const isSelected = selectedFrench.includes(wordId);
                                         const isLinked = linkedPairs.some(p => p.sourceWordIds.includes(wordId));
                                         
@@ -106,6 +231,7 @@ export const LinkingModal: React.FC<LinkingModalProps> = ({ isOpen, onClose }) =
                                                     cursor-pointer px-1 rounded transition-colors
                                                     ${isSelected ? 'bg-blue-200 text-blue-800 font-bold' : ''}
                                                     ${isLinked ? 'text-green-600 bg-green-50 cursor-default border border-green-200' : 'hover:bg-blue-100'}
+                                                    ${!isLinked && proposedWordIds.has(wordId) ? 'border border-dashed border-amber-400' : ''}
                                                 `}
                                             >
                                                 {token}
@@ -120,14 +246,11 @@ export const LinkingModal: React.FC<LinkingModalProps> = ({ isOpen, onClose }) =
                         <div className="p-2 bg-gray-50 rounded">
                             <div className="flex flex-wrap gap-1">
                                 {(() => {
-                                    const tokens = line.englishText.split(/([a-zA-Z0-9À-ÿ'']+)/).filter(Boolean);
-                                    let wordIndex = 0;
-                                    return tokens.map((token, i) => {
-                                        const isWord = /^[a-zA-Z0-9À-ÿ'']+$/.test(token);
+                                    const words = line.englishWords || [];
+                                    return tokenizeText(line.englishText).map(({ text: token, isWord, wordIndex }, i) => {
                                         if (!isWord) return <span key={i} className="text-gray-400">{token}</span>;
 
-                                        const currentWordIndex = wordIndex++;
-                                        const wordId = `${line.id}-english-${currentWordIndex}`;
+                                        const wordId = words[wordIndex!]?.id;
                                         const isSelected = selectedEnglish.includes(wordId);
                                         const isLinked = linkedPairs.some(p => p.targetWordIds.includes(wordId));
                                         
@@ -139,6 +262,7 @@ export const LinkingModal: React.FC<LinkingModalProps> = ({ isOpen, onClose }) =
                                                     cursor-pointer px-1 rounded transition-colors
                                                     ${isSelected ? 'bg-indigo-200 text-indigo-800 font-bold' : ''}
                                                     ${isLinked ? 'text-green-600 bg-green-50 cursor-default border border-green-200' : 'hover:bg-indigo-100'}
+                                                    ${!isLinked && proposedWordIds.has(wordId) ? 'border border-dashed border-amber-400' : ''}
                                                 `}
                                             >
                                                 {token}
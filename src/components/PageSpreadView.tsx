@@ -1,6 +1,7 @@
 import React from 'react';
 import { clsx } from 'clsx';
 import type { PageData, PageLayout, ViewMode } from '../types';
+import { getPageMargins } from '../utils/pageSides';
 
 // ─────────────────────────────────────────────────────────────────
 // PAGE SPREAD VIEW COMPONENT
@@ -28,40 +29,14 @@ export const PageSpreadView: React.FC<PageSpreadViewProps> = ({
   onPageClick,
   zoomLevel = 0.5,
 }) => {
-  // Calculate effective margins with gutter
+  // Mirrored margins and gutter on the binding edge, as in the editor and exports
   const getPageStyle = (isRecto: boolean) => {
-    const baseStyle = {
+    const margins = getPageMargins(pageLayout, isRecto ? 'recto' : 'verso');
+    return {
       width: pageLayout.width,
       height: pageLayout.height,
       backgroundColor: '#ffffff',
-    };
-
-    if (pageLayout.mirrorMargins && pageLayout.gutter) {
-      const gutterValue = pageLayout.gutter;
-      if (isRecto) {
-        // Right page: gutter on left
-        return {
-          ...baseStyle,
-          paddingTop: pageLayout.margins.top,
-          paddingRight: pageLayout.margins.right,
-          paddingBottom: pageLayout.margins.bottom,
-          paddingLeft: `calc(${pageLayout.margins.left} + ${gutterValue})`,
-        };
-      } else {
-        // Left page: gutter on right
-        return {
-          ...baseStyle,
-          paddingTop: pageLayout.margins.top,
-          paddingRight: `calc(${pageLayout.margins.right} + ${gutterValue})`,
-          paddingBottom: pageLayout.margins.bottom,
-          paddingLeft: pageLayout.margins.left,
-        };
-      }
-    }
-
-    return {
-      ...baseStyle,
-      padding: `${pageLayout.margins.top} ${pageLayout.margins.right} ${pageLayout.margins.bottom} ${pageLayout.margins.left}`,
+      padding: `${margins.top} ${margins.right} ${margins.bottom} ${margins.left}`,
     };
   };
 
@@ -198,24 +173,23 @@ export const ViewModeSelector: React.FC<ViewModeSelectorProps> = ({
 
 interface GutterGuideProps {
   gutter: string;
-  mirrorMargins: boolean;
   isRecto: boolean;
   visible?: boolean;
 }
 
 export const GutterGuide: React.FC<GutterGuideProps> = ({
   gutter,
-  mirrorMargins,
   isRecto,
   visible = true,
 }) => {
-  if (!visible || !mirrorMargins) return null;
+  if (!visible || !parseFloat(gutter)) return null;
 
+  // The binding edge is on the left of a recto and the right of a verso
   const position = isRecto ? 'left' : 'right';
 
   return (
     <div 
-      className="gutter-guide absolute top-0 bottom-0 pointer-events-none"
+      className="gutter-guide absolute top-0 bottom-0 pointer-events-none no-print"
       style={{
         [position]: gutter,
         width: '1px',
@@ -232,16 +206,15 @@ export const GutterGuide: React.FC<GutterGuideProps> = ({
 
 interface SpreadNavigatorProps {
   currentSpread: number; // 0-indexed spread number
-  totalPages: number;
+  totalSpreads: number;
   onNavigate: (spreadIndex: number) => void;
 }
 
 export const SpreadNavigator: React.FC<SpreadNavigatorProps> = ({
   currentSpread,
-  totalPages,
+  totalSpreads,
   onNavigate,
 }) => {
-  const totalSpreads = Math.ceil(totalPages / 2);
   const canGoPrev = currentSpread > 0;
   const canGoNext = currentSpread < totalSpreads - 1;
 
@@ -1,12 +1,14 @@
 import React, { useState } from 'react';
 import { Bold, Italic, Underline, Strikethrough, X, Save, GripHorizontal } from 'lucide-react';
-import { TextStyle } from '../types';
+import { TextStyle, WordData } from '../types';
 import { useDraggable } from '../hooks/useDraggable';
+import { tokenizeText, retokenizeWords } from '../utils/wordTokens';
 
 interface RichTextEditorProps {
   initialText: string;
   initialStyles: TextStyle[];
-  onSave: (text: string, styles: TextStyle[], shouldSync?: boolean) => void;
+  initialWords: WordData[];
+  onSave: (text: string, words: WordData[], styles: TextStyle[], shouldSync?: boolean) => void;
   onCancel: () => void;
   position: { x: number, y: number };
 }
@@ -14,16 +16,25 @@ interface RichTextEditorProps {
 export const RichTextEditor: React.FC<RichTextEditorProps> = ({ 
   initialText, 
   initialStyles, 
+  initialWords,
   onSave, 
   onCancel,
   position 
 }) => {
   const [text, setText] = useState(initialText);
   const [styles, setStyles] = useState<TextStyle[]>(initialStyles);
+  // Word UUIDs follow the text as it is edited, so styles stay on the same words
+  const [words, setWords] = useState<WordData[]>(() => retokenizeWords(initialWords, initialText));
   
   // Selection state
   const [selectedWordIndices, setSelectedWordIndices] = useState<number[]>([]);
 
+  const handleTextChange = (newText: string) => {
+      setText(newText);
+      setWords(retokenizeWords(words, newText));
+      setSelectedWordIndices([]);
+  };
+
   // Draggable
   const { position: dragPos, dragHandleProps } = useDraggable({ initialPosition: position });
 
@@ -39,7 +50,8 @@ export const RichTextEditor: React.FC<RichTextEditorProps> = ({
       const newStyles = [...styles];
       
       selectedWordIndices.forEach(index => {
-          const wordId = String(index);
+          const wordId = words[index]?.id;
+          if (!wordId) return;
           
           let styleEntry = newStyles.find(s => s.wordId === wordId);
            if (!styleEntry) {
@@ -60,8 +72,9 @@ export const RichTextEditor: React.FC<RichTextEditorProps> = ({
   };
 
   const handleSave = () => {
-      // Styles are already mapped to indices "0", "1" etc.
-      onSave(text, styles);
+      // Styles are keyed by word UUID; drop entries for words that were deleted
+      const liveStyles = styles.filter(s => words.some(w => w.id === s.wordId));
+      onSave(text, words, liveStyles);
   };
 
   return (
@@ -116,7 +129,7 @@ export const RichTextEditor: React.FC<RichTextEditorProps> = ({
       <textarea
         className="w-full h-24 border rounded p-2 text-sm mb-3 resize-none font-serif"
         value={text}
-        onChange={(e) => setText(e.target.value)}
+        onChange={(e) => handleTextChange(e.target.value)}
       />
 
       {/* Styling Area - Interactive Words */}
@@ -124,28 +137,14 @@ export const RichTextEditor: React.FC<RichTextEditorProps> = ({
          <p className="text-xs text-gray-400 mb-1">Click words to select, then apply styles:</p>
          <div className="whitespace-pre-wrap">
              {(() => {
-                 // Match WordGroupRenderer logic exactly
-                 const tokens = text.split(/([a-zA-Z0-9À-ÿ'']+)/).filter(Boolean);
-                 let wordIndex = 0;
-                 return tokens.map((token, idx) => {
-                     const isWord = /^[a-zA-Z0-9À-ÿ'']+$/.test(token);
-                     
+                 // Same tokenization as WordGroupRenderer
+                 return tokenizeText(text).map(({ text: token, isWord, wordIndex }, idx) => {
                      if (!isWord) {
                          return <span key={idx}>{token}</span>;
                      }
                      
-                     const currentWordIndex = wordIndex++;
-                     // const tempId = `temp-${currentWordIndex}`; // Unused
-                     
-                     // Check style with logical index stored as wordId "0", "1" etc.
-                     // The editor state initially loads styles with real IDs "0", "1".
-                     // But here we construct temp IDs "temp-0" for internal editor tracking.
-                     // Wait, initialStyles come from the store with IDs like "0", "1".
-                     // So we should map them to our internal ID format or just use "0", "1" directly.
-                     // Let's use string indices as IDs directly to simplify.
-                     const wordId = String(currentWordIndex);
-                     
-                     // We need to check if we have a style for this index
+                     const currentWordIndex = wordIndex!;
+                     const wordId = words[currentWordIndex]?.id;
                      const style = styles.find(s => s.wordId === wordId);
                      const isSelected = selectedWordIndices.includes(currentWordIndex);
                      
@@ -177,7 +176,7 @@ export const RichTextEditor: React.FC<RichTextEditorProps> = ({
         </button>
         <button
           onClick={() => {
-            onSave(text, styles, true);
+            onSave(text, words, styles.filter(s => words.some(w => w.id === s.wordId)), true);
           }}
           className="flex-1 py-2 bg-green-600 text-white rounded hover:bg-green-700 flex items-center justify-center gap-2"
           title="Save and automatically update linked words"
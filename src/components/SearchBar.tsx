@@ -2,6 +2,9 @@ import React, { useState, useEffect, useCallback } from 'react';
 import { Search, X, ChevronUp, ChevronDown, Replace, ReplaceAll } from 'lucide-react';
 import { useStore } from '../store';
 import { clsx } from 'clsx';
+import { applyLineText } from '../utils/wordTokens';
+import { getContentBlock, getContentTextFields, ContentTextField } from '../utils/pageBody';
+import { LineData, PageContent } from '../types';
 
 interface SearchResult {
   pageIndex: number;
@@ -10,8 +13,11 @@ interface SearchResult {
   startIndex: number;
   endIndex: number;
   text: string;
+  field?: ContentTextField; // Set when the match is inside a content block (caption, callout...)
 }
 
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
 interface SearchBarProps {
   isOpen: boolean;
   onClose: () => void;
@@ -38,43 +44,37 @@ export const SearchBar: React.FC<SearchBarProps> = ({ isOpen, onClose }) => {
     const searchTerm = caseSensitive ? searchQuery : searchQuery.toLowerCase();
     const foundResults: SearchResult[] = [];
 
+    // Collect every occurrence of the search term in a piece of text
+    const findMatches = (source: string, base: Omit<SearchResult, 'startIndex' | 'endIndex' | 'text'>) => {
+      const haystack = caseSensitive ? source : source.toLowerCase();
+      let index = haystack.indexOf(searchTerm);
+      while (index !== -1) {
+        foundResults.push({
+          ...base,
+          startIndex: index,
+          endIndex: index + searchQuery.length,
+          text: source.substring(
+            Math.max(0, index - 20),
+            Math.min(source.length, index + searchQuery.length + 20)
+          )
+        });
+        index = haystack.indexOf(searchTerm, index + 1);
+      }
+    };
+
     pages.forEach((page, pageIndex) => {
       page.lines.forEach(line => {
-        // Search in French text
-        const frenchText = caseSensitive ? line.frenchText : line.frenchText.toLowerCase();
-        let frenchIndex = frenchText.indexOf(searchTerm);
-        while (frenchIndex !== -1) {
-          foundResults.push({
-            pageIndex,
-            lineId: line.id,
-            language: 'french',
-            startIndex: frenchIndex,
-            endIndex: frenchIndex + searchQuery.length,
-            text: line.frenchText.substring(
-              Math.max(0, frenchIndex - 20),
-              Math.min(line.frenchText.length, frenchIndex + searchQuery.length + 20)
-            )
+        // Content blocks are searched in place, through their text fields
+        const block = getContentBlock(line);
+        if (block) {
+          getContentTextFields(block).forEach(({ field, text }) => {
+            findMatches(text, { pageIndex, lineId: line.id, language: field === 'captionFrench' ? 'french' : 'english', field });
           });
-          frenchIndex = frenchText.indexOf(searchTerm, frenchIndex + 1);
+          return;
         }
 
-        // Search in English text
-        const englishText = caseSensitive ? line.englishText : line.englishText.toLowerCase();
-        let englishIndex = englishText.indexOf(searchTerm);
-        while (englishIndex !== -1) {
-          foundResults.push({
-            pageIndex,
-            lineId: line.id,
-            language: 'english',
-            startIndex: englishIndex,
-            endIndex: englishIndex + searchQuery.length,
-            text: line.englishText.substring(
-              Math.max(0, englishIndex - 20),
-              Math.min(line.englishText.length, englishIndex + searchQuery.length + 20)
-            )
-          });
-          englishIndex = englishText.indexOf(searchTerm, englishIndex + 1);
-        }
+        findMatches(line.frenchText, { pageIndex, lineId: line.id, language: 'french' });
+        findMatches(line.englishText, { pageIndex, lineId: line.id, language: 'english' });
       });
     });
 
@@ -146,16 +146,20 @@ export const SearchBar: React.FC<SearchBarProps> = ({ isOpen, onClose }) => {
         lines: page.lines.map(line => {
           if (line.id !== result.lineId) return line;
           
+          const splice = (source: string) => source.substring(0, result.startIndex) + 
+                                             replaceQuery + 
+                                             source.substring(result.endIndex);
+          
+          const block = getContentBlock(line);
+          if (block && result.field) {
+            const current = (block as Record<string, any>)[result.field] as string;
+            return { ...line, contentData: { ...block, [result.field]: splice(current) } as PageContent };
+          }
+          
           if (result.language === 'french') {
-            const newText = line.frenchText.substring(0, result.startIndex) + 
-                           replaceQuery + 
-                           line.frenchText.substring(result.endIndex);
-            return { ...line, frenchText: newText };
+            return applyLineText(line, 'french', splice(line.frenchText));
           } else {
-            const newText = line.englishText.substring(0, result.startIndex) + 
-                           replaceQuery + 
-                           line.englishText.substring(result.endIndex);
-            return { ...line, englishText: newText };
+            return applyLineText(line, 'english', splice(line.englishText));
           }
         })
       };
@@ -165,6 +169,25 @@ export const SearchBar: React.FC<SearchBarProps> = ({ isOpen, onClose }) => {
     performSearch(); // Re-search to update results
   };
 
+  const replaceInText = (source: string) => caseSensitive
+    ? source.split(searchQuery).join(replaceQuery)
+    : source.replace(new RegExp(escapeRegExp(searchQuery), 'gi'), replaceQuery);
+
+  const replaceInLine = (line: LineData): LineData => {
+    const block = getContentBlock(line);
+    if (block) {
+      const updates = Object.fromEntries(
+        getContentTextFields(block).map(({ field, text }) => [field, replaceInText(text)])
+      );
+      return { ...line, contentData: { ...block, ...updates } as PageContent };
+    }
+
+    const newFrenchText = replaceInText(line.frenchText);
+    const newEnglishText = replaceInText(line.englishText);
+    if (newFrenchText === line.frenchText && newEnglishText === line.englishText) return line;
+    return applyLineText(applyLineText(line, 'french', newFrenchText), 'english', newEnglishText);
+  };
+
   // Replace all occurrences
   const replaceAll = () => {
     if (results.length === 0 || !replaceQuery) return;
@@ -175,28 +198,7 @@ export const SearchBar: React.FC<SearchBarProps> = ({ isOpen, onClose }) => {
     
     const newPages = currentPages.map(page => ({
       ...page,
-      lines: page.lines.map(line => {
-        let newFrenchText = line.frenchText;
-        let newEnglishText = line.englishText;
-        
-        // Replace in French text
-        if (caseSensitive) {
-          newFrenchText = line.frenchText.split(searchQuery).join(replaceQuery);
-        } else {
-          const regex = new RegExp(searchQuery.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'), 'gi');
-          newFrenchText = line.frenchText.replace(regex, replaceQuery);
-        }
-        
-        // Replace in English text
-        if (caseSensitive) {
-          newEnglishText = line.englishText.split(searchQuery).join(replaceQuery);
-        } else {
-          const regex = new RegExp(searchQuery.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'), 'gi');
-          newEnglishText = line.englishText.replace(regex, replaceQuery);
-        }
-        
-        return { ...line, frenchText: newFrenchText, englishText: newEnglishText };
-      })
+      lines: page.lines.map(replaceInLine)
     }));
     
     useStore.setState({ pages: newPages });
@@ -345,7 +347,7 @@ export const SearchBar: React.FC<SearchBarProps> = ({ isOpen, onClose }) => {
       {results.length > 0 && (
         <div className="mt-3 p-2 bg-gray-50 dark:bg-gray-700 rounded text-xs border">
           <div className="text-gray-400 text-[10px] uppercase mb-1">
-            Page {results[currentResultIndex].pageIndex + 1} • {results[currentResultIndex].language}
+            Page {results[currentResultIndex].pageIndex + 1} • {results[currentResultIndex].field || results[currentResultIndex].language}
           </div>
           <div className="text-gray-700 dark:text-gray-200 truncate">
             ...{results[currentResultIndex].text}...
@@ -0,0 +1,122 @@
+import React, { useMemo, useState } from 'react';
+import { useStore } from '../store';
+import { X, Wand2, AlertTriangle } from 'lucide-react';
+import { planSentenceAlignment, LOW_CONFIDENCE, SentencePair } from '../utils/sentenceAlignment';
+
+interface SentenceAlignModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+/**
+ * Review of an automatic sentence alignment before it replaces the body lines.
+ * Low-confidence pairs (merges, unmatched sentences, unlikely lengths) are flagged.
+ */
+export const SentenceAlignModal: React.FC<SentenceAlignModalProps> = ({ isOpen, onClose }) => {
+  const { pages, autoAlign } = useStore();
+  const [onlyLowConfidence, setOnlyLowConfidence] = useState(false);
+
+  const plan = useMemo(() => (isOpen ? planSentenceAlignment(pages) : []), [isOpen, pages]);
+
+  if (!isOpen) return null;
+
+  const pairs = plan.flatMap(run => run.entries).flatMap(entry => (entry.kind === 'pair' ? [entry.pair] : []));
+  const isLow = (pair: SentencePair) => pair.confidence < LOW_CONFIDENCE;
+  const lowCount = pairs.filter(isLow).length;
+  const keptCount = pairs.filter(p => p.lineId).length;
+  const shown = pairs.map((pair, index) => ({ pair, index })).filter(({ pair }) => !onlyLowConfidence || isLow(pair));
+
+  const handleApply = () => {
+    autoAlign(plan);
+    onClose();
+  };
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/50 z-[200] flex items-center justify-center"
+      onClick={onClose}
+    >
+      <div
+        className="bg-white dark:bg-gray-800 rounded-xl shadow-2xl w-3/4 h-3/4 flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="p-4 border-b dark:border-gray-700 flex justify-between items-center">
+          <h2 className="font-bold text-gray-800 dark:text-gray-100 flex items-center gap-2">
+            <Wand2 size={18} /> Review Sentence Alignment
+          </h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-300">
+            <X size={18} />
+          </button>
+        </div>
+
+        <div className="px-4 py-3 border-b dark:border-gray-700 flex flex-wrap items-center gap-4 text-xs text-gray-600 dark:text-gray-300">
+          <span>{pairs.length} sentence pairs</span>
+          <span className="text-green-700 dark:text-green-400">{keptCount} unchanged lines keep their annotations</span>
+          <span className={lowCount > 0 ? 'text-amber-700 dark:text-amber-400 font-medium' : ''}>
+            {lowCount} low-confidence
+          </span>
+          <label className="flex items-center gap-2 ml-auto">
+            <input
+              type="checkbox"
+              checked={onlyLowConfidence}
+              onChange={(e) => setOnlyLowConfidence(e.target.checked)}
+            />
+            Only show low-confidence pairs
+          </label>
+        </div>
+
+        <div className="flex-1 overflow-auto">
+          <table className="w-full text-sm">
+            <thead className="sticky top-0 bg-gray-50 dark:bg-gray-700 text-xs text-gray-500 dark:text-gray-300">
+              <tr>
+                <th className="p-2 text-left w-10">#</th>
+                <th className="p-2 text-left">French</th>
+                <th className="p-2 text-left">English</th>
+                <th className="p-2 text-left w-16">Match</th>
+                <th className="p-2 text-right w-20">Confidence</th>
+              </tr>
+            </thead>
+            <tbody>
+              {shown.map(({ pair, index }) => (
+                <tr
+                  key={index}
+                  className={`border-t dark:border-gray-700 align-top ${isLow(pair) ? 'bg-amber-50 dark:bg-amber-900/20' : ''}`}
+                >
+                  <td className="p-2 text-xs font-mono text-gray-400">{index + 1}</td>
+                  <td className="p-2 font-serif italic text-gray-800 dark:text-gray-100">{pair.french || <span className="text-gray-400">—</span>}</td>
+                  <td className="p-2 text-gray-600 dark:text-gray-300">{pair.english || <span className="text-gray-400">—</span>}</td>
+                  <td className="p-2 text-xs font-mono text-gray-500">{pair.bead}</td>
+                  <td className="p-2 text-xs text-right">
+                    <span className="inline-flex items-center gap-1">
+                      {isLow(pair) && <AlertTriangle size={12} className="text-amber-500" />}
+                      {Math.round(pair.confidence * 100)}%
+                    </span>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="p-4 border-t dark:border-gray-700 flex items-center gap-2">
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            Annotations on lines that are re-split are removed. Content blocks and chapters are kept.
+          </p>
+          <button
+            onClick={onClose}
+            className="ml-auto px-4 py-2 text-sm rounded border border-gray-200 dark:border-gray-600 hover:bg-gray-50 dark:hover:bg-gray-700"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleApply}
+            disabled={pairs.length === 0}
+            className="px-4 py-2 text-sm rounded bg-purple-600 text-white hover:bg-purple-700 disabled:opacity-50"
+          >
+            Apply Alignment
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
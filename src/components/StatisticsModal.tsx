@@ -1,6 +1,7 @@
 import React from 'react';
 import { useStore } from '../store';
 import { X, BarChart2 } from 'lucide-react';
+import { getContentBlock, isTextLine } from '../utils/pageBody';
 
 interface StatisticsModalProps {
   isOpen: boolean;
@@ -12,14 +13,23 @@ export const StatisticsModal: React.FC<StatisticsModalProps> = ({ isOpen, onClos
 
   if (!isOpen) return null;
 
+  // The page body mixes text lines and content blocks
+  const body = pages.flatMap(page => page.lines);
+  const textLines = body.filter(isTextLine);
+  const blocks = body.map(getContentBlock).filter(Boolean);
+  const countBlocks = (type: string) => blocks.filter(b => b!.type === type).length;
+
   const totalPages = pages.length;
-  const totalLines = pages.reduce((acc, page) => acc + page.lines.length, 0);
-  const totalWordsFrench = pages.reduce((acc, page) => acc + page.lines.reduce((lAcc, line) => lAcc + line.frenchText.split(/\s+/).filter(Boolean).length, 0), 0);
-  const totalWordsEnglish = pages.reduce((acc, page) => acc + page.lines.reduce((lAcc, line) => lAcc + line.englishText.split(/\s+/).filter(Boolean).length, 0), 0);
+  const totalLines = textLines.length;
+  const totalWordsFrench = textLines.reduce((acc, line) => acc + line.frenchText.split(/\s+/).filter(Boolean).length, 0);
+  const totalWordsEnglish = textLines.reduce((acc, line) => acc + line.englishText.split(/\s+/).filter(Boolean).length, 0);
   const totalGroups = wordGroups.length;
   const totalArrows = arrows.length;
   const totalAnecdotes = sidebars.length;
-  const totalCharacters = pages.reduce((acc, page) => acc + page.lines.reduce((lAcc, line) => lAcc + line.frenchText.length + line.englishText.length, 0), 0);
+  const totalCharacters = textLines.reduce((acc, line) => acc + line.frenchText.length + line.englishText.length, 0);
+  const totalImages = countBlocks('image');
+  const totalTables = countBlocks('table');
+  const totalCallouts = countBlocks('callout');
 
   return (
     <div
@@ -81,6 +91,21 @@ export const StatisticsModal: React.FC<StatisticsModalProps> = ({ isOpen, onClos
              </div>
           </div>
 
+          <div className="border-t dark:border-gray-700 pt-4 space-y-2">
+             <div className="flex justify-between text-sm">
+                <span className="text-gray-500 dark:text-gray-400">Images</span>
+                <span className="font-mono font-medium dark:text-gray-200">{totalImages}</span>
+             </div>
+             <div className="flex justify-between text-sm">
+                <span className="text-gray-500 dark:text-gray-400">Tables</span>
+                <span className="font-mono font-medium dark:text-gray-200">{totalTables}</span>
+             </div>
+             <div className="flex justify-between text-sm">
+                <span className="text-gray-500 dark:text-gray-400">Callouts</span>
+                <span className="font-mono font-medium dark:text-gray-200">{totalCallouts}</span>
+             </div>
+          </div>
+
           <div className="mt-4 pt-4 border-t dark:border-gray-700 text-xs text-center text-gray-400">
              Project: {metadata.title} ({metadata.year})
           </div>
@@ -2,16 +2,19 @@ import React from 'react';
 import { useStore } from '../store';
 import { clsx } from 'clsx';
 import { Volume2 } from 'lucide-react';
-import { TextStyle } from '../types';
+import { Footnote, TextStyle, WordData } from '../types';
+import { tokenizeText } from '../utils/wordTokens';
 
 interface WordGroupRendererProps {
   text: string;
   language: 'french' | 'english';
   lineId: string;
   styles?: TextStyle[]; // NEW: Accept styles
+  words?: WordData[]; // UUID identity of each word, in order
+  footnotes?: Footnote[]; // Numbered footnotes anchored in this line; enables Alt+click to add one
 }
 
-export const WordGroupRenderer: React.FC<WordGroupRendererProps> = ({ text, language, lineId, styles = [] }) => {
+export const WordGroupRenderer: React.FC<WordGroupRendererProps> = ({ text, language, lineId, styles = [], words = [], footnotes }) => {
   const {
     selectionMode,
     wordGroups,
@@ -25,11 +28,15 @@ export const WordGroupRenderer: React.FC<WordGroupRendererProps> = ({ text, lang
     selectedElementId,
     setSelectedElement,
     theme,
-    highlightSelection
+    highlightSelection,
+    addFootnote
   } = useStore();
 
   // Split text into words and non-words (punctuation/spaces)
-  const tokens = text.split(/([a-zA-Z0-9À-ÿ'']+)/).filter(Boolean);
+  const tokens = tokenizeText(text);
+
+  // Word identity comes from the line's WordData; projects are migrated to it on load
+  const getWordId = (index: number) => words[index]?.id;
 
   // Get all word groups for this line and language
   const lineGroups = wordGroups.filter(g => g.lineId === lineId && g.language === language);
@@ -58,6 +65,13 @@ export const WordGroupRenderer: React.FC<WordGroupRendererProps> = ({ text, lang
   const handleWordClick = (wordId: string, wordIndex: number, e: React.MouseEvent) => {
     e.stopPropagation();
 
+    // Alt+click attaches a footnote to the word
+    if (e.altKey && footnotes) {
+      const content = prompt('Footnote text:');
+      if (content && content.trim()) addFootnote(lineId, wordId, content.trim());
+      return;
+    }
+
     if (selectionMode === 'wordGroup') {
       if (e.shiftKey && wordGroupSelection.lineId === lineId && wordGroupSelection.language === language) {
         // Extend selection
@@ -141,14 +155,12 @@ export const WordGroupRenderer: React.FC<WordGroupRendererProps> = ({ text, lang
   let charIndex = 0; // Track character position for search highlighting
   const renderedTokens: React.ReactNode[] = [];
 
-  tokens.forEach((token, tokenIdx) => {
-    const isWord = /^[a-zA-Z0-9À-ÿ'']+$/.test(token);
-
+  tokens.forEach(({ text: token, isWord }, tokenIdx) => {
     if (!isWord) {
       charIndex += token.length;
       // Logic for contiguous highlighting of spaces/punctuation
-      const prevWordId = `${lineId}-${language}-${wordIndex - 1}`;
-      const nextWordId = `${lineId}-${language}-${wordIndex}`;
+      const prevWordId = getWordId(wordIndex - 1);
+      const nextWordId = getWordId(wordIndex);
       
       const prevGroup = wordIdToGroup.get(prevWordId);
       const nextGroup = wordIdToGroup.get(nextWordId);
@@ -170,7 +182,7 @@ export const WordGroupRenderer: React.FC<WordGroupRendererProps> = ({ text, lang
       return;
     }
 
-    const wordId = `${lineId}-${language}-${wordIndex}`;
+    const wordId = getWordId(wordIndex);
     const group = wordIdToGroup.get(wordId);
     const inSelection = isInCurrentSelection(wordId);
     const inHighlight = isInHighlightSelection(wordId); // Check if selected in highlight mode
@@ -189,7 +201,7 @@ export const WordGroupRenderer: React.FC<WordGroupRendererProps> = ({ text, lang
                           Math.max(tokenStart, theme.searchHighlight.startIndex) < Math.min(tokenEnd, theme.searchHighlight.endIndex);
 
     // Get style for this word
-    const style = styles.find(s => s.wordId === String(currentWordIndex));
+    const style = styles.find(s => s.wordId === wordId);
 
     wordIndex++;
 
@@ -237,6 +249,12 @@ export const WordGroupRenderer: React.FC<WordGroupRendererProps> = ({ text, lang
         {token}
       </span>
     );
+
+    footnotes?.filter(f => f.wordId === wordId).forEach(f => renderedTokens.push(
+      <sup key={`footnote-${f.id}`} className="footnote-marker text-[0.65em] text-gray-600 ml-px" title={f.content}>
+        {f.number}
+      </sup>
+    ));
   });
 
   // Render anchor elements for each group (positioned below the underline)
@@ -263,12 +281,7 @@ export const WordGroupRenderer: React.FC<WordGroupRendererProps> = ({ text, lang
             e.stopPropagation();
             // TTS Logic
             const groupText = group.wordIds
-              .map(id => {
-                const parts = id.split('-');
-                const idx = parseInt(parts[parts.length-1]);
-                const words = text.split(/([a-zA-Z0-9À-ÿ'']+)/).filter(Boolean).filter(t => /^[a-zA-Z0-9À-ÿ'']+$/.test(t));
-                return words[idx] || '';
-              })
+              .map(id => words.find(w => w.id === id)?.text || '')
               .join(' ');
             
             const utterance = new SpeechSynthesisUtterance(groupText);
@@ -1,4 +1,4 @@
-import React, { useState, useRef, useEffect, useCallback } from 'react';
+import React, { useState, useRef, useEffect, useCallback, useMemo } from 'react';
 import { useStore } from '../store';
 import { WordGroupRenderer } from './WordGroupRenderer';
 import { CustomArrowLayer } from './CustomArrowLayer';
@@ -9,9 +9,22 @@ import { RichTextEditor } from './RichTextEditor';
 import { ArrowTemplateMenu } from './ArrowTemplateMenu';
 import { ArrowEditMenu } from './ArrowEditMenu';
 import { DraggablePopup } from './DraggablePopup';
-import { TextStyle, AnecdoteType, PageContent } from '../types';
-import { ViewModeSelector, SpreadNavigator } from './PageSpreadView';
+import { TextStyle, AnecdoteType, PageContent, WordData } from '../types';
+import { ViewModeSelector, SpreadNavigator, GutterGuide } from './PageSpreadView';
 import { createContentFromSnippetId } from './SnippetLibrary';
+import { getContentBlock } from '../utils/pageBody';
+import { getLineGridTemplate, LINE_COLUMN_GAP } from '../utils/pagination';
+import { getDisplayLineNumbers } from '../utils/chapters';
+import { getFrontMatterPages, buildTableOfContents } from '../utils/frontMatter';
+import { FrontMatterPageView } from './FrontMatterPageView';
+import { collectGlossaryEntries, getBackMatterPages, getEntriesPerPage, getPageNumbersByLine } from '../utils/backMatter';
+import { BackMatterPageView } from './BackMatterPageView';
+import { numberFootnotes, getLineFootnotes, getPageFootnotes } from '../utils/footnotes';
+import { PageSide, getPageMargins, getPageSide, getSpreads } from '../utils/pageSides';
+import { formatAudioClip, getLineAudioUrl, parseAudioClip } from '../utils/audioClips';
+import { getRunningHeads } from '../../runningHeads.js';
+import { PageLabel, getPageLabels } from '../../pageNumbering.js';
+import { LOCAL_SERVER } from '../utils/localServer';
 
 export const Workspace: React.FC = () => {
     const {
@@ -33,6 +46,7 @@ export const Workspace: React.FC = () => {
         cancelArrowCreation,
         syncLineStyles,
         updateLineStyles,
+        updateLineText,
         uiSettings,
         updateLineProperty,
         reorderLines,
@@ -46,16 +60,53 @@ export const Workspace: React.FC = () => {
         viewMode,
         setViewMode,
         insertContent,
+        updateContent,
         setCurrentPageIndex,
-        metadata
+        metadata,
+        bookStructure,
+        wordGroups,
+        linkedPairs,
+        footnotes,
+        updateFootnote,
+        removeFootnote
     } = useStore();
 
+    // Line numbers restart at each chapter
+    const displayLineNumbers = useMemo(() => getDisplayLineNumbers(pages), [pages]);
+    const runningHeads = useMemo(() => getRunningHeads({ theme, metadata, bookStructure }, pages), [theme, metadata, bookStructure, pages]);
+
+    // Generated front matter; the contents page follows the current page order
+    const frontMatterPages = useMemo(() => getFrontMatterPages(bookStructure?.frontMatter), [bookStructure?.frontMatter]);
+    const tableOfContents = useMemo(() => buildTableOfContents(pages, bookStructure), [pages, bookStructure]);
+
+    // Generated glossary and index; page references are resolved against the current pages
+    const pageByLine = useMemo(() => getPageNumbersByLine(pages), [pages]);
+    const backMatterPages = useMemo(() => {
+        const backMatter = bookStructure?.backMatter;
+        if (!backMatter?.glossary && !backMatter?.index) return [];
+        return getBackMatterPages(backMatter, collectGlossaryEntries(pages, wordGroups, linkedPairs), getEntriesPerPage(theme));
+    }, [bookStructure?.backMatter, pages, wordGroups, linkedPairs, theme]);
+
+    // Printed page numbers, from the front matter, body, chapter and back matter numbering sections
+    const pageLabels = useMemo(
+        () => getPageLabels(bookStructure, pages, frontMatterPages.length, backMatterPages.length),
+        [bookStructure, pages, frontMatterPages.length, backMatterPages.length]
+    );
+    const pageCaption = (label?: PageLabel) => (label?.label ? `Page ${label.label}` : 'Unnumbered page');
+
+    // Footnotes are numbered against the current page order
+    const numberedFootnotes = useMemo(
+        () => numberFootnotes(pages, footnotes || [], theme.typography?.footnoteNumbering),
+        [pages, footnotes, theme.typography?.footnoteNumbering]
+    );
+
     const [editorState, setEditorState] = useState<{
         isOpen: boolean;
         lineId: string | null;
         language: 'french' | 'english' | null;
         initialText: string;
         initialStyles: TextStyle[];
+        initialWords: WordData[];
         position: { x: number; y: number };
     }>({
         isOpen: false,
@@ -63,6 +114,7 @@ export const Workspace: React.FC = () => {
         language: null,
         initialText: '',
         initialStyles: [],
+        initialWords: [],
         position: { x: 0, y: 0 }
     });
 
@@ -94,18 +146,9 @@ export const Workspace: React.FC = () => {
     const currentPage = pages[currentPageIndex || 0];
     const splitRatio = currentPage?.splitRatio ?? theme.pageLayout?.splitRatio ?? 0.5;
     
-    // Get pages for spread view (left = verso/even, right = recto/odd)
-    // @ts-expect-error - Will be used for spread view rendering
-    const _getSpreadPages = useCallback(() => {
-        const leftPageIndex = currentSpreadIndex * 2;
-        const rightPageIndex = leftPageIndex + 1;
-        return {
-            leftPage: pages[leftPageIndex] || null,
-            rightPage: pages[rightPageIndex] || null,
-            leftPageNumber: leftPageIndex + 1,
-            rightPageNumber: rightPageIndex + 1,
-        };
-    }, [currentSpreadIndex, pages]);
+    // Facing pages for spread view (left = verso, right = recto); the first body page is a lone recto
+    const spreads = useMemo(() => getSpreads(pages.length, frontMatterPages.length + 1), [pages.length, frontMatterPages.length]);
+    const currentSpread = spreads[Math.min(currentSpreadIndex, spreads.length - 1)];
     
     // Handle snippet/image drops on the page
     const handleDrop = useCallback((e: React.DragEvent) => {
@@ -164,7 +207,7 @@ export const Workspace: React.FC = () => {
                     insertContent(currentPage.id, {
                         id: '',
                         type: 'image',
-                        src: `http://localhost:3001${path}`,
+                        src: `${LOCAL_SERVER}${path}`,
                         alt: name,
                         alignment: 'center',
                         width: '80%'
@@ -320,27 +363,11 @@ export const Workspace: React.FC = () => {
         };
     }, [isPanning, panStart, scrollStart]);
 
-    const getGridTemplate = () => {
-        const { showFrench, showEnglish } = uiSettings;
-        const { layoutMode } = theme;
-        if (layoutMode === 'interlinear') return "3rem 1fr 12rem";
-
-        const parts = ["3rem"];
-        if (showFrench && showEnglish) {
-            // Use minmax to prevent columns from crushing below readable width
-            // Each text column gets at least 120px minimum
-            const frenchWidth = `minmax(120px, ${splitRatio}fr)`;
-            const englishWidth = `minmax(120px, ${1 - splitRatio}fr)`;
-            parts.push(frenchWidth);
-            parts.push(englishWidth);
-        } else if (showFrench || showEnglish) {
-            parts.push("minmax(200px, 1fr)");
-        }
-        parts.push("12rem");
-        return parts.join(" ");
-    };
+    // Shared with the pagination engine so measured lines match rendered ones
+    const getGridTemplate = () =>
+        getLineGridTemplate(theme.layoutMode, uiSettings.showFrench, uiSettings.showEnglish, splitRatio);
 
-    const handleLineDoubleClick = (e: React.MouseEvent, lineId: string, language: 'french' | 'english', text: string, styles: TextStyle[] = []) => {
+    const handleLineDoubleClick = (e: React.MouseEvent, lineId: string, language: 'french' | 'english', text: string, styles: TextStyle[] = [], words: WordData[] = []) => {
         e.stopPropagation();
         const pos = getRelativePosition(e.clientX, e.clientY);
         setEditorState({
@@ -349,90 +376,52 @@ export const Workspace: React.FC = () => {
             language,
             initialText: text,
             initialStyles: styles,
+            initialWords: words,
             position: pos
         });
     };
 
-    const saveRichText = (_text: string, styles: TextStyle[], shouldSync?: boolean) => {
+    const saveRichText = (text: string, words: WordData[], styles: TextStyle[], shouldSync?: boolean) => {
         if (editorState.lineId && editorState.language) {
+            if (text !== editorState.initialText) {
+                updateLineText(editorState.lineId, editorState.language, text, words);
+            }
             updateLineStyles(editorState.lineId, editorState.language, styles);
             if (shouldSync) syncLineStyles(editorState.lineId, editorState.language, styles);
         }
         setEditorState({ ...editorState, isOpen: false });
     };
 
-    const getPageStyle = (pageNumber?: number) => {
+    // Margins follow the page's side of the spread: mirrored margins and the gutter on the binding edge
+    const getPageStyle = (side: PageSide) => {
         const layout = theme.pageLayout;
-        if (layout) {
-            // Calculate effective margins with gutter support
-            const baseMargins = {
-                top: layout.margins.top,
-                right: layout.margins.right,
-                bottom: layout.margins.bottom,
-                left: layout.margins.left,
-            };
-            
-            // Apply mirror margins and gutter for book binding
-            // Even pages (left/verso): gutter on right
-            // Odd pages (right/recto): gutter on left
-            const isRecto = (pageNumber || (currentPageIndex || 0) + 1) % 2 === 1;
-            const gutter = layout.gutter || '0mm';
-            const gutterNum = parseFloat(gutter) || 0;
-            const gutterUnit = gutter.replace(/[0-9.]/g, '') || 'mm';
-            
-            let effectiveLeft = baseMargins.left;
-            let effectiveRight = baseMargins.right;
-            
-            if (layout.mirrorMargins && gutterNum > 0) {
-                if (isRecto) {
-                    // Odd pages: add gutter to left (inside)
-                    const leftNum = parseFloat(baseMargins.left) || 0;
-                    effectiveLeft = `${leftNum + gutterNum}${gutterUnit}`;
-                } else {
-                    // Even pages: add gutter to right (inside)
-                    const rightNum = parseFloat(baseMargins.right) || 0;
-                    effectiveRight = `${rightNum + gutterNum}${gutterUnit}`;
-                }
-            }
-            
-            return {
-                width: layout.width,
-                minHeight: layout.height,
-                paddingTop: baseMargins.top,
-                paddingRight: effectiveRight,
-                paddingBottom: baseMargins.bottom,
-                paddingLeft: effectiveLeft,
-                backgroundColor: theme.pageBackground || '#ffffff',
-            };
-        }
+        const margins = getPageMargins(layout, side);
         return {
-            width: '210mm',
-            minHeight: '297mm',
-            padding: '15mm',
+            width: layout?.width || '210mm',
+            minHeight: layout?.height || '297mm',
+            paddingTop: margins.top,
+            paddingRight: margins.right,
+            paddingBottom: margins.bottom,
+            paddingLeft: margins.left,
             backgroundColor: theme.pageBackground || '#ffffff',
         };
     };
 
-    // Helper function to process header/footer template placeholders
-    const processTemplate = (template: string, pageNumber: number): string => {
-        return template
-            .replace(/\{\{pageNumber\}\}/g, String(pageNumber))
-            .replace(/\{\{bookTitle\}\}/g, metadata.title || '')
-            .replace(/\{\{author\}\}/g, metadata.author || '')
-            .replace(/\{\{year\}\}/g, String(metadata.year || new Date().getFullYear()))
-            .replace(/\{\{totalPages\}\}/g, String(pages.length));
-    };
+    // Body pages follow the generated front matter in the printed book
+    const getBodyPageSide = (pageIndex: number) => getPageSide(frontMatterPages.length + pageIndex + 1);
 
-    // Helper function to render header or footer
-    const renderHeaderFooter = (type: 'header' | 'footer', pageNumber: number, isFirstPage: boolean) => {
-        const template = type === 'header' ? theme.pageTemplate?.header : theme.pageTemplate?.footer;
-        if (!template) return null;
-        
-        // Check if should show on first page
-        if (isFirstPage && template.showOnFirstPage === false) return null;
-        
-        const hasContent = template.left || template.center || template.right;
-        if (!hasContent) return null;
+    const renderGutterGuide = (side: PageSide) => (
+        <GutterGuide
+            gutter={theme.pageLayout?.gutter || '0mm'}
+            isRecto={side === 'recto'}
+            visible={!!uiSettings.showGutterGuides}
+        />
+    );
+
+    // Running header or footer, resolved like the PDF and HTML exports so it prints the same
+    const renderHeaderFooter = (type: 'header' | 'footer', pageIndex: number) => {
+        const head = runningHeads[pageIndex]?.[type];
+        if (!head) return null;
 
         const positionClass = type === 'header' 
             ? 'absolute top-2 left-0 right-0 px-4' 
@@ -440,29 +429,55 @@ export const Workspace: React.FC = () => {
         
         return (
             <div 
-                className={`${positionClass} flex justify-between items-center text-xs text-gray-500 no-print`}
+                className={`${positionClass} flex justify-between items-center text-xs text-gray-500`}
                 style={{ 
-                    fontFamily: template.font || 'inherit',
-                    fontSize: template.fontSize || '9pt'
+                    fontFamily: head.font || 'inherit',
+                    fontSize: head.fontSize || '9pt'
                 }}
             >
-                <span>{processTemplate(template.left || '', pageNumber)}</span>
-                <span>{processTemplate(template.center || '', pageNumber)}</span>
-                <span>{processTemplate(template.right || '', pageNumber)}</span>
+                <span>{head.left}</span>
+                <span>{head.center}</span>
+                <span>{head.right}</span>
             </div>
         );
     };
     
+    // Footnote bodies sit at the bottom of the page, in the space pagination reserved for them
+    const renderFootnotes = (page: typeof pages[0]) => {
+        const pageFootnotes = getPageFootnotes(numberedFootnotes, page.id);
+        if (pageFootnotes.length === 0) return null;
+
+        return (
+            <div className="footnote-area mt-auto pt-2 border-t border-gray-300 text-xs leading-snug space-y-1 relative z-0" style={{ fontFamily: theme.frenchFontFamily }}>
+                {pageFootnotes.map(footnote => (
+                    <p key={footnote.id} className="group/footnote flex gap-1">
+                        <sup className="mr-1">{footnote.number}</sup>
+                        <span className="flex-1">{footnote.content}</span>
+                        <span className="hidden group-hover/footnote:flex gap-1 no-print">
+                            <button className="text-gray-400 hover:text-gray-600" title="Edit footnote"
+                                onClick={() => {
+                                    const content = prompt('Footnote text:', footnote.content);
+                                    if (content !== null && content.trim()) updateFootnote(footnote.id, { content: content.trim() });
+                                }}>
+                                <Pen size={10} /></button>
+                            <button className="text-red-400 hover:text-red-600" title="Delete footnote"
+                                onClick={() => { if (confirm('Delete footnote?')) removeFootnote(footnote.id); }}>
+                                <Trash2 size={10} /></button>
+                        </span>
+                    </p>
+                ))}
+            </div>
+        );
+    };
+
     // Helper function to render page content (lines, sidebars, etc.)
     const renderPageContent = (page: typeof pages[0], _pageIdx: number) => (
         <div className="space-y-6 relative z-0">
             {page.lines.map((line, lineIndex) => {
-                // Check if this line has polymorphic contentData (non-text type)
-                const contentData = (line as { contentData?: PageContent }).contentData;
-                const isPolymorphicContent = contentData && contentData.type && contentData.type !== 'text';
+                // Content blocks (divider, table, callout, image) sit in the page body between text lines
+                const contentData = getContentBlock(line);
                 
-                // Render polymorphic content (divider, table, callout, image)
-                if (isPolymorphicContent) {
+                if (contentData) {
                     return (
                         <div 
                             key={line.id}
@@ -518,16 +533,7 @@ export const Workspace: React.FC = () => {
                                 showEnglish={uiSettings.showEnglish}
                                 splitRatio={splitRatio}
                                 editable={true}
-                                onUpdate={(updates) => {
-                                    // Update contentData for the line
-                                    updatePage(page.id, {
-                                        lines: page.lines.map(l => 
-                                            l.id === line.id 
-                                                ? { ...l, contentData: { ...contentData, ...updates } }
-                                                : l
-                                        )
-                                    });
-                                }}
+                                onUpdate={(updates) => updateContent(page.id, line.id, updates)}
                                 onDelete={() => removeLine(page.id, line.id)}
                             />
                         </div>
@@ -538,12 +544,12 @@ export const Workspace: React.FC = () => {
                 return (
                 <div key={line.id} 
                     className={clsx(
-                        "grid gap-4 group relative transition-all",
+                        "grid group relative transition-all",
                         dragOverIndex === lineIndex && "ring-2 ring-blue-400 bg-blue-50",
                         draggedLineIndex === lineIndex && "opacity-50 scale-[0.98]",
                         selectedLineIndex === lineIndex && "ring-2 ring-indigo-400 bg-indigo-50"
                     )}
-                    style={{ gridTemplateColumns: getGridTemplate() }}
+                    style={{ gridTemplateColumns: getGridTemplate(), gap: LINE_COLUMN_GAP }}
                     onClick={() => setSelectedLineIndex(lineIndex)}
                     onDragOver={(e) => { e.preventDefault(); if (draggedLineIndex !== null && draggedLineIndex !== lineIndex) setDragOverIndex(lineIndex); }}
                     onDragLeave={() => setDragOverIndex(null)}
@@ -577,7 +583,7 @@ export const Workspace: React.FC = () => {
                         onDragEnd={() => { setDraggedLineIndex(null); setDragOverIndex(null); }}
                         title="Drag to reorder"
                     >
-                        <span className="group-hover:hidden">{line.lineNumber}</span>
+                        <span className="group-hover:hidden">{displayLineNumbers.get(line.id) ?? line.lineNumber}</span>
                         <div className="hidden group-hover:flex flex-col gap-1 no-print">
                             {/* Drag grip icon */}
                             <div className="text-gray-400 hover:text-gray-600 p-1 cursor-grab" title="Drag to reorder">
@@ -599,7 +605,7 @@ export const Workspace: React.FC = () => {
                                 onClick={(e) => {
                                   e.stopPropagation();
                                   if (line.audioUrl) {
-                                    const audio = new Audio(line.audioUrl);
+                                    const audio = new Audio(getLineAudioUrl(line));
                                     audio.play().catch(console.error);
                                   } else {
                                     const u = new SpeechSynthesisUtterance(line.frenchText);
@@ -631,6 +637,22 @@ export const Workspace: React.FC = () => {
                                         }}>
                                         <Link size={10} /> {line.audioUrl ? 'Edit Audio' : 'Add Audio'}
                                       </button>
+                                      {line.audioUrl && (
+                                        <button className="w-full text-left text-[10px] p-1 rounded hover:bg-gray-50 dark:hover:bg-gray-700 flex gap-2 items-center dark:text-gray-300"
+                                          onClick={(e) => {
+                                            e.stopPropagation();
+                                            const range = prompt("Clip of the recording for this line, start-end (e.g. 1:05.2-1:09.8). Leave empty to play the whole file:", formatAudioClip(line));
+                                            if (range === null) return;
+                                            const clip = parseAudioClip(range);
+                                            if (!clip) {
+                                              alert('Could not read the clip. Use start-end in seconds or m:ss, with the end after the start.');
+                                              return;
+                                            }
+                                            updateLineProperty(line.id, { audioClipBegin: clip.begin, audioClipEnd: clip.end });
+                                          }}>
+                                          <Volume2 size={10} /> {line.audioClipBegin !== undefined || line.audioClipEnd !== undefined ? 'Edit Clip' : 'Set Clip'}
+                                        </button>
+                                      )}
                                     </div>
                                 </div></button>
                         </div>
@@ -639,30 +661,30 @@ export const Workspace: React.FC = () => {
                         <div className={clsx("relative p-1 space-y-2", line.sectionType === 'title' && "text-center py-4", line.sectionType === 'heading' && "border-b border-gray-100 py-2")}>
                             {uiSettings.showFrench && (
                                 <div className={clsx("relative p-1 rounded hover:bg-gray-50", line.sectionType === 'title' && "text-2xl font-bold", line.sectionType === 'heading' && "text-xl font-bold")}
-                                    onDoubleClick={(e) => handleLineDoubleClick(e, line.id, 'french', line.frenchText, line.frenchStyles)}>
+                                    onDoubleClick={(e) => handleLineDoubleClick(e, line.id, 'french', line.frenchText, line.frenchStyles, line.frenchWords)}>
                                     <div className="absolute right-0 top-0 opacity-0 group-hover:opacity-100 transition-opacity p-1">
                                         <Pen size={12} className="text-gray-400" />
                                     </div>
-                                    <WordGroupRenderer text={line.frenchText} language="french" lineId={line.id} styles={line.frenchStyles} /></div>
+                                    <WordGroupRenderer text={line.frenchText} language="french" lineId={line.id} styles={line.frenchStyles} words={line.frenchWords} footnotes={getLineFootnotes(numberedFootnotes, line.id)} /></div>
                             )}
                             {uiSettings.showEnglish && (
                                 <div className={clsx("relative p-1 rounded hover:bg-gray-50 text-gray-500", line.sectionType === 'title' && "text-lg italic text-gray-400", line.sectionType === 'heading' && "text-base italic text-gray-400")}
-                                    onDoubleClick={(e) => handleLineDoubleClick(e, line.id, 'english', line.englishText, line.englishStyles)}>
+                                    onDoubleClick={(e) => handleLineDoubleClick(e, line.id, 'english', line.englishText, line.englishStyles, line.englishWords)}>
                                     <div className="absolute right-0 top-0 opacity-0 group-hover:opacity-100 transition-opacity p-1">
                                         <Pen size={12} className="text-gray-400" />
                                     </div>
-                                    <WordGroupRenderer text={line.englishText} language="english" lineId={line.id} styles={line.englishStyles} /></div>
+                                    <WordGroupRenderer text={line.englishText} language="english" lineId={line.id} styles={line.englishStyles} words={line.englishWords} footnotes={getLineFootnotes(numberedFootnotes, line.id)} /></div>
                             )}
                         </div>
                     ) : (
                         <>
                             {uiSettings.showFrench && (
                                 <div className={clsx("relative p-1 rounded hover:bg-gray-50", line.sectionType === 'title' && "text-2xl font-bold text-center", line.sectionType === 'heading' && "text-xl font-bold", line.sectionType === 'note' && "text-sm italic text-gray-500 bg-yellow-50 border-l-4 border-yellow-300 pl-3")}
-                                    onDoubleClick={(e) => handleLineDoubleClick(e, line.id, 'french', line.frenchText, line.frenchStyles)}>
+                                    onDoubleClick={(e) => handleLineDoubleClick(e, line.id, 'french', line.frenchText, line.frenchStyles, line.frenchWords)}>
                                     <div className="absolute right-0 top-0 opacity-0 group-hover:opacity-100 transition-opacity p-1">
                                         <Pen size={12} className="text-gray-400" />
                                     </div>
-                                    <WordGroupRenderer text={line.frenchText} language="french" lineId={line.id} styles={line.frenchStyles} /></div>
+                                    <WordGroupRenderer text={line.frenchText} language="french" lineId={line.id} styles={line.frenchStyles} words={line.frenchWords} footnotes={getLineFootnotes(numberedFootnotes, line.id)} /></div>
                             )}
 
                             {uiSettings.showFrench && uiSettings.showEnglish && (
@@ -676,11 +698,11 @@ export const Workspace: React.FC = () => {
 
                             {uiSettings.showEnglish && (
                                 <div className={clsx("relative p-1 rounded hover:bg-gray-50", uiSettings.showFrench && "border-l border-gray-100 pl-4", line.sectionType === 'title' && "text-lg italic text-gray-400 text-center", line.sectionType === 'heading' && "text-base italic text-gray-400")}
-                                    onDoubleClick={(e) => handleLineDoubleClick(e, line.id, 'english', line.englishText, line.englishStyles)}>
+                                    onDoubleClick={(e) => handleLineDoubleClick(e, line.id, 'english', line.englishText, line.englishStyles, line.englishWords)}>
                                     <div className="absolute right-0 top-0 opacity-0 group-hover:opacity-100 transition-opacity p-1">
                                         <Pen size={12} className="text-gray-400" />
                                     </div>
-                                    <WordGroupRenderer text={line.englishText} language="english" lineId={line.id} styles={line.englishStyles} /></div>
+                                    <WordGroupRenderer text={line.englishText} language="english" lineId={line.id} styles={line.englishStyles} words={line.englishWords} footnotes={getLineFootnotes(numberedFootnotes, line.id)} /></div>
                             )}
                         </>
                     )}
@@ -772,8 +794,8 @@ export const Workspace: React.FC = () => {
                 {/* Spread Navigator (only in spread view) */}
                 {viewMode === 'spread' && (
                     <SpreadNavigator
-                        currentSpread={currentSpreadIndex}
-                        totalPages={pages.length}
+                        currentSpread={Math.min(currentSpreadIndex, spreads.length - 1)}
+                        totalSpreads={spreads.length}
                         onNavigate={setCurrentSpreadIndex}
                     />
                 )}
@@ -852,6 +874,7 @@ export const Workspace: React.FC = () => {
                         currentHeadStyle={arrows.find(a => a.id === selectedElementId)?.headStyle || 'arrow'}
                         currentWidth={arrows.find(a => a.id === selectedElementId)?.strokeWidth || 2}
                         currentColor={arrows.find(a => a.id === selectedElementId)?.color || '#000000'}
+                        currentLabel={arrows.find(a => a.id === selectedElementId) || {}}
                         position={arrowEditMenuPosition}
                         onUpdate={(id, updates) => updateArrow(id, updates)}
                         onDelete={(id) => {
@@ -930,7 +953,7 @@ export const Workspace: React.FC = () => {
                 )}
 
                 {editorState.isOpen && (
-                    <RichTextEditor initialText={editorState.initialText} initialStyles={editorState.initialStyles}
+                    <RichTextEditor initialText={editorState.initialText} initialStyles={editorState.initialStyles} initialWords={editorState.initialWords}
                         onSave={saveRichText} onCancel={() => setEditorState({ ...editorState, isOpen: false })} 
                         // Ensure editor spawns somewhat above or near pointer but safely
                         position={{ x: editorState.position.x, y: Math.max(10, editorState.position.y - 250) }} />
@@ -942,16 +965,18 @@ export const Workspace: React.FC = () => {
                                 SINGLE PAGE VIEW MODE
                                 ═══════════════════════════════════════════════════════════ */}
                             {viewMode === 'single' && currentPage && (
-                                <div key={currentPage.id} className="bg-white shadow-lg mx-auto mb-8 relative print:w-full print:h-screen print:shadow-none"
-                                    style={{ ...getPageStyle((currentPageIndex || 0) + 1), fontSize: theme.fontSize, lineHeight: theme.lineHeight }}>
+                                <div key={currentPage.id} data-page-id={currentPage.id} className="bg-white shadow-lg mx-auto mb-8 relative flex flex-col print:w-full print:h-screen print:shadow-none"
+                                    style={{ ...getPageStyle(getBodyPageSide(currentPageIndex || 0)), fontSize: theme.fontSize, lineHeight: theme.lineHeight }}>
                                     <div className="absolute -top-8 left-0 right-0 text-center text-gray-400 text-xs no-print flex justify-between px-2">
                                         <span>Page {(currentPageIndex || 0) + 1} of {pages.length}</span>
                                     </div>
                                     {/* Page Header */}
-                                    {renderHeaderFooter('header', (currentPageIndex || 0) + 1, currentPageIndex === 0)}
+                                    {renderGutterGuide(getBodyPageSide(currentPageIndex || 0))}
+                                    {renderHeaderFooter('header', currentPageIndex || 0)}
                                     {renderPageContent(currentPage, currentPageIndex || 0)}
+                                    {renderFootnotes(currentPage)}
                                     {/* Page Footer */}
-                                    {renderHeaderFooter('footer', (currentPageIndex || 0) + 1, currentPageIndex === 0)}
+                                    {renderHeaderFooter('footer', currentPageIndex || 0)}
                                 </div>
                             )}
                             
@@ -960,44 +985,31 @@ export const Workspace: React.FC = () => {
                                 ═══════════════════════════════════════════════════════════ */}
                             {viewMode === 'spread' && (
                                 <div className="flex gap-4 items-start justify-center">
-                                    {/* Left page (verso/even) */}
-                                    {(() => {
-                                        const leftPageIndex = currentSpreadIndex * 2;
-                                        const leftPage = pages[leftPageIndex];
-                                        if (!leftPage) return <div className="bg-gray-100 shadow-inner" style={{ ...getPageStyle(leftPageIndex + 1), opacity: 0.3 }} />;
+                                    {(['verso', 'recto'] as const).map((side, i) => {
+                                        const pageIndex = currentSpread?.[side] ?? null;
+                                        const page = pageIndex !== null ? pages[pageIndex] : undefined;
                                         return (
-                                            <div key={leftPage.id} className="bg-white shadow-lg relative"
-                                                style={{ ...getPageStyle(leftPageIndex + 1), fontSize: theme.fontSize, lineHeight: theme.lineHeight }}>
-                                                <div className="absolute -top-6 left-0 right-0 text-center text-gray-400 text-xs no-print">
-                                                    Page {leftPageIndex + 1}
-                                                </div>
-                                                {renderHeaderFooter('header', leftPageIndex + 1, leftPageIndex === 0)}
-                                                {renderPageContent(leftPage, leftPageIndex)}
-                                                {renderHeaderFooter('footer', leftPageIndex + 1, leftPageIndex === 0)}
-                                            </div>
+                                            <React.Fragment key={side}>
+                                                {/* Gutter visualization */}
+                                                {i === 1 && <div className="w-2 bg-gradient-to-r from-gray-200 via-gray-300 to-gray-200 self-stretch rounded opacity-50 no-print" />}
+                                                {pageIndex === null || !page ? (
+                                                    <div className="bg-gray-100 shadow-inner" style={{ ...getPageStyle(side), opacity: 0.3 }} />
+                                                ) : (
+                                                    <div key={page.id} data-page-id={page.id} className="bg-white shadow-lg relative flex flex-col"
+                                                        style={{ ...getPageStyle(side), fontSize: theme.fontSize, lineHeight: theme.lineHeight }}>
+                                                        <div className="absolute -top-6 left-0 right-0 text-center text-gray-400 text-xs no-print">
+                                                            {pageCaption(pageLabels.body[pageIndex])}
+                                                        </div>
+                                                        {renderGutterGuide(side)}
+                                                        {renderHeaderFooter('header', pageIndex)}
+                                                        {renderPageContent(page, pageIndex)}
+                                                        {renderFootnotes(page)}
+                                                        {renderHeaderFooter('footer', pageIndex)}
+                                                    </div>
+                                                )}
+                                            </React.Fragment>
                                         );
-                                    })()}
-                                    
-                                    {/* Gutter visualization */}
-                                    <div className="w-2 bg-gradient-to-r from-gray-200 via-gray-300 to-gray-200 self-stretch rounded opacity-50 no-print" />
-                                    
-                                    {/* Right page (recto/odd) */}
-                                    {(() => {
-                                        const rightPageIndex = currentSpreadIndex * 2 + 1;
-                                        const rightPage = pages[rightPageIndex];
-                                        if (!rightPage) return <div className="bg-gray-100 shadow-inner" style={{ ...getPageStyle(rightPageIndex + 1), opacity: 0.3 }} />;
-                                        return (
-                                            <div key={rightPage.id} className="bg-white shadow-lg relative"
-                                                style={{ ...getPageStyle(rightPageIndex + 1), fontSize: theme.fontSize, lineHeight: theme.lineHeight }}>
-                                                <div className="absolute -top-6 left-0 right-0 text-center text-gray-400 text-xs no-print">
-                                                    Page {rightPageIndex + 1}
-                                                </div>
-                                                {renderHeaderFooter('header', rightPageIndex + 1, rightPageIndex === 0)}
-                                                {renderPageContent(rightPage, rightPageIndex)}
-                                                {renderHeaderFooter('footer', rightPageIndex + 1, rightPageIndex === 0)}
-                                            </div>
-                                        );
-                                    })()}
+                                    })}
                                 </div>
                             )}
                             
@@ -1006,15 +1018,47 @@ export const Workspace: React.FC = () => {
                                 ═══════════════════════════════════════════════════════════ */}
                             {viewMode === 'continuous' && (
                                 <div className="space-y-8">
+                                    {frontMatterPages.map((frontPage, frontIndex) => (
+                                        <div key={frontPage.id} data-front-matter="true"
+                                            className="bg-white shadow-lg mx-auto relative flex flex-col print:w-full print:h-screen print:shadow-none"
+                                            style={{ ...getPageStyle(getPageSide(frontIndex + 1)), fontSize: theme.fontSize, lineHeight: theme.lineHeight }}>
+                                            <div className="absolute -top-6 left-0 right-0 text-center text-gray-400 text-xs no-print flex justify-between px-2">
+                                                <span>{pageCaption(pageLabels.frontMatter[frontIndex])}</span>
+                                            </div>
+                                            <FrontMatterPageView
+                                                page={frontPage}
+                                                metadata={metadata}
+                                                frontMatter={bookStructure?.frontMatter || {}}
+                                                toc={tableOfContents}
+                                                fontFamily={theme.frenchFontFamily}
+                                                onNavigate={(pageNumber) => {
+                                                    setCurrentPageIndex(pageNumber - 1);
+                                                    document.querySelector(`[data-page-index="${pageNumber - 1}"]`)?.scrollIntoView({ behavior: 'smooth' });
+                                                }}
+                                            />
+                                        </div>
+                                    ))}
                                     {pages.map((page, pageIndex) => (
-                                        <div key={page.id} className="bg-white shadow-lg mx-auto relative print:w-full print:h-screen print:shadow-none"
-                                            style={{ ...getPageStyle(pageIndex + 1), fontSize: theme.fontSize, lineHeight: theme.lineHeight }}>
+                                        <div key={page.id} data-page-index={pageIndex} data-page-id={page.id} className="bg-white shadow-lg mx-auto relative flex flex-col print:w-full print:h-screen print:shadow-none"
+                                            style={{ ...getPageStyle(getBodyPageSide(pageIndex)), fontSize: theme.fontSize, lineHeight: theme.lineHeight }}>
                                             <div className="absolute -top-6 left-0 right-0 text-center text-gray-400 text-xs no-print flex justify-between px-2">
-                                                <span>Page {pageIndex + 1}</span>
+                                                <span>{pageCaption(pageLabels.body[pageIndex])}</span>
                                             </div>
-                                            {renderHeaderFooter('header', pageIndex + 1, pageIndex === 0)}
+                                            {renderGutterGuide(getBodyPageSide(pageIndex))}
+                                            {renderHeaderFooter('header', pageIndex)}
                                             {renderPageContent(page, pageIndex)}
-                                            {renderHeaderFooter('footer', pageIndex + 1, pageIndex === 0)}
+                                            {renderFootnotes(page)}
+                                            {renderHeaderFooter('footer', pageIndex)}
+                                        </div>
+                                    ))}
+                                    {backMatterPages.map((backPage, backIndex) => (
+                                        <div key={backPage.id} data-back-matter="true"
+                                            className="bg-white shadow-lg mx-auto relative flex flex-col print:w-full print:h-screen print:shadow-none"
+                                            style={{ ...getPageStyle(getBodyPageSide(pages.length + backIndex)), fontSize: theme.fontSize, lineHeight: theme.lineHeight }}>
+                                            <div className="absolute -top-6 left-0 right-0 text-center text-gray-400 text-xs no-print flex justify-between px-2">
+                                                <span>{pageCaption(pageLabels.backMatter[backIndex])}</span>
+                                            </div>
+                                            <BackMatterPageView page={backPage} pageByLine={pageByLine} pageLabels={pageLabels.body} fontFamily={theme.frenchFontFamily} />
                                         </div>
                                     ))}
                                 </div>
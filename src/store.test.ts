@@ -1,6 +1,11 @@
 import { describe, it, expect, beforeEach } from 'vitest';
 import { useStore } from './store';
 import { LineData } from './types';
+import { getDisplayLineNumbers } from './utils/chapters';
+import { getFrontMatterPages, buildTableOfContents } from './utils/frontMatter';
+import { planSentenceAlignment } from './utils/sentenceAlignment';
+import { parseCsv, guessColumnMapping, planCsvImport } from './utils/csvImport';
+import { exportAnnotatedCsv } from './utils/csvExport';
 
 describe('useStore', () => {
   beforeEach(() => {
@@ -99,6 +104,280 @@ describe('useStore', () => {
     expect(state.pages[1].lines).toHaveLength(5);
   });
 
+  it('should keep word IDs stable when line text is edited', () => {
+    useStore.getState().parseAndSetText('Le chat noir dort', 'The black cat sleeps');
+    const line = useStore.getState().pages[0].lines[0];
+    expect(line.frenchWords?.map(w => w.text)).toEqual(['Le', 'chat', 'noir', 'dort']);
+
+    const [le, chat, noir, dort] = line.frenchWords!;
+    useStore.setState({
+      wordGroups: [{ id: 'g1', wordIds: [noir.id], lineId: line.id, language: 'french', type: 'adjective', color: '#000' }],
+      linkedPairs: []
+    });
+
+    // Insert a word early in the line and fix a typo-like substitution
+    useStore.getState().updateLineText(line.id, 'french', 'Le petit chat noir dormait');
+    const words = useStore.getState().pages[0].lines[0].frenchWords!;
+
+    expect(words.map(w => w.text)).toEqual(['Le', 'petit', 'chat', 'noir', 'dormait']);
+    expect(words[0].id).toBe(le.id);
+    expect(words[2].id).toBe(chat.id);
+    expect(words[3].id).toBe(noir.id);
+    expect(words[4].id).toBe(dort.id);
+    expect(useStore.getState().wordGroups[0].wordIds).toEqual([noir.id]);
+  });
+
+  it('should migrate positional word references to UUIDs on load', () => {
+    useStore.getState().setProjectState({
+      metadata: useStore.getState().metadata,
+      pages: [{ id: 'p1', lines: [{ id: 'l1', lineNumber: 1, frenchText: 'Bonjour le monde', englishText: 'Hello world',
+        frenchStyles: [{ wordId: '2', bold: true }] }] }],
+      highlights: [],
+      wordGroups: [{ id: 'g1', wordIds: ['l1-french-1', 'l1-french-2'], lineId: 'l1', language: 'french', type: 'subject', color: '#000' }],
+      arrows: [],
+      sidebars: [],
+      theme: useStore.getState().theme,
+      palettes: [],
+      linkedPairs: [{ id: 'lp1', lineId: 'l1', sourceWordIds: ['l1-french-2'], targetWordIds: ['l1-english-1'] }],
+      templates: [],
+      uiSettings: useStore.getState().uiSettings
+    });
+
+    const state = useStore.getState();
+    const line = state.pages[0].lines[0];
+    const [, le, monde] = line.frenchWords!;
+    const [, world] = line.englishWords!;
+
+    expect(state.wordGroups[0].wordIds).toEqual([le.id, monde.id]);
+    expect(state.linkedPairs[0].sourceWordIds).toEqual([monde.id]);
+    expect(state.linkedPairs[0].targetWordIds).toEqual([world.id]);
+    expect(line.frenchStyles?.[0].wordId).toBe(monde.id);
+  });
+
+  it('should fold legacy page content into the ordered page body', () => {
+    const lines: LineData[] = Array.from({ length: 3 }, (_, i) => ({
+      id: `line-${i}`,
+      lineNumber: i + 1,
+      frenchText: `Fr ${i}`,
+      englishText: `En ${i}`
+    }));
+
+    useStore.getState().setProjectState({
+      ...useStore.getState(),
+      pages: [{
+        id: 'p1',
+        lines,
+        content: [
+          { id: 'img-1', type: 'image', src: '/assets/a.png', alt: 'A', lineNumber: 2 },
+          { id: 'div-1', type: 'divider', dividerStyle: 'fleuron' }
+        ]
+      }]
+    });
+
+    const page = useStore.getState().pages[0];
+    expect(page.content).toBeUndefined();
+    expect(page.lines.map(l => l.id)).toEqual(['line-0', 'img-1', 'line-1', 'line-2', 'div-1']);
+    expect(page.lines[1].contentData?.type).toBe('image');
+
+    // Reflow keeps blocks in their position in the flow
+    useStore.getState().reflowPages(2);
+    const ids = useStore.getState().pages.flatMap(p => p.lines.map(l => l.id));
+    expect(ids).toEqual(['line-0', 'img-1', 'line-1', 'line-2', 'div-1']);
+  });
+
+  it('should keep chapters on their own pages and restart line numbers', () => {
+    const lines: LineData[] = Array.from({ length: 6 }, (_, i) => ({
+      id: `line-${i}`,
+      lineNumber: i + 1,
+      frenchText: `Fr ${i}`,
+      englishText: `En ${i}`
+    }));
+    useStore.setState({
+      pages: [
+        { id: 'p1', lines: lines.slice(0, 3) },
+        { id: 'p2', lines: lines.slice(3) }
+      ],
+      bookStructure: { frontMatter: {}, chapters: [], backMatter: {} }
+    });
+
+    useStore.getState().addChapter('One', 0);
+    useStore.getState().addChapter('Two', 1);
+    const [one, two] = useStore.getState().bookStructure!.chapters;
+    expect(one.pageIds).toEqual(['p1']);
+    expect(two.pageIds).toEqual(['p2']);
+
+    // Reflow never merges the chapters' lines onto one page
+    useStore.getState().reflowPages(10);
+    let pages = useStore.getState().pages;
+    expect(pages.map(p => p.chapterId)).toEqual([one.id, two.id]);
+    expect(getDisplayLineNumbers(pages).get('line-3')).toBe(1);
+
+    // Opening chapter two on a recto pads page 2 with a blank page
+    useStore.getState().updateChapter(two.id, { startOnRecto: true });
+    pages = useStore.getState().pages;
+    expect(pages).toHaveLength(3);
+    expect(pages[1].isBlank).toBe(true);
+    expect(pages[2].chapterId).toBe(two.id);
+
+    // Moving chapter two first carries its pages along
+    useStore.getState().moveChapter(two.id, 0);
+    pages = useStore.getState().pages;
+    expect(pages.map(p => p.chapterId)).toEqual([two.id, one.id]);
+    expect(pages[0].lines[0].id).toBe('line-3');
+  });
+
+  it('should number the table of contents from the current page order', () => {
+    const lines: LineData[] = Array.from({ length: 8 }, (_, i) => ({
+      id: `line-${i}`,
+      lineNumber: i + 1,
+      frenchText: `Fr ${i}`,
+      englishText: `En ${i}`
+    }));
+    useStore.setState({
+      pages: [
+        { id: 'p1', lines: lines.slice(0, 4) },
+        { id: 'p2', lines: lines.slice(4) }
+      ],
+      bookStructure: { frontMatter: {}, chapters: [], backMatter: {} }
+    });
+    useStore.getState().addChapter('One', 0);
+    useStore.getState().addChapter('Two', 1);
+    useStore.getState().updateFrontMatter({ titlePage: true, tableOfContents: true });
+
+    const { bookStructure } = useStore.getState();
+    expect(getFrontMatterPages(bookStructure!.frontMatter).map(p => p.kind)).toEqual(['title', 'toc']);
+    expect(buildTableOfContents(useStore.getState().pages, bookStructure).map(e => e.pageNumber)).toEqual([1, 2]);
+
+    useStore.getState().reflowPages(2);
+    expect(buildTableOfContents(useStore.getState().pages, useStore.getState().bookStructure).map(e => e.pageNumber)).toEqual([1, 3]);
+  });
+
+  it('should number footnotes per page or per chapter and follow reflow', () => {
+    useStore.setState({ footnotes: [], bookStructure: { frontMatter: {}, chapters: [], backMatter: {} } });
+    useStore.getState().parseAndSetText('Un chat\nDeux chats\nTrois chats', 'One cat\nTwo cats\nThree cats');
+    const lines = useStore.getState().pages[0].lines;
+    lines.forEach(line => useStore.getState().addFootnote(line.id, line.frenchWords![1].id, `Note ${line.lineNumber}`));
+    expect(useStore.getState().footnotes!.map(f => f.number)).toEqual([1, 2, 3]);
+
+    // Page numbering restarts on every page after a reflow
+    useStore.getState().reflowPages(2);
+    const pages = useStore.getState().pages;
+    expect(useStore.getState().footnotes!.map(f => [f.number, f.pageId])).toEqual([[1, pages[0].id], [2, pages[0].id], [1, pages[1].id]]);
+
+    // Chapter numbering runs on across the chapter's pages
+    useStore.getState().addChapter('One', 0);
+    useStore.getState().updateTheme({ typography: { footnoteNumbering: 'chapter' } });
+    useStore.getState().reflowPages(2);
+    expect(useStore.getState().footnotes!.map(f => f.number)).toEqual([1, 2, 3]);
+
+    // Editing away the anchor word drops its footnote
+    useStore.getState().updateLineText(lines[2].id, 'french', 'Trois');
+    expect(useStore.getState().footnotes!.map(f => f.content)).toEqual(['Note 1', 'Note 2']);
+  });
+
+  it('should add accepted links and carry French formatting to the English words', () => {
+    useStore.getState().parseAndSetText('Le chat', 'The cat');
+    const line = useStore.getState().pages[0].lines[0];
+    const chat = line.frenchWords![1];
+    const cat = line.englishWords![1];
+    useStore.setState({
+      linkedPairs: [],
+      pages: [{ ...useStore.getState().pages[0], lines: [{ ...line, frenchStyles: [{ wordId: chat.id, bold: true }] }] }]
+    });
+
+    useStore.getState().addLinkedPairs([{ lineId: line.id, sourceWordIds: [chat.id], targetWordIds: [cat.id] }]);
+    expect(useStore.getState().linkedPairs).toHaveLength(1);
+    expect(useStore.getState().pages[0].lines[0].englishStyles).toEqual([{ wordId: cat.id, bold: true }]);
+  });
+
+  it('should re-align sentences and keep the annotations of unchanged lines', () => {
+    useStore.getState().parseAndSetText(
+      'M. Dupont est arrivé.\nIl pleut. Le chat dort.',
+      'Mr. Dupont arrived.\nIt is raining.\nThe cat is asleep.'
+    );
+    const [kept, split] = useStore.getState().pages[0].lines;
+    useStore.setState({
+      wordGroups: [
+        { id: 'g1', wordIds: [kept.frenchWords![1].id], lineId: kept.id, language: 'french', type: 'subject', color: '#000' },
+        { id: 'g2', wordIds: [split.frenchWords![0].id], lineId: split.id, language: 'french', type: 'subject', color: '#000' }
+      ],
+      arrows: [],
+      sidebars: [],
+      linkedPairs: []
+    });
+
+    useStore.getState().autoAlign(planSentenceAlignment(useStore.getState().pages));
+    const lines = useStore.getState().pages[0].lines;
+
+    expect(lines.map(l => [l.frenchText, l.englishText])).toEqual([
+      ['M. Dupont est arrivé.', 'Mr. Dupont arrived.'],
+      ['Il pleut.', 'It is raining.'],
+      ['Le chat dort.', 'The cat is asleep.']
+    ]);
+    expect(lines[0].id).toBe(kept.id);
+    expect(useStore.getState().wordGroups.map(g => g.id)).toEqual(['g1']);
+  });
+
+  it('should import a CSV by line ID and keep the annotations of unchanged words', () => {
+    useStore.getState().parseAndSetText('Bonjour.\nIl pleut.', 'Hello.\nIt rains.');
+    const [same, edited] = useStore.getState().pages[0].lines;
+    const group = (id: string, line: LineData, index: number) =>
+      ({ id, wordIds: [line.frenchWords![index].id], lineId: line.id, language: 'french' as const, type: 'subject' as const, color: '#000' });
+    useStore.setState({
+      wordGroups: [group('g1', same, 0), group('g2', edited, 0), group('g3', edited, 1)],
+      arrows: [],
+      sidebars: [],
+      linkedPairs: []
+    });
+
+    const { rows } = parseCsv(`ID,French,English\n${same.id},Bonjour.,Hello.\n${edited.id},Il neige fort.,It snows hard.`);
+    const plan = planCsvImport(useStore.getState().pages, rows, { id: 'ID', french: 'French', english: 'English' }, {
+      mode: 'match', position: 2, rangeStart: 0, rangeEnd: 0
+    });
+    useStore.getState().applyCsvImport(plan);
+
+    const lines = useStore.getState().pages[0].lines;
+    expect(lines.map(l => [l.id, l.frenchText])).toEqual([[same.id, 'Bonjour.'], [edited.id, 'Il neige fort.']]);
+    expect(useStore.getState().wordGroups.map(g => g.id)).toEqual(['g1', 'g2']);
+  });
+
+  it('should restore every annotation from an annotated CSV export', () => {
+    useStore.getState().parseAndSetText('Le chat dort.', 'The cat sleeps.');
+    const [line] = useStore.getState().pages[0].lines;
+    const [le, chat] = line.frenchWords!;
+    const [, cat] = line.englishWords!;
+    const annotations = {
+      wordGroups: [
+        { id: 'g1', wordIds: [le.id], lineId: line.id, language: 'french' as const, color: '#000' },
+        { id: 'g2', wordIds: [chat.id], lineId: line.id, language: 'french' as const, color: '#000' }
+      ],
+      arrows: [{ id: 'a1', sourceGroupIds: ['g1'], targetGroupIds: ['g2'], color: '#000', style: 'solid' as const, strokeWidth: 2, headStyle: 'arrow' as const, curvature: 0.3 }],
+      linkedPairs: [{ id: 'p1', lineId: line.id, sourceWordIds: [chat.id], targetWordIds: [cat.id] }],
+      sidebars: [{ id: 's1', type: 'vocab' as const, content: 'Cats.', anchoredLineId: line.id }],
+      footnotes: [{ id: 'f1', number: 1, wordId: chat.id, lineId: line.id, content: 'A cat.' }]
+    };
+    useStore.setState({ ...annotations, highlights: [] });
+    useStore.getState().updateLineProperty(line.id, { sectionType: 'note', audioUrl: 'audio/1.mp3' });
+
+    const csv = exportAnnotatedCsv({ ...useStore.getState() }, '\t');
+    // Re-import into an empty book, as a translator would after editing the file
+    useStore.setState({ pages: [{ id: 'page-1', lines: [] }], wordGroups: [], arrows: [], linkedPairs: [], sidebars: [], footnotes: [] });
+    const { headers, rows } = parseCsv(csv.replace('Le chat dort.', 'Le gros chat dort.'));
+    useStore.getState().applyCsvImport(planCsvImport(useStore.getState().pages, rows, guessColumnMapping(headers), {
+      mode: 'match', position: 0, rangeStart: 0, rangeEnd: 0
+    }));
+
+    const state = useStore.getState();
+    const [imported] = state.pages[0].lines;
+    expect(imported).toMatchObject({ id: line.id, frenchText: 'Le gros chat dort.', sectionType: 'note', audioUrl: 'audio/1.mp3' });
+    expect(imported.frenchWords!.map(w => w.id)).toContain(chat.id);
+    expect(state.wordGroups).toEqual(annotations.wordGroups);
+    expect(state.arrows).toEqual(annotations.arrows);
+    expect(state.linkedPairs).toEqual(annotations.linkedPairs);
+    expect(state.sidebars).toEqual(annotations.sidebars);
+    expect(state.footnotes!.map(f => f.id)).toEqual(['f1']);
+  });
+
   it('should update metadata', () => {
     useStore.getState().setMetadata({ title: 'New Title' });
     expect(useStore.getState().metadata.title).toBe('New Title');
@@ -18,10 +18,25 @@ import type {
   UISettings,
   SectionType,
   PageContent,
-  ViewMode
+  ViewMode,
+  WordData,
+  Footnote,
+  Chapter,
+  BookStructure,
+  PageNumbering,
+  FrontMatter,
+  BackMatter,
+  LocalFont
 } from './types';
-import Papa from 'papaparse';
 import { v4 as uuidv4 } from 'uuid';
+import { tokenizeWords, applyLineText, getLineWords, ensureLineWords, legacyWordId } from './utils/wordTokens';
+import { getContentBlock, lineFromContent, mergeLegacyContent } from './utils/pageBody';
+import { measureBodyHeights, measureFootnoteHeights, paginateBody, getContentArea, BODY_ENTRY_GAP } from './utils/pagination';
+import { EMPTY_BOOK_STRUCTURE, layoutChapters, splitBodyByChapter } from './utils/chapters';
+import { numberFootnotes } from './utils/footnotes';
+import type { AlignmentRun } from './utils/sentenceAlignment';
+import type { CsvImportPlan } from './utils/csvImport';
+import { LOCAL_SERVER } from './utils/localServer';
 
 const generateId = () => uuidv4();
 
@@ -107,6 +122,8 @@ interface HistorySnapshot {
   sidebars: SidebarCard[];
   highlights: SpanHighlight[];
   linkedPairs: LinkedPair[];
+  bookStructure: BookStructure;
+  footnotes: Footnote[];
 }
 
 const DEFAULT_HISTORY_LIMIT = 50;
@@ -119,8 +136,77 @@ const createSnapshot = (state: StoreState): HistorySnapshot => ({
   sidebars: JSON.parse(JSON.stringify(state.sidebars)),
   highlights: JSON.parse(JSON.stringify(state.highlights)),
   linkedPairs: JSON.parse(JSON.stringify(state.linkedPairs)),
+  bookStructure: JSON.parse(JSON.stringify(state.bookStructure || EMPTY_BOOK_STRUCTURE)),
+  footnotes: JSON.parse(JSON.stringify(state.footnotes || [])),
 });
 
+// Footnote numbers and pages follow the body order
+const renumberFootnotes = (pages: PageData[], footnotes: Footnote[] | undefined, theme: ThemeConfig) =>
+  numberFootnotes(pages, footnotes || [], theme.typography?.footnoteNumbering);
+
+// Regroup pages by chapter and rebuild recto padding and `Chapter.pageIds`
+const applyChapterLayout = (pages: PageData[], bookStructure?: BookStructure) => {
+  const structure = bookStructure || EMPTY_BOOK_STRUCTURE;
+  const { pages: laidOut, chapters } = layoutChapters(pages, structure.chapters);
+  return { pages: laidOut, bookStructure: { ...structure, chapters } };
+};
+
+// Lay runs of body lines out on pages of 25, numbering lines per page. A run without lines
+// keeps an empty page so its chapter survives, and the body always has at least one page.
+const paginateRuns = (runs: { chapterId?: string; lines: LineData[] }[]): PageData[] => {
+  const linesPerPage = 25;
+  const pages: PageData[] = [];
+  runs.forEach(({ chapterId, lines }) => {
+    if (lines.length === 0) {
+      pages.push({ id: generateId(), lines: [], chapterId });
+    }
+    for (let i = 0; i < lines.length; i += linesPerPage) {
+      pages.push({
+        id: generateId(),
+        lines: lines.slice(i, i + linesPerPage).map((l, idx) => ({ ...l, lineNumber: idx + 1 })),
+        chapterId
+      });
+    }
+  });
+  if (pages.length === 0) pages.push({ id: generateId(), lines: [] });
+  return pages;
+};
+
+type LineAnnotationState = Pick<ProjectState, 'wordGroups' | 'arrows' | 'linkedPairs' | 'highlights' | 'sidebars'> & { footnotes: Footnote[] };
+
+// Drop the annotations on lines that are no longer in `pages` or on words that were edited
+// away, and the arrows left without a source or target group
+const pruneAnnotations = (annotations: LineAnnotationState, pages: PageData[]): LineAnnotationState => {
+  const liveLines = new Set(pages.flatMap(p => p.lines.map(l => l.id)));
+  const liveWords = new Set(pages.flatMap(p => p.lines.flatMap(l => [...(l.frenchWords || []), ...(l.englishWords || [])].map(w => w.id))));
+  const isLive = (id: string) => liveWords.has(id);
+
+  const wordGroups = annotations.wordGroups
+    .filter(g => liveLines.has(g.lineId))
+    .map(g => ({ ...g, wordIds: g.wordIds.filter(isLive) }))
+    .filter(g => g.wordIds.length > 0);
+  const groupIds = new Set(wordGroups.map(g => g.id));
+  return {
+    wordGroups,
+    arrows: annotations.arrows
+      .map(a => ({
+        ...a,
+        sourceGroupIds: a.sourceGroupIds.filter(gid => groupIds.has(gid)),
+        targetGroupIds: a.targetGroupIds.filter(gid => groupIds.has(gid))
+      }))
+      .filter(a => a.sourceGroupIds.length > 0 && a.targetGroupIds.length > 0),
+    linkedPairs: annotations.linkedPairs
+      .filter(p => liveLines.has(p.lineId))
+      .map(p => ({ ...p, sourceWordIds: p.sourceWordIds.filter(isLive), targetWordIds: p.targetWordIds.filter(isLive) }))
+      .filter(p => p.sourceWordIds.length > 0 && p.targetWordIds.length > 0),
+    highlights: annotations.highlights
+      .filter(h => liveLines.has(h.associatedLineId))
+      .map(h => ({ ...h, frenchWordIds: h.frenchWordIds.filter(isLive), englishWordIds: h.englishWordIds.filter(isLive) })),
+    sidebars: annotations.sidebars.filter(c => liveLines.has(c.anchoredLineId)),
+    footnotes: annotations.footnotes.filter(f => liveLines.has(f.lineId) && isLive(f.wordId))
+  };
+};
+
 interface StoreState extends ProjectState {
   // Actions
   setMetadata: (metadata: Partial<ProjectState['metadata']>) => void;
@@ -131,6 +217,7 @@ interface StoreState extends ProjectState {
   setCurrentPageIndex: (index: number) => void;
   // Linked Pair Actions
   addLinkedPair: (pair: Omit<LinkedPair, 'id'>) => void;
+  addLinkedPairs: (pairs: Omit<LinkedPair, 'id'>[]) => void; // e.g. accepted alignment proposals
   removeLinkedPair: (id: string) => void;
   updateLinkedPair: (id: string, updates: Partial<LinkedPair>) => void;
   syncLinkedStyles: (sourceWordId: string, styles: TextStyle[]) => void;
@@ -140,6 +227,7 @@ interface StoreState extends ProjectState {
   
   // Rich Text Actions
   updateLineStyles: (lineId: string, language: Language, styles: TextStyle[]) => void;
+  updateLineText: (lineId: string, language: Language, text: string, words?: WordData[]) => void;
   
   // Line Reordering (Drag and Drop)
   reorderLines: (pageId: string, fromIndex: number, toIndex: number) => void;
@@ -167,7 +255,7 @@ interface StoreState extends ProjectState {
   // Extended Palette actions
   updateTheme: (theme: Partial<ThemeConfig>) => void;
   toggleLayoutMode: () => void;
-  updateLineProperty: (lineId: string, updates: { sectionType?: SectionType; audioUrl?: string }) => void;
+  updateLineProperty: (lineId: string, updates: { sectionType?: SectionType; audioUrl?: string; audioClipBegin?: number; audioClipEnd?: number }) => void;
   addPalette: (palette: Omit<ColorPalette, 'id'>) => void;
   updatePalette: (id: string, updates: Partial<ColorPalette>) => void;
   removePalette: (id: string) => void;
@@ -179,6 +267,21 @@ interface StoreState extends ProjectState {
   addTemplate: (template: Omit<Template, 'id'>) => void;
   removeTemplate: (id: string) => void;
 
+  // Chapter Actions
+  addChapter: (title: string, startPageIndex?: number) => void;
+  updateChapter: (id: string, updates: Partial<Omit<Chapter, 'id' | 'pageIds'>>) => void;
+  removeChapter: (id: string) => void;
+  moveChapter: (id: string, toIndex: number) => void;
+  assignChapterPages: (chapterId: string, startPageIndex: number, endPageIndex: number) => void;
+  updateFrontMatter: (updates: Partial<FrontMatter>) => void;
+  updateBackMatter: (updates: Partial<BackMatter>) => void;
+  updateBodyPageNumbering: (numbering: PageNumbering | undefined) => void;
+
+  // Footnote Actions
+  addFootnote: (lineId: string, wordId: string, content: string) => void;
+  updateFootnote: (id: string, updates: Partial<Pick<Footnote, 'content' | 'wordId'>>) => void;
+  removeFootnote: (id: string) => void;
+
   // Content Block Actions (Phase 2)
   insertContent: (pageId: string, content: PageContent, atIndex?: number) => void;
   updateContent: (pageId: string, contentId: string, updates: Partial<PageContent>) => void;
@@ -207,12 +310,13 @@ interface StoreState extends ProjectState {
 
   setProjectState: (state: ProjectState) => void;
 
-  importFromCSV: (csvString: string) => void;
+  applyCsvImport: (plan: CsvImportPlan) => void; // Applies a reviewed CSV import
   reflowPages: (linesPerPage: number) => void;
-  smartReflowPages: () => void; // Auto-calculates based on page size and font
-  autoAlign: () => void;
+  smartReflowPages: () => Promise<void>; // Measures content against page size and font; rejects if measuring fails
+  autoAlign: (plan: AlignmentRun[]) => void; // Applies a reviewed sentence alignment
 
   parseAndSetText: (rawFrench: string, rawEnglish: string) => void;
+  importLines: (lines: LineData[], mode: 'replace' | 'append') => void; // Body lines read from imported files
 
   // Project Management (Async)
   fetchProjects: () => Promise<any[]>;
@@ -229,6 +333,12 @@ interface StoreState extends ProjectState {
 
   // Palette Management (Async)
   fetchPalettes: () => Promise<void>;
+
+  // Local Fonts (Async) - font files in the server's fonts folder
+  localFonts: LocalFont[];
+  fetchLocalFonts: () => Promise<void>;
+  uploadFont: (file: File) => Promise<void>;
+  removeLocalFont: (file: string) => Promise<void>;
   
   // Preferences (Async)
   fetchPreferences: () => Promise<void>;
@@ -303,8 +413,11 @@ export const useStore = create<StoreState>((set, get) => ({
   arrows: [],
   sidebars: [],
   palettes: [DEFAULT_PALETTE, ZEN_GARDEN, ROYAL_LIBRARY],
+  localFonts: [],
   linkedPairs: [],
   templates: [],
+  bookStructure: EMPTY_BOOK_STRUCTURE,
+  footnotes: [],
   uiSettings: {
     showFrench: true,
     showEnglish: true,
@@ -365,9 +478,14 @@ export const useStore = create<StoreState>((set, get) => ({
   setMetadata: (metadata) => set((state) => ({ metadata: { ...state.metadata, ...metadata } })),
   setPages: (pages) => set({ pages }),
   
-  addPage: () => set((state) => ({
-      pages: [...state.pages, { id: `page-${generateId()}`, lines: [] }]
-  })),
+  addPage: () => set((state) => {
+      // A page added at the end continues the last chapter
+      const lastPage = state.pages[state.pages.length - 1];
+      return applyChapterLayout(
+        [...state.pages, { id: `page-${generateId()}`, lines: [], chapterId: lastPage?.chapterId }],
+        state.bookStructure
+      );
+  }),
 
   removePage: (id) => {
     get().saveToHistory();
@@ -388,8 +506,10 @@ export const useStore = create<StoreState>((set, get) => ({
       const updatedWordGroups = state.wordGroups.filter(g => !groupIdsToRemove.includes(g.id));
       const updatedHighlights = state.highlights.filter(h => !lineIdsToRemove.includes(h.associatedLineId));
 
+      const layout = applyChapterLayout(state.pages.filter(p => p.id !== id), state.bookStructure);
       return {
-        pages: state.pages.filter(p => p.id !== id),
+        ...layout,
+        footnotes: renumberFootnotes(layout.pages, (state.footnotes || []).filter(f => !lineIdsToRemove.includes(f.lineId)), state.theme),
         wordGroups: updatedWordGroups,
         arrows: updatedArrows,
         sidebars: updatedSidebars,
@@ -419,6 +539,64 @@ export const useStore = create<StoreState>((set, get) => ({
     });
   },
 
+  // Edit line text: words are re-tokenized so unchanged words keep their UUIDs,
+  // and references to words that no longer exist are dropped
+  updateLineText: (lineId, language, text, words) => {
+    get().saveToHistory();
+    return set((state) => {
+      let nextWords: WordData[] = [];
+      let otherWords: WordData[] = [];
+      const updatedPages = state.pages.map(page => ({
+          ...page,
+          lines: page.lines.map(line => {
+              if (line.id !== lineId) return line;
+              const updated = applyLineText(line, language, text, words);
+              nextWords = getLineWords(updated, language) || [];
+              otherWords = getLineWords(updated, language === 'french' ? 'english' : 'french') || [];
+              const styles = language === 'french' ? updated.frenchStyles : updated.englishStyles;
+              if (!styles) return updated;
+              const liveStyles = styles.filter(s => nextWords.some(w => w.id === s.wordId));
+              return language === 'french'
+                 ? { ...updated, frenchStyles: liveStyles }
+                 : { ...updated, englishStyles: liveStyles };
+          })
+      }));
+
+      const liveIds = new Set(nextWords.map(w => w.id));
+      const isLive = (id: string) => liveIds.has(id);
+
+      const wordGroups = state.wordGroups
+        .map(g => (g.lineId === lineId && g.language === language) ? { ...g, wordIds: g.wordIds.filter(isLive) } : g)
+        .filter(g => g.wordIds.length > 0);
+      const groupIds = new Set(wordGroups.map(g => g.id));
+      const arrows = state.arrows
+        .map(a => ({
+          ...a,
+          sourceGroupIds: a.sourceGroupIds.filter(gid => groupIds.has(gid)),
+          targetGroupIds: a.targetGroupIds.filter(gid => groupIds.has(gid))
+        }))
+        .filter(a => a.sourceGroupIds.length > 0 && a.targetGroupIds.length > 0);
+
+      const pairSide = language === 'french' ? 'sourceWordIds' : 'targetWordIds';
+      const linkedPairs = state.linkedPairs
+        .map(p => p.lineId === lineId ? { ...p, [pairSide]: p[pairSide].filter(isLive) } : p)
+        .filter(p => p.sourceWordIds.length > 0 && p.targetWordIds.length > 0);
+
+      const highlightSide = language === 'french' ? 'frenchWordIds' : 'englishWordIds';
+      const highlights = state.highlights.map(h =>
+        h.associatedLineId === lineId ? { ...h, [highlightSide]: h[highlightSide].filter(isLive) } : h
+      );
+
+      const footnotes = renumberFootnotes(
+        updatedPages,
+        (state.footnotes || []).filter(f => f.lineId !== lineId || isLive(f.wordId) || otherWords.some(w => w.id === f.wordId)),
+        state.theme
+      );
+
+      return { pages: updatedPages, wordGroups, arrows, linkedPairs, highlights, footnotes };
+    });
+  },
+
   // Legacy highlight actions
   addHighlight: (highlight) => set((state) => ({
     highlights: [...state.highlights, { ...highlight, id: generateId() }]
@@ -563,6 +741,125 @@ export const useStore = create<StoreState>((set, get) => ({
       templates: state.templates.filter(t => t.id !== id)
   })),
 
+  // Chapter Actions
+  addChapter: (title, startPageIndex) => {
+    get().saveToHistory();
+    return set((state) => {
+      const structure = state.bookStructure || EMPTY_BOOK_STRUCTURE;
+      const chapter: Chapter = { id: generateId(), title, pageIds: [] };
+      const startPage = startPageIndex !== undefined ? state.pages[startPageIndex] : undefined;
+
+      if (!startPage) {
+        return applyChapterLayout(state.pages, { ...structure, chapters: [...structure.chapters, chapter] });
+      }
+
+      // The new chapter takes over the rest of the run the start page belongs to
+      const previousChapterId = startPage.chapterId;
+      let endIndex = startPageIndex!;
+      while (endIndex < state.pages.length && state.pages[endIndex].chapterId === previousChapterId) endIndex++;
+      const pages = state.pages.map((p, i) =>
+        i >= startPageIndex! && i < endIndex ? { ...p, chapterId: chapter.id } : p
+      );
+
+      // Slot it in after the closest chapter before the start page to keep chapter and page order aligned
+      const precedingChapterId = state.pages.slice(0, startPageIndex).reverse().find(p => p.chapterId)?.chapterId;
+      const insertAt = structure.chapters.findIndex(c => c.id === precedingChapterId) + 1;
+      const chapters = [...structure.chapters];
+      chapters.splice(insertAt, 0, chapter);
+
+      return applyChapterLayout(pages, { ...structure, chapters });
+    });
+  },
+
+  updateChapter: (id, updates) => {
+    get().saveToHistory();
+    return set((state) => {
+      const structure = state.bookStructure || EMPTY_BOOK_STRUCTURE;
+      const chapters = structure.chapters.map(c => c.id === id ? { ...c, ...updates } : c);
+      return applyChapterLayout(state.pages, { ...structure, chapters });
+    });
+  },
+
+  removeChapter: (id) => {
+    get().saveToHistory();
+    return set((state) => {
+      const structure = state.bookStructure || EMPTY_BOOK_STRUCTURE;
+      // Pages are kept; they just no longer belong to a chapter
+      const pages = state.pages.map(p => p.chapterId === id ? { ...p, chapterId: undefined } : p);
+      const chapters = structure.chapters.filter(c => c.id !== id);
+      return applyChapterLayout(pages, { ...structure, chapters });
+    });
+  },
+
+  moveChapter: (id, toIndex) => {
+    get().saveToHistory();
+    return set((state) => {
+      const structure = state.bookStructure || EMPTY_BOOK_STRUCTURE;
+      const fromIndex = structure.chapters.findIndex(c => c.id === id);
+      if (fromIndex === -1) return {};
+      const chapters = [...structure.chapters];
+      const [moved] = chapters.splice(fromIndex, 1);
+      chapters.splice(Math.max(0, Math.min(toIndex, chapters.length)), 0, moved);
+      // Pages follow their chapter
+      return applyChapterLayout(state.pages, { ...structure, chapters });
+    });
+  },
+
+  assignChapterPages: (chapterId, startPageIndex, endPageIndex) => {
+    get().saveToHistory();
+    return set((state) => {
+      const from = Math.max(0, Math.min(startPageIndex, endPageIndex));
+      const to = Math.min(state.pages.length - 1, Math.max(startPageIndex, endPageIndex));
+      const pages = state.pages.map((p, i) => i >= from && i <= to ? { ...p, chapterId } : p);
+      return applyChapterLayout(pages, state.bookStructure);
+    });
+  },
+
+  updateFrontMatter: (updates) => set((state) => {
+    const structure = state.bookStructure || EMPTY_BOOK_STRUCTURE;
+    return { bookStructure: { ...structure, frontMatter: { ...structure.frontMatter, ...updates } } };
+  }),
+
+  updateBackMatter: (updates) => set((state) => {
+    const structure = state.bookStructure || EMPTY_BOOK_STRUCTURE;
+    return { bookStructure: { ...structure, backMatter: { ...structure.backMatter, ...updates } } };
+  }),
+
+  updateBodyPageNumbering: (numbering) => set((state) => {
+    const structure = state.bookStructure || EMPTY_BOOK_STRUCTURE;
+    return { bookStructure: { ...structure, bodyPageNumbering: numbering } };
+  }),
+
+  // Footnote Actions
+  addFootnote: (lineId, wordId, content) => {
+    get().saveToHistory();
+    return set((state) => ({
+      footnotes: renumberFootnotes(
+        state.pages,
+        [...(state.footnotes || []), { id: generateId(), number: 0, wordId, lineId, content }],
+        state.theme
+      )
+    }));
+  },
+
+  updateFootnote: (id, updates) => {
+    get().saveToHistory();
+    return set((state) => ({
+      footnotes: renumberFootnotes(
+        state.pages,
+        (state.footnotes || []).map(f => f.id === id ? { ...f, ...updates } : f),
+        state.theme
+      )
+    }));
+  },
+
+  removeFootnote: (id) => {
+    get().saveToHistory();
+    return set((state) => ({
+      footnotes: renumberFootnotes(state.pages, (state.footnotes || []).filter(f => f.id !== id), state.theme)
+    }));
+  },
+
   // Content Block Actions (Phase 2)
   insertContent: (pageId, content, atIndex) => {
     get().saveToHistory();
@@ -573,23 +870,13 @@ export const useStore = create<StoreState>((set, get) => ({
         const newContent = { ...content, id: content.id || generateId() };
         const newLines = [...page.lines];
         
-        // For now, we treat content as LineData-like for backwards compatibility
-        // This will evolve as we fully migrate to polymorphic content
-        const lineData = {
-          id: newContent.id,
-          frenchText: (newContent as any).frenchText || '',
-          englishText: (newContent as any).englishText || '',
-          lineNumber: atIndex !== undefined ? atIndex + 1 : page.lines.length + 1,
-          type: newContent.type,
-          sectionType: (newContent as any).sectionType,
-          // Store full content for polymorphic rendering
-          contentData: newContent
-        };
+        // Content blocks live in the page body next to the text lines they belong with
+        const lineData = lineFromContent(newContent, atIndex !== undefined ? atIndex + 1 : page.lines.length + 1);
         
         if (atIndex !== undefined && atIndex >= 0 && atIndex <= page.lines.length) {
-          newLines.splice(atIndex, 0, lineData as any);
+          newLines.splice(atIndex, 0, lineData);
         } else {
-          newLines.push(lineData as any);
+          newLines.push(lineData);
         }
         
         // Renumber lines
@@ -613,7 +900,9 @@ export const useStore = create<StoreState>((set, get) => ({
           ...page,
           lines: page.lines.map(line => {
             if (line.id !== contentId) return line;
-            return { ...line, ...updates, contentData: { ...(line as any).contentData, ...updates } };
+            const block = getContentBlock(line);
+            if (!block) return { ...line, ...(updates as Partial<LineData>) };
+            return { ...line, contentData: { ...block, ...updates } as PageContent };
           })
         };
       })
@@ -648,6 +937,23 @@ export const useStore = create<StoreState>((set, get) => ({
       linkedPairs: [...state.linkedPairs, { ...pair, id: generateId() }]
   })),
 
+  addLinkedPairs: (pairs) => {
+    if (pairs.length === 0) return;
+    get().saveToHistory();
+    set((state) => ({
+      linkedPairs: [...state.linkedPairs, ...pairs.map(pair => ({ ...pair, id: generateId() }))]
+    }));
+
+    // New links pick up the formatting already on their French words
+    pairs.forEach(pair => {
+      const line = get().pages.flatMap(p => p.lines).find(l => l.id === pair.lineId);
+      pair.sourceWordIds.forEach(wordId => {
+        const styles = (line?.frenchStyles || []).filter(s => s.wordId === wordId);
+        if (styles.length > 0) get().syncLinkedStyles(wordId, styles);
+      });
+    });
+  },
+
   removeLinkedPair: (id) => set((state) => ({
       linkedPairs: state.linkedPairs.filter(p => p.id !== id)
   })),
@@ -686,11 +992,11 @@ export const useStore = create<StoreState>((set, get) => ({
        
        targetIds.forEach(targetId => {
           // Remove ALL existing style entries for this specific target word
-          updatedStyles = updatedStyles.filter(s => s.wordId !== targetId.split('-').pop());
+          updatedStyles = updatedStyles.filter(s => s.wordId !== targetId);
           
           // Add all new style chunks for this target word
           allWordStyles.forEach(s => {
-             updatedStyles.push({ ...s, wordId: targetId.split('-').pop()! }); 
+             updatedStyles.push({ ...s, wordId: targetId }); 
           });
        });
 
@@ -723,31 +1029,29 @@ export const useStore = create<StoreState>((set, get) => ({
     }));
 
     linePairs.forEach(pair => {
-      const sourceIsCurrent = (language === 'french' && pair.sourceWordIds.some(id => id.includes('-french-'))) || 
-                             (language === 'english' && pair.sourceWordIds.some(id => id.includes('-english-')));
-      
-      const currentWordIds = sourceIsCurrent ? pair.sourceWordIds : pair.targetWordIds;
-      const otherWordIds = sourceIsCurrent ? pair.targetWordIds : pair.sourceWordIds;
-      const otherLang = language === 'french' ? 'english' : 'french';
-
       // Find line in newPages
       const page = newPages.find(p => p.lines.some(l => l.id === lineId));
       if (!page) return;
       const line = page.lines.find(l => l.id === lineId)!;
 
+      const currentWords = getLineWords(line, language) || [];
+      const sourceIsCurrent = pair.sourceWordIds.some(id => currentWords.some(w => w.id === id));
+      
+      const currentWordIds = sourceIsCurrent ? pair.sourceWordIds : pair.targetWordIds;
+      const otherWordIds = sourceIsCurrent ? pair.targetWordIds : pair.sourceWordIds;
+      const otherLang = language === 'french' ? 'english' : 'french';
+
       const otherStyles = otherLang === 'french' ? (line.frenchStyles || []) : (line.englishStyles || []);
       let updatedOtherStyles = [...otherStyles];
 
-      currentWordIds.forEach(currentFullId => {
-        const wordIdx = currentFullId.split('-').pop()!;
-        const wordStyles = stylesByWord.get(wordIdx) || [];
+      currentWordIds.forEach(currentId => {
+        const wordStyles = stylesByWord.get(currentId) || [];
         
-        otherWordIds.forEach(otherFullId => {
-          const otherIdx = otherFullId.split('-').pop()!;
+        otherWordIds.forEach(otherId => {
           // Replicate styles
-          updatedOtherStyles = updatedOtherStyles.filter(s => s.wordId !== otherIdx);
+          updatedOtherStyles = updatedOtherStyles.filter(s => s.wordId !== otherId);
           wordStyles.forEach(s => {
-            updatedOtherStyles.push({ ...s, wordId: otherIdx });
+            updatedOtherStyles.push({ ...s, wordId: otherId });
           });
         });
       });
@@ -765,7 +1069,7 @@ export const useStore = create<StoreState>((set, get) => ({
 
   fetchPalettes: async () => {
     try {
-      const response = await fetch('http://localhost:3001/palettes');
+      const response = await fetch(`${LOCAL_SERVER}/palettes`);
       if (response.ok) {
         const palettes = await response.json();
         set({ palettes: palettes.length > 0 ? palettes : [DEFAULT_PALETTE] });
@@ -783,7 +1087,7 @@ export const useStore = create<StoreState>((set, get) => ({
     
     // Async save
     try {
-      await fetch('http://localhost:3001/palettes', {
+      await fetch(`${LOCAL_SERVER}/palettes`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify(newPalette)
@@ -793,9 +1097,41 @@ export const useStore = create<StoreState>((set, get) => ({
     }
   },
 
+  fetchLocalFonts: async () => {
+    try {
+      const response = await fetch(`${LOCAL_SERVER}/fonts-list`);
+      if (response.ok) {
+        set({ localFonts: await response.json() });
+      }
+    } catch (e) {
+      console.error("Failed to fetch local fonts", e);
+    }
+  },
+
+  uploadFont: async (file) => {
+    try {
+      const formData = new FormData();
+      formData.append('file', file);
+      const response = await fetch(`${LOCAL_SERVER}/fonts`, { method: 'POST', body: formData });
+      if (!response.ok) throw new Error('Upload failed');
+      await get().fetchLocalFonts();
+    } catch (e) {
+      console.error("Failed to upload font", e);
+    }
+  },
+
+  removeLocalFont: async (file) => {
+    try {
+      await fetch(`${LOCAL_SERVER}/fonts/${encodeURIComponent(file)}`, { method: 'DELETE' });
+      set((state) => ({ localFonts: state.localFonts.filter(f => f.file !== file) }));
+    } catch (e) {
+      console.error("Failed to delete font", e);
+    }
+  },
+
   fetchPreferences: async () => {
       try {
-        const response = await fetch('http://localhost:3001/preferences');
+        const response = await fetch(`${LOCAL_SERVER}/preferences`);
         if (response.ok) {
             const prefs = await response.json();
             // Merge preferences into theme (e.g. pageLayout)
@@ -822,7 +1158,7 @@ export const useStore = create<StoreState>((set, get) => ({
       const newTheme = { ...state.theme, ...prefs };
       
       try {
-          await fetch('http://localhost:3001/preferences', {
+          await fetch(`${LOCAL_SERVER}/preferences`, {
              method: 'POST',
              headers: { 'Content-Type': 'application/json' },
              body: JSON.stringify(newTheme) // We essentially save the theme as prefs
@@ -864,7 +1200,7 @@ export const useStore = create<StoreState>((set, get) => ({
   // Project Management Actions
   fetchProjects: async () => {
     try {
-      const response = await fetch('http://localhost:3001/projects');
+      const response = await fetch(`${LOCAL_SERVER}/projects`);
       if (!response.ok) throw new Error('Failed to fetch projects');
       return await response.json();
     } catch (error) {
@@ -886,11 +1222,13 @@ export const useStore = create<StoreState>((set, get) => ({
       palettes: state.palettes,
       linkedPairs: state.linkedPairs,
       templates: state.templates,
-      uiSettings: state.uiSettings
+      uiSettings: state.uiSettings,
+      bookStructure: state.bookStructure,
+      footnotes: state.footnotes
     };
 
     try {
-      const response = await fetch('http://localhost:3001/projects', {
+      const response = await fetch(`${LOCAL_SERVER}/projects`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({ name, data: projectData })
@@ -904,7 +1242,7 @@ export const useStore = create<StoreState>((set, get) => ({
 
   loadProject: async (name: string) => {
     try {
-      const response = await fetch(`http://localhost:3001/projects/${name}`);
+      const response = await fetch(`${LOCAL_SERVER}/projects/${name}`);
       if (!response.ok) throw new Error('Failed to load project');
       const data = await response.json();
       get().setProjectState(data);
@@ -947,230 +1285,154 @@ export const useStore = create<StoreState>((set, get) => ({
     };
   })(),
 
-  importFromCSV: (csvString) => {
-    const confirmed = window.confirm(
-      'Importing CSV will clear all existing word groups, arrows, and annotations. Continue?'
-    );
-    if (!confirmed) return;
-    
-    Papa.parse(csvString, {
-      header: true,
-      skipEmptyLines: true,
-      complete: (results) => {
-        const rows = results.data as any[];
-        const allLines: LineData[] = rows.map((row, index) => ({
-          id: generateId(),
-          lineNumber: index + 1,
-          frenchText: row['French'] || row['lines-fr'] || '', // Added alias for better compatibility
-          englishText: row['English'] || row['lines-en'] || '', // Added alias
-          type: row['Type'] || '',
-          note: row['Note'] || ''
-        }));
-
-        const linesPerPage = 25;
-        const pages: PageData[] = [];
-        for (let i = 0; i < allLines.length; i += linesPerPage) {
-          pages.push({
-            id: generateId(),
-            lines: allLines.slice(i, i + linesPerPage)
-          });
-        }
-
-        if (pages.length === 0) {
-          pages.push({ id: generateId(), lines: [] });
-        }
-
-        set({ pages, highlights: [], wordGroups: [], arrows: [], sidebars: [] });
-      },
-      error: (error: any) => {
-        console.error("CSV Parse Error:", error);
-        alert("Failed to parse CSV");
-      }
+  applyCsvImport: (plan) => {
+    get().saveToHistory();
+    set((state) => {
+      const newPages = paginateRuns(plan.runs);
+
+      // Annotations read from the file replace those of their lines, then everything left on
+      // dropped lines or edited words goes
+      const { annotations } = plan;
+      const replaced = new Set(annotations.lineIds);
+      const groupLines = new Map(state.wordGroups.map(g => [g.id, g.lineId]));
+      const notReplaced = (lineId: string | undefined) => !lineId || !replaced.has(lineId);
+      const pruned = pruneAnnotations({
+        wordGroups: [...state.wordGroups.filter(g => notReplaced(g.lineId)), ...annotations.wordGroups],
+        arrows: [...state.arrows.filter(a => notReplaced(groupLines.get(a.sourceGroupIds[0]))), ...annotations.arrows],
+        linkedPairs: [...state.linkedPairs.filter(p => notReplaced(p.lineId)), ...annotations.linkedPairs],
+        highlights: [...state.highlights.filter(h => notReplaced(h.associatedLineId)), ...annotations.highlights],
+        sidebars: [...state.sidebars.filter(c => notReplaced(c.anchoredLineId)), ...annotations.sidebars],
+        footnotes: [...(state.footnotes || []).filter(f => notReplaced(f.lineId)), ...annotations.footnotes]
+      }, newPages);
+
+      const layout = applyChapterLayout(newPages, state.bookStructure);
+      return { ...layout, ...pruned, footnotes: renumberFootnotes(layout.pages, pruned.footnotes, state.theme) };
     });
   },
 
   reflowPages: (linesPerPage) => set((state) => {
-    const allLines = state.pages.flatMap(p => p.lines);
     const newPages: PageData[] = [];
 
-    for (let i = 0; i < allLines.length; i += linesPerPage) {
-      newPages.push({
-        id: generateId(),
-        lines: allLines.slice(i, i + linesPerPage)
-      });
-    }
+    // Each chapter is reflowed on its own so it keeps starting on a fresh page
+    splitBodyByChapter(state.pages).forEach(({ chapterId, lines }) => {
+      if (lines.length === 0) {
+        newPages.push({ id: generateId(), lines: [], chapterId });
+      }
+      for (let i = 0; i < lines.length; i += linesPerPage) {
+        newPages.push({
+          id: generateId(),
+          lines: lines.slice(i, i + linesPerPage),
+          chapterId
+        });
+      }
+    });
 
     if (newPages.length === 0) {
       newPages.push({ id: generateId(), lines: [] });
     }
 
-    return { pages: newPages };
+    const layout = applyChapterLayout(newPages, state.bookStructure);
+    return { ...layout, footnotes: renumberFootnotes(layout.pages, state.footnotes, state.theme) };
   }),
 
-  // Smart reflow that calculates page capacity based on actual settings
-  smartReflowPages: () => {
-    const state = get();
-    const { pages, theme } = state;
+  // Smart reflow: measures the rendered body and breaks pages for the current layout
+  smartReflowPages: async () => {
+    const { pages, theme, uiSettings, sidebars, footnotes } = get();
     
-    // Get page layout settings
-    const layout = theme.pageLayout;
-    if (!layout) {
-      // Fallback to simple reflow if no layout defined
+    // Fallback to simple reflow if no layout defined
+    if (!theme.pageLayout) {
       get().reflowPages(25);
       return;
     }
     
-    // Parse dimensions (convert to pixels for calculation, assuming 96 DPI screen)
-    const parseToPixels = (value: string): number => {
-      const num = parseFloat(value) || 0;
-      if (value.includes('mm')) return num * 3.78; // 1mm ≈ 3.78px at 96 DPI
-      if (value.includes('in')) return num * 96;
-      if (value.includes('pt')) return num * 1.33;
-      if (value.includes('px')) return num;
-      return num * 3.78; // Default to mm
-    };
-    
-    const pageHeight = parseToPixels(layout.height);
-    const marginTop = parseToPixels(layout.margins?.top || '25mm');
-    const marginBottom = parseToPixels(layout.margins?.bottom || '25mm');
-    const headerFooterHeight = 60; // Reserve space for header/footer
-    
-    // Available content height
-    const contentHeight = pageHeight - marginTop - marginBottom - headerFooterHeight;
-    
-    // Estimate line height in pixels based on theme
-    const fontSize = parseFloat(theme.fontSize) || 16;
-    const lineHeightMultiplier = parseFloat(theme.lineHeight) || 1.6;
-    const baseLineHeight = fontSize * lineHeightMultiplier;
-    
-    // Height estimates for different content types
-    const estimateContentHeight = (line: LineData): number => {
-      const contentData = (line as { contentData?: PageContent }).contentData;
-      
-      if (contentData) {
-        switch (contentData.type) {
-          case 'divider':
-            return 40; // Dividers are typically short
-          case 'callout':
-            // Callouts have header + content
-            return 80 + ((contentData as { content?: string }).content?.length || 0) * 0.3;
-          case 'table':
-            // Tables: header + rows
-            const rows = (contentData as { rows?: string[][] }).rows?.length || 0;
-            return 40 + rows * 30;
-          case 'image':
-            return 200; // Default image placeholder height
-          default:
-            break;
-        }
-      }
-      
-      // For text content, estimate based on text length and layout mode
-      const textLength = Math.max(
-        (line.frenchText || '').length,
-        (line.englishText || '').length
-      );
-      
-      // Rough estimate: characters per line varies by font, assume ~60
-      const estimatedLines = Math.ceil(textLength / 60);
-      
-      // Account for section types
-      let multiplier = 1;
-      if (line.sectionType === 'title') multiplier = 2;
-      if (line.sectionType === 'heading') multiplier = 1.5;
-      
-      // In interlinear mode, French and English stack vertically
-      const layoutMultiplier = theme.layoutMode === 'interlinear' ? 2 : 1;
-      
-      return Math.max(baseLineHeight, estimatedLines * baseLineHeight * multiplier * layoutMultiplier) + 20; // +20 for spacing
-    };
-    
-    // Collect all lines from all pages
-    const allLines = pages.flatMap(p => p.lines);
-    
+    // Collect the whole body (text lines and content blocks) in order, chapter by chapter
+    const runs = splitBodyByChapter(pages);
+    const allLines = runs.flatMap(run => run.lines);
     if (allLines.length === 0) {
       return; // Nothing to reflow
     }
     
-    get().saveToHistory();
-    
-    // Distribute lines across pages based on height
-    const newPages: PageData[] = [];
-    let currentLines: LineData[] = [];
-    let currentHeight = 0;
-    
-    for (const line of allLines) {
-      const lineHeight = estimateContentHeight(line);
-      
-      // Check if this line would overflow the current page
-      if (currentHeight + lineHeight > contentHeight && currentLines.length > 0) {
-        // Save current page and start a new one
-        newPages.push({
-          id: generateId(),
-          lines: currentLines.map((l, idx) => ({ ...l, lineNumber: idx + 1 }))
-        });
-        currentLines = [];
-        currentHeight = 0;
+    try {
+      const heights = await measureBodyHeights(
+        allLines,
+        { theme, uiSettings, sidebars },
+        theme.pageLayout.splitRatio ?? 0.5
+      );
+      const footnoteHeights = await measureFootnoteHeights(allLines, footnotes || [], theme);
+      const availableHeight = getContentArea(theme).height;
+
+      // Measuring waits for fonts and images; if the book or its layout changed meanwhile,
+      // the result is stale and applying it would undo those edits
+      const current = get();
+      if (current.pages !== pages || current.footnotes !== footnotes || current.theme !== theme ||
+          current.sidebars !== sidebars || current.uiSettings !== uiSettings) {
+        return;
       }
+
+      get().saveToHistory();
       
-      // Add line to current page
-      currentLines.push(line);
-      currentHeight += lineHeight;
-    }
-    
-    // Don't forget the last page
-    if (currentLines.length > 0) {
-      newPages.push({
-        id: generateId(),
-        lines: currentLines.map((l, idx) => ({ ...l, lineNumber: idx + 1 }))
+      const newPages: PageData[] = [];
+      let offset = 0;
+      runs.forEach(({ chapterId, lines }) => {
+        const chunks = lines.length > 0
+          ? paginateBody(
+              lines,
+              heights.slice(offset, offset + lines.length),
+              availableHeight,
+              theme.typography,
+              BODY_ENTRY_GAP,
+              footnoteHeights.slice(offset, offset + lines.length)
+            )
+          : [[]];
+        offset += lines.length;
+        chunks.forEach(chunk => newPages.push({
+          id: generateId(),
+          lines: chunk.map((l, idx) => ({ ...l, lineNumber: idx + 1 })),
+          chapterId
+        }));
       });
+      
+      const layout = applyChapterLayout(
+        newPages.length > 0 ? newPages : [{ id: generateId(), lines: [] }],
+        current.bookStructure
+      );
+      set({ ...layout, footnotes: renumberFootnotes(layout.pages, footnotes, theme) });
+    } catch (e) {
+      console.error("Failed to reflow pages", e);
+      throw e;
     }
-    
-    // Ensure at least one page exists
-    if (newPages.length === 0) {
-      newPages.push({ id: generateId(), lines: [] });
-    }
-    
-    set({ pages: newPages });
   },
 
-  autoAlign: () => set((state) => {
-    const allLines = state.pages.flatMap(p => p.lines);
-    const fullFrench = allLines.map(l => l.frenchText).join(' ');
-    const fullEnglish = allLines.map(l => l.englishText).join(' ');
-
-    const splitSentences = (text: string) => {
-      return text.replace(/([.!?])\s+(?=[A-Z])/g, "$1|").split("|").map(s => s.trim()).filter(Boolean);
-    };
-
-    const frSentences = splitSentences(fullFrench);
-    const enSentences = splitSentences(fullEnglish);
-
-    const max = Math.max(frSentences.length, enSentences.length);
-    const newLines: LineData[] = [];
-
-    for(let i=0; i<max; i++) {
-       newLines.push({
-         id: generateId(),
-         lineNumber: i + 1,
-         frenchText: frSentences[i] || '',
-         englishText: enSentences[i] || ''
-       });
-    }
-
-    const linesPerPage = 25;
-    const pages: PageData[] = [];
-    for (let i = 0; i < newLines.length; i += linesPerPage) {
-      pages.push({
-        id: generateId(),
-        lines: newLines.slice(i, i + linesPerPage)
-      });
-    }
-    if (pages.length === 0) pages.push({ id: generateId(), lines: [] });
-
+  autoAlign: (plan) => {
     get().saveToHistory();
-    return { pages, highlights: [], wordGroups: [], arrows: [], sidebars: [] };
-  }),
+    set((state) => {
+      const existing = new Map(state.pages.flatMap(p => p.lines).map(l => [l.id, l]));
+
+      // Lines whose text did not change are kept as they are, so their annotations stay valid
+      const newPages = paginateRuns(plan.map(({ chapterId, entries }) => ({
+        chapterId,
+        lines: entries.map((entry): LineData => {
+          if (entry.kind === 'block') return entry.line;
+          const { pair } = entry;
+          const kept = pair.lineId ? existing.get(pair.lineId) : undefined;
+          return kept || {
+            id: generateId(),
+            lineNumber: 0,
+            frenchText: pair.french,
+            englishText: pair.english,
+            frenchWords: tokenizeWords(pair.french),
+            englishWords: tokenizeWords(pair.english)
+          };
+        })
+      })));
+
+      // Drop the annotations of lines that were re-split
+      const pruned = pruneAnnotations({ ...state, footnotes: state.footnotes || [] }, newPages);
+
+      const layout = applyChapterLayout(newPages, state.bookStructure);
+      return { ...layout, ...pruned, footnotes: renumberFootnotes(layout.pages, pruned.footnotes, state.theme) };
+    });
+  },
 
   parseAndSetText: (rawFrench, rawEnglish) => {
     const frLines = rawFrench.split('\n');
@@ -1186,7 +1448,9 @@ export const useStore = create<StoreState>((set, get) => ({
         id: generateId(),
         lineNumber: i + 1,
         frenchText: frText,
-        englishText: enText
+        englishText: enText,
+        frenchWords: tokenizeWords(frText),
+        englishWords: tokenizeWords(enText)
       });
     }
 
@@ -1206,10 +1470,34 @@ export const useStore = create<StoreState>((set, get) => ({
     set({ pages, highlights: [], wordGroups: [], arrows: [], sidebars: [] });
   },
 
+  importLines: (lines, mode) => {
+    get().saveToHistory();
+    set((state) => {
+      // Appended lines continue the last chapter; an empty book is simply replaced
+      const keep = mode === 'append' && state.pages.some(p => p.lines.length > 0);
+      const chapterId = keep ? state.pages[state.pages.length - 1].chapterId : undefined;
+      const newPages = paginateRuns([{ chapterId, lines }]);
+
+      if (keep) {
+        const layout = applyChapterLayout([...state.pages, ...newPages], state.bookStructure);
+        return { ...layout, footnotes: renumberFootnotes(layout.pages, state.footnotes, state.theme) };
+      }
+      return {
+        ...applyChapterLayout(newPages, state.bookStructure),
+        highlights: [],
+        wordGroups: [],
+        arrows: [],
+        sidebars: [],
+        linkedPairs: [],
+        footnotes: []
+      };
+    });
+  },
+
   removeLine: (pageId, lineId) => {
     get().saveToHistory();
-    return set((state) => ({
-      pages: state.pages.map(p => {
+    return set((state) => {
+      const pages = state.pages.map(p => {
         if (p.id !== pageId) return p;
         const filteredLines = p.lines.filter(l => l.id !== lineId);
         // Refresh line numbers
@@ -1221,8 +1509,10 @@ export const useStore = create<StoreState>((set, get) => ({
           ...p,
           lines: updatedLines
         };
-      })
-    }));
+      });
+      const footnotes = renumberFootnotes(pages, (state.footnotes || []).filter(f => f.lineId !== lineId), state.theme);
+      return { pages, footnotes };
+    });
   },
 
   updatePage: (id, updates) => set((state) => ({
@@ -1275,12 +1565,10 @@ export const useStore = create<StoreState>((set, get) => ({
     const minIdx = Math.min(startIdx, endIdx);
     const maxIdx = Math.max(startIdx, endIdx);
 
-    // We need to generate the word IDs for the range
-    // Word IDs follow the pattern: `${lineId}-${language}-${idx}`
-    const wordIds: string[] = [];
-    for (let i = minIdx; i <= maxIdx; i++) {
-      wordIds.push(`${wordGroupSelection.lineId}-${wordGroupSelection.language}-${i}`);
-    }
+    // Collect the word UUIDs covering the range from the line's words
+    const line = state.pages.flatMap(p => p.lines).find(l => l.id === wordGroupSelection.lineId);
+    const words = (line && wordGroupSelection.language) ? getLineWords(line, wordGroupSelection.language) || [] : [];
+    const wordIds = words.slice(minIdx, maxIdx + 1).map(w => w.id);
 
     return {
       wordGroupSelection: {
@@ -1493,14 +1781,6 @@ export const useStore = create<StoreState>((set, get) => ({
 function migrateProjectState(state: any): ProjectState {
   const migrated = { ...state };
 
-  // N21: Word ID Generation Strategy
-  // Currently, word IDs are generated as `${lineId}-${language}-${wordIndex}`.
-  // This is considered FRAGILE because:
-  // 1. If the line text is edited (adding/removing words), the indices shift.
-  // 2. Existing wordGroups, highlights, and linkedPairs that depend on these IDs 
-  //    will point to the wrong words or become invalid after such shifts.
-  // RECOMMENDATION for future: Move to stable UUIDs for words upon initial parse.
-  
   // Ensure wordGroups exists
   if (!migrated.wordGroups) {
     migrated.wordGroups = [];
@@ -1565,5 +1845,82 @@ function migrateProjectState(state: any): ProjectState {
     migrated.theme.layoutMode = 'side-by-side';
   }
 
+  if (Array.isArray(migrated.pages)) {
+    // Legacy `content` arrays are folded into the ordered page body
+    migrated.pages = migrated.pages.map((page: PageData) => mergeLegacyContent(page));
+    migrateWordIds(migrated);
+  }
+
+  // Chapters: page membership lives on `PageData.chapterId`; older files may only carry `pageIds`
+  migrated.bookStructure = { ...EMPTY_BOOK_STRUCTURE, ...migrated.bookStructure };
+  migrated.bookStructure.chapters = migrated.bookStructure.chapters || [];
+  if (Array.isArray(migrated.pages) && migrated.bookStructure.chapters.length > 0) {
+    const chapterByPage = new Map<string, string>();
+    migrated.bookStructure.chapters.forEach((c: Chapter) => (c.pageIds || []).forEach(pid => chapterByPage.set(pid, c.id)));
+    const pages = migrated.pages.map((p: PageData) => p.chapterId ? p : { ...p, chapterId: chapterByPage.get(p.id) });
+    Object.assign(migrated, applyChapterLayout(pages, migrated.bookStructure));
+  }
+
+  // Footnote numbers and pages are derived, so renumber against the loaded body
+  migrated.footnotes = Array.isArray(migrated.pages) && migrated.theme
+    ? renumberFootnotes(migrated.pages, migrated.footnotes, migrated.theme)
+    : migrated.footnotes || [];
+
   return migrated as ProjectState;
 }
+
+// N21: Word IDs used to be positional (`${lineId}-${language}-${wordIndex}`, and plain
+// indices "0", "1"... for TextStyles), so any edit shifted annotations onto the wrong words.
+// Give every line UUID-based WordData and rewrite positional references to those UUIDs.
+function migrateWordIds(migrated: any) {
+  const legacyToUuid = new Map<string, string>();
+
+  migrated.pages = migrated.pages.map((page: any) => ({
+    ...page,
+    lines: (page.lines || []).map((rawLine: LineData) => {
+      const line = ensureLineWords(rawLine);
+      (['french', 'english'] as Language[]).forEach(language => {
+        getLineWords(line, language)!.forEach((word, index) => {
+          legacyToUuid.set(legacyWordId(line.id, language, index), word.id);
+        });
+      });
+
+      const migrateStyles = (styles: TextStyle[] | undefined, words: WordData[]) => styles?.map(s =>
+        /^\d+$/.test(s.wordId) && words[Number(s.wordId)] ? { ...s, wordId: words[Number(s.wordId)].id } : s
+      );
+
+      return {
+        ...line,
+        frenchStyles: migrateStyles(line.frenchStyles, line.frenchWords!),
+        englishStyles: migrateStyles(line.englishStyles, line.englishWords!)
+      };
+    })
+  }));
+
+  const mapIds = (ids: string[] | undefined) => ids?.map(id => legacyToUuid.get(id) || id);
+
+  migrated.wordGroups = migrated.wordGroups.map((g: WordGroup) => ({ ...g, wordIds: mapIds(g.wordIds) }));
+
+  if (migrated.linkedPairs) {
+    migrated.linkedPairs = migrated.linkedPairs.map((p: LinkedPair) => ({
+      ...p,
+      sourceWordIds: mapIds(p.sourceWordIds),
+      targetWordIds: mapIds(p.targetWordIds)
+    }));
+  }
+
+  if (migrated.highlights) {
+    migrated.highlights = migrated.highlights.map((h: SpanHighlight) => ({
+      ...h,
+      frenchWordIds: mapIds(h.frenchWordIds),
+      englishWordIds: mapIds(h.englishWordIds)
+    }));
+  }
+
+  if (migrated.footnotes) {
+    migrated.footnotes = migrated.footnotes.map((f: Footnote) => ({
+      ...f,
+      wordId: legacyToUuid.get(f.wordId) || f.wordId
+    }));
+  }
+}
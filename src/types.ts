@@ -16,6 +16,7 @@ export interface ProjectMetadata {
   subtitle?: string;
   publisher?: string;
   isbn?: string;
+  bookId?: string; // UUID that identifies the e-book when it has no ISBN, kept across exports
   language?: string;
   targetLanguage?: string;
 }
@@ -26,6 +27,22 @@ export interface ProjectSummary {
   updatedAt: string;
 }
 
+// Page numbering sections: each has its own style, first number and visibility
+export type PageNumberStyle = 'arabic' | 'lowerRoman' | 'upperRoman' | 'none';
+
+export const PAGE_NUMBER_STYLE_LABELS: Record<PageNumberStyle, string> = {
+  arabic: '1, 2, 3',
+  lowerRoman: 'i, ii, iii',
+  upperRoman: 'I, II, III',
+  none: 'No numbers'
+};
+
+export interface PageNumbering {
+  style: PageNumberStyle;
+  start?: number; // 1 when unset
+  hidden?: boolean; // Counted and used by the TOC and index, but not printed in running heads
+}
+
 // NEW: Book Front/Back Matter
 export interface FrontMatter {
   titlePage?: boolean;
@@ -33,6 +50,7 @@ export interface FrontMatter {
   tableOfContents?: boolean;
   dedication?: string;
   preface?: string;
+  pageNumbering?: PageNumbering; // Lower-case roman from i when unset
 }
 
 export interface BackMatter {
@@ -40,6 +58,7 @@ export interface BackMatter {
   index?: boolean;
   acknowledgments?: string;
   aboutAuthor?: string;
+  pageNumbering?: PageNumbering; // Continues the body when unset
 }
 
 // NEW: Chapter Structure
@@ -47,13 +66,18 @@ export interface Chapter {
   id: string;
   title: string;
   pageIds: string[]; // References to PageData ids
+  // Any of these three starts a new numbering section at the chapter opener
   startingPageNumber?: number;
+  pageNumberStyle?: PageNumberStyle;
+  hidePageNumbers?: boolean;
+  startOnRecto?: boolean; // Pad with a blank page so the chapter opens on an odd page
 }
 
 export interface BookStructure {
   frontMatter: FrontMatter;
   chapters: Chapter[];
   backMatter: BackMatter;
+  bodyPageNumbering?: PageNumbering; // Arabic from 1 when unset
 }
 
 // ─────────────────────────────────────────────────────────────
@@ -170,6 +194,11 @@ export interface LineData {
   restartNumberingAt?: number;
   // Audio binding (from remote)
   audioUrl?: string;
+  // Clip of audioUrl, in seconds, when one recording covers several lines
+  audioClipBegin?: number;
+  audioClipEnd?: number;
+  // Content block (image, table, divider, callout) placed in the page flow
+  contentData?: PageContent;
 }
 
 // ─────────────────────────────────────────────────────────────
@@ -179,7 +208,7 @@ export interface LineData {
 export interface PageData {
   id: string;
   lines: LineData[];
-  content?: PageContent[]; // NEW: Mixed content support
+  content?: PageContent[]; // Legacy: merged into `lines` (the ordered page body) on load
   splitRatio?: number; // 0.1 to 0.9, overrides theme default
   // NEW: Page-level settings
   overrideMargins?: PageMargins;
@@ -230,6 +259,7 @@ export interface WordGroup {
 
 export type ArrowStyle = 'solid' | 'dashed' | 'dotted';
 export type ArrowHeadStyle = 'arrow' | 'none' | 'dot' | 'diamond';
+export type ArrowLabelPlacement = 'path' | 'pill'; // Along the path, or upright in a pill
 
 export interface ArrowConnector {
   id: string;
@@ -245,10 +275,18 @@ export interface ArrowConnector {
   headStyle: ArrowHeadStyle;
   curvature: number;
   label?: string;
+  labelPlacement?: ArrowLabelPlacement;
+  labelPosition?: number; // 0-1 along the path
+  labelOffset?: number; // px away from the path
+  labelFontSize?: number;
+  labelBackground?: string; // 'transparent' for none
   startAnchor?: 'top' | 'bottom' | 'left' | 'right' | 'middle' | 'auto';
   endAnchor?: 'top' | 'bottom' | 'left' | 'right' | 'middle' | 'auto';
 }
 
+// Shared with the exports, which embed the arrow router
+export { DEFAULT_ARROW_LABEL } from '../arrowRuntime.js';
+
 // ─────────────────────────────────────────────────────────────
 // SIDEBAR / ANECDOTES
 // ─────────────────────────────────────────────────────────────
@@ -347,24 +385,28 @@ export interface TypographySettings {
   hyphens?: 'none' | 'auto' | 'manual';
   orphans?: number; // Minimum lines at bottom of page
   widows?: number;  // Minimum lines at top of page
+  footnoteNumbering?: 'page' | 'chapter'; // Where footnote numbers restart
   letterSpacing?: string;
   wordSpacing?: string;
 }
 
 // NEW: Header/Footer templates
 export interface HeaderFooterTemplate {
-  left: string; // Placeholders: {{pageNumber}}, {{chapterTitle}}, {{bookTitle}}, etc.
+  left: string; // Placeholders: {{pageNumber}}, {{chapterTitle}}, {{sectionTitle}}, {{bookTitle}}, etc.
   center: string;
   right: string;
   font?: string;
   fontSize?: string;
   showOnFirstPage?: boolean;
+  showOnChapterOpeners?: boolean; // Chapter openers have no running head unless set
 }
 
 export interface PageTemplate {
   header?: HeaderFooterTemplate;
   footer?: HeaderFooterTemplate;
-  alternateForEvenPages?: boolean; // Mirror header/footer for facing pages
+  alternateForEvenPages?: boolean; // Versos use their own header/footer, or mirror the recto ones
+  versoHeader?: HeaderFooterTemplate;
+  versoFooter?: HeaderFooterTemplate;
 }
 
 // ─────────────────────────────────────────────────────────────
@@ -374,7 +416,7 @@ export interface PageTemplate {
 export type ColorProfile = 'sRGB' | 'CMYK' | 'AdobeRGB';
 
 export interface ExportSettings {
-  format: 'pdf' | 'html' | 'png' | 'idml';
+  format: 'pdf' | 'html' | 'png' | 'idml' | 'epub';
   quality: 'draft' | 'standard' | 'high'; // 72, 150, 300 DPI
   bleed?: string;
   showCropMarks?: boolean;
@@ -388,6 +430,18 @@ export interface ExportSettings {
   responsive?: boolean;
 }
 
+// Pages laid out on press sheets by the PDF export: a saddle-stitched booklet folded from
+// sheets printed on both sides, or 2 or 4 pages per sheet to cut apart
+export type ImpositionLayout = 'booklet' | '2up' | '4up';
+
+export interface ImpositionSettings {
+  layout: ImpositionLayout;
+  sheetSize: PageSize; // Press sheet, turned to fit the pages best
+  creep?: string; // Per booklet sheet, e.g. '0.1mm'
+  foldMarks?: boolean;
+  cutMarks?: boolean;
+}
+
 // ─────────────────────────────────────────────────────────────
 // LINKED PAIRS & SYNC
 // ─────────────────────────────────────────────────────────────
@@ -510,6 +564,22 @@ export interface Footnote {
   pageId?: string; // For page-based numbering
 }
 
+// ─────────────────────────────────────────────────────────────
+// LOCAL FONTS
+// ─────────────────────────────────────────────────────────────
+
+// A font file uploaded to the server's fonts folder. Family, weight and style are read
+// from the file name, e.g. "Lora-BoldItalic.woff2".
+export interface LocalFont {
+  file: string;
+  path: string; // Served from the /fonts static route
+  family: string;
+  weight: number;
+  style: 'normal' | 'italic';
+  format: 'truetype' | 'opentype' | 'woff' | 'woff2';
+  size: number;
+}
+
 // ─────────────────────────────────────────────────────────────
 // PROJECT STATE
 // ─────────────────────────────────────────────────────────────
@@ -0,0 +1,119 @@
+import { describe, it, expect } from 'vitest';
+import { build } from 'esbuild';
+import { Box, Point, getContinuation, placeLabel, resolveAnchors, routeArrows } from './arrowRouting';
+import { arrowRouter } from '../../arrowRuntime.js';
+import { DEFAULT_ARROW_LABEL, ArrowConnector } from '../types';
+
+// Two lines of five 40x16 words, 24px apart
+const words: Box[] = [0, 1].flatMap(row => [0, 1, 2, 3, 4].map(col => ({ x: col * 50, y: row * 40, width: 40, height: 16 })));
+
+const crossesBox = (points: Point[], box: Box) => points.slice(1).some((p, i) => {
+  const a = points[i];
+  const [x1, x2] = [Math.min(a.x, p.x), Math.max(a.x, p.x)];
+  const [y1, y2] = [Math.min(a.y, p.y), Math.max(a.y, p.y)];
+  return x1 < box.x + box.width && x2 > box.x && y1 < box.y + box.height && y2 > box.y;
+});
+
+describe('resolveAnchors', () => {
+  it('should connect below the text on one line and between lines otherwise', () => {
+    expect(resolveAnchors(words[0], words[3])).toEqual(['bottom', 'bottom']);
+    expect(resolveAnchors(words[0], words[7])).toEqual(['bottom', 'top']);
+    expect(resolveAnchors(words[7], words[0], 'auto', 'right')).toEqual(['top', 'right']);
+  });
+});
+
+describe('routeArrows', () => {
+  it('should route around the words between source and target', () => {
+    const [routed] = routeArrows([{ id: 'a', source: words[0], target: words[4], curvature: 0.5 }], words);
+    expect(routed.points[0]).toEqual({ x: 20, y: 20 });
+    expect(routed.points[routed.points.length - 1]).toEqual({ x: 220, y: 20 });
+    words.forEach(word => expect(crossesBox(routed.points, word)).toBe(false));
+    expect(routed.d).toMatch(/^M 20 20 L .* Q /);
+  });
+
+  it('should bundle parallel arrows into separate lanes', () => {
+    const request = { source: words[0], target: words[2], curvature: 0.5 };
+    const [first, second] = routeArrows([{ id: 'a', ...request }, { id: 'b', ...request }], words);
+    expect(second.points).toHaveLength(first.points.length);
+    second.points.forEach((p, i) => {
+      const q = first.points[i];
+      expect(Math.abs(p.x - q.x) + Math.abs(p.y - q.y)).toBeGreaterThan(0);
+    });
+    words.forEach(word => expect(crossesBox(second.points, word)).toBe(false));
+  });
+});
+
+describe('getContinuation', () => {
+  it('should break an arrow off towards the edge facing the other page', () => {
+    const page = { x: 0, y: 0, width: 400, height: 600 };
+    const out = getContinuation(page, words[4], '3', true, true);
+    expect(out.end.x + out.end.width / 2).toBe(372);
+    expect(out.side).toBe('left');
+    expect(out.label.lines).toEqual(['continues on', 'p. 3']);
+
+    const into = getContinuation(page, words[5], 'ii', false, false);
+    expect(into.end.x + into.end.width / 2).toBe(28);
+    expect(into.side).toBe('right');
+    expect(into.label.lines).toEqual(['continued from', 'p. ii']);
+
+    const [stub] = routeArrows([{ id: 'a', source: words[4], target: out.end, endAnchor: out.side, curvature: 0.5 }], words);
+    expect(stub.points[stub.points.length - 1].x).toBeLessThan(out.end.x);
+  });
+});
+
+describe('placeLabel', () => {
+  const arrow: ArrowConnector = {
+    id: 'a', sourceGroupIds: [], targetGroupIds: [], color: '#000', style: 'solid', strokeWidth: 2, headStyle: 'arrow', curvature: 0.5, label: 'agrees'
+  };
+  const points = [{ x: 0, y: 0 }, { x: 100, y: 0 }, { x: 100, y: 50 }];
+
+  it('should place a level pill at the position along the route', () => {
+    expect(placeLabel(points, { ...arrow, labelOffset: 10 })).toMatchObject({ x: 75, y: -10, angle: 0 });
+  });
+
+  it('should turn labels along the path with the segment, keeping them upright', () => {
+    expect(placeLabel(points, { ...arrow, labelPlacement: 'path', labelPosition: 0.9, labelOffset: 10 })).toMatchObject({ x: 110, y: 35, angle: 90 });
+    expect(placeLabel([...points].reverse(), { ...arrow, labelPlacement: 'path', labelPosition: 0.9 })).toMatchObject({ x: 15, y: 0, angle: 0 });
+  });
+});
+
+describe('exported router', () => {
+  // The exports embed the router's source, so it must work on its own, without the module
+  const embedded: ReturnType<typeof arrowRouter> = new Function(`return (${arrowRouter.toString()})(${JSON.stringify(DEFAULT_ARROW_LABEL)})`)();
+
+  it('should route like the editor from its embedded source', () => {
+    const requests = [
+      { id: 'a', source: words[0], target: words[3], curvature: 0.5 },
+      { id: 'b', source: words[1], target: words[8], curvature: 0.5 }
+    ];
+    expect(embedded.routeArrows(requests, words)).toEqual(routeArrows(requests, words));
+  });
+
+  it('should route on its own after the production build', async () => {
+    // Built the way `vite build` builds the app (Vite's default browser targets), so syntax
+    // the build lowers to helpers outside the router shows up here
+    const { outputFiles } = await build({
+      entryPoints: [new URL('../../arrowRuntime.js', import.meta.url).pathname],
+      bundle: true,
+      write: false,
+      minify: true,
+      format: 'iife',
+      globalName: 'runtime',
+      target: ['es2020', 'edge88', 'firefox78', 'chrome87', 'safari14']
+    });
+    const built = new Function(`${outputFiles[0].text}; return runtime;`)();
+    const router = new Function(`return (${built.arrowRouter.toString()})(${JSON.stringify(DEFAULT_ARROW_LABEL)})`)();
+
+    const [route] = router.routeArrows([{ id: 'a', source: words[0], target: words[3], curvature: 0.5 }], words);
+    expect(route.points.length).toBeGreaterThan(1);
+  });
+
+  it('should label arrows with the editor defaults', () => {
+    const arrow: ArrowConnector = {
+      id: 'a', sourceGroupIds: [], targetGroupIds: [], color: '#000', style: 'solid', strokeWidth: 2, headStyle: 'arrow', curvature: 0.5, label: 'agrees'
+    };
+    const points = [{ x: 0, y: 0 }, { x: 100, y: 0 }];
+    expect(embedded.labelDefaults).toEqual(DEFAULT_ARROW_LABEL);
+    expect(embedded.placeLabel(points, arrow)).toEqual(placeLabel(points, arrow));
+  });
+});
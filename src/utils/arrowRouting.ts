@@ -0,0 +1,8 @@
+import { arrowRouter, DEFAULT_ARROW_LABEL } from '../../arrowRuntime.js';
+
+// Arrow routing for the editor. The router lives in arrowRuntime.js, whose source the PDF
+// and HTML exports embed, so the editor and the exports route every arrow the same way.
+
+export type { Box, Point, ArrowAnchor, ArrowRouteRequest, LabelPlacement, Continuation, RoutedArrow } from '../../arrowRuntime.js';
+
+export const { resolveAnchors, routeArrows, getContinuation, placeLabel, toRoundedPath } = arrowRouter(DEFAULT_ARROW_LABEL);
@@ -0,0 +1,19 @@
+import { describe, it, expect } from 'vitest';
+import { formatClockValue, getLineAudioUrl, parseAudioClip } from './audioClips';
+
+describe('audio clips', () => {
+  it('should read clip ranges in seconds or clock values', () => {
+    expect(parseAudioClip('1:05.2-1:09.8')).toEqual({ begin: 65.2, end: 69.8 });
+    expect(parseAudioClip('12 - ')).toEqual({ begin: 12, end: undefined });
+    expect(parseAudioClip('')).toEqual({ begin: undefined, end: undefined });
+    expect(parseAudioClip('10-5')).toBeNull();
+    expect(parseAudioClip('soon')).toBeNull();
+    expect(formatClockValue(3725.5)).toBe('1:02:05.500');
+  });
+
+  it('should play only the clip through a media fragment', () => {
+    expect(getLineAudioUrl({ audioUrl: 'audio/ch1.mp3', audioClipBegin: 4, audioClipEnd: 7.5 })).toBe('audio/ch1.mp3#t=4,7.5');
+    expect(getLineAudioUrl({ audioUrl: 'audio/ch1.mp3', audioClipEnd: 3 })).toBe('audio/ch1.mp3#t=0,3');
+    expect(getLineAudioUrl({ audioUrl: 'audio/ch1.mp3' })).toBe('audio/ch1.mp3');
+  });
+});
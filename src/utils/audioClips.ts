@@ -0,0 +1,64 @@
+import type { LineData } from '../types';
+
+// A line's audio can be a whole file or a clip of a longer recording, so one chapter-length
+// narration can drive many lines. Clip times are in seconds from the start of the file.
+
+export interface AudioClip {
+  begin?: number;
+  end?: number;
+}
+
+/**
+ * Seconds from a clock value: "83.5", "83.5s", "1:23.5" or "0:01:23.5". Returns null for
+ * anything else.
+ */
+export function parseClockValue(text: string): number | null {
+  const value = text.trim().replace(/s$/i, '');
+  if (!/^\d+(:\d{1,2}){0,2}(\.\d+)?$/.test(value)) return null;
+  return value.split(':').reduce((total, part) => total * 60 + parseFloat(part), 0);
+}
+
+/**
+ * Full SMIL clock value, e.g. "0:01:23.500"
+ */
+export function formatClockValue(seconds: number): string {
+  const millis = Math.round(Math.max(0, seconds) * 1000);
+  const h = Math.floor(millis / 3600000);
+  const m = Math.floor((millis % 3600000) / 60000);
+  const s = (millis % 60000) / 1000;
+  return `${h}:${String(m).padStart(2, '0')}:${s.toFixed(3).padStart(6, '0')}`;
+}
+
+/**
+ * Clip from a "start-end" range as typed in the editor. Either side may be left empty;
+ * an empty range clears the clip. Returns null when the range cannot be read or ends
+ * before it starts.
+ */
+export function parseAudioClip(text: string): AudioClip | null {
+  const [beginText = '', endText = '', ...rest] = text.split(/\s*[-–]\s*/);
+  if (rest.length > 0) return null;
+  const begin = beginText.trim() ? parseClockValue(beginText) : undefined;
+  const end = endText.trim() ? parseClockValue(endText) : undefined;
+  if (begin === null || end === null) return null;
+  if (begin !== undefined && end !== undefined && end <= begin) return null;
+  return { begin, end };
+}
+
+/**
+ * The line's clip as a "start-end" range, the editor's way of showing it
+ */
+export function formatAudioClip(line: Pick<LineData, 'audioClipBegin' | 'audioClipEnd'>): string {
+  if (line.audioClipBegin === undefined && line.audioClipEnd === undefined) return '';
+  const format = (seconds?: number) => (seconds === undefined ? '' : formatClockValue(seconds));
+  return `${format(line.audioClipBegin)}-${format(line.audioClipEnd)}`;
+}
+
+/**
+ * URL that plays only the line's clip, using a media fragment
+ */
+export function getLineAudioUrl(line: Pick<LineData, 'audioUrl' | 'audioClipBegin' | 'audioClipEnd'>): string {
+  if (!line.audioUrl) return '';
+  if (line.audioClipBegin === undefined && line.audioClipEnd === undefined) return line.audioUrl;
+  const end = line.audioClipEnd !== undefined ? `,${line.audioClipEnd}` : '';
+  return `${line.audioUrl.split('#')[0]}#t=${line.audioClipBegin ?? 0}${end}`;
+}
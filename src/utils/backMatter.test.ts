@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest';
+import { collectGlossaryEntries, compareFrench, getEntryPageNumbers, getPageNumbersByLine } from './backMatter';
+import { LineData, LinkedPair, PageData } from '../types';
+import { tokenizeWords } from './wordTokens';
+
+const makeLine = (id: string, french: string, english: string): LineData => ({
+  id,
+  lineNumber: 1,
+  frenchText: french,
+  englishText: english,
+  frenchWords: tokenizeWords(french),
+  englishWords: tokenizeWords(english)
+});
+
+const pair = (line: LineData, fr: number[], en: number[]): LinkedPair => ({
+  id: `${line.id}-${fr.join('-')}`,
+  lineId: line.id,
+  sourceWordIds: fr.map(i => line.frenchWords![i].id),
+  targetWordIds: en.map(i => line.englishWords![i].id)
+});
+
+describe('compareFrench', () => {
+  it('should sort accents and ligatures as French dictionaries do', () => {
+    const words = ['oeuvre', 'été', 'œil', 'eté', 'ete', 'zèbre', 'école'];
+    expect([...words].sort(compareFrench)).toEqual(['école', 'ete', 'eté', 'été', 'œil', 'oeuvre', 'zèbre']);
+  });
+});
+
+describe('collectGlossaryEntries', () => {
+  it('should merge articles and plurals into one entry with page references', () => {
+    const first = makeLine('l1', "L'arbre est grand", 'The tree is tall');
+    const second = makeLine('l2', 'Les arbres sont verts', 'The trees are green');
+    const pages: PageData[] = [
+      { id: 'p1', lines: [first] },
+      { id: 'p2', lines: [second] }
+    ];
+    const linkedPairs = [pair(first, [0], [0, 1]), pair(second, [0, 1], [1])];
+
+    const entries = collectGlossaryEntries(pages, [], linkedPairs);
+    expect(entries).toHaveLength(1);
+    expect(entries[0].french).toBe('arbre');
+    expect(entries[0].english).toEqual(['The tree', 'trees']);
+
+    // References follow the lines, so moving a line to another page updates them
+    expect(getEntryPageNumbers(entries[0], getPageNumbersByLine(pages))).toEqual([1, 2]);
+    const reflowed: PageData[] = [{ id: 'p1', lines: [first, second] }];
+    expect(getEntryPageNumbers(entries[0], getPageNumbersByLine(reflowed))).toEqual([1]);
+  });
+});
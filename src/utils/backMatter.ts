@@ -0,0 +1,18 @@
+// Glossary and index are generated from the annotations at render time. Entries keep the
+// lines they come from, and page numbers are looked up from the current page order, so
+// references follow every reflow. The implementation is shared with the print document
+// behind the PDF.
+
+export type { GlossaryEntry, BackMatterPageKind, BackMatterPage } from '../../bookMatter.js';
+export {
+  toHeadword,
+  lemmaKey,
+  compareFrench,
+  indexLetter,
+  collectGlossaryEntries,
+  getPageNumbersByLine,
+  getEntryPageNumbers,
+  getEntryPageLabels,
+  getEntriesPerPage,
+  getBackMatterPages
+} from '../../bookMatter.js';
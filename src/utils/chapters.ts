@@ -0,0 +1,113 @@
+import type { BookStructure, Chapter, LineData, PageData } from '../types';
+
+// Chapters are contiguous runs of pages. `PageData.chapterId` is the source of truth for
+// membership; `Chapter.pageIds` is derived from it so it survives reflow and page edits.
+
+export const EMPTY_BOOK_STRUCTURE: BookStructure = {
+  frontMatter: {},
+  chapters: [],
+  backMatter: {}
+};
+
+/**
+ * Blank pages inserted so a chapter opens on a recto page
+ */
+export function isPaddingPage(page: PageData): boolean {
+  return !!page.isBlank && page.lines.length === 0;
+}
+
+export function getChapterForPage(page: PageData | undefined, chapters: Chapter[]): Chapter | undefined {
+  if (!page?.chapterId) return undefined;
+  return chapters.find(c => c.id === page.chapterId);
+}
+
+/**
+ * Consecutive runs of body entries that share a chapter, used to reflow each chapter
+ * separately so a chapter always starts on a fresh page
+ */
+export function splitBodyByChapter(pages: PageData[]): { chapterId?: string; lines: LineData[] }[] {
+  const runs: { chapterId?: string; lines: LineData[] }[] = [];
+  pages.forEach(page => {
+    if (isPaddingPage(page)) return;
+    const last = runs[runs.length - 1];
+    if (last && last.chapterId === page.chapterId) {
+      last.lines.push(...page.lines);
+    } else {
+      runs.push({ chapterId: page.chapterId, lines: [...page.lines] });
+    }
+  });
+  return runs;
+}
+
+/**
+ * Group pages by chapter, in chapter order. Unassigned pages before the first chapter stay
+ * at the front; other unassigned pages travel with the chapter they follow.
+ */
+function orderPagesByChapter(pages: PageData[], chapters: Chapter[]): PageData[] {
+  const known = new Set(chapters.map(c => c.id));
+  const front: PageData[] = [];
+  const blocks = new Map<string, PageData[]>(chapters.map(c => [c.id, []]));
+  let current: string | null = null;
+
+  pages.forEach(page => {
+    const chapterId = page.chapterId && known.has(page.chapterId) ? page.chapterId : undefined;
+    if (chapterId) current = chapterId;
+    const target = chapterId ?? current;
+    if (target) {
+      blocks.get(target)!.push(chapterId ? page : { ...page, chapterId: undefined });
+    } else {
+      front.push(chapterId ? page : { ...page, chapterId: undefined });
+    }
+  });
+
+  return [...front, ...chapters.flatMap(c => blocks.get(c.id)!)];
+}
+
+/**
+ * Insert blank pages so chapters flagged `startOnRecto` open on an odd page number
+ */
+function padRectoStarts(pages: PageData[], chapters: Chapter[]): PageData[] {
+  const result: PageData[] = [];
+  const started = new Set<string>();
+
+  pages.filter(p => !isPaddingPage(p)).forEach(page => {
+    const chapter = getChapterForPage(page, chapters);
+    if (chapter && !started.has(chapter.id)) {
+      started.add(chapter.id);
+      // Page numbers are 1-based, so an even index lands on a recto
+      if (chapter.startOnRecto && result.length % 2 === 1) {
+        const previous = result[result.length - 1];
+        result.push({
+          id: `blank-${page.id}`,
+          lines: [],
+          isBlank: true,
+          chapterId: previous?.chapterId
+        });
+      }
+    }
+    result.push(page);
+  });
+
+  return result;
+}
+
+/**
+ * Normalize pages and chapters after any structural change: pages are grouped in chapter
+ * order, recto padding is recomputed and `pageIds` is rebuilt from the pages
+ */
+export function layoutChapters(pages: PageData[], chapters: Chapter[]): { pages: PageData[]; chapters: Chapter[] } {
+  const laidOut = padRectoStarts(orderPagesByChapter(pages, chapters), chapters);
+  return {
+    pages: laidOut.length > 0 ? laidOut : pages,
+    chapters: chapters.map(c => ({
+      ...c,
+      pageIds: laidOut.filter(p => p.chapterId === c.id && !isPaddingPage(p)).map(p => p.id)
+    }))
+  };
+}
+
+/**
+ * Display line numbers. Numbering runs on across the pages of a chapter and restarts at
+ * each chapter (or at `lineNumberingStart`); pages outside chapters keep their own numbers.
+ */
+export { getDisplayLineNumbers } from '../../bodyNumbering.js';
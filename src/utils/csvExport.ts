@@ -0,0 +1,113 @@
+import Papa from 'papaparse';
+import type {
+  ArrowConnector,
+  Footnote,
+  LineData,
+  LinkedPair,
+  PageData,
+  SidebarCard,
+  SpanHighlight,
+  TextStyle,
+  WordData,
+  WordGroup
+} from '../types';
+import { isTextLine } from './pageBody';
+import { formatAudioClip } from './audioClips';
+import { ensureLineWords } from './wordTokens';
+
+// Annotated CSV/TSV export. Each text line is one row: its ID and text stay editable in a
+// spreadsheet, and everything attached to it is serialised as JSON in two extra columns —
+// the words with their IDs, and the line's annotations. Re-importing the file by line ID
+// (see csvImport.ts) restores the annotations, keeping those on words that were not edited.
+
+export type CsvDelimiter = ',' | '\t';
+
+export const ANNOTATED_CSV_COLUMNS = ['ID', 'French', 'English', 'Type', 'Note', 'Section', 'Audio', 'Audio Clip', 'Words', 'Annotations'];
+
+export interface LineWords {
+  french?: Pick<WordData, 'id' | 'text'>[];
+  english?: Pick<WordData, 'id' | 'text'>[];
+}
+
+/**
+ * Everything attached to one line. Arrows travel with the line of their first source group.
+ */
+export interface LineAnnotations {
+  wordGroups?: WordGroup[];
+  arrows?: ArrowConnector[];
+  linkedPairs?: LinkedPair[];
+  sidebars?: SidebarCard[];
+  highlights?: SpanHighlight[];
+  footnotes?: Footnote[];
+  frenchStyles?: TextStyle[];
+  englishStyles?: TextStyle[];
+  numbering?: Pick<LineData, 'manualLineNumber' | 'skipNumbering' | 'restartNumberingAt'>;
+}
+
+export interface AnnotatedProject {
+  pages: PageData[];
+  wordGroups: WordGroup[];
+  arrows: ArrowConnector[];
+  linkedPairs: LinkedPair[];
+  sidebars: SidebarCard[];
+  highlights: SpanHighlight[];
+  footnotes?: Footnote[];
+}
+
+// Empty lists and objects are left out to keep the cells short
+const isEmpty = (value: unknown): boolean =>
+  value === undefined ||
+  (Array.isArray(value) && value.length === 0) ||
+  (typeof value === 'object' && value !== null && !Array.isArray(value) && Object.values(value).every(isEmpty));
+
+function compact<T extends object>(value: T): Partial<T> {
+  return Object.fromEntries(Object.entries(value).filter(([, v]) => !isEmpty(v))) as Partial<T>;
+}
+
+/**
+ * The annotations of one line, as written to the Annotations column
+ */
+export function getLineAnnotations(line: LineData, project: AnnotatedProject): LineAnnotations {
+  const groupLines = new Map(project.wordGroups.map(g => [g.id, g.lineId]));
+  return compact({
+    wordGroups: project.wordGroups.filter(g => g.lineId === line.id),
+    arrows: project.arrows.filter(a => groupLines.get(a.sourceGroupIds[0]) === line.id),
+    linkedPairs: project.linkedPairs.filter(p => p.lineId === line.id),
+    sidebars: project.sidebars.filter(s => s.anchoredLineId === line.id),
+    highlights: project.highlights.filter(h => h.associatedLineId === line.id),
+    footnotes: (project.footnotes || []).filter(f => f.lineId === line.id),
+    frenchStyles: line.frenchStyles,
+    englishStyles: line.englishStyles,
+    numbering: compact({
+      manualLineNumber: line.manualLineNumber,
+      skipNumbering: line.skipNumbering,
+      restartNumberingAt: line.restartNumberingAt
+    })
+  });
+}
+
+/**
+ * Write every text line of the book as an annotated CSV (or TSV) row
+ */
+export function exportAnnotatedCsv(project: AnnotatedProject, delimiter: CsvDelimiter = ','): string {
+  const rows = project.pages.flatMap(p => p.lines).filter(isTextLine).map(l => {
+    const line = ensureLineWords(l);
+    const annotations = getLineAnnotations(line, project);
+    return [
+      line.id,
+      line.frenchText,
+      line.englishText,
+      line.type || '',
+      line.note || '',
+      line.sectionType || '',
+      line.audioUrl || '',
+      formatAudioClip(line),
+      JSON.stringify({
+        french: line.frenchWords!.map(({ id, text }) => ({ id, text })),
+        english: line.englishWords!.map(({ id, text }) => ({ id, text }))
+      } satisfies LineWords),
+      Object.keys(annotations).length > 0 ? JSON.stringify(annotations) : ''
+    ];
+  });
+  return Papa.unparse({ fields: ANNOTATED_CSV_COLUMNS, data: rows }, { delimiter, newline: '\n' });
+}
@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest';
+import type { LineData, PageData } from '../types';
+import { parseCsv, guessColumnMapping, planCsvImport } from './csvImport';
+import { exportAnnotatedCsv } from './csvExport';
+
+const line = (id: string, frenchText: string, englishText: string): LineData => ({ id, lineNumber: 1, frenchText, englishText });
+
+const pages: PageData[] = [
+  { id: 'p1', lines: [line('a', 'Bonjour.', 'Hello.'), line('b', 'Il pleut.', 'It rains.')] },
+  { id: 'p2', lines: [line('c', 'Au revoir.', 'Goodbye.')], chapterId: 'ch2' }
+];
+
+describe('parseCsv', () => {
+  it('should read headers, trim cells and guess the column mapping', () => {
+    const parsed = parseCsv('Line ID, lines-fr ,Anglais,Comments\n a ,Bonjour.,Hello.,\n\n');
+    expect(parsed.headers).toEqual(['Line ID', 'lines-fr', 'Anglais', 'Comments']);
+    expect(parsed.rows).toEqual([{ 'Line ID': 'a', 'lines-fr': 'Bonjour.', Anglais: 'Hello.', Comments: '' }]);
+    expect(guessColumnMapping(parsed.headers)).toEqual({ id: 'Line ID', french: 'lines-fr', english: 'Anglais', note: 'Comments' });
+  });
+});
+
+describe('planCsvImport', () => {
+  const mapping = { id: 'ID', french: 'French', english: 'English' };
+  const ids = (plan: ReturnType<typeof planCsvImport>) => plan.runs.map(r => r.lines.map(l => l.id));
+
+  it('should insert rows at a position in the chapter before them', () => {
+    const plan = planCsvImport(pages, [{ French: 'Merci.', English: 'Thanks.' }], mapping, { mode: 'append', position: 2, rangeStart: 0, rangeEnd: 0 });
+    expect(plan.report.added).toHaveLength(1);
+    expect(plan.runs.map(r => r.chapterId)).toEqual([undefined, 'ch2']);
+    expect(plan.runs[0].lines.map(l => l.frenchText)).toEqual(['Bonjour.', 'Il pleut.', 'Merci.']);
+    expect(plan.report.changed).toEqual([]);
+  });
+
+  it('should replace a range, keeping lines whose text is unchanged', () => {
+    const rows = [
+      { French: 'Salut.', English: 'Hi.' },
+      { French: 'Il pleut.', English: 'It rains.' }
+    ];
+    const plan = planCsvImport(pages, rows, mapping, { mode: 'replace', position: 0, rangeStart: 0, rangeEnd: 3 });
+    expect(ids(plan)[0].slice(0, 2)).toEqual(['a', 'b']);
+    expect(plan.report.changed.map(c => [c.before.frenchText, c.after.frenchText])).toEqual([['Bonjour.', 'Salut.']]);
+    expect(plan.report.unchanged).toBe(1);
+    expect(plan.report.dropped.map(l => l.id)).toEqual(['c']);
+    expect(plan.report.changed[0].after.id).toBe('a');
+    // The emptied chapter keeps a page
+    expect(plan.runs.map(r => [r.chapterId, r.lines.length])).toEqual([[undefined, 2], ['ch2', 0]]);
+  });
+
+  it('should update lines by ID and insert rows with unknown IDs', () => {
+    const rows = [
+      { ID: 'c', French: 'À bientôt.', English: 'See you soon.' },
+      { ID: 'a', French: 'Bonjour.', English: 'Hello.' },
+      { ID: 'new', French: 'Fin.', English: 'The end.' }
+    ];
+    const plan = planCsvImport(pages, rows, mapping, { mode: 'match', position: 3, rangeStart: 0, rangeEnd: 0, dropMissing: true });
+    expect(ids(plan)).toEqual([['a'], ['c', 'new']]);
+    expect(plan.report.changed.map(c => c.after.englishText)).toEqual(['See you soon.']);
+    expect(plan.report.dropped.map(l => l.id)).toEqual(['b']);
+    expect(plan.report.added.map(l => l.id)).toEqual(['new']);
+  });
+
+  it('should bring back audio clip times from an annotated export', () => {
+    const narrated: PageData[] = [{ id: 'p1', lines: [{ ...line('a', 'Bonjour.', 'Hello.'), audioUrl: 'ch1.mp3', audioClipBegin: 2.5, audioClipEnd: 4 }] }];
+    const csv = exportAnnotatedCsv({ pages: narrated, wordGroups: [], arrows: [], linkedPairs: [], sidebars: [], highlights: [] });
+    const parsed = parseCsv(csv);
+    const rows = [parsed.rows[0], { ...parsed.rows[0], ID: 'b', 'Audio Clip': '10-5' }];
+    const plan = planCsvImport(pages, rows, guessColumnMapping(parsed.headers), { mode: 'match', position: 0, rangeStart: 0, rangeEnd: 0 });
+
+    expect(plan.runs[0].lines.find(l => l.id === 'a')).toMatchObject({ audioClipBegin: 2.5, audioClipEnd: 4 });
+    expect(plan.runs[0].lines.find(l => l.id === 'b')!.audioClipBegin).toBeUndefined();
+    expect(plan.report.warnings).toEqual(['Row 3: the Audio Clip column is not a start-end time range and was skipped']);
+  });
+});
@@ -0,0 +1,417 @@
+import Papa from 'papaparse';
+import { v4 as uuidv4 } from 'uuid';
+import type { Language, LineData, PageData, SectionType, TextStyle } from '../types';
+import { isTextLine } from './pageBody';
+import { splitBodyByChapter } from './chapters';
+import { getLineWords, retokenizeWords } from './wordTokens';
+import { parseAudioClip, AudioClip } from './audioClips';
+import type { LineAnnotations, LineWords } from './csvExport';
+
+// CSV import planning for the import wizard. A CSV is parsed into rows, its columns are
+// mapped onto line fields, and the rows are merged into the body by one of three modes.
+// Lines whose French and English text are unchanged are kept as they are, so their word
+// groups, arrows, notes and links survive the import; edited lines keep the annotations on
+// the words that were not edited. Files written by the annotated export (csvExport.ts)
+// also bring back the annotations of their lines. The plan lists what was added, changed
+// and dropped before anything is applied.
+
+export type CsvField = 'french' | 'english' | 'type' | 'note' | 'id' | 'section' | 'audio' | 'clip' | 'words' | 'annotations';
+
+export type CsvColumnMapping = Partial<Record<CsvField, string>>; // Field → CSV header
+
+export type CsvMergeMode = 'append' | 'replace' | 'match';
+
+export interface CsvMergeOptions {
+  mode: CsvMergeMode;
+  position: number; // 'append' and new rows in 'match': insert before this text line (0-based)
+  rangeStart: number; // 'replace': first text line replaced (0-based)
+  rangeEnd: number; // 'replace': text line after the last one replaced
+  dropMissing?: boolean; // 'match': drop lines whose ID is not in the CSV
+}
+
+export interface ParsedCsv {
+  headers: string[];
+  rows: Record<string, string>[];
+  errors: string[];
+}
+
+export interface CsvLineChange {
+  before: LineData;
+  after: LineData;
+}
+
+export interface CsvImportReport {
+  added: LineData[];
+  changed: CsvLineChange[];
+  dropped: LineData[];
+  unchanged: number;
+  warnings: string[];
+}
+
+/**
+ * Annotations read from the Annotations column. They replace the annotations of `lineIds`.
+ */
+export type CsvImportAnnotations = Required<Pick<LineAnnotations, 'wordGroups' | 'arrows' | 'linkedPairs' | 'sidebars' | 'highlights' | 'footnotes'>> & {
+  lineIds: string[];
+};
+
+export interface CsvImportPlan {
+  runs: { chapterId?: string; lines: LineData[] }[];
+  annotations: CsvImportAnnotations;
+  report: CsvImportReport;
+}
+
+export const CSV_FIELDS: { field: CsvField; label: string }[] = [
+  { field: 'french', label: 'French' },
+  { field: 'english', label: 'English' },
+  { field: 'type', label: 'Type' },
+  { field: 'note', label: 'Note' },
+  { field: 'id', label: 'Line ID' },
+  { field: 'section', label: 'Section' },
+  { field: 'audio', label: 'Audio' },
+  { field: 'clip', label: 'Audio Clip' },
+  { field: 'words', label: 'Words' },
+  { field: 'annotations', label: 'Annotations' }
+];
+
+// Header names recognised for each field, lowercase
+const FIELD_ALIASES: Record<CsvField, string[]> = {
+  french: ['french', 'lines-fr', 'fr', 'français', 'francais', 'source'],
+  english: ['english', 'lines-en', 'en', 'anglais', 'translation', 'target'],
+  type: ['type'],
+  note: ['note', 'notes', 'comment', 'comments'],
+  id: ['id', 'line id', 'lineid', 'line-id'],
+  section: ['section', 'sectiontype', 'section type'],
+  audio: ['audio', 'audiourl', 'audio url'],
+  clip: ['audio clip', 'audioclip', 'clip'],
+  words: ['words'],
+  annotations: ['annotations']
+};
+
+/**
+ * Parse CSV or TSV text with a header row. Blank rows are skipped and cells are trimmed.
+ */
+export function parseCsv(text: string): ParsedCsv {
+  const result = Papa.parse<Record<string, string>>(text, {
+    header: true,
+    skipEmptyLines: 'greedy',
+    transformHeader: header => header.trim()
+  });
+  const headers = (result.meta.fields || []).filter(Boolean);
+  const rows = result.data.map(row =>
+    Object.fromEntries(headers.map(h => [h, typeof row[h] === 'string' ? row[h].trim() : '']))
+  );
+  return { headers, rows, errors: result.errors.map(e => `Row ${(e.row ?? 0) + 2}: ${e.message}`) };
+}
+
+/**
+ * Guess which header holds each field from its name
+ */
+export function guessColumnMapping(headers: string[]): CsvColumnMapping {
+  const mapping: CsvColumnMapping = {};
+  CSV_FIELDS.forEach(({ field }) => {
+    const header = headers.find(h => FIELD_ALIASES[field].includes(h.toLowerCase()));
+    if (header) mapping[field] = header;
+  });
+  return mapping;
+}
+
+const sameText = (a: string, b: string) => a.replace(/\s+/g, ' ').trim() === b.replace(/\s+/g, ' ').trim();
+const sameLineText = (line: LineData, row: CsvRow) => sameText(line.frenchText, row.french) && sameText(line.englishText, row.english);
+
+interface CsvRow {
+  french: string;
+  english: string;
+  type?: string;
+  note?: string;
+  id?: string;
+  section?: string;
+  audio?: string;
+  clip?: AudioClip;
+  words?: LineWords;
+  annotations?: LineAnnotations;
+}
+
+interface BodyEntry {
+  line: LineData;
+  chapterId?: string;
+}
+
+// A line built from a row that carries annotations. `wordIds` maps the exported word IDs
+// to the line's, and `fresh` lines get new IDs for everything so copies never collide.
+interface AnnotatedLine {
+  lineId: string;
+  annotations: LineAnnotations;
+  wordIds: Map<string, string>;
+  fresh: boolean;
+}
+
+function readRows(rows: Record<string, string>[], mapping: CsvColumnMapping, warnings: string[]): CsvRow[] {
+  const cell = (row: Record<string, string>, field: CsvField) => (mapping[field] ? row[mapping[field]!] ?? '' : undefined);
+  const json = <T,>(row: Record<string, string>, field: CsvField, index: number): T | undefined => {
+    const text = cell(row, field);
+    if (!text) return undefined;
+    try {
+      return JSON.parse(text) as T;
+    } catch {
+      warnings.push(`Row ${index + 2}: the ${mapping[field]} column is not valid JSON and was skipped`);
+      return undefined;
+    }
+  };
+  const clip = (row: Record<string, string>, index: number): AudioClip | undefined => {
+    const text = cell(row, 'clip');
+    if (text === undefined) return undefined;
+    const parsed = parseAudioClip(text);
+    if (!parsed) warnings.push(`Row ${index + 2}: the ${mapping.clip} column is not a start-end time range and was skipped`);
+    return parsed ?? undefined;
+  };
+  return rows
+    .map((row, index) => ({
+      french: cell(row, 'french') ?? '',
+      english: cell(row, 'english') ?? '',
+      type: cell(row, 'type'),
+      note: cell(row, 'note'),
+      id: cell(row, 'id') || undefined,
+      section: cell(row, 'section'),
+      audio: cell(row, 'audio'),
+      clip: clip(row, index),
+      words: json<LineWords>(row, 'words', index),
+      annotations: json<LineAnnotations>(row, 'annotations', index)
+    }))
+    .filter(row => row.french || row.english);
+}
+
+// Mapped columns win; unmapped ones leave the line's own values alone
+function withMeta(line: LineData, row: CsvRow): LineData {
+  return {
+    ...line,
+    ...(row.type !== undefined ? { type: row.type } : {}),
+    ...(row.note !== undefined ? { note: row.note } : {}),
+    ...(row.section !== undefined ? { sectionType: (row.section || undefined) as SectionType | undefined } : {}),
+    ...(row.audio !== undefined ? { audioUrl: row.audio || undefined } : {}),
+    ...(row.clip ? { audioClipBegin: row.clip.begin, audioClipEnd: row.clip.end } : {})
+  };
+}
+
+/**
+ * Build the line a row imports as: `base` is the existing line it updates, if any, and `id`
+ * the ID of the resulting line. Unchanged text keeps its words; edited text is re-tokenized
+ * so words that survived the edit keep their IDs. A row's Words and Annotations columns are
+ * used when they belong to this line (same ID) or when the line is new.
+ */
+function buildLine(row: CsvRow, base: LineData | undefined, id: string, annotated: AnnotatedLine[]): LineData {
+  const own = row.id === id;
+  const fresh = !base && !own;
+  const exported = own || fresh;
+  const wordIds = new Map<string, string>();
+
+  const words = (language: Language) => {
+    const text = language === 'french' ? row.french : row.english;
+    const current = base && getLineWords(base, language);
+    if (base && current && sameText(language === 'french' ? base.frenchText : base.englishText, text)) return current;
+    const previous = exported && row.words?.[language] ? row.words[language]!.map((w, index) => ({ ...w, index })) : current;
+    const next = retokenizeWords(previous, text);
+    if (!fresh) return next;
+    return next.map(w => {
+      const newId = uuidv4();
+      wordIds.set(w.id, newId);
+      return { ...w, id: newId };
+    });
+  };
+  const frenchWords = words('french');
+  const englishWords = words('english');
+
+  const annotations = exported ? row.annotations : undefined;
+  const styles = (list: TextStyle[] | undefined, live: { id: string }[]) =>
+    list?.map(s => ({ ...s, wordId: wordIds.get(s.wordId) ?? s.wordId })).filter(s => live.some(w => w.id === s.wordId));
+
+  const line = withMeta({
+    ...base,
+    ...annotations?.numbering,
+    id,
+    lineNumber: base?.lineNumber ?? 0,
+    frenchText: row.french,
+    englishText: row.english,
+    frenchWords,
+    englishWords,
+    frenchStyles: styles(annotations?.frenchStyles ?? base?.frenchStyles, frenchWords),
+    englishStyles: styles(annotations?.englishStyles ?? base?.englishStyles, englishWords)
+  }, row);
+
+  if (annotations) annotated.push({ lineId: id, annotations, wordIds, fresh });
+  return line;
+}
+
+/**
+ * Gather the annotations of annotated rows, pointed at the lines and words they import as
+ */
+function collectAnnotations(annotated: AnnotatedLine[]): CsvImportAnnotations {
+  const groupIds = new Map<string, string>();
+  annotated.forEach(({ annotations, fresh }) => {
+    annotations.wordGroups?.forEach(g => groupIds.set(g.id, fresh ? uuidv4() : g.id));
+  });
+  const group = (id: string) => groupIds.get(id) ?? id;
+
+  const result: CsvImportAnnotations = { lineIds: [], wordGroups: [], arrows: [], linkedPairs: [], sidebars: [], highlights: [], footnotes: [] };
+  annotated.forEach(({ lineId, annotations: a, wordIds, fresh }) => {
+    const word = (id: string) => wordIds.get(id) ?? id;
+    const newId = (id: string) => (fresh ? uuidv4() : id);
+    result.lineIds.push(lineId);
+    result.wordGroups.push(...(a.wordGroups || []).map(g => ({ ...g, id: group(g.id), lineId, wordIds: g.wordIds.map(word) })));
+    result.arrows.push(...(a.arrows || []).map(arrow => ({
+      ...arrow,
+      id: newId(arrow.id),
+      sourceGroupIds: arrow.sourceGroupIds.map(group),
+      targetGroupIds: arrow.targetGroupIds.map(group)
+    })));
+    result.linkedPairs.push(...(a.linkedPairs || []).map(p => ({
+      ...p,
+      id: newId(p.id),
+      lineId,
+      sourceWordIds: p.sourceWordIds.map(word),
+      targetWordIds: p.targetWordIds.map(word)
+    })));
+    result.sidebars.push(...(a.sidebars || []).map(c => ({ ...c, id: newId(c.id), anchoredLineId: lineId })));
+    result.highlights.push(...(a.highlights || []).map(h => ({
+      ...h,
+      id: newId(h.id),
+      associatedLineId: lineId,
+      frenchWordIds: h.frenchWordIds.map(word),
+      englishWordIds: h.englishWordIds.map(word)
+    })));
+    result.footnotes.push(...(a.footnotes || []).map(f => ({ ...f, id: newId(f.id), lineId, wordId: word(f.wordId) })));
+  });
+  return result;
+}
+
+/**
+ * Plan how CSV rows merge into the body.
+ * - append: rows are inserted before text line `position`.
+ * - replace: text lines `rangeStart`–`rangeEnd` are replaced by the rows. Rows whose text
+ *   matches a line of the range keep that line; other rows take the place of the line at
+ *   the same position. Content blocks inside the range are kept after the new rows.
+ * - match: rows whose ID names a body line update that line in place; other rows are
+ *   inserted before text line `position`.
+ */
+export function planCsvImport(
+  pages: PageData[],
+  rows: Record<string, string>[],
+  mapping: CsvColumnMapping,
+  options: CsvMergeOptions
+): CsvImportPlan {
+  const entries: BodyEntry[] = splitBodyByChapter(pages).flatMap(({ chapterId, lines }) =>
+    lines.map(line => ({ line, chapterId }))
+  );
+  const report: CsvImportReport = { added: [], changed: [], dropped: [], unchanged: 0, warnings: [] };
+  const csvRows = readRows(rows, mapping, report.warnings);
+  const annotated: AnnotatedLine[] = [];
+
+  // Entry index of text line `n`, or the end of the body past the last one
+  const textIndexes = entries.flatMap((e, i) => (isTextLine(e.line) ? [i] : []));
+  const entryIndexOf = (n: number) => (n < textIndexes.length ? textIndexes[Math.max(0, n)] : entries.length);
+  // New lines join the chapter of the line before them, or the first chapter at the start
+  const chapterAt = (index: number) => (entries[index - 1] ?? entries[index])?.chapterId;
+
+  const insertAt = (index: number, lines: LineData[]) => {
+    const chapterId = chapterAt(index);
+    entries.splice(index, 0, ...lines.map(line => ({ line, chapterId })));
+  };
+
+  if (options.mode === 'append') {
+    const lines = csvRows.map(row => buildLine(row, undefined, uuidv4(), annotated));
+    report.added.push(...lines);
+    insertAt(entryIndexOf(options.position), lines);
+  } else if (options.mode === 'replace') {
+    const start = entryIndexOf(options.rangeStart);
+    const end = options.rangeEnd > options.rangeStart ? Math.min(entries.length, entryIndexOf(options.rangeEnd - 1) + 1) : start;
+    const range = entries.slice(start, end);
+    const rangeLines = range.filter(e => isTextLine(e.line)).map(e => e.line);
+    const used = new Set<string>();
+
+    // Unchanged rows first, so a row inserted mid-range does not shift every match after it
+    const kept = csvRows.map(row => {
+      const line = rangeLines.find(l => !used.has(l.id) && sameLineText(l, row));
+      if (line) used.add(line.id);
+      return line;
+    });
+    const lines = csvRows.map((row, k) => {
+      if (kept[k]) {
+        report.unchanged++;
+        return buildLine(row, kept[k], kept[k]!.id, annotated);
+      }
+      const counterpart = rangeLines[k];
+      if (counterpart && !used.has(counterpart.id)) {
+        used.add(counterpart.id);
+        const after = buildLine(row, counterpart, counterpart.id, annotated);
+        report.changed.push({ before: counterpart, after });
+        return after;
+      }
+      const line = buildLine(row, undefined, uuidv4(), annotated);
+      report.added.push(line);
+      return line;
+    });
+    report.dropped.push(...rangeLines.filter(l => !used.has(l.id)));
+
+    const chapterId = range[0]?.chapterId ?? chapterAt(start);
+    entries.splice(start, end - start,
+      ...lines.map(line => ({ line, chapterId })),
+      ...range.filter(e => !isTextLine(e.line))
+    );
+  } else {
+    const byId = new Map(entries.map((e, i) => [e.line.id, i]));
+    const seen = new Set<string>();
+    const added: LineData[] = [];
+
+    csvRows.forEach(row => {
+      const index = row.id !== undefined ? byId.get(row.id) : undefined;
+      if (index === undefined || seen.has(row.id!) || !isTextLine(entries[index].line)) {
+        // Unknown IDs are kept so a later import can match the same rows again
+        const id = row.id && !byId.has(row.id) && !seen.has(row.id) ? row.id : uuidv4();
+        const line = buildLine(row, undefined, id, annotated);
+        seen.add(line.id);
+        added.push(line);
+        return;
+      }
+      seen.add(row.id!);
+      const before = entries[index].line;
+      if (sameLineText(before, row)) {
+        report.unchanged++;
+        entries[index] = { ...entries[index], line: buildLine(row, before, before.id, annotated) };
+      } else {
+        const after = buildLine(row, before, before.id, annotated);
+        report.changed.push({ before, after });
+        entries[index] = { ...entries[index], line: after };
+      }
+    });
+
+    if (options.dropMissing) {
+      const missing = entries.filter(e => isTextLine(e.line) && !seen.has(e.line.id));
+      report.dropped.push(...missing.map(e => e.line));
+      const position = entryIndexOf(options.position);
+      const before = entries.slice(0, position).filter(e => !missing.includes(e)).length;
+      entries.splice(0, entries.length, ...entries.filter(e => !missing.includes(e)));
+      report.added.push(...added);
+      insertAt(before, added);
+    } else {
+      report.added.push(...added);
+      insertAt(entryIndexOf(options.position), added);
+    }
+  }
+
+  const runs: CsvImportPlan['runs'] = [];
+  entries.forEach(({ line, chapterId }) => {
+    const last = runs[runs.length - 1];
+    if (last && last.chapterId === chapterId) last.lines.push(line);
+    else runs.push({ chapterId, lines: [line] });
+  });
+  // Chapters left without lines keep an empty page
+  splitBodyByChapter(pages).forEach(({ chapterId }) => {
+    if (chapterId && !runs.some(r => r.chapterId === chapterId)) runs.push({ chapterId, lines: [] });
+  });
+
+  return {
+    runs,
+    annotations: collectAnnotations(annotated),
+    report
+  };
+}
@@ -0,0 +1,36 @@
+import { describe, it, expect } from 'vitest';
+import { pairDocuments, blocksToLines, DocumentBlock } from './documentImport';
+
+describe('pairDocuments', () => {
+  it('should pair paragraphs section by section and keep images in place', () => {
+    const french: DocumentBlock[] = [
+      { kind: 'text', text: 'Chapitre 1', sectionType: 'title' },
+      { kind: 'text', text: 'Il pleut.' },
+      { kind: 'image', src: '/assets/pluie.png', alt: 'Pluie' },
+      { kind: 'text', text: 'Paragraphe en trop.' },
+      { kind: 'text', text: 'Chapitre 2', sectionType: 'title' },
+      { kind: 'text', text: 'Fin.' }
+    ];
+    const english: DocumentBlock[] = [
+      { kind: 'text', text: 'Chapter 1', sectionType: 'title' },
+      { kind: 'text', text: 'It is raining.' },
+      { kind: 'text', text: 'Chapter 2', sectionType: 'title' },
+      { kind: 'text', text: 'The end.' }
+    ];
+
+    const blocks = pairDocuments(french, english);
+    expect(blocks.map(b => (b.kind === 'pair' ? `${b.french} | ${b.english}` : b.kind))).toEqual([
+      'Chapitre 1 | Chapter 1',
+      'Il pleut. | It is raining.',
+      'image',
+      'Paragraphe en trop. | ',
+      'Chapitre 2 | Chapter 2',
+      'Fin. | The end.'
+    ]);
+
+    let id = 0;
+    const lines = blocksToLines(blocks, () => `l${++id}`);
+    expect(lines[0]).toMatchObject({ frenchText: 'Chapitre 1', sectionType: 'title' });
+    expect(lines[2].contentData).toMatchObject({ type: 'image', src: '/assets/pluie.png', alt: 'Pluie' });
+  });
+});
@@ -0,0 +1,321 @@
+import JSZip from 'jszip';
+import type { ImageContent, LineData, SectionType } from '../types';
+import { tokenizeWords } from './wordTokens';
+import { lineFromContent } from './pageBody';
+import { parseSubtitles, pairCuesByTime, SubtitleCue } from './subtitleImport';
+
+// File import for bilingual books. EPUB and DOCX files are read into a flat list of blocks
+// (headings, paragraphs, list items and images), TMX translation memories and two-column
+// DOCX tables are bilingual on their own, and subtitle tracks are paired by time. A French
+// and an English file are then paired section by section into body lines. Images are
+// handed to `saveImage`, which stores them as assets and returns their URL.
+
+export type ImportFormat = 'epub' | 'docx' | 'srt' | 'vtt' | 'tmx';
+
+export const IMPORT_FILE_TYPES = '.epub,.docx,.srt,.vtt,.tmx';
+
+export type DocumentBlock =
+  | { kind: 'text'; text: string; sectionType?: SectionType }
+  | { kind: 'pair'; french: string; english: string; sectionType?: SectionType }
+  | { kind: 'image'; src: string; alt: string };
+
+export interface ImportedFile {
+  format: ImportFormat;
+  blocks: DocumentBlock[];
+  bilingual: boolean; // Holds French/English pairs on its own
+  cues?: SubtitleCue[]; // Subtitle files, paired by time rather than by order
+}
+
+export type SaveImage = (data: Blob, name: string) => Promise<string>;
+
+const IMAGE_TYPES: Record<string, string> = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  svg: 'image/svg+xml'
+};
+
+const isHeading = (block: DocumentBlock) => block.kind !== 'image' && (block.sectionType === 'title' || block.sectionType === 'heading');
+const cleanText = (text: string) => text.replace(/\s+/g, ' ').trim();
+
+export function getImportFormat(fileName: string): ImportFormat | undefined {
+  const extension = fileName.split('.').pop()?.toLowerCase();
+  return extension === 'epub' || extension === 'docx' || extension === 'srt' || extension === 'vtt' || extension === 'tmx'
+    ? extension
+    : undefined;
+}
+
+function parseXml(text: string, type: DOMParserSupportedType = 'application/xml'): Document {
+  const doc = new DOMParser().parseFromString(text, type);
+  // Chapters that are not well-formed XML (e.g. HTML entities like &nbsp;) still read as HTML
+  if (type === 'application/xhtml+xml' && doc.getElementsByTagName('parsererror').length > 0) {
+    return new DOMParser().parseFromString(text, 'text/html');
+  }
+  return doc;
+}
+
+// Resolve a path inside the archive relative to the file that references it
+function resolvePath(base: string, href: string): string {
+  const parts = base.split('/').slice(0, -1);
+  decodeURIComponent(href.split('#')[0]).split('/').forEach(part => {
+    if (part === '..') parts.pop();
+    else if (part && part !== '.') parts.push(part);
+  });
+  return parts.join('/');
+}
+
+async function readImage(zip: JSZip, path: string, saveImage: SaveImage): Promise<string | undefined> {
+  const entry = zip.file(path);
+  const name = path.split('/').pop() || 'image';
+  const type = IMAGE_TYPES[name.split('.').pop()?.toLowerCase() || ''];
+  if (!entry || !type) return undefined;
+  try {
+    return await saveImage(new Blob([await entry.async('arraybuffer')], { type }), name);
+  } catch (err) {
+    console.error(`Failed to import image ${path}:`, err);
+    return undefined;
+  }
+}
+
+// ─── EPUB ─────────────────────────────────────────────────
+
+/**
+ * Read the chapters of an EPUB in spine order
+ */
+async function readEpub(data: ArrayBuffer, saveImage: SaveImage): Promise<DocumentBlock[]> {
+  const zip = await JSZip.loadAsync(data);
+  const container = parseXml(await zip.file('META-INF/container.xml')!.async('string'));
+  const opfPath = container.getElementsByTagName('rootfile')[0]?.getAttribute('full-path');
+  if (!opfPath || !zip.file(opfPath)) throw new Error('EPUB has no package document');
+
+  const opf = parseXml(await zip.file(opfPath)!.async('string'));
+  const manifest = new Map(Array.from(opf.getElementsByTagName('item')).map(item => [item.getAttribute('id'), item.getAttribute('href') || '']));
+  const chapters = Array.from(opf.getElementsByTagName('itemref'))
+    .map(ref => manifest.get(ref.getAttribute('idref')))
+    .filter((href): href is string => !!href)
+    .map(href => resolvePath(opfPath, href));
+
+  const blocks: DocumentBlock[] = [];
+  for (const path of chapters) {
+    const file = zip.file(path);
+    if (!file) continue;
+    const doc = parseXml(await file.async('string'), 'application/xhtml+xml');
+    const body = doc.getElementsByTagName('body')[0];
+    if (!body) continue;
+
+    for (const element of Array.from(body.querySelectorAll('h1, h2, h3, h4, h5, h6, p, li, img, image'))) {
+      const tag = element.localName.toLowerCase();
+      if (tag === 'img' || tag === 'image') {
+        const href = element.getAttribute('src') || element.getAttribute('xlink:href') || element.getAttribute('href');
+        const src = href ? await readImage(zip, resolvePath(path, href), saveImage) : undefined;
+        if (src) blocks.push({ kind: 'image', src, alt: element.getAttribute('alt') || '' });
+        continue;
+      }
+      // Paragraphs inside list items are read with their item
+      if (tag === 'p' && element.closest('li')) continue;
+      const text = cleanText(element.textContent || '');
+      if (!text) continue;
+      const sectionType: SectionType | undefined = tag === 'h1' ? 'title' : tag.startsWith('h') ? 'heading' : tag === 'li' ? 'list' : undefined;
+      blocks.push({ kind: 'text', text, sectionType });
+    }
+  }
+  return blocks;
+}
+
+// ─── DOCX ─────────────────────────────────────────────────
+
+const DOCX_HEADING = /^(heading|titre|berschrift)\s*(\d)$/i;
+
+function docxText(element: Element): string {
+  let text = '';
+  Array.from(element.getElementsByTagName('*')).forEach(node => {
+    if (node.tagName === 'w:t') text += node.textContent || '';
+    else if (node.tagName === 'w:tab' || node.tagName === 'w:br' || node.tagName === 'w:p') text += ' ';
+  });
+  return cleanText(text);
+}
+
+function docxSectionType(paragraph: Element): SectionType | undefined {
+  const style = paragraph.getElementsByTagName('w:pStyle')[0]?.getAttribute('w:val') || '';
+  if (/^(title|titre)$/i.test(style)) return 'title';
+  const heading = style.replace(/\s+/g, '').match(DOCX_HEADING);
+  if (heading) return heading[2] === '1' ? 'title' : 'heading';
+  if (paragraph.getElementsByTagName('w:numPr').length > 0 || /^list/i.test(style)) return 'list';
+  return undefined;
+}
+
+/**
+ * Read the paragraphs, images and tables of a Word document. Rows of two-column tables
+ * become French/English pairs.
+ */
+async function readDocx(data: ArrayBuffer, saveImage: SaveImage): Promise<DocumentBlock[]> {
+  const zip = await JSZip.loadAsync(data);
+  const documentFile = zip.file('word/document.xml');
+  if (!documentFile) throw new Error('Not a Word document');
+  const doc = parseXml(await documentFile.async('string'));
+  const relsFile = zip.file('word/_rels/document.xml.rels');
+  const rels = relsFile ? parseXml(await relsFile.async('string')) : null;
+  const targets = new Map(Array.from(rels?.getElementsByTagName('Relationship') || []).map(r => [r.getAttribute('Id'), r.getAttribute('Target') || '']));
+
+  const body = doc.getElementsByTagName('w:body')[0];
+  const blocks: DocumentBlock[] = [];
+  if (!body) return blocks;
+
+  for (const element of Array.from(body.children)) {
+    if (element.tagName === 'w:tbl') {
+      const rows = Array.from(element.getElementsByTagName('w:tr'));
+      const twoColumns = rows.every(row => Array.from(row.children).filter(c => c.tagName === 'w:tc').length === 2);
+      rows.forEach(row => {
+        const cells = Array.from(row.children).filter(c => c.tagName === 'w:tc').map(docxText);
+        if (twoColumns) {
+          if (cells[0] || cells[1]) blocks.push({ kind: 'pair', french: cells[0], english: cells[1] });
+        } else {
+          cells.filter(Boolean).forEach(text => blocks.push({ kind: 'text', text }));
+        }
+      });
+      continue;
+    }
+    if (element.tagName !== 'w:p') continue;
+
+    for (const blip of Array.from(element.getElementsByTagName('a:blip'))) {
+      const target = targets.get(blip.getAttribute('r:embed'));
+      const src = target ? await readImage(zip, resolvePath('word/document.xml', target), saveImage) : undefined;
+      const alt = element.getElementsByTagName('wp:docPr')[0]?.getAttribute('descr') || '';
+      if (src) blocks.push({ kind: 'image', src, alt });
+    }
+    const text = docxText(element);
+    if (text) blocks.push({ kind: 'text', text, sectionType: docxSectionType(element) });
+  }
+  return blocks;
+}
+
+// ─── TMX ──────────────────────────────────────────────────
+
+/**
+ * Read the French/English segments of each translation unit
+ */
+function readTmx(text: string): DocumentBlock[] {
+  const doc = parseXml(text);
+  const blocks: DocumentBlock[] = [];
+  Array.from(doc.getElementsByTagName('tu')).forEach(tu => {
+    const segments = Array.from(tu.getElementsByTagName('tuv')).map(tuv => ({
+      lang: (tuv.getAttribute('xml:lang') || tuv.getAttribute('lang') || '').toLowerCase(),
+      text: cleanText(tuv.getElementsByTagName('seg')[0]?.textContent || '')
+    }));
+    const french = segments.find(s => s.lang.startsWith('fr')) ?? segments[0];
+    const english = segments.find(s => s.lang.startsWith('en')) ?? segments.find(s => s !== french);
+    if (french?.text || english?.text) {
+      blocks.push({ kind: 'pair', french: french?.text || '', english: english?.text || '' });
+    }
+  });
+  return blocks;
+}
+
+/**
+ * Read an import file into blocks
+ */
+export async function readImportFile(file: File, saveImage: SaveImage): Promise<ImportedFile> {
+  const format = getImportFormat(file.name);
+  if (!format) throw new Error(`Unsupported file type: ${file.name}`);
+
+  if (format === 'epub') return { format, blocks: await readEpub(await file.arrayBuffer(), saveImage), bilingual: false };
+  if (format === 'tmx') return { format, blocks: readTmx(await file.text()), bilingual: true };
+  if (format === 'srt' || format === 'vtt') {
+    const cues = parseSubtitles(await file.text());
+    return { format, blocks: cues.map(c => ({ kind: 'text', text: c.text })), bilingual: false, cues };
+  }
+  const blocks = await readDocx(await file.arrayBuffer(), saveImage);
+  return { format, blocks, bilingual: blocks.some(b => b.kind === 'pair') };
+}
+
+// ─── PAIRING ──────────────────────────────────────────────
+
+// Split a document at its headings, so one missing paragraph only shifts its own section
+function splitSections(blocks: DocumentBlock[]): DocumentBlock[][] {
+  const sections: DocumentBlock[][] = [[]];
+  blocks.forEach(block => {
+    if (isHeading(block) && sections[sections.length - 1].length > 0) sections.push([]);
+    sections[sections.length - 1].push(block);
+  });
+  return sections;
+}
+
+/**
+ * Pair a French and an English document: sections (split at headings) are matched in order,
+ * and their paragraphs by position. Images come from the French document, or from the
+ * English one when the French has none, and keep their place among its paragraphs.
+ */
+export function pairDocuments(french: DocumentBlock[], english: DocumentBlock[]): DocumentBlock[] {
+  const imagesFromFrench = french.some(b => b.kind === 'image');
+  const frSections = splitSections(french);
+  const enSections = splitSections(english);
+  const textOf = (block: DocumentBlock | undefined) => (block?.kind === 'text' ? block : undefined);
+  const result: DocumentBlock[] = [];
+
+  for (let s = 0; s < Math.max(frSections.length, enSections.length); s++) {
+    const fr = (frSections[s] || []).filter(b => b.kind === 'text');
+    const en = (enSections[s] || []).filter(b => b.kind === 'text');
+
+    // Images by the number of paragraphs before them
+    const imagesBefore = new Map<number, DocumentBlock[]>();
+    let paragraphs = 0;
+    ((imagesFromFrench ? frSections[s] : enSections[s]) || []).forEach(block => {
+      if (block.kind === 'image') imagesBefore.set(paragraphs, [...(imagesBefore.get(paragraphs) || []), block]);
+      else paragraphs++;
+    });
+
+    const count = Math.max(fr.length, en.length);
+    for (let i = 0; i <= count; i++) {
+      result.push(...(imagesBefore.get(i) || []));
+      if (i === count) break;
+      const frBlock = textOf(fr[i]);
+      const enBlock = textOf(en[i]);
+      result.push({
+        kind: 'pair',
+        french: frBlock?.text || '',
+        english: enBlock?.text || '',
+        sectionType: frBlock?.sectionType ?? enBlock?.sectionType
+      });
+    }
+  }
+  return result;
+}
+
+/**
+ * Pair imported files into bilingual blocks. A bilingual file (TMX, two-column DOCX) is
+ * used on its own; two subtitle tracks are paired by time; anything else by document order.
+ */
+export function combineImports(french?: ImportedFile, english?: ImportedFile): DocumentBlock[] {
+  const single = [french, english].find(f => f?.bilingual);
+  if (single) {
+    return single.blocks.map(b => (b.kind === 'text' ? { kind: 'pair', french: b.text, english: '', sectionType: b.sectionType } : b));
+  }
+  if (french?.cues && english?.cues) {
+    return pairCuesByTime(french.cues, english.cues).map(p => ({ kind: 'pair', french: p.french, english: p.english }));
+  }
+  return pairDocuments(french?.blocks || [], english?.blocks || []);
+}
+
+/**
+ * Turn paired blocks into body lines; images become image content blocks
+ */
+export function blocksToLines(blocks: DocumentBlock[], newId: () => string): LineData[] {
+  return blocks.flatMap((block, index): LineData[] => {
+    if (block.kind === 'image') {
+      const image: ImageContent = { id: newId(), type: 'image', src: block.src, alt: block.alt, alignment: 'center', width: '80%' };
+      return [lineFromContent(image, index + 1)];
+    }
+    if (block.kind === 'text') return [];
+    return [{
+      id: newId(),
+      lineNumber: index + 1,
+      frenchText: block.french,
+      englishText: block.english,
+      frenchWords: tokenizeWords(block.french),
+      englishWords: tokenizeWords(block.english),
+      ...(block.sectionType ? { sectionType: block.sectionType } : {})
+    }];
+  });
+}
@@ -0,0 +1,96 @@
+import { describe, it, expect } from 'vitest';
+import { buildEpubFiles, EpubProject } from './epubExport';
+import { ColorPalette, PageData, ThemeConfig } from '../types';
+
+const palette = {
+  id: 'p',
+  name: 'Palette',
+  colors: {
+    subject: '#3b82f6', verb: '#ef4444', complement: '#22c55e', article: '#a855f7', adjective: '#f59e0b', adverb: '#14b8a6',
+    text: '#1f2937', grammar: '#fef3c7', spoken: '#dcfce7', history: '#dbeafe', falseFriend: '#fce7f3', pronunciation: '#f3e8ff',
+    vocab: '#e0f2fe', custom: []
+  }
+} as ColorPalette;
+
+const pages: PageData[] = [
+  { id: 'p1', pageNumber: 1, chapterId: 'c1', lines: [{
+    id: 'l1', frenchText: 'Le chat dort.', englishText: 'The cat sleeps.', lineNumber: 1,
+    frenchWords: [{ id: 'w-le', text: 'Le', index: 0 }, { id: 'w-chat', text: 'chat', index: 1 }, { id: 'w-dort', text: 'dort', index: 2 }]
+  }] },
+  { id: 'p2', pageNumber: 2, chapterId: 'c2', lines: [{ id: 'l2', frenchText: 'Il pleut & il vente.', englishText: 'It rains.', lineNumber: 1 }] }
+];
+
+const project: EpubProject = {
+  metadata: { title: 'Contes', author: 'A. Auteur', difficultyLevel: 'A2', year: 2024, isbn: '978-2-07-036822-8', language: 'fr', publisher: 'Éditions Test' },
+  pages,
+  wordGroups: [{ id: 'g1', wordIds: ['w-le'], lineId: 'l1', language: 'french', type: 'subject', color: '#3b82f6' }],
+  sidebars: [{ id: 's1', type: 'grammar', content: 'Le présent', anchoredLineId: 'l1' }],
+  theme: {} as ThemeConfig,
+  palette,
+  bookStructure: {
+    frontMatter: {},
+    chapters: [{ id: 'c2', title: 'Deux', pageIds: [] }, { id: 'c1', title: 'Un', pageIds: [] }, { id: 'c3', title: 'Vide', pageIds: [] }],
+    backMatter: {}
+  }
+};
+
+const files = (p: EpubProject, audio = new Map()) =>
+  buildEpubFiles(p, { images: new Map(), audio, fonts: [] }, { modified: new Date('2024-05-01T10:00:00Z') });
+
+const fileContent = (path: string) => files(project).find(f => f.path === path)!.content;
+
+describe('buildEpubFiles', () => {
+  it('should fill the package metadata and spine from the project', () => {
+    const opf = fileContent('OEBPS/content.opf');
+
+    expect(opf).toContain('<dc:identifier id="book-id">urn:isbn:9782070368228</dc:identifier>');
+    expect(opf).toContain('<dc:language>fr</dc:language>');
+    expect(opf).toContain('<dc:publisher>Éditions Test</dc:publisher>');
+    expect(opf).toContain('<meta property="dcterms:modified">2024-05-01T10:00:00Z</meta>');
+    expect(opf.indexOf('idref="title-page"')).toBeLessThan(opf.indexOf('idref="chapter-1"'));
+  });
+
+  it('should identify a book without an ISBN by its book ID on every export', () => {
+    const withoutIsbn = { ...project, metadata: { ...project.metadata, isbn: undefined, bookId: '0b6f5c1e-3f0a-4c47-9a0e-2f1d8e7c6b5a' } };
+    const identifier = () => files(withoutIsbn).find(f => f.path === 'OEBPS/content.opf')!.content.match(/<dc:identifier[^>]*>(.*?)</)![1];
+
+    expect(identifier()).toBe('urn:uuid:0b6f5c1e-3f0a-4c47-9a0e-2f1d8e7c6b5a');
+    expect(identifier()).toBe(identifier());
+  });
+
+  it('should list chapters in chapter order and keep word groups and sidebar cards', () => {
+    const nav = fileContent('OEBPS/nav.xhtml');
+    // Chapters follow the book structure; the one without pages is left out
+    expect(nav.indexOf('>Deux<')).toBeLessThan(nav.indexOf('>Un<'));
+    expect(nav).not.toContain('Vide');
+
+    const chapter = fileContent('OEBPS/text/chapter-1.xhtml');
+    expect(chapter).toContain('<span class="word-group subject">Le</span>');
+    expect(chapter).toContain('<aside class="note-card note-grammar" epub:type="sidebar">');
+    expect(fileContent('OEBPS/text/chapter-2.xhtml')).toContain('Il pleut &amp; il vente.');
+  });
+
+  it('should read lines aloud from clips of one recording with a media overlay', () => {
+    const narrated: EpubProject = {
+      ...project,
+      pages: [{
+        id: 'p1', pageNumber: 1, chapterId: 'c1', lines: [
+          { id: 'l1', frenchText: 'Le chat dort.', englishText: '', lineNumber: 1, audioUrl: '/assets/ch1.mp3', audioClipEnd: 2.5 },
+          { id: 'l2', frenchText: 'Il rêve.', englishText: '', lineNumber: 2, audioUrl: '/assets/ch1.mp3', audioClipBegin: 2.5 },
+          { id: 'l3', frenchText: 'Sans voix.', englishText: '', lineNumber: 3 }
+        ]
+      }]
+    };
+    const output = files(narrated, new Map([['/assets/ch1.mp3', { path: 'audio/audio-1.mp3', mediaType: 'audio/mpeg', duration: 6 }]]));
+    const smil = output.find(f => f.path === 'OEBPS/smil/chapter-1.smil')!.content;
+    const opf = output.find(f => f.path === 'OEBPS/content.opf')!.content;
+
+    expect(smil).toContain('<text src="../text/chapter-1.xhtml#line-l1"/>');
+    expect(smil).toContain('<audio src="../audio/audio-1.mp3" clipBegin="0:00:00.000" clipEnd="0:00:02.500"/>');
+    // The second clip runs to the end of the file
+    expect(smil).toContain('<audio src="../audio/audio-1.mp3" clipBegin="0:00:02.500"/>');
+    expect(smil).not.toContain('line-l3');
+    expect(opf).toContain('media-overlay="overlay-1"');
+    expect(opf).toContain('<meta property="media:duration" refines="#overlay-1">0:00:06.000</meta>');
+  });
+});
@@ -0,0 +1,654 @@
+import JSZip from 'jszip';
+import { v4 as uuidv4 } from 'uuid';
+import { PageData, PageContent, WordGroup, SidebarCard, ThemeConfig, ColorPalette, ProjectMetadata, BookStructure, Footnote, LocalFont, LineData, AnecdoteType, WordData } from '../types';
+import { getContentBlock } from './pageBody';
+import { splitBodyByChapter } from './chapters';
+import { numberFootnotes, getLineFootnotes } from './footnotes';
+import { generateFontFaceCss } from './fonts';
+import { LOCAL_SERVER } from './localServer';
+import { DIVIDER_SYMBOLS, escapeHtml, getCalloutStyle, getCustomGroupColor, getGroupClass, getLineTokens } from './lineMarkup';
+import { formatClockValue } from './audioClips';
+
+// EPUB 3 export: a reflowable e-book with one XHTML document per chapter. Pages do not
+// survive the reflow, so the book is cut at chapter boundaries and the lines flow as
+// bilingual pairs, with word groups, sidebar cards and footnotes kept. Lines with audio
+// get SMIL media overlays, so reading systems that support them highlight each line as
+// it is read.
+
+export interface EpubProject {
+  metadata: ProjectMetadata;
+  pages: PageData[];
+  wordGroups: WordGroup[];
+  sidebars: SidebarCard[];
+  theme: ThemeConfig;
+  palette: ColorPalette;
+  bookStructure?: BookStructure;
+  footnotes?: Footnote[];
+}
+
+// A file of the package besides the text documents, by its path inside OEBPS/
+export interface EpubResource {
+  path: string;
+  mediaType: string;
+}
+
+export interface EpubAudioResource extends EpubResource {
+  duration?: number; // Length of the whole file in seconds, when the browser could read it
+}
+
+export interface EpubResources {
+  images: Map<string, EpubResource>; // Keyed by the image's src in the project
+  audio: Map<string, EpubAudioResource>; // Keyed by the line's audioUrl
+  fonts: { font: LocalFont; resource: EpubResource }[];
+}
+
+export interface EpubFile {
+  path: string;
+  content: string;
+}
+
+interface EpubDocument {
+  id: string;
+  href: string;
+  title: string;
+  chapterId?: string;
+  lines: LineData[];
+}
+
+// One line of a media overlay: the line's element and the stretch of audio that reads it
+interface OverlayClip {
+  lineId: string;
+  audio: EpubAudioResource;
+  begin: number;
+  end?: number;
+}
+
+interface MediaOverlay {
+  id: string;
+  href: string;
+  doc: EpubDocument;
+  clips: OverlayClip[];
+  duration: number;
+}
+
+// Class the reading system puts on the line being read
+const MEDIA_ACTIVE_CLASS = '-epub-media-overlay-active';
+
+const SIDEBAR_TITLES: Record<AnecdoteType, string> = {
+  grammar: 'Grammar',
+  spoken: 'Spoken Language',
+  history: 'History & Culture',
+  falseFriend: 'False Friend',
+  pronunciation: 'Pronunciation',
+  vocab: 'Vocabulary'
+};
+
+const FONT_MEDIA_TYPES: Record<LocalFont['format'], string> = {
+  truetype: 'font/ttf',
+  opentype: 'font/otf',
+  woff: 'font/woff',
+  woff2: 'font/woff2'
+};
+
+const IMAGE_MEDIA_TYPES: Record<string, string> = {
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  gif: 'image/gif',
+  svg: 'image/svg+xml',
+  webp: 'image/webp'
+};
+
+// Audio core media types; other formats are not played by reading systems
+const AUDIO_MEDIA_TYPES: Record<string, string> = {
+  mp3: 'audio/mpeg',
+  m4a: 'audio/mp4',
+  mp4: 'audio/mp4',
+  aac: 'audio/mp4',
+  ogg: 'audio/ogg',
+  opus: 'audio/ogg'
+};
+
+/**
+ * Build the e-book and return it as an .epub blob. Fonts, images and recordings that
+ * cannot be fetched are left out; an image left out keeps its caption.
+ */
+export async function generateEpub(project: EpubProject, fonts: LocalFont[]): Promise<Blob> {
+  const zip = new JSZip();
+  // The mimetype must come first and uncompressed so readers can sniff the format
+  zip.file('mimetype', 'application/epub+zip', { compression: 'STORE' });
+
+  const resources: EpubResources = { images: new Map(), audio: new Map(), fonts: [] };
+
+  for (const font of fonts) {
+    try {
+      const response = await fetch(`${LOCAL_SERVER}${font.path}`);
+      if (!response.ok) continue;
+      const resource = { path: `fonts/${font.file}`, mediaType: FONT_MEDIA_TYPES[font.format] };
+      zip.file(`OEBPS/${resource.path}`, await response.arrayBuffer());
+      resources.fonts.push({ font, resource });
+    } catch (e) {
+      console.error(`Failed to embed font ${font.file}`, e);
+    }
+  }
+
+  for (const src of collectImageSources(project.pages)) {
+    try {
+      // Asset store images are served by the local server; data URLs fetch as they are
+      const response = await fetch(new URL(src, LOCAL_SERVER).href);
+      if (!response.ok) continue;
+      const mediaType = getMediaType(IMAGE_MEDIA_TYPES, src, response.headers.get('Content-Type'));
+      if (!mediaType) continue;
+      const extension = Object.keys(IMAGE_MEDIA_TYPES).find(ext => IMAGE_MEDIA_TYPES[ext] === mediaType);
+      const resource = { path: `images/image-${resources.images.size + 1}.${extension}`, mediaType };
+      zip.file(`OEBPS/${resource.path}`, await response.arrayBuffer());
+      resources.images.set(src, resource);
+    } catch (e) {
+      console.error(`Failed to embed image ${src}`, e);
+    }
+  }
+
+  for (const src of collectAudioSources(project.pages)) {
+    try {
+      const response = await fetch(new URL(src, LOCAL_SERVER).href);
+      if (!response.ok) continue;
+      const mediaType = getMediaType(AUDIO_MEDIA_TYPES, src, response.headers.get('Content-Type'));
+      if (!mediaType) continue;
+      const extension = Object.keys(AUDIO_MEDIA_TYPES).find(ext => AUDIO_MEDIA_TYPES[ext] === mediaType);
+      const data = await response.arrayBuffer();
+      const path = `audio/audio-${resources.audio.size + 1}.${extension}`;
+      zip.file(`OEBPS/${path}`, data);
+      resources.audio.set(src, { path, mediaType, duration: await getAudioDuration(data, mediaType) });
+    } catch (e) {
+      console.error(`Failed to embed audio ${src}`, e);
+    }
+  }
+
+  buildEpubFiles(project, resources).forEach(file => zip.file(file.path, file.content));
+
+  return zip.generateAsync({ type: 'blob', mimeType: 'application/epub+zip', compression: 'DEFLATE' });
+}
+
+/**
+ * Text files of the package: container, package document, navigation, stylesheet,
+ * title page, one document per chapter and a media overlay for each chapter with audio
+ */
+export function buildEpubFiles(
+  project: EpubProject,
+  resources: EpubResources,
+  options: { identifier?: string; modified?: Date } = {}
+): EpubFile[] {
+  const { metadata } = project;
+  const documents = getEpubDocuments(project);
+  // Page-based numbering has no meaning once the text reflows, so notes count per chapter
+  const footnotes = numberFootnotes(project.pages, project.footnotes || [], 'chapter');
+  const overlays = getMediaOverlays(documents, resources);
+
+  return [
+    { path: 'META-INF/container.xml', content: generateContainer() },
+    { path: 'OEBPS/content.opf', content: generatePackageDocument(metadata, documents, overlays, resources, options) },
+    { path: 'OEBPS/nav.xhtml', content: generateNavDocument(project, documents) },
+    { path: 'OEBPS/styles/book.css', content: generateEpubCSS(project.theme, project.palette, resources) },
+    { path: 'OEBPS/text/title.xhtml', content: generateTitlePage(metadata) },
+    ...documents.map(doc => ({
+      path: `OEBPS/${doc.href}`,
+      content: generateChapterDocument(doc, project, footnotes, resources)
+    })),
+    ...overlays.map(overlay => ({ path: `OEBPS/${overlay.href}`, content: generateMediaOverlay(overlay) }))
+  ];
+}
+
+/**
+ * One document per run of pages in the same chapter, titled after the chapter
+ */
+function getEpubDocuments(project: EpubProject): EpubDocument[] {
+  const chapters = project.bookStructure?.chapters || [];
+  return splitBodyByChapter(project.pages)
+    .filter(run => run.lines.length > 0)
+    .map((run, i) => ({
+      id: `chapter-${i + 1}`,
+      href: `text/chapter-${i + 1}.xhtml`,
+      title: chapters.find(c => c.id === run.chapterId)?.title || project.metadata.title || 'Untitled',
+      chapterId: run.chapterId,
+      lines: run.lines
+    }));
+}
+
+function collectImageSources(pages: PageData[]): string[] {
+  const sources = new Set<string>();
+  pages.forEach(page => page.lines.forEach(line => {
+    const block = getContentBlock(line);
+    if (block?.type === 'image' && block.src) sources.add(block.src);
+  }));
+  return Array.from(sources);
+}
+
+function collectAudioSources(pages: PageData[]): string[] {
+  const sources = new Set<string>();
+  pages.forEach(page => page.lines.forEach(line => {
+    if (line.audioUrl && !getContentBlock(line)) sources.add(line.audioUrl);
+  }));
+  return Array.from(sources);
+}
+
+function getMediaType(types: Record<string, string>, src: string, contentType: string | null): string | undefined {
+  const type = contentType?.split(';')[0].trim();
+  if (type && Object.values(types).includes(type)) return type;
+  const extension = src.split(/[?#]/)[0].split('.').pop()?.toLowerCase() || '';
+  return types[extension];
+}
+
+/**
+ * Length of a recording, read by the browser from its metadata
+ */
+function getAudioDuration(data: ArrayBuffer, mediaType: string): Promise<number | undefined> {
+  return new Promise(resolve => {
+    const url = URL.createObjectURL(new Blob([data], { type: mediaType }));
+    const audio = new Audio();
+    const done = (duration?: number) => {
+      URL.revokeObjectURL(url);
+      resolve(duration !== undefined && Number.isFinite(duration) ? duration : undefined);
+    };
+    audio.preload = 'metadata';
+    audio.onloadedmetadata = () => done(audio.duration);
+    audio.onerror = () => done();
+    audio.src = url;
+  });
+}
+
+// ─────────────────────────────────────────────────────────────
+// PACKAGE
+// ─────────────────────────────────────────────────────────────
+
+function generateContainer(): string {
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<container version="1.0" xmlns="urn:oasis:names:tc:opendocument:xmlns:container">
+  <rootfiles>
+    <rootfile full-path="OEBPS/content.opf" media-type="application/oebps-package+xml"/>
+  </rootfiles>
+</container>`;
+}
+
+/**
+ * Identifier of the book: its ISBN when it has one, otherwise its book ID. Readers use it to
+ * tell a new edition of a book from a different book, so it must not change between exports.
+ */
+export function getBookIdentifier(metadata: ProjectMetadata): string {
+  const isbn = metadata.isbn?.replace(/[^0-9X]/gi, '');
+  return isbn ? `urn:isbn:${isbn}` : `urn:uuid:${metadata.bookId || uuidv4()}`;
+}
+
+function generatePackageDocument(
+  metadata: ProjectMetadata,
+  documents: EpubDocument[],
+  overlays: MediaOverlay[],
+  resources: EpubResources,
+  options: { identifier?: string; modified?: Date }
+): string {
+  const language = metadata.language || 'fr';
+  const modified = (options.modified || new Date()).toISOString().replace(/\.\d{3}Z$/, 'Z');
+
+  const dcMetadata = [
+    `<dc:identifier id="book-id">${escapeHtml(options.identifier || getBookIdentifier(metadata))}</dc:identifier>`,
+    `<dc:title>${escapeHtml(metadata.title || 'Untitled')}</dc:title>`,
+    metadata.subtitle ? `<dc:title id="subtitle">${escapeHtml(metadata.subtitle)}</dc:title>` : '',
+    metadata.subtitle ? '<meta refines="#subtitle" property="title-type">subtitle</meta>' : '',
+    `<dc:language>${escapeHtml(language)}</dc:language>`,
+    metadata.targetLanguage && metadata.targetLanguage !== language ? `<dc:language>${escapeHtml(metadata.targetLanguage)}</dc:language>` : '',
+    metadata.author ? `<dc:creator>${escapeHtml(metadata.author)}</dc:creator>` : '',
+    metadata.publisher ? `<dc:publisher>${escapeHtml(metadata.publisher)}</dc:publisher>` : '',
+    metadata.year ? `<dc:date>${metadata.year}</dc:date>` : '',
+    `<meta property="dcterms:modified">${modified}</meta>`,
+    ...(overlays.length > 0 ? [
+      `<meta property="media:duration">${formatClockValue(overlays.reduce((total, o) => total + o.duration, 0))}</meta>`,
+      ...overlays.map(o => `<meta property="media:duration" refines="#${o.id}">${formatClockValue(o.duration)}</meta>`),
+      `<meta property="media:active-class">${MEDIA_ACTIVE_CLASS}</meta>`
+    ] : [])
+  ].filter(Boolean);
+
+  const overlayFor = (doc: EpubDocument) => overlays.find(o => o.doc === doc);
+
+  const items = [
+    '<item id="nav" href="nav.xhtml" media-type="application/xhtml+xml" properties="nav"/>',
+    '<item id="css" href="styles/book.css" media-type="text/css"/>',
+    '<item id="title-page" href="text/title.xhtml" media-type="application/xhtml+xml"/>',
+    ...documents.map(doc => {
+      const overlay = overlayFor(doc);
+      return `<item id="${doc.id}" href="${doc.href}" media-type="application/xhtml+xml"${overlay ? ` media-overlay="${overlay.id}"` : ''}/>`;
+    }),
+    ...overlays.map(o => `<item id="${o.id}" href="${o.href}" media-type="application/smil+xml"/>`),
+    ...Array.from(resources.audio.values()).map((resource, i) => `<item id="audio-${i + 1}" href="${resource.path}" media-type="${resource.mediaType}"/>`),
+    ...resources.fonts.map(({ resource }, i) => `<item id="font-${i + 1}" href="${escapeHtml(resource.path)}" media-type="${resource.mediaType}"/>`),
+    ...Array.from(resources.images.values()).map((resource, i) => `<item id="image-${i + 1}" href="${resource.path}" media-type="${resource.mediaType}"/>`)
+  ];
+
+  const spine = ['<itemref idref="title-page"/>', ...documents.map(doc => `<itemref idref="${doc.id}"/>`)];
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<package xmlns="http://www.idpf.org/2007/opf" version="3.0" unique-identifier="book-id" xml:lang="${escapeHtml(language)}">
+  <metadata xmlns:dc="http://purl.org/dc/elements/1.1/">
+    ${dcMetadata.join('\n    ')}
+  </metadata>
+  <manifest>
+    ${items.join('\n    ')}
+  </manifest>
+  <spine>
+    ${spine.join('\n    ')}
+  </spine>
+</package>`;
+}
+
+/**
+ * Table of contents from the book's chapters, in chapter order. Chapters without pages
+ * are left out; a book without chapters lists its one document.
+ */
+function generateNavDocument(project: EpubProject, documents: EpubDocument[]): string {
+  const chapters = project.bookStructure?.chapters || [];
+  const entries = chapters.length > 0
+    ? chapters
+        .map(chapter => ({ title: chapter.title, doc: documents.find(d => d.chapterId === chapter.id) }))
+        .filter(entry => entry.doc)
+        .map(entry => ({ title: entry.title, href: entry.doc!.href }))
+    : documents.map(doc => ({ title: doc.title, href: doc.href }));
+
+  const toc = entries.map(entry => `<li><a href="${entry.href}">${escapeHtml(entry.title)}</a></li>`).join('\n          ');
+  const bodyMatter = documents[0] ? `<li><a epub:type="bodymatter" href="${documents[0].href}">Start of content</a></li>` : '';
+
+  return xhtmlDocument(project.metadata, 'Contents', `
+    <nav epub:type="toc" id="toc">
+      <h1>Contents</h1>
+      <ol>
+          ${toc}
+      </ol>
+    </nav>
+    <nav epub:type="landmarks" hidden="hidden">
+      <ol>
+        <li><a epub:type="toc" href="nav.xhtml#toc">Contents</a></li>
+        ${bodyMatter}
+      </ol>
+    </nav>`, '');
+}
+
+function generateTitlePage(metadata: ProjectMetadata): string {
+  return xhtmlDocument(metadata, metadata.title || 'Untitled', `
+    <section class="title-page" epub:type="titlepage">
+      <h1 class="book-title">${escapeHtml(metadata.title || 'Untitled')}</h1>
+      ${metadata.subtitle ? `<p class="book-subtitle">${escapeHtml(metadata.subtitle)}</p>` : ''}
+      ${metadata.author ? `<p class="book-author">${escapeHtml(metadata.author)}</p>` : ''}
+      ${metadata.publisher ? `<p class="book-publisher">${escapeHtml(metadata.publisher)}</p>` : ''}
+    </section>`);
+}
+
+function xhtmlDocument(metadata: ProjectMetadata, title: string, body: string, stylesheetPath = '../'): string {
+  const language = escapeHtml(metadata.language || 'fr');
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE html>
+<html xmlns="http://www.w3.org/1999/xhtml" xmlns:epub="http://www.idpf.org/2007/ops" xml:lang="${language}" lang="${language}">
+  <head>
+    <meta charset="UTF-8"/>
+    <title>${escapeHtml(title)}</title>
+    <link rel="stylesheet" type="text/css" href="${stylesheetPath}styles/book.css"/>
+  </head>
+  <body>${body}
+  </body>
+</html>`;
+}
+
+// ─────────────────────────────────────────────────────────────
+// CHAPTER DOCUMENTS
+// ─────────────────────────────────────────────────────────────
+
+function generateChapterDocument(
+  doc: EpubDocument,
+  project: EpubProject,
+  footnotes: Footnote[],
+  resources: EpubResources
+): string {
+  const french = project.metadata.language || 'fr';
+  const english = project.metadata.targetLanguage || 'en';
+  const docFootnotes: Footnote[] = [];
+
+  const lines = doc.lines.map(line => {
+    const block = getContentBlock(line);
+    if (block) return renderContentBlock(block, resources);
+
+    const lineGroups = project.wordGroups.filter(g => g.lineId === line.id);
+    const lineFootnotes = getLineFootnotes(footnotes, line.id);
+    docFootnotes.push(...lineFootnotes);
+    const frenchXhtml = renderTextWithGroups(line.frenchText, lineGroups, 'french', line.frenchWords, lineFootnotes);
+    const englishXhtml = renderTextWithGroups(line.englishText, lineGroups, 'english', line.englishWords, lineFootnotes);
+
+    // Sidebar cards follow the line they are anchored to
+    const cards = project.sidebars.filter(s => s.anchoredLineId === line.id).map(card => `
+      <aside class="note-card note-${card.type}" epub:type="sidebar"${card.color ? ` style="border-left-color: ${escapeHtml(card.color)}"` : ''}>
+        <p class="note-title">${escapeHtml(card.title || SIDEBAR_TITLES[card.type] || card.type)}</p>
+        <p>${escapeHtml(card.content)}</p>
+      </aside>`).join('');
+
+    const pair = `
+      <p class="line-french" lang="${escapeHtml(french)}" xml:lang="${escapeHtml(french)}">${frenchXhtml}</p>
+      ${englishXhtml ? `<p class="line-english" lang="${escapeHtml(english)}" xml:lang="${escapeHtml(english)}">${englishXhtml}</p>` : ''}`;
+
+    const tag = line.sectionType === 'title' ? 'header' : 'div';
+    return `
+    <${tag} class="line-pair section-${line.sectionType || 'paragraph'}" id="line-${line.id}">${pair}
+    </${tag}>${cards}`;
+  }).join('');
+
+  const notes = docFootnotes.map(f => `
+      <aside class="footnote" epub:type="footnote" id="fn-${f.id}">
+        <p><a href="#fnref-${f.id}">${f.number}</a> ${escapeHtml(f.content)}</p>
+      </aside>`).join('');
+
+  return xhtmlDocument(project.metadata, doc.title, `
+    <section class="chapter" epub:type="chapter" aria-label="${escapeHtml(doc.title)}">${lines}
+    </section>${notes ? `
+    <section class="footnotes" epub:type="footnotes">${notes}
+    </section>` : ''}`);
+}
+
+function renderContentBlock(block: PageContent, resources: EpubResources): string {
+  switch (block.type) {
+    case 'image': {
+      const image = resources.images.get(block.src);
+      const captions = [
+        block.captionFrench ? `<span class="caption-french">${escapeHtml(block.captionFrench)}</span>` : '',
+        block.caption ? `<span>${escapeHtml(block.caption)}</span>` : ''
+      ].join(' ');
+      if (!image && !captions.trim()) return '';
+      return `
+    <figure class="content-image align-${block.alignment || 'center'}" id="block-${block.id}">
+      ${image ? `<img src="../${image.path}" alt="${escapeHtml(block.alt || '')}"/>` : ''}
+      ${captions.trim() ? `<figcaption>${captions}</figcaption>` : ''}
+    </figure>`;
+    }
+    case 'table': {
+      const head = block.headers.map(h => `<th>${escapeHtml(h)}</th>`).join('');
+      const rows = block.rows.map(row => `<tr>${row.map(cell => `<td>${escapeHtml(cell)}</td>`).join('')}</tr>`).join('');
+      const caption = [block.captionFrench, block.caption].filter(Boolean).map(c => escapeHtml(c!)).join(' — ');
+      return `
+    <table class="content-table" id="block-${block.id}">
+      ${caption ? `<caption>${caption}</caption>` : ''}
+      <thead><tr>${head}</tr></thead>
+      <tbody>${rows}</tbody>
+    </table>`;
+    }
+    case 'divider': {
+      const symbol = DIVIDER_SYMBOLS[block.dividerStyle];
+      return symbol ? `
+    <p class="content-divider" id="block-${block.id}">${symbol}</p>` : `
+    <hr class="content-divider" id="block-${block.id}"/>`;
+    }
+    case 'callout': {
+      const { stamp, headerColor, background } = getCalloutStyle(block);
+      return `
+    <aside class="callout callout-${block.calloutType}" epub:type="sidebar" id="block-${block.id}" style="background-color: ${escapeHtml(background)}">
+      <p class="callout-header" style="background-color: ${escapeHtml(headerColor)}">${escapeHtml(block.title || stamp?.name || '')}</p>
+      <p class="callout-body">${escapeHtml(block.content)}</p>
+    </aside>`;
+    }
+    default:
+      return '';
+  }
+}
+
+/**
+ * Line text with its word groups as coloured spans and its footnote references. Typed
+ * groups take their colour from the stylesheet; custom groups carry their own.
+ */
+function renderTextWithGroups(
+  text: string,
+  groups: WordGroup[],
+  language: 'french' | 'english',
+  words: WordData[] = [],
+  footnotes: Footnote[] = []
+): string {
+  if (!text) return '';
+
+  return getLineTokens(text, groups, language, words, footnotes).map(({ text: token, group, footnotes: notes }) => {
+    const markers = notes
+      .map(f => `<sup><a class="footnote-ref" epub:type="noteref" id="fnref-${f.id}" href="#fn-${f.id}">${f.number}</a></sup>`)
+      .join('');
+    if (!group) return escapeHtml(token) + markers;
+
+    const color = getCustomGroupColor(group);
+    const style = color ? ` style="background-color: ${toTranslucent(color)}; border-bottom: 2px solid ${escapeHtml(color)}"` : '';
+    const title = group.label ? ` title="${escapeHtml(group.label)}"` : '';
+    return `<span class="word-group ${getGroupClass(group)}"${title}${style}>${escapeHtml(token)}</span>${markers}`;
+  }).join('');
+}
+
+// ─────────────────────────────────────────────────────────────
+// MEDIA OVERLAYS
+// ─────────────────────────────────────────────────────────────
+
+/**
+ * Overlay of each document with audio: its lines with a recording, in reading order.
+ * A clip without an end plays to the end of its file.
+ */
+function getMediaOverlays(documents: EpubDocument[], resources: EpubResources): MediaOverlay[] {
+  return documents.flatMap((doc, i) => {
+    const clips: OverlayClip[] = doc.lines
+      .filter(line => !getContentBlock(line) && line.audioUrl && resources.audio.has(line.audioUrl))
+      .map(line => {
+        const begin = line.audioClipBegin ?? 0;
+        const end = line.audioClipEnd !== undefined && line.audioClipEnd > begin ? line.audioClipEnd : undefined;
+        return { lineId: line.id, audio: resources.audio.get(line.audioUrl!)!, begin, end };
+      });
+    if (clips.length === 0) return [];
+
+    const duration = clips.reduce((total, clip) => {
+      const end = clip.end ?? clip.audio.duration;
+      return total + (end !== undefined ? Math.max(0, end - clip.begin) : 0);
+    }, 0);
+    return [{ id: `overlay-${i + 1}`, href: `smil/chapter-${i + 1}.smil`, doc, clips, duration }];
+  });
+}
+
+function generateMediaOverlay(overlay: MediaOverlay): string {
+  const textHref = `../${overlay.doc.href}`;
+  const pars = overlay.clips.map(clip => {
+    const end = clip.end !== undefined ? ` clipEnd="${formatClockValue(clip.end)}"` : '';
+    return `<par id="par-${clip.lineId}">
+        <text src="${textHref}#line-${clip.lineId}"/>
+        <audio src="../${clip.audio.path}" clipBegin="${formatClockValue(clip.begin)}"${end}/>
+      </par>`;
+  });
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<smil xmlns="http://www.w3.org/ns/SMIL" xmlns:epub="http://www.idpf.org/2007/ops" version="3.0">
+  <body>
+    <seq id="seq-${overlay.doc.id}" epub:textref="${textHref}" epub:type="chapter">
+      ${pars.join('\n      ')}
+    </seq>
+  </body>
+</smil>`;
+}
+
+// ─────────────────────────────────────────────────────────────
+// STYLESHEET
+// ─────────────────────────────────────────────────────────────
+
+/**
+ * Reading systems lag behind browsers, so colours are spelled out rather than mixed
+ */
+function toTranslucent(color: string, alpha = 0.3): string {
+  const hex = color.trim().replace(/^#/, '');
+  const full = hex.length === 3 ? hex.split('').map(c => c + c).join('') : hex;
+  if (!/^[0-9a-f]{6}$/i.test(full)) return escapeHtml(color);
+  const [r, g, b] = [0, 2, 4].map(i => parseInt(full.slice(i, i + 2), 16));
+  return `rgba(${r}, ${g}, ${b}, ${alpha})`;
+}
+
+function generateEpubCSS(theme: ThemeConfig, palette: ColorPalette, resources: EpubResources): string {
+  const colors = palette.colors;
+  const fontPaths = new Map(resources.fonts.map(({ font, resource }) => [font.file, resource.path]));
+  const fontFaceCss = generateFontFaceCss(resources.fonts.map(f => f.font), font => `../${fontPaths.get(font.file)}`);
+
+  const wordGroupTypes = ['subject', 'verb', 'complement', 'article', 'adjective', 'adverb'] as const;
+  const anecdoteTypes = Object.keys(SIDEBAR_TITLES) as AnecdoteType[];
+
+  return `${fontFaceCss}
+
+body {
+  font-family: ${theme.frenchFontFamily || 'Georgia, serif'};
+  line-height: ${theme.lineHeight || '1.6'};
+  color: ${colors.text || 'inherit'};
+}
+
+.title-page { text-align: center; margin-top: 30%; }
+.book-title { font-size: 2em; margin-bottom: 0.5em; }
+.book-subtitle { font-style: italic; }
+.book-author { margin-top: 2em; }
+
+.line-pair { margin: 0 0 1em; }
+.line-pair p { margin: 0; text-indent: 0; }
+.line-french { font-family: ${theme.frenchFontFamily || 'Georgia, serif'}; }
+.line-english {
+  font-family: ${theme.englishFontFamily || 'system-ui, sans-serif'};
+  font-size: 0.85em;
+  font-style: italic;
+  opacity: 0.75;
+}
+.section-title .line-french { font-size: 1.6em; font-weight: bold; }
+.section-heading .line-french { font-size: 1.25em; font-weight: bold; }
+.section-note { font-size: 0.9em; }
+
+.word-group { border-radius: 0.2em; padding: 0 0.1em; }
+${wordGroupTypes.map(type => `.word-group.${type} { background-color: ${toTranslucent(colors[type])}; }`).join('\n')}
+.word-group.adjective { border-bottom: 2px solid ${colors.adjective}; }
+.word-group.adverb { border-bottom: 2px solid ${colors.adverb}; }
+${anecdoteTypes.map(type => `.word-group.${type} { background-color: ${colors[type]}; }`).join('\n')}
+
+.note-card {
+  margin: 0 0 1em;
+  padding: 0.5em 0.75em;
+  border-left: 3px solid #fca5a5;
+  font-size: 0.85em;
+}
+${anecdoteTypes.map(type => `.note-card.note-${type} { background-color: ${colors[type]}; }`).join('\n')}
+.note-card p { margin: 0; }
+.note-title { font-weight: bold; }
+
+.callout { margin: 1em 0; font-size: 0.9em; }
+.callout-header { margin: 0; padding: 0.25em 0.75em; color: #ffffff; font-weight: bold; }
+.callout-body { margin: 0; padding: 0.5em 0.75em; }
+
+figure { margin: 1em 0; text-align: center; }
+figure.align-left { text-align: left; }
+figure.align-right { text-align: right; }
+figure img { max-width: 100%; }
+figcaption { font-size: 0.85em; }
+.caption-french { font-style: italic; }
+
+table { border-collapse: collapse; margin: 1em auto; font-size: 0.9em; }
+th, td { border: 1px solid #cbd5e1; padding: 0.25em 0.5em; }
+.content-divider { text-align: center; margin: 1.5em 0; }
+
+/* Line being read aloud by the media overlay */
+.${MEDIA_ACTIVE_CLASS} { background-color: rgba(250, 204, 21, 0.35); }
+
+.footnote-ref { text-decoration: none; }
+.footnotes { margin-top: 2em; border-top: 1px solid #cbd5e1; font-size: 0.85em; }
+`;
+}
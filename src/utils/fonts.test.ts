@@ -0,0 +1,38 @@
+import { describe, it, expect } from 'vitest';
+import { generateFontFaceCss, getFontsForFamilies, getLocalFontOptions, getPrimaryFontName } from './fonts';
+import { LocalFont } from '../types';
+
+const font = (file: string, family: string, weight = 400, style: LocalFont['style'] = 'normal'): LocalFont => ({
+  file,
+  path: `/fonts/${file}`,
+  family,
+  weight,
+  style,
+  format: 'woff2',
+  size: 1000
+});
+
+const fonts = [
+  font('Lora-Regular.woff2', 'Lora'),
+  font('Lora-BoldItalic.woff2', 'Lora', 700, 'italic'),
+  font('Open_Sans.woff2', 'Open Sans')
+];
+
+describe('local fonts', () => {
+  it('should offer one picker option per family and match theme values back to files', () => {
+    expect(getLocalFontOptions(fonts)).toEqual([
+      { label: 'Lora', value: "'Lora', serif" },
+      { label: 'Open Sans', value: "'Open Sans', serif" }
+    ]);
+    expect(getPrimaryFontName('sans-serif')).toBeNull();
+    expect(getFontsForFamilies(fonts, ["'Lora', serif", 'serif']).map(f => f.file))
+      .toEqual(['Lora-Regular.woff2', 'Lora-BoldItalic.woff2']);
+  });
+
+  it('should declare each weight and style variant', () => {
+    const css = generateFontFaceCss(fonts.slice(0, 2), f => `http://localhost:3001${f.path}`);
+    expect(css.match(/@font-face/g)).toHaveLength(2);
+    expect(css).toContain("src: url('http://localhost:3001/fonts/Lora-BoldItalic.woff2') format('woff2');");
+    expect(css).toContain('font-weight: 700;\n  font-style: italic;');
+  });
+});
@@ -0,0 +1,68 @@
+import type { LocalFont } from '../types';
+import { LOCAL_SERVER } from './localServer';
+
+// Local fonts live in the server's fonts folder and are used in place of web fonts, so
+// the editor, the HTML export and the PDF render the same faces without network access.
+
+const GENERIC_FAMILIES = ['serif', 'sans-serif', 'monospace', 'cursive', 'fantasy', 'system-ui', 'inherit'];
+
+/**
+ * First family named in a CSS font-family value, e.g. "Lora" for "'Lora', serif"
+ */
+export function getPrimaryFontName(fontFamily: string | undefined): string | null {
+  const first = (fontFamily || '').split(',')[0].trim().replace(/^['"]|['"]$/g, '');
+  return first && !GENERIC_FAMILIES.includes(first.toLowerCase()) ? first : null;
+}
+
+/**
+ * Picker options for local font families, one per family whatever its variants
+ */
+export function getLocalFontOptions(fonts: LocalFont[]): { label: string; value: string }[] {
+  const families = Array.from(new Set(fonts.map(f => f.family))).sort((a, b) => a.localeCompare(b));
+  return families.map(family => ({ label: family, value: `'${family}', serif` }));
+}
+
+/**
+ * Local font files whose family is used by any of the given font-family values
+ */
+export function getFontsForFamilies(fonts: LocalFont[], fontFamilies: (string | undefined)[]): LocalFont[] {
+  const names = new Set(fontFamilies.map(getPrimaryFontName).filter(Boolean));
+  return fonts.filter(f => names.has(f.family));
+}
+
+/**
+ * @font-face rules for local fonts, one per weight/style variant
+ */
+export function generateFontFaceCss(fonts: LocalFont[], getUrl: (font: LocalFont) => string): string {
+  return fonts.map(font => `@font-face {
+  font-family: '${font.family}';
+  src: url('${getUrl(font)}') format('${font.format}');
+  font-weight: ${font.weight};
+  font-style: ${font.style};
+  font-display: swap;
+}`).join('\n');
+}
+
+const readAsDataUrl = (blob: Blob) => new Promise<string>((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onload = () => resolve(reader.result as string);
+  reader.onerror = () => reject(reader.error);
+  reader.readAsDataURL(blob);
+});
+
+/**
+ * @font-face rules with the font files inlined as data URLs, for self-contained exports.
+ * Fonts that cannot be fetched are left out.
+ */
+export async function generateEmbeddedFontFaceCss(fonts: LocalFont[]): Promise<string> {
+  const dataUrls = new Map<string, string>();
+  for (const font of fonts) {
+    try {
+      const response = await fetch(`${LOCAL_SERVER}${font.path}`);
+      if (response.ok) dataUrls.set(font.file, await readAsDataUrl(await response.blob()));
+    } catch (e) {
+      console.error(`Failed to embed font ${font.file}`, e);
+    }
+  }
+  return generateFontFaceCss(fonts.filter(f => dataUrls.has(f.file)), f => dataUrls.get(f.file)!);
+}
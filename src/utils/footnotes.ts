@@ -0,0 +1,23 @@
+import type { Footnote, TypographySettings } from '../types';
+
+// Footnote numbers and page placement are derived from where the anchor word sits in the
+// body, so they follow edits, line moves and reflow.
+
+export type FootnoteNumbering = NonNullable<TypographySettings['footnoteNumbering']>;
+
+/**
+ * Number footnotes in reading order, restarting on every page or at every chapter.
+ * Shared with the print document so the PDF prints the same numbers.
+ */
+export { numberFootnotes } from '../../bodyNumbering.js';
+
+export function getPageFootnotes(numbered: Footnote[], pageId: string): Footnote[] {
+  return numbered.filter(f => f.pageId === pageId);
+}
+
+/**
+ * Footnotes anchored in a line, for the line's markers and for pagination
+ */
+export function getLineFootnotes(numbered: Footnote[], lineId: string): Footnote[] {
+  return numbered.filter(f => f.lineId === lineId);
+}
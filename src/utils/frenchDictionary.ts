@@ -0,0 +1,298 @@
+// A small French → English dictionary of frequent words for the offline aligner.
+// Keys and values are lowercase without accents (see normalizeWord in wordAlignment.ts).
+// Rarer words are left to the cognate and position heuristics.
+
+export const FRENCH_ENGLISH: Record<string, string[]> = {
+  // Articles and determiners
+  le: ['the', 'it', 'him'],
+  la: ['the', 'it', 'her', 'there'],
+  les: ['the', 'them'],
+  un: ['a', 'an', 'one'],
+  une: ['a', 'an', 'one'],
+  des: ['some', 'of', 'the', 'from'],
+  du: ['some', 'of', 'the', 'from'],
+  au: ['to', 'at', 'in', 'the'],
+  aux: ['to', 'at', 'in', 'the'],
+  ce: ['this', 'that', 'it'],
+  cet: ['this', 'that'],
+  cette: ['this', 'that'],
+  ces: ['these', 'those'],
+  mon: ['my'],
+  ma: ['my'],
+  mes: ['my'],
+  ton: ['your'],
+  ta: ['your'],
+  tes: ['your'],
+  son: ['his', 'her', 'its'],
+  sa: ['his', 'her', 'its'],
+  ses: ['his', 'her', 'its'],
+  notre: ['our'],
+  nos: ['our'],
+  votre: ['your'],
+  vos: ['your'],
+  leur: ['their', 'them'],
+  leurs: ['their'],
+  tout: ['all', 'every', 'everything', 'very'],
+  tous: ['all', 'every', 'everyone'],
+  toute: ['all', 'every', 'whole'],
+  toutes: ['all', 'every'],
+  chaque: ['each', 'every'],
+  quelque: ['some'],
+  quelques: ['some', 'few'],
+  autre: ['other', 'another', 'else'],
+  autres: ['other', 'others'],
+  meme: ['same', 'even', 'self'],
+
+  // Pronouns
+  je: ['i'],
+  me: ['me', 'myself'],
+  moi: ['me', 'i'],
+  tu: ['you'],
+  te: ['you', 'yourself'],
+  toi: ['you'],
+  il: ['he', 'it'],
+  elle: ['she', 'it', 'her'],
+  on: ['we', 'one', 'you', 'they', 'people'],
+  nous: ['we', 'us'],
+  vous: ['you'],
+  ils: ['they'],
+  elles: ['they', 'them'],
+  lui: ['him', 'her', 'it'],
+  eux: ['them'],
+  se: ['himself', 'herself', 'itself', 'themselves', 'oneself', 'each'],
+  y: ['there', 'it'],
+  en: ['in', 'of', 'some', 'any', 'by', 'while'],
+  qui: ['who', 'which', 'that', 'whom'],
+  que: ['that', 'what', 'which', 'than', 'whom'],
+  quoi: ['what'],
+  dont: ['whose', 'which', 'of'],
+  ou: ['or', 'where'],
+  quel: ['which', 'what'],
+  quelle: ['which', 'what'],
+  rien: ['nothing', 'anything'],
+  personne: ['nobody', 'anyone', 'person'],
+  ceci: ['this'],
+  cela: ['that', 'it'],
+  ca: ['that', 'it', 'this'],
+
+  // Prepositions and conjunctions
+  a: ['to', 'at', 'in', 'has'],
+  de: ['of', 'from', 'to', 'by'],
+  dans: ['in', 'into', 'inside'],
+  sur: ['on', 'onto', 'about', 'over'],
+  sous: ['under', 'beneath'],
+  avec: ['with'],
+  sans: ['without'],
+  pour: ['for', 'to', 'in'],
+  par: ['by', 'through', 'per'],
+  chez: ['at', 'home'],
+  vers: ['towards', 'toward', 'to', 'around'],
+  entre: ['between', 'among'],
+  avant: ['before'],
+  apres: ['after', 'afterwards'],
+  pendant: ['during', 'for', 'while'],
+  depuis: ['since', 'for', 'from'],
+  contre: ['against'],
+  derriere: ['behind'],
+  devant: ['in', 'front', 'before'],
+  pres: ['near', 'close'],
+  loin: ['far'],
+  et: ['and'],
+  mais: ['but'],
+  donc: ['so', 'therefore', 'then'],
+  car: ['because', 'for'],
+  ni: ['nor', 'neither'],
+  si: ['if', 'so', 'yes'],
+  quand: ['when'],
+  comme: ['like', 'as', 'how'],
+  parce: ['because'],
+  puis: ['then'],
+  alors: ['then', 'so'],
+  aussi: ['also', 'too', 'as'],
+
+  // Adverbs
+  ne: ['not'],
+  pas: ['not', "don't", 'no', 'step'],
+  plus: ['more', 'longer', 'anymore', 'most'],
+  moins: ['less', 'least', 'fewer'],
+  tres: ['very'],
+  trop: ['too', 'much'],
+  bien: ['well', 'good', 'very', 'quite'],
+  mal: ['badly', 'bad', 'wrong'],
+  deja: ['already'],
+  encore: ['still', 'again', 'yet', 'more'],
+  toujours: ['always', 'still'],
+  jamais: ['never', 'ever'],
+  souvent: ['often'],
+  ici: ['here'],
+  maintenant: ['now'],
+  aujourd: ['today'],
+  hier: ['yesterday'],
+  demain: ['tomorrow'],
+  beaucoup: ['much', 'many', 'lot', 'lots'],
+  peu: ['little', 'few', 'bit'],
+  oui: ['yes'],
+  non: ['no', 'not'],
+  vite: ['quickly', 'fast'],
+
+  // Verbs, in their most frequent forms
+  est: ['is', 'east'],
+  suis: ['am', 'follow'],
+  es: ['are'],
+  sommes: ['are'],
+  etes: ['are'],
+  sont: ['are'],
+  etait: ['was', 'were'],
+  etre: ['be', 'being'],
+  ete: ['been', 'summer', 'was'],
+  ai: ['have', 'had'],
+  as: ['have', 'had'],
+  avons: ['have'],
+  avez: ['have'],
+  ont: ['have'],
+  avait: ['had'],
+  avoir: ['have', 'to'],
+  eu: ['had'],
+  fait: ['does', 'did', 'done', 'made', 'makes', 'fact'],
+  faire: ['do', 'make'],
+  va: ['goes', 'go', 'will', 'going'],
+  vais: ['go', 'going', 'will'],
+  vont: ['go', 'going', 'will'],
+  aller: ['go'],
+  peut: ['can', 'may', 'could'],
+  peux: ['can', 'may'],
+  pouvoir: ['can', 'power'],
+  veut: ['wants', 'want'],
+  veux: ['want'],
+  dit: ['says', 'said', 'tells', 'told'],
+  dire: ['say', 'tell'],
+  voir: ['see'],
+  vois: ['see'],
+  voit: ['sees', 'see'],
+  sais: ['know'],
+  sait: ['knows', 'know'],
+  savoir: ['know'],
+  prendre: ['take'],
+  prend: ['takes', 'take'],
+  venir: ['come'],
+  vient: ['comes', 'come'],
+  aime: ['like', 'likes', 'love', 'loves'],
+  aimer: ['like', 'love'],
+  mange: ['eat', 'eats', 'eating'],
+  manger: ['eat'],
+  parle: ['speak', 'speaks', 'talk', 'talks'],
+  parler: ['speak', 'talk'],
+  donne: ['give', 'gives', 'given'],
+  trouve: ['find', 'finds', 'found'],
+  pense: ['think', 'thinks'],
+  regarde: ['look', 'looks', 'watch', 'watches'],
+  faut: ['must', 'need', 'necessary'],
+  doit: ['must', 'should', 'owes'],
+
+  // Nouns
+  homme: ['man'],
+  hommes: ['men'],
+  femme: ['woman', 'wife'],
+  femmes: ['women'],
+  enfant: ['child', 'kid'],
+  enfants: ['children', 'kids'],
+  garcon: ['boy'],
+  fille: ['girl', 'daughter'],
+  pere: ['father', 'dad'],
+  mere: ['mother', 'mom', 'mum'],
+  ami: ['friend'],
+  amie: ['friend'],
+  amis: ['friends'],
+  jour: ['day'],
+  jours: ['days'],
+  nuit: ['night'],
+  matin: ['morning'],
+  soir: ['evening'],
+  temps: ['time', 'weather'],
+  annee: ['year'],
+  an: ['year'],
+  ans: ['years'],
+  fois: ['time', 'times'],
+  maison: ['house', 'home'],
+  ville: ['city', 'town'],
+  rue: ['street'],
+  pays: ['country'],
+  monde: ['world', 'people'],
+  chose: ['thing'],
+  choses: ['things'],
+  eau: ['water'],
+  pain: ['bread'],
+  main: ['hand'],
+  mains: ['hands'],
+  tete: ['head'],
+  yeux: ['eyes'],
+  coeur: ['heart'],
+  vie: ['life'],
+  mot: ['word'],
+  mots: ['words'],
+  livre: ['book'],
+  chien: ['dog'],
+  chat: ['cat'],
+  voiture: ['car'],
+  travail: ['work', 'job'],
+  ecole: ['school'],
+  porte: ['door'],
+
+  // Adjectives
+  grand: ['big', 'tall', 'great', 'large'],
+  grande: ['big', 'tall', 'great', 'large'],
+  petit: ['small', 'little'],
+  petite: ['small', 'little'],
+  bon: ['good'],
+  bonne: ['good'],
+  mauvais: ['bad'],
+  beau: ['beautiful', 'handsome', 'nice'],
+  belle: ['beautiful', 'nice'],
+  nouveau: ['new'],
+  nouvelle: ['new', 'news'],
+  vieux: ['old'],
+  vieille: ['old'],
+  jeune: ['young'],
+  premier: ['first'],
+  premiere: ['first'],
+  dernier: ['last'],
+  derniere: ['last'],
+  seul: ['alone', 'only', 'single'],
+  seule: ['alone', 'only', 'single'],
+  heureux: ['happy'],
+  triste: ['sad'],
+  blanc: ['white'],
+  noir: ['black'],
+  rouge: ['red'],
+  vert: ['green'],
+  bleu: ['blue'],
+
+  // Numbers
+  deux: ['two'],
+  trois: ['three'],
+  quatre: ['four'],
+  cinq: ['five'],
+  six: ['six'],
+  sept: ['seven'],
+  huit: ['eight'],
+  neuf: ['nine', 'new'],
+  dix: ['ten'],
+  cent: ['hundred'],
+  mille: ['thousand']
+};
+
+// Elided forms, stripped from the front of a word: "l'homme" → "homme"
+export const FRENCH_ELISIONS: Record<string, string[]> = {
+  l: ['the'],
+  d: ['of', 'from', 'some'],
+  j: ['i'],
+  m: ['me', 'my'],
+  t: ['you'],
+  s: ['himself', 'herself', 'itself', 'if'],
+  n: ['not'],
+  c: ['it', 'this', 'that'],
+  qu: ['that', 'what'],
+  jusqu: ['until', 'up'],
+  lorsqu: ['when'],
+  puisqu: ['since']
+};
@@ -0,0 +1,6 @@
+// Front matter is generated from the project metadata and chapter list at render time,
+// so it never goes stale and stays out of the page body that reflow works on. The
+// implementation is shared with the print document behind the PDF.
+
+export type { FrontMatterPageKind, FrontMatterPage, TocEntry } from '../../bookMatter.js';
+export { getFrontMatterPages, buildTableOfContents, getCopyrightLines, splitParagraphs } from '../../bookMatter.js';
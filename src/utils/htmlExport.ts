@@ -1,21 +1,42 @@
-import { PageData, WordGroup, ArrowConnector, ThemeConfig, ColorPalette, SidebarCard, WordGroupType } from '../types';
+import { PageData, PageContent, WordGroup, ArrowConnector, ThemeConfig, ColorPalette, SidebarCard, WordGroupType, WordData, ProjectMetadata, BookStructure, LinkedPair, Footnote } from '../types';
+import { getContentBlock } from './pageBody';
+import { FrontMatterPage, TocEntry, getFrontMatterPages, buildTableOfContents, getCopyrightLines, splitParagraphs } from './frontMatter';
+import { collectGlossaryEntries, getEntryPageNumbers, getPageNumbersByLine, indexLetter } from './backMatter';
+import { numberFootnotes, getLineFootnotes, getPageFootnotes } from './footnotes';
+import { DIVIDER_SYMBOLS, escapeHtml, getCalloutStyle, getCustomGroupColor, getGroupClass, getLineTokens } from './lineMarkup';
+import { arrowRouter, drawArrows, getArrowPages, ArrowPage, DEFAULT_ARROW_LABEL } from '../../arrowRuntime.js';
+import { getRunningHeads, PageRunningHeads } from '../../runningHeads.js';
+import { getBodyPageLabels, getPageLabels, PageLabel } from '../../pageNumbering.js';
 
 interface ExportOptions {
   includeStyles: boolean;
   includeArrows: boolean;
+  arrowsOnHover: boolean; // Arrows only show while the reader hovers their source words
   includeAnnotations: boolean;
   hoverReveal: boolean;
   responsiveDesign: boolean;
   theme: 'light' | 'dark' | 'auto';
+  fontFaceCss: string; // @font-face rules with embedded local fonts
+}
+
+// Metadata, chapters and word links used to generate the front and back matter, and the
+// footnotes placed at the bottom of each page
+interface BookContext {
+  metadata: ProjectMetadata;
+  bookStructure?: BookStructure;
+  linkedPairs?: LinkedPair[];
+  footnotes?: Footnote[];
 }
 
 const defaultOptions: ExportOptions = {
   includeStyles: true,
   includeArrows: true,
+  arrowsOnHover: false,
   includeAnnotations: true,
   hoverReveal: true,
   responsiveDesign: true,
-  theme: 'auto'
+  theme: 'auto',
+  fontFaceCss: ''
 };
 
 /**
@@ -29,13 +50,20 @@ export function generateInteractiveHTML(
   theme: ThemeConfig,
   palette: ColorPalette,
   projectTitle: string,
-  options: Partial<ExportOptions> = {}
+  options: Partial<ExportOptions> = {},
+  book?: BookContext
 ): string {
   const opts = { ...defaultOptions, ...options };
   
   const css = generateCSS(theme, palette, opts);
-  const content = generateContent(pages, wordGroups, arrows, sidebars, opts);
-  const js = generateJS(opts);
+  const frontMatter = book ? generateFrontMatter(pages, book) : '';
+  const backMatter = book ? generateBackMatter(pages, wordGroups, book) : '';
+  const footnotes = numberFootnotes(pages, book?.footnotes || [], theme.typography?.footnoteNumbering);
+  const runningHeads = getRunningHeads({ theme, metadata: book?.metadata, bookStructure: book?.bookStructure }, pages);
+  const pageLabels = getBodyPageLabels(pages, book?.bookStructure);
+  const content = frontMatter + generateContent(pages, wordGroups, sidebars, footnotes, runningHeads, pageLabels, opts) + backMatter;
+  const arrowPages = opts.includeArrows ? getArrowPages({ wordGroups, arrows, bookStructure: book?.bookStructure }, pages) : [];
+  const js = generateJS(opts, arrowPages);
   
   return `<!DOCTYPE html>
 <html lang="en">
@@ -55,7 +83,7 @@ export function generateInteractiveHTML(
       </div>
     </header>
     
-    <main class="content">
+    <main class="content${opts.arrowsOnHover ? ' arrows-on-hover' : ''}">
       ${content}
     </main>
     
@@ -69,10 +97,12 @@ export function generateInteractiveHTML(
 </html>`;
 }
 
-function generateCSS(theme: ThemeConfig, palette: ColorPalette, _opts: ExportOptions): string {
+function generateCSS(theme: ThemeConfig, palette: ColorPalette, opts: ExportOptions): string {
   const colors = palette.colors;
   
   return `
+    ${opts.fontFaceCss}
+
     :root {
       --font-french: ${theme.frenchFontFamily || 'Georgia, serif'};
       --font-english: ${theme.englishFontFamily || 'system-ui, sans-serif'};
@@ -179,12 +209,28 @@ function generateCSS(theme: ThemeConfig, palette: ColorPalette, _opts: ExportOpt
     }
     
     .page {
+      position: relative;
       background: var(--bg-secondary);
       border-radius: 1rem;
       padding: 2rem;
       box-shadow: 0 1px 3px rgba(0,0,0,0.1);
     }
     
+    .running-header,
+    .running-footer {
+      display: flex;
+      justify-content: space-between;
+      color: var(--text-secondary);
+    }
+
+    .running-header {
+      margin-bottom: 1rem;
+    }
+
+    .running-footer {
+      margin-top: 1rem;
+    }
+    
     .page-title {
       font-size: 0.75rem;
       color: var(--text-secondary);
@@ -233,6 +279,26 @@ function generateCSS(theme: ThemeConfig, palette: ColorPalette, _opts: ExportOpt
       filter: blur(0);
     }
     
+    /* Arrows, drawn by the script once the page is laid out */
+    .arrow-layer {
+      position: absolute;
+      inset: 0;
+      width: 100%;
+      height: 100%;
+      overflow: visible;
+      pointer-events: none;
+      z-index: 1;
+    }
+    
+    .arrows-on-hover .arrow-layer g[data-arrow-id] {
+      opacity: 0;
+      transition: opacity 0.2s ease;
+    }
+    
+    .arrows-on-hover .arrow-layer g[data-arrow-id].visible {
+      opacity: 1;
+    }
+    
     /* Word group highlights */
     .word-group {
       display: inline;
@@ -327,6 +393,232 @@ function generateCSS(theme: ThemeConfig, palette: ColorPalette, _opts: ExportOpt
         padding: 0;
     }
 
+    /* Content Blocks (images, tables, dividers, callouts) */
+    .content-block {
+      margin: 1.5rem 0;
+    }
+
+    .content-block figure {
+      margin: 0;
+    }
+
+    .content-block img {
+      max-width: 100%;
+      height: auto;
+    }
+
+    .content-block figcaption,
+    .content-block caption {
+      font-size: 0.85rem;
+      color: var(--text-secondary);
+      margin-top: 0.5rem;
+    }
+
+    .content-block .caption-french {
+      font-family: var(--font-french);
+      display: block;
+    }
+
+    .content-block table {
+      width: 100%;
+      border-collapse: collapse;
+    }
+
+    .content-block th,
+    .content-block td {
+      padding: 0.4rem 0.6rem;
+      border: 1px solid var(--border-color);
+      text-align: left;
+    }
+
+    .content-block th {
+      background: var(--bg-secondary);
+    }
+
+    .content-divider {
+      text-align: center;
+      color: var(--text-secondary);
+    }
+
+    .content-divider hr {
+      width: 50%;
+      border: none;
+      border-top: 1px solid var(--border-color);
+    }
+
+    .callout {
+      border-radius: 0.5rem;
+      overflow: hidden;
+      border: 1px solid rgba(0,0,0,0.08);
+    }
+
+    .callout-header {
+      color: #fff;
+      font-weight: 700;
+      font-size: 0.8rem;
+      letter-spacing: 0.05em;
+      padding: 0.4rem 0.75rem;
+    }
+
+    .callout-body {
+      padding: 0.75rem;
+      white-space: pre-wrap;
+      color: #1f2937;
+    }
+
+    /* Front matter */
+    .front-matter {
+      min-height: 60vh;
+      display: flex;
+      flex-direction: column;
+    }
+    
+    .front-title {
+      text-align: center;
+      padding-top: 15vh;
+    }
+    
+    .front-title h1 {
+      font-size: 2.5rem;
+      margin-bottom: 1rem;
+    }
+    
+    .front-title .subtitle {
+      font-style: italic;
+      color: var(--text-secondary);
+      margin-bottom: 3rem;
+    }
+    
+    .front-title .publisher {
+      margin-top: auto;
+      text-transform: uppercase;
+      letter-spacing: 0.1em;
+      font-size: 0.875rem;
+      color: var(--text-secondary);
+    }
+    
+    .front-copyright {
+      justify-content: flex-end;
+      font-size: 0.75rem;
+      color: var(--text-secondary);
+    }
+    
+    .front-dedication p {
+      margin: 20vh auto 0;
+      max-width: 70%;
+      text-align: center;
+      font-style: italic;
+      white-space: pre-line;
+    }
+    
+    .front-matter h2 {
+      text-align: center;
+      margin-bottom: 2rem;
+    }
+    
+    .front-preface p {
+      margin-bottom: 1rem;
+      text-align: justify;
+    }
+    
+    .toc {
+      list-style: none;
+    }
+    
+    .toc li {
+      display: flex;
+      align-items: baseline;
+      gap: 0.5rem;
+      margin-bottom: 0.5rem;
+    }
+    
+    .toc .leader {
+      flex: 1;
+      border-bottom: 1px dotted var(--text-secondary);
+    }
+    
+    .toc a {
+      color: inherit;
+      text-decoration: none;
+    }
+    
+    /* Back matter */
+    .back-matter h2 {
+      text-align: center;
+      margin-bottom: 2rem;
+    }
+    
+    .glossary div {
+      display: flex;
+      gap: 0.5rem;
+      margin-bottom: 0.25rem;
+    }
+    
+    .glossary dt {
+      font-weight: 600;
+    }
+    
+    .glossary dd {
+      font-style: italic;
+      color: var(--text-secondary);
+    }
+    
+    .glossary .refs {
+      margin-left: auto;
+      font-style: normal;
+      font-size: 0.75rem;
+    }
+    
+    .index {
+      list-style: none;
+    }
+    
+    .index li {
+      display: flex;
+      align-items: baseline;
+      gap: 0.5rem;
+    }
+    
+    .index .index-letter {
+      font-weight: 700;
+      color: var(--text-secondary);
+      padding-top: 0.75rem;
+    }
+    
+    .index .leader {
+      flex: 1;
+      border-bottom: 1px dotted var(--text-secondary);
+    }
+    
+    .back-matter a {
+      color: inherit;
+    }
+
+    /* Footnotes */
+    .footnote-ref a {
+      color: inherit;
+      text-decoration: none;
+      font-size: 0.7em;
+    }
+    
+    .footnotes {
+      margin-top: 1.5rem;
+      padding-top: 0.5rem;
+      border-top: 1px solid var(--border-color);
+      font-size: 0.75rem;
+      line-height: 1.375;
+      color: var(--text-secondary);
+    }
+    
+    .footnotes p {
+      margin-bottom: 0.25rem;
+    }
+    
+    .footnote-back {
+      color: inherit;
+      text-decoration: none;
+    }
+
     .footer {
       margin-top: 3rem;
       padding-top: 1.5rem;
@@ -361,6 +653,12 @@ function generateCSS(theme: ThemeConfig, palette: ColorPalette, _opts: ExportOpt
         opacity: 1;
         filter: none;
       }
+      
+      /* Same page breaks as the book layout */
+      .page {
+        break-after: page;
+        box-shadow: none;
+      }
     }
   `;
 }
@@ -368,18 +666,39 @@ function generateCSS(theme: ThemeConfig, palette: ColorPalette, _opts: ExportOpt
 function generateContent(
   pages: PageData[],
   wordGroups: WordGroup[],
-  _arrows: ArrowConnector[],
   sidebars: SidebarCard[],
-  _opts: ExportOptions
+  footnotes: Footnote[],
+  runningHeads: PageRunningHeads[],
+  pageLabels: PageLabel[],
+  opts: ExportOptions
 ): string {
+  // Same running heads as the editor and the PDF
+  const renderRunningHead = (type: 'header' | 'footer', pageIndex: number) => {
+    const head = runningHeads[pageIndex]?.[type];
+    if (!head) return '';
+    return `
+        <div class="running-${type}" style="font-family: ${escapeHtml(head.font || 'inherit')}; font-size: ${escapeHtml(head.fontSize || '9pt')}">
+          <span>${escapeHtml(head.left)}</span>
+          <span>${escapeHtml(head.center)}</span>
+          <span>${escapeHtml(head.right)}</span>
+        </div>`;
+  };
+
   return pages.map((page, pageIndex) => {
     const lines = page.lines.map(line => {
+      // Content blocks are rendered in place, between the text lines around them
+      const block = getContentBlock(line);
+      if (block) {
+        return renderContentBlock(block);
+      }
+
       // Find word groups for this line
       const lineGroups = wordGroups.filter(g => g.lineId === line.id);
       
       // Render French text with word group highlights
-      const frenchHtml = renderTextWithGroups(line.frenchText, lineGroups, line.id, 'french');
-      const englishHtml = renderTextWithGroups(line.englishText, lineGroups, line.id, 'english');
+      const lineFootnotes = getLineFootnotes(footnotes, line.id);
+      const frenchHtml = renderTextWithGroups(line.frenchText, lineGroups, 'french', line.frenchWords, lineFootnotes, opts.includeArrows);
+      const englishHtml = renderTextWithGroups(line.englishText, lineGroups, 'english', line.englishWords, lineFootnotes, opts.includeArrows);
       
       // Find sidebar cards for this line
       const lineCards = sidebars.filter(s => s.anchoredLineId === line.id);
@@ -401,58 +720,198 @@ function generateContent(
       `;
     }).join('');
     
+    const pageFootnotes = getPageFootnotes(footnotes, page.id);
+    const footnotesHtml = pageFootnotes.length > 0 ? `
+        <aside class="footnotes">
+          ${pageFootnotes.map(f => `<p id="fn-${f.id}"><sup>${f.number}</sup> ${escapeHtml(f.content)} <a href="#fnref-${f.id}" class="footnote-back">↩</a></p>`).join('')}
+        </aside>` : '';
+
     return `
-      <section class="page" id="page-${pageIndex + 1}">
-        <div class="page-title">Page ${pageIndex + 1}</div>
+      <section class="page" id="page-${pageIndex + 1}" data-page-id="${page.id}">
+        <div class="page-title">${pageLabels[pageIndex].label ? `Page ${pageLabels[pageIndex].label}` : 'Unnumbered page'}</div>
+        ${renderRunningHead('header', pageIndex)}
         ${lines}
+        ${footnotesHtml}
+        ${renderRunningHead('footer', pageIndex)}
+        ${opts.includeArrows ? '<svg class="arrow-layer"></svg>' : ''}
       </section>
     `;
   }).join('');
 }
 
+function generateFrontMatter(pages: PageData[], book: BookContext): string {
+  const frontMatter = book.bookStructure?.frontMatter;
+  const toc = buildTableOfContents(pages, book.bookStructure);
+  const frontPages = getFrontMatterPages(frontMatter);
+  const labels = getPageLabels(book.bookStructure, pages, frontPages.length).frontMatter;
+
+  return frontPages
+    .map((page, index) => ({ page, label: labels[index].label }))
+    .filter(({ page }) => page.kind !== 'blank') // Recto padding only matters on paper
+    .map(({ page, label }) => `
+      <section class="page front-matter front-${page.kind}" id="${page.id}">
+        <div class="page-title">${label ? `Page ${label}` : 'Unnumbered page'}</div>
+        ${renderFrontMatterPage(page, book, toc)}
+      </section>
+    `).join('');
+}
+
+function renderFrontMatterPage(page: FrontMatterPage, book: BookContext, toc: TocEntry[]): string {
+  const { metadata } = book;
+  const frontMatter = book.bookStructure?.frontMatter || {};
+
+  switch (page.kind) {
+    case 'title':
+      return `
+        <h1>${escapeHtml(metadata.title)}</h1>
+        ${metadata.subtitle ? `<p class="subtitle">${escapeHtml(metadata.subtitle)}</p>` : ''}
+        ${metadata.author ? `<p class="author">${escapeHtml(metadata.author)}</p>` : ''}
+        ${metadata.publisher ? `<p class="publisher">${escapeHtml(metadata.publisher)}</p>` : ''}
+      `;
+    case 'copyright':
+      return getCopyrightLines(metadata).map(line => `<p>${escapeHtml(line)}</p>`).join('');
+    case 'dedication':
+      return `<p>${escapeHtml(frontMatter.dedication || '')}</p>`;
+    case 'preface':
+      return `<h2>Preface</h2>${splitParagraphs(frontMatter.preface || '').map(p => `<p>${escapeHtml(p)}</p>`).join('')}`;
+    case 'toc':
+      return `
+        <h2>Contents</h2>
+        <ol class="toc">
+          ${toc.map(entry => `
+            <li><a href="#page-${entry.pageNumber}">${escapeHtml(entry.title)}</a><span class="leader"></span><span>${escapeHtml(entry.label)}</span></li>
+          `).join('')}
+        </ol>
+      `;
+    default:
+      return '';
+  }
+}
+
+function generateBackMatter(pages: PageData[], wordGroups: WordGroup[], book: BookContext): string {
+  const backMatter = book.bookStructure?.backMatter;
+  if (!backMatter?.glossary && !backMatter?.index) return '';
+
+  const entries = collectGlossaryEntries(pages, wordGroups, book.linkedPairs || []);
+  const pageByLine = getPageNumbersByLine(pages);
+  const labels = getBodyPageLabels(pages, book.bookStructure);
+  // Links go to the page's position; the text is its printed number
+  const pageLinks = (numbers: number[]) => numbers
+    .filter(n => labels[n - 1]?.label)
+    .map(n => `<a href="#page-${n}">${escapeHtml(labels[n - 1].label)}</a>`)
+    .join(', ');
+  const sections: string[] = [];
+
+  if (backMatter.glossary) {
+    sections.push(`
+      <section class="page back-matter back-glossary" id="back-glossary">
+        <h2>Glossary</h2>
+        <dl class="glossary">
+          ${entries.map(entry => `
+            <div><dt>${escapeHtml(entry.french)}</dt><dd>${escapeHtml(entry.english.join('; '))}</dd><dd class="refs">${pageLinks(getEntryPageNumbers(entry, pageByLine))}</dd></div>
+          `).join('')}
+        </dl>
+      </section>
+    `);
+  }
+
+  if (backMatter.index) {
+    const items = entries.map((entry, i) => {
+      const letter = indexLetter(entry.french);
+      const heading = i === 0 || indexLetter(entries[i - 1].french) !== letter
+        ? `<li class="index-letter">${escapeHtml(letter)}</li>`
+        : '';
+      return `${heading}<li><span>${escapeHtml(entry.french)}</span><span class="leader"></span><span>${pageLinks(getEntryPageNumbers(entry, pageByLine))}</span></li>`;
+    }).join('');
+    sections.push(`
+      <section class="page back-matter back-index" id="back-index">
+        <h2>Index</h2>
+        <ul class="index">${items}</ul>
+      </section>
+    `);
+  }
+
+  return sections.join('');
+}
+
+function renderContentBlock(block: PageContent): string {
+  switch (block.type) {
+    case 'image': {
+      const captions = [
+        block.captionFrench ? `<span class="caption-french">${escapeHtml(block.captionFrench)}</span>` : '',
+        block.caption ? `<span>${escapeHtml(block.caption)}</span>` : ''
+      ].join('');
+      return `
+        <div class="content-block content-image" id="block-${block.id}" style="text-align: ${block.alignment || 'center'}">
+          <figure>
+            <img src="${escapeHtml(block.src)}" alt="${escapeHtml(block.alt || '')}" style="width: ${block.width || 'auto'}" />
+            ${captions ? `<figcaption>${captions}</figcaption>` : ''}
+          </figure>
+        </div>
+      `;
+    }
+    case 'table': {
+      const head = block.headers.map(h => `<th>${escapeHtml(h)}</th>`).join('');
+      const rows = block.rows.map(row => `<tr>${row.map(cell => `<td>${escapeHtml(cell)}</td>`).join('')}</tr>`).join('');
+      const caption = [block.captionFrench, block.caption].filter(Boolean).map(c => escapeHtml(c!)).join(' — ');
+      return `
+        <div class="content-block content-table" id="block-${block.id}">
+          <table style="border-style: ${block.borderStyle || 'solid'}">
+            ${caption ? `<caption>${caption}</caption>` : ''}
+            <thead><tr>${head}</tr></thead>
+            <tbody>${rows}</tbody>
+          </table>
+        </div>
+      `;
+    }
+    case 'divider': {
+      const inner = DIVIDER_SYMBOLS[block.dividerStyle] || '<hr />';
+      return `<div class="content-block content-divider" id="block-${block.id}" style="padding: ${block.spacing || '10mm'} 0">${inner}</div>`;
+    }
+    case 'callout': {
+      const { stamp, headerColor, background } = getCalloutStyle(block);
+      const icon = block.icon || stamp?.icon || '';
+      return `
+        <aside class="content-block callout callout-${block.calloutType}" id="block-${block.id}" style="background-color: ${background}">
+          <div class="callout-header" style="background-color: ${headerColor}">${icon} ${escapeHtml(block.title || stamp?.name || '')}</div>
+          <div class="callout-body">${escapeHtml(block.content)}</div>
+        </aside>
+      `;
+    }
+    default:
+      return '';
+  }
+}
+
 function renderTextWithGroups(
   text: string,
   groups: WordGroup[],
-  lineId: string,
-  language: 'french' | 'english'
+  language: 'french' | 'english',
+  words: WordData[] = [],
+  footnotes: Footnote[] = [],
+  wrapWords = false // Every word in a span with its ID, for the arrow script to measure
 ): string {
   if (!text) return '';
-  
-  // Find groups for this language
-  const languageGroups = groups.filter(g => g.language === language);
-  
-  if (languageGroups.length === 0) {
-    return escapeHtml(text);
-  }
-  
-  // Split text into words using the same logic as WordGroupRenderer
-  const tokens = text.split(/([a-zA-Z0-9À-ÿ'']+)/).filter(Boolean);
-  let wordIndex = 0;
-  
-  return tokens.map(token => {
-    // Check if it's a word using the same regex
-    const isWord = /^[a-zA-Z0-9À-ÿ'']+$/.test(token);
-    
-    if (!isWord) {
+
+  return getLineTokens(text, groups, language, words, footnotes).map(({ text: token, wordId, group, footnotes: notes }) => {
+    if (!wordId) {
       return escapeHtml(token);
     }
     
-    // It's a word, increment index
-    const currentWordIndex = wordIndex++;
-    const wordId = `${lineId}-${language}-${currentWordIndex}`;
-    
-    // Check if this word is part of any group
-    const group = languageGroups.find(g => g.wordIds.includes(wordId));
+    const markers = notes
+      .map(f => `<sup class="footnote-ref" id="fnref-${f.id}"><a href="#fn-${f.id}">${f.number}</a></sup>`)
+      .join('');
+    const idAttr = wrapWords ? ` data-word-id="${wordId}"` : '';
     
     if (group) {
-      const typeClass = group.anecdoteType || group.type || 'custom';
       const label = group.label || (group.type ? getTypeName(group.type) : '');
-      const styleAttr = group.color && !group.type && !group.anecdoteType ? `style="border-bottom: 2px solid ${group.color}; background-color: ${group.color}33;"` : '';
+      const color = getCustomGroupColor(group);
+      const styleAttr = color ? `style="border-bottom: 2px solid ${color}; background-color: ${color}33;"` : '';
       
-      return `<span class="word-group ${typeClass}" data-type="${label}" ${styleAttr}>${escapeHtml(token)}</span>`;
+      return `<span class="word-group ${getGroupClass(group)}" data-type="${label}"${idAttr} ${styleAttr}>${escapeHtml(token)}</span>${markers}`;
     }
     
-    return escapeHtml(token);
+    return (wrapWords ? `<span${idAttr}>${escapeHtml(token)}</span>` : escapeHtml(token)) + markers;
   }).join('');
 }
 
@@ -469,7 +928,7 @@ function getTypeName(type: WordGroupType): string {
   return names[type] || type;
 }
 
-function generateJS(opts: ExportOptions): string {
+function generateJS(opts: ExportOptions, arrowPages: ArrowPage[]): string {
   return `
     // Theme toggle
     const themeBtn = document.getElementById('themeToggle');
@@ -501,6 +960,39 @@ function generateJS(opts: ExportOptions): string {
     updateRevealMode(); // Set initial state
     ` : ''}
     
+    // Arrows: routed around the words once fonts have loaded, and again on resize
+    ${arrowPages.length > 0 ? `
+    const arrowPages = ${JSON.stringify(arrowPages).replace(/</g, '\\u003c')};
+    const arrowRouter = (${arrowRouter.toString()})(${JSON.stringify(DEFAULT_ARROW_LABEL)});
+    const drawArrows = ${drawArrows.toString()};
+    let arrowFrame = 0;
+    
+    function layoutArrows() {
+      cancelAnimationFrame(arrowFrame);
+      arrowFrame = requestAnimationFrame(() => drawArrows(arrowPages, arrowRouter));
+    }
+    
+    document.fonts.ready.then(layoutArrows);
+    window.addEventListener('resize', layoutArrows);
+    ${opts.arrowsOnHover ? `
+    // Hovering a source word shows the arrows leaving its group
+    const arrowsByWord = {};
+    arrowPages.forEach(page => page.arrows.forEach(arrow => arrow.sources.forEach(source => source.wordIds.forEach(id => {
+      (arrowsByWord[id] = arrowsByWord[id] || []).push(arrow.id);
+    }))));
+    
+    function showArrows(e, visible) {
+      const word = e.target.closest('[data-word-id]');
+      (word ? arrowsByWord[word.dataset.wordId] || [] : []).forEach(id => {
+        document.querySelectorAll('g[data-arrow-id="' + id + '"]').forEach(g => g.classList.toggle('visible', visible));
+      });
+    }
+    
+    document.querySelector('.content').addEventListener('mouseover', (e) => showArrows(e, true));
+    document.querySelector('.content').addEventListener('mouseout', (e) => showArrows(e, false));
+    ` : ''}
+    ` : ''}
+    
     // Keyboard navigation
     document.addEventListener('keydown', (e) => {
       if (e.key === 'ArrowRight' || e.key === 'ArrowDown') {
@@ -517,15 +1009,4 @@ function generateJS(opts: ExportOptions): string {
   `;
 }
 
-function escapeHtml(text: string): string {
-  const escapeMap: Record<string, string> = {
-    '&': '&amp;',
-    '<': '&lt;',
-    '>': '&gt;',
-    '"': '&quot;',
-    "'": '&#039;'
-  };
-  return text?.replace(/[&<>"']/g, char => escapeMap[char] || char) || '';
-}
-
 export default generateInteractiveHTML;
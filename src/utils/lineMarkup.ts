@@ -0,0 +1,80 @@
+import { DEFAULT_STAMP_TEMPLATES } from '../types';
+import type { CalloutContent, Footnote, Language, WordData, WordGroup } from '../types';
+import { tokenizeText } from './wordTokens';
+
+// What the HTML and EPUB exports share when writing out the body: a line's tokens with the
+// word groups and footnotes they carry, and the look of content blocks. Each export turns
+// them into its own markup.
+
+export interface LineToken {
+  text: string;
+  wordId?: string; // Set for words only
+  group?: WordGroup;
+  footnotes: Footnote[];
+}
+
+export const DIVIDER_SYMBOLS: Record<string, string> = { dots: '• • •', asterisks: '* * *', fleuron: '❧', ornament: '§' };
+
+/**
+ * The line's text split like WordGroupRenderer splits it, each word with its ID, the
+ * group it belongs to in `language` and the footnotes on it
+ */
+export function getLineTokens(
+  text: string,
+  groups: WordGroup[],
+  language: Language,
+  words: WordData[] = [],
+  footnotes: Footnote[] = []
+): LineToken[] {
+  const languageGroups = groups.filter(g => g.language === language);
+
+  return tokenizeText(text).map(({ text: token, isWord, wordIndex }) => {
+    if (!isWord) return { text: token, footnotes: [] };
+
+    // Word identity is the line's WordData UUID; projects are migrated to it on load
+    const wordId = words[wordIndex!]?.id;
+    return {
+      text: token,
+      wordId,
+      group: languageGroups.find(g => g.wordIds.includes(wordId)),
+      footnotes: footnotes.filter(f => f.wordId === wordId)
+    };
+  });
+}
+
+/**
+ * Class of a group's span: its anecdote type, its word type or `custom`
+ */
+export function getGroupClass(group: WordGroup): string {
+  return group.anecdoteType || group.type || 'custom';
+}
+
+/**
+ * Colour a custom group brings with it. Typed groups are coloured by the stylesheet.
+ */
+export function getCustomGroupColor(group: WordGroup): string | undefined {
+  return group.color && !group.type && !group.anecdoteType ? group.color : undefined;
+}
+
+/**
+ * Stamp a callout is based on, with its header and background colours
+ */
+export function getCalloutStyle(block: CalloutContent) {
+  const stamp = DEFAULT_STAMP_TEMPLATES.find(t => t.type === block.calloutType);
+  return {
+    stamp,
+    headerColor: block.color || stamp?.headerColor || '#6b7280',
+    background: stamp?.backgroundColor || '#f9fafb'
+  };
+}
+
+export function escapeHtml(text: string): string {
+  const escapeMap: Record<string, string> = {
+    '&': '&amp;',
+    '<': '&lt;',
+    '>': '&gt;',
+    '"': '&quot;',
+    "'": '&#039;'
+  };
+  return text?.replace(/[&<>"']/g, char => escapeMap[char] || char) || '';
+}
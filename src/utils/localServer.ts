@@ -0,0 +1,5 @@
+// The local server keeps the projects, preferences and palettes, renders the PDF, and
+// serves the project's fonts, images and audio by path, e.g. `${LOCAL_SERVER}/fonts/Lora.woff2`.
+// Paths in a project are relative to it.
+
+export const LOCAL_SERVER = 'http://localhost:3001';
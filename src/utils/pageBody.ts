@@ -0,0 +1,98 @@
+import type { LineData, PageContent, PageData } from '../types';
+import { ensureLineWords } from './wordTokens';
+
+// A page body is the ordered `PageData.lines` array: bilingual text lines and content
+// blocks (image, table, divider, callout) carried as lines with `contentData`.
+
+/**
+ * Content block embedded in a body entry, if it is not a plain text line
+ */
+export function getContentBlock(line: LineData): PageContent | undefined {
+  return line.contentData && line.contentData.type !== 'text' ? line.contentData : undefined;
+}
+
+export function isTextLine(line: LineData): boolean {
+  return !getContentBlock(line);
+}
+
+/**
+ * Wrap a content block as a body entry so it can sit between text lines
+ */
+export function lineFromContent(content: PageContent, lineNumber: number): LineData {
+  const textContent = content.type === 'text' ? content : undefined;
+  return ensureLineWords({
+    id: content.id,
+    frenchText: textContent?.frenchText || '',
+    englishText: textContent?.englishText || '',
+    frenchWords: textContent?.frenchWords,
+    englishWords: textContent?.englishWords,
+    frenchStyles: textContent?.frenchStyles,
+    englishStyles: textContent?.englishStyles,
+    lineNumber,
+    type: content.type,
+    sectionType: textContent?.sectionType,
+    note: textContent?.note,
+    contentData: textContent ? undefined : content
+  });
+}
+
+/**
+ * Merge the legacy parallel `content` array into `lines`. A block with a `lineNumber`
+ * is placed before the text line carrying that number, otherwise it goes at the end.
+ */
+export function mergeLegacyContent(page: PageData): PageData {
+  if (!page.content || page.content.length === 0) {
+    const { content: _legacy, ...rest } = page;
+    return rest;
+  }
+
+  const lines = [...(page.lines || [])];
+  const blocks = [...page.content].sort((a, b) => (a.lineNumber ?? Infinity) - (b.lineNumber ?? Infinity));
+
+  blocks.forEach(block => {
+    if (lines.some(l => l.id === block.id)) return;
+    const entry = lineFromContent(block, 0);
+    const beforeIndex = block.lineNumber !== undefined
+      ? lines.findIndex(l => isTextLine(l) && l.lineNumber >= block.lineNumber!)
+      : -1;
+    if (beforeIndex === -1) {
+      lines.push(entry);
+    } else {
+      lines.splice(beforeIndex, 0, entry);
+    }
+  });
+
+  const { content: _legacy, ...rest } = page;
+  return { ...rest, lines: lines.map((l, idx) => ({ ...l, lineNumber: idx + 1 })) };
+}
+
+/**
+ * Editable text fields of a content block, used by search and replace
+ */
+export type ContentTextField = 'alt' | 'caption' | 'captionFrench' | 'title' | 'content';
+
+export function getContentTextFields(content: PageContent): { field: ContentTextField; text: string }[] {
+  const fields: { field: ContentTextField; text: string }[] = [];
+  const add = (field: ContentTextField, text?: string) => {
+    if (text) fields.push({ field, text });
+  };
+
+  switch (content.type) {
+    case 'image':
+      add('captionFrench', content.captionFrench);
+      add('caption', content.caption);
+      add('alt', content.alt);
+      break;
+    case 'table':
+      add('captionFrench', content.captionFrench);
+      add('caption', content.caption);
+      break;
+    case 'callout':
+      add('title', content.title);
+      add('content', content.content);
+      break;
+    default:
+      break;
+  }
+  return fields;
+}
@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'vitest';
+import { getPageLabels } from '../../pageNumbering.js';
+import { BookStructure, PageData } from '../types';
+
+const page = (id: string, chapterId?: string, blank = false): PageData => ({
+  id,
+  chapterId,
+  isBlank: blank || undefined,
+  lines: blank ? [] : [{ id: `${id}-line`, frenchText: 'Bonjour', englishText: 'Hello', lineNumber: 1 }]
+});
+
+describe('getPageLabels', () => {
+  it('should number front matter in roman, the body from 1 and restart at chapters with their own numbering', () => {
+    const bookStructure: BookStructure = {
+      frontMatter: {},
+      chapters: [
+        { id: 'c1', title: 'Un', pageIds: [] },
+        { id: 'c2', title: 'Deux', pageIds: [], startingPageNumber: 1, pageNumberStyle: 'upperRoman', hidePageNumbers: true }
+      ],
+      backMatter: {}
+    };
+    const pages = [page('p1', 'c1'), page('p2', 'c1'), page('p3', 'c2', true), page('p4', 'c2'), page('p5', 'c2')];
+
+    const labels = getPageLabels(bookStructure, pages, 2, 1);
+
+    expect(labels.frontMatter.map(l => l.label)).toEqual(['i', 'ii']);
+    // The padding page before chapter two still counts in the first section
+    expect(labels.body.map(l => l.label)).toEqual(['1', '2', '3', 'I', 'II']);
+    expect(labels.body.map(l => l.visible)).toEqual([true, true, true, false, false]);
+    // Back matter carries on from the last section
+    expect(labels.backMatter.map(l => l.label)).toEqual(['III']);
+  });
+
+  it('should leave pages unnumbered in a section without numbers', () => {
+    const bookStructure: BookStructure = {
+      frontMatter: { pageNumbering: { style: 'none' } },
+      chapters: [],
+      backMatter: {},
+      bodyPageNumbering: { style: 'arabic', start: 5 }
+    };
+
+    const labels = getPageLabels(bookStructure, [page('p1'), page('p2')], 1);
+
+    expect(labels.frontMatter).toEqual([{ value: 1, label: '', visible: false }]);
+    expect(labels.body.map(l => l.label)).toEqual(['5', '6']);
+  });
+});
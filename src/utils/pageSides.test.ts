@@ -0,0 +1,32 @@
+import { describe, it, expect } from 'vitest';
+import { getPageMargins, getSpreads } from './pageSides';
+import { PageLayout } from '../types';
+
+const layout: PageLayout = {
+  size: 'A5',
+  width: '148mm',
+  height: '210mm',
+  orientation: 'portrait',
+  margins: { top: '20mm', right: '15mm', bottom: '20mm', left: '25mm' },
+  gutter: '5mm'
+};
+
+describe('getPageMargins', () => {
+  it('should put the gutter on the binding edge and mirror versos', () => {
+    expect(getPageMargins(layout, 'recto')).toMatchObject({ left: '30mm', right: '15mm' });
+    expect(getPageMargins(layout, 'verso')).toMatchObject({ left: '25mm', right: '20mm' });
+    expect(getPageMargins({ ...layout, mirrorMargins: true }, 'verso')).toMatchObject({ left: '15mm', right: '30mm' });
+  });
+});
+
+describe('getSpreads', () => {
+  it('should open on a lone recto and pair versos with the following recto', () => {
+    expect(getSpreads(4)).toEqual([
+      { verso: null, recto: 0 },
+      { verso: 1, recto: 2 },
+      { verso: 3, recto: null }
+    ]);
+    // After an even count of front matter pages the body still opens on a recto
+    expect(getSpreads(2, 5)[0]).toEqual({ verso: null, recto: 0 });
+  });
+});
@@ -0,0 +1,65 @@
+import type { PageLayout, PageMargins } from '../types';
+import { DEFAULT_MARGIN } from '../../pageGeometry.js';
+
+// Facing pages: odd page numbers are rectos (right-hand, bound on the left), even page
+// numbers are versos. Page numbers here are positions in the printed book, so generated
+// front matter and blank padding pages count.
+
+export type PageSide = 'recto' | 'verso';
+
+/**
+ * Side of a page from its 1-based position in the book
+ */
+export function getPageSide(bookPageNumber: number): PageSide {
+  return bookPageNumber % 2 === 1 ? 'recto' : 'verso';
+}
+
+const addLengths = (a: string, b?: string) => {
+  if (!b || parseFloat(b) === 0) return a;
+  const unitA = a.replace(/[-\d.\s]/g, '') || 'mm';
+  const unitB = b.replace(/[-\d.\s]/g, '') || 'mm';
+  return unitA === unitB ? `${(parseFloat(a) || 0) + (parseFloat(b) || 0)}${unitA}` : `calc(${a} + ${b})`;
+};
+
+/**
+ * Page margins for one side of a spread. The layout's margins describe a recto: `left` is
+ * the inside margin and `right` the outside one. The gutter always widens the inside
+ * (binding) margin; with mirror margins, versos swap inside and outside.
+ */
+export function getPageMargins(layout: PageLayout | undefined, side: PageSide): PageMargins {
+  if (!layout) {
+    return { top: DEFAULT_MARGIN, right: DEFAULT_MARGIN, bottom: DEFAULT_MARGIN, left: DEFAULT_MARGIN };
+  }
+
+  const { top, bottom, left, right } = layout.margins;
+  if (side === 'recto') {
+    return { top, bottom, left: addLengths(left, layout.gutter), right };
+  }
+
+  return layout.mirrorMargins
+    ? { top, bottom, left: right, right: addLengths(left, layout.gutter) }
+    : { top, bottom, left, right: addLengths(right, layout.gutter) };
+}
+
+export interface Spread {
+  verso: number | null; // Page index shown on the left
+  recto: number | null; // Page index shown on the right
+}
+
+/**
+ * Group pages into facing spreads. A book opens on a lone recto, so page 1 has no
+ * facing verso, and a trailing verso has no recto.
+ */
+export function getSpreads(pageCount: number, firstPageNumber = 1): Spread[] {
+  const spreads: Spread[] = [];
+  for (let index = 0; index < pageCount; index++) {
+    if (getPageSide(firstPageNumber + index) === 'verso') {
+      spreads.push({ verso: index, recto: null });
+    } else {
+      const last = spreads[spreads.length - 1];
+      if (last && last.recto === null && last.verso === index - 1) last.recto = index;
+      else spreads.push({ verso: null, recto: index });
+    }
+  }
+  return spreads;
+}
@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest';
+import { paginateBody } from './pagination';
+import { LineData, SectionType } from '../types';
+
+const makeLines = (types: (SectionType | undefined)[]): LineData[] =>
+  types.map((sectionType, i) => ({
+    id: `line-${i}`,
+    lineNumber: i + 1,
+    frenchText: `Fr ${i}`,
+    englishText: `En ${i}`,
+    sectionType
+  }));
+
+const ids = (pages: LineData[][]) => pages.map(p => p.map(l => l.id));
+
+describe('paginateBody', () => {
+  it('should fill pages up to the available height', () => {
+    const lines = makeLines(Array(6).fill(undefined));
+    const pages = paginateBody(lines, Array(6).fill(100), 300, { orphans: 1, widows: 1 }, 0);
+    expect(ids(pages)).toEqual([
+      ['line-0', 'line-1', 'line-2'],
+      ['line-3', 'line-4', 'line-5']
+    ]);
+  });
+
+  it('should keep a heading with the following line', () => {
+    const lines = makeLines([undefined, undefined, 'heading', undefined, undefined]);
+    const pages = paginateBody(lines, Array(5).fill(100), 300, { orphans: 1, widows: 1 }, 0);
+    expect(ids(pages)[0]).toEqual(['line-0', 'line-1']);
+    expect(ids(pages)[1][0]).toBe('line-2');
+  });
+
+  it('should not leave a widow at the top of the next page', () => {
+    const lines = makeLines(Array(4).fill(undefined));
+    const pages = paginateBody(lines, Array(4).fill(100), 300, { orphans: 1, widows: 2 }, 0);
+    expect(ids(pages)).toEqual([
+      ['line-0', 'line-1'],
+      ['line-2', 'line-3']
+    ]);
+  });
+
+  it('should reserve room for footnotes at the bottom of the page', () => {
+    const lines = makeLines(Array(6).fill(undefined));
+    const noted = paginateBody(lines, Array(6).fill(90), 300, { orphans: 1, widows: 1 }, 0, [0, 30, 0, 0, 0, 0]);
+    expect(ids(noted)[0]).toEqual(['line-0', 'line-1']);
+
+    const plain = paginateBody(lines, Array(6).fill(90), 300, { orphans: 1, widows: 1 }, 0);
+    expect(ids(plain)[0]).toEqual(['line-0', 'line-1', 'line-2']);
+  });
+});
@@ -0,0 +1,398 @@
+import type { Footnote, LineData, PageContent, SidebarCard, ThemeConfig, TypographySettings, UISettings } from '../types';
+import { getContentBlock } from './pageBody';
+import { tokenizeText } from './wordTokens';
+import { parseToPixels, getContentArea } from '../../pageGeometry.js';
+import { getLineGridTemplate, LINE_COLUMN_GAP } from '../../pageGrid.js';
+
+// ─────────────────────────────────────────────────────────────
+// PAGINATION ENGINE
+// Measures every body entry (text line or content block) offscreen with the same
+// structure and classes the workspace renders, then breaks the body into pages.
+// The resulting pages are what the workspace, the HTML export and the PDF (rendered
+// by the server from the saved project, on the same line grid) all lay out.
+// ─────────────────────────────────────────────────────────────
+
+export interface PaginationEnvironment {
+  theme: ThemeConfig;
+  uiSettings: Pick<UISettings, 'showFrench' | 'showEnglish'>;
+  sidebars: SidebarCard[];
+}
+
+// Vertical space between body entries (`space-y-6` in the workspace)
+export const BODY_ENTRY_GAP = 24;
+const DEFAULT_ORPHANS = 2;
+const DEFAULT_WIDOWS = 2;
+const IMAGE_LOAD_TIMEOUT = 3000;
+// Rule and spacing above the footnote area at the bottom of a page
+export const FOOTNOTE_AREA_OVERHEAD = 33;
+// Footnote bodies are set smaller and tighter than the text (`text-xs leading-snug`)
+const FOOTNOTE_FONT_SIZE = 12;
+const FOOTNOTE_LINE_HEIGHT = 1.375;
+const FOOTNOTE_GAP = 4;
+
+export { parseToPixels, getContentArea, getLineGridTemplate, LINE_COLUMN_GAP };
+
+/**
+ * Rough height of a body entry, used when no DOM is available to measure in
+ */
+export function estimateEntryHeight(line: LineData, theme: ThemeConfig): number {
+  const fontSize = parseFloat(theme.fontSize) || 16;
+  const baseLineHeight = fontSize * (parseFloat(theme.lineHeight) || 1.6);
+  const block = getContentBlock(line);
+
+  if (block) {
+    switch (block.type) {
+      case 'divider':
+        return 40;
+      case 'callout':
+        return 80 + block.content.length * 0.3;
+      case 'table':
+        return 40 + block.rows.length * 30;
+      case 'image':
+        return 200;
+      default:
+        break;
+    }
+  }
+
+  const textLength = Math.max((line.frenchText || '').length, (line.englishText || '').length);
+  const estimatedLines = Math.ceil(textLength / 60);
+  let multiplier = 1;
+  if (line.sectionType === 'title') multiplier = 2;
+  if (line.sectionType === 'heading') multiplier = 1.5;
+  const layoutMultiplier = theme.layoutMode === 'interlinear' ? 2 : 1;
+
+  return Math.max(baseLineHeight, estimatedLines * baseLineHeight * multiplier * layoutMultiplier);
+}
+
+// ─────────────────────────────────────────────────────────────
+// OFFSCREEN MEASUREMENT
+// ─────────────────────────────────────────────────────────────
+
+function el(tag: string, className = '', style: Partial<CSSStyleDeclaration> = {}, text?: string): HTMLElement {
+  const node = document.createElement(tag);
+  if (className) node.className = className;
+  Object.assign(node.style, style);
+  if (text !== undefined) node.textContent = text;
+  return node;
+}
+
+// Mirrors WordGroupRenderer: inline-block word spans inside a loose-leading block
+function buildWords(text: string, fontFamily: string): HTMLElement {
+  const outer = el('div', 'relative inline-block w-full leading-loose', { fontFamily });
+  const inner = el('div', 'relative whitespace-pre-wrap');
+  tokenizeText(text).forEach(token => {
+    inner.appendChild(token.isWord
+      ? el('span', 'relative inline-block px-0.5 -mx-0.5', {}, token.text)
+      : el('span', '', {}, token.text));
+  });
+  outer.appendChild(inner);
+  return outer;
+}
+
+function buildTextLine(line: LineData, env: PaginationEnvironment, splitRatio: number): HTMLElement {
+  const { theme, uiSettings, sidebars } = env;
+  const { showFrench, showEnglish } = uiSettings;
+  const isTitle = line.sectionType === 'title';
+  const isHeading = line.sectionType === 'heading';
+
+  const row = el('div', 'grid relative', {
+    gridTemplateColumns: getLineGridTemplate(theme.layoutMode, showFrench, showEnglish, splitRatio),
+    gap: LINE_COLUMN_GAP
+  });
+  row.appendChild(el('div', 'font-mono text-sm text-right pr-2 pt-1', {}, String(line.lineNumber)));
+
+  const french = () => buildWords(line.frenchText, theme.frenchFontFamily);
+  const english = () => buildWords(line.englishText, theme.englishFontFamily);
+
+  if (theme.layoutMode === 'interlinear') {
+    const stack = el('div', ['relative p-1 space-y-2', isTitle && 'text-center py-4', isHeading && 'border-b py-2'].filter(Boolean).join(' '));
+    if (showFrench) {
+      const cell = el('div', ['relative p-1', isTitle && 'text-2xl font-bold', isHeading && 'text-xl font-bold'].filter(Boolean).join(' '));
+      cell.appendChild(french());
+      stack.appendChild(cell);
+    }
+    if (showEnglish) {
+      const cell = el('div', ['relative p-1', isTitle && 'text-lg italic', isHeading && 'text-base italic'].filter(Boolean).join(' '));
+      cell.appendChild(english());
+      stack.appendChild(cell);
+    }
+    row.appendChild(stack);
+  } else {
+    if (showFrench) {
+      const cell = el('div', ['relative p-1', isTitle && 'text-2xl font-bold text-center', isHeading && 'text-xl font-bold', line.sectionType === 'note' && 'text-sm italic border-l-4 pl-3'].filter(Boolean).join(' '));
+      cell.appendChild(french());
+      row.appendChild(cell);
+    }
+    if (showEnglish) {
+      const cell = el('div', ['relative p-1', showFrench && 'border-l pl-4', isTitle && 'text-lg italic text-center', isHeading && 'text-base italic'].filter(Boolean).join(' '));
+      cell.appendChild(english());
+      row.appendChild(cell);
+    }
+  }
+
+  // Sidebar cards sit in the last column and can make a line taller than its text
+  const cards = el('div', 'relative');
+  sidebars.filter(s => s.anchoredLineId === line.id).forEach(card => {
+    const box = el('div', 'rounded text-sm mb-2 overflow-hidden');
+    box.appendChild(el('div', 'px-2 py-1 font-bold text-xs', {}, card.title || card.type));
+    box.appendChild(el('div', 'p-2 text-xs whitespace-pre-wrap', {}, card.content));
+    cards.appendChild(box);
+  });
+  row.appendChild(cards);
+
+  return row;
+}
+
+function buildContentBlock(block: PageContent): HTMLElement {
+  switch (block.type) {
+    case 'image': {
+      const figure = el('figure', 'book-figure my-4', { width: block.width || 'auto', maxWidth: '100%' });
+      const img = el('img', 'book-image', { width: block.width || '100%', height: block.height || 'auto' }) as HTMLImageElement;
+      img.src = block.src;
+      img.alt = block.alt;
+      figure.appendChild(img);
+      if (block.caption || block.captionFrench) {
+        const caption = el('figcaption', 'text-center text-sm italic mt-2');
+        if (block.captionFrench) caption.appendChild(el('div', '', {}, block.captionFrench));
+        if (block.caption) caption.appendChild(el('div', '', {}, block.caption));
+        figure.appendChild(caption);
+      }
+      return figure;
+    }
+    case 'table': {
+      const wrapper = el('div', 'my-4');
+      const table = el('table', 'book-table w-full border-collapse');
+      if (block.headers.length > 0) {
+        const head = el('tr');
+        block.headers.forEach(h => head.appendChild(el('th', 'p-2 text-left border font-semibold text-sm', {}, h)));
+        table.appendChild(head);
+      }
+      block.rows.forEach(row => {
+        const tr = el('tr');
+        row.forEach(cell => tr.appendChild(el('td', 'p-2 border text-sm', {}, cell)));
+        table.appendChild(tr);
+      });
+      if (block.caption) {
+        table.appendChild(el('caption', 'caption-bottom pt-2 text-sm italic', {}, [block.captionFrench, block.caption].filter(Boolean).join(' • ')));
+      }
+      wrapper.appendChild(table);
+      return wrapper;
+    }
+    case 'divider': {
+      const divider = el('div', 'divider flex items-center justify-center', { padding: block.spacing || '10mm' });
+      divider.appendChild(block.dividerStyle === 'line'
+        ? el('div', 'w-1/2 h-px')
+        : el('span', block.dividerStyle === 'fleuron' || block.dividerStyle === 'ornament' ? 'text-lg' : '', {}, '* * *'));
+      return divider;
+    }
+    case 'callout': {
+      const box = el('div', 'callout-box rounded-lg border-l-4 p-3 my-3');
+      const header = el('div', 'callout-header flex items-center gap-2 mb-2');
+      header.appendChild(el('span', 'text-base', {}, block.icon || '📝'));
+      header.appendChild(el('span', 'font-bold text-xs uppercase tracking-wide', {}, block.title || block.calloutType));
+      box.appendChild(header);
+      box.appendChild(el('div', 'callout-content text-sm leading-relaxed whitespace-pre-wrap', {}, block.content));
+      return box;
+    }
+    default:
+      return el('div');
+  }
+}
+
+function waitForImages(container: HTMLElement): Promise<void> {
+  const pending = Array.from(container.querySelectorAll('img')).filter(img => !img.complete);
+  if (pending.length === 0) return Promise.resolve();
+
+  const loads = pending.map(img => new Promise<void>(resolve => {
+    img.addEventListener('load', () => resolve(), { once: true });
+    img.addEventListener('error', () => resolve(), { once: true });
+  }));
+  const timeout = new Promise<void>(resolve => setTimeout(resolve, IMAGE_LOAD_TIMEOUT));
+  return Promise.race([Promise.all(loads).then(() => undefined), timeout]);
+}
+
+/**
+ * Measure the rendered height of each body entry (in pixels, without the gap between entries)
+ */
+export async function measureBodyHeights(
+  lines: LineData[],
+  env: PaginationEnvironment,
+  splitRatio = 0.5
+): Promise<number[]> {
+  if (typeof document === 'undefined' || !document.body) {
+    return lines.map(line => estimateEntryHeight(line, env.theme));
+  }
+
+  const { width } = getContentArea(env.theme);
+  const container = el('div', '', {
+    position: 'absolute',
+    left: '-100000px',
+    top: '0',
+    visibility: 'hidden',
+    pointerEvents: 'none',
+    width: `${width}px`,
+    fontSize: env.theme.fontSize,
+    lineHeight: env.theme.lineHeight
+  });
+  container.setAttribute('aria-hidden', 'true');
+
+  const wrappers = lines.map(line => {
+    // flow-root keeps the block's own margins inside the measured box
+    const wrapper = el('div', '', { display: 'flow-root' });
+    const block = getContentBlock(line);
+    wrapper.appendChild(block ? buildContentBlock(block) : buildTextLine(line, env, splitRatio));
+    container.appendChild(wrapper);
+    return wrapper;
+  });
+
+  document.body.appendChild(container);
+  try {
+    await waitForImages(container);
+    if (document.fonts?.ready) await document.fonts.ready;
+    return wrappers.map(w => w.getBoundingClientRect().height);
+  } finally {
+    container.remove();
+  }
+}
+
+/**
+ * Height of the footnote bodies anchored in each line (0 for lines without footnotes)
+ */
+export async function measureFootnoteHeights(
+  lines: LineData[],
+  footnotes: Footnote[],
+  theme: ThemeConfig
+): Promise<number[]> {
+  const { width } = getContentArea(theme);
+  const notesFor = (line: LineData) => footnotes.filter(f => f.lineId === line.id);
+
+  if (typeof document === 'undefined' || !document.body) {
+    const charsPerLine = Math.max(20, Math.floor(width / (FOOTNOTE_FONT_SIZE * 0.5)));
+    return lines.map(line => notesFor(line).reduce((sum, f) =>
+      sum + FOOTNOTE_GAP + Math.ceil(Math.max(1, f.content.length) / charsPerLine) * FOOTNOTE_FONT_SIZE * FOOTNOTE_LINE_HEIGHT, 0));
+  }
+
+  // Mirrors the footnote area of a workspace page
+  const container = el('div', 'text-xs leading-snug', {
+    position: 'absolute',
+    left: '-100000px',
+    top: '0',
+    visibility: 'hidden',
+    pointerEvents: 'none',
+    width: `${width}px`
+  });
+  container.setAttribute('aria-hidden', 'true');
+
+  const wrappers = lines.map(line => {
+    const wrapper = el('div', '', { display: 'flow-root' });
+    notesFor(line).forEach(f => {
+      const note = el('p', '', { marginTop: `${FOOTNOTE_GAP}px` });
+      note.appendChild(el('sup', 'mr-1', {}, String(f.number || 0)));
+      note.appendChild(document.createTextNode(f.content));
+      wrapper.appendChild(note);
+    });
+    container.appendChild(wrapper);
+    return wrapper;
+  });
+
+  document.body.appendChild(container);
+  try {
+    if (document.fonts?.ready) await document.fonts.ready;
+    return wrappers.map(w => w.getBoundingClientRect().height);
+  } finally {
+    container.remove();
+  }
+}
+
+// ─────────────────────────────────────────────────────────────
+// PAGE BREAKING
+// ─────────────────────────────────────────────────────────────
+
+const keepsWithNext = (line: LineData) =>
+  !getContentBlock(line) && (line.sectionType === 'title' || line.sectionType === 'heading');
+
+// Running text that orphan/widow control applies to
+const isFlowingText = (line: LineData) =>
+  !getContentBlock(line) && line.sectionType !== 'title' && line.sectionType !== 'heading';
+
+/**
+ * Split the body into pages given measured heights.
+ *
+ * Fills pages greedily, then moves each break earlier so that headings stay with the
+ * line that follows them and a run of text leaves at least `orphans` lines at the bottom
+ * of a page and carries at least `widows` lines to the top of the next one.
+ * A line's footnotes must land on the same page, so their height counts against it.
+ */
+export function paginateBody(
+  lines: LineData[],
+  heights: number[],
+  availableHeight: number,
+  typography: TypographySettings = {},
+  gap = BODY_ENTRY_GAP,
+  footnoteHeights: number[] = []
+): LineData[][] {
+  const orphans = Math.max(1, typography.orphans ?? DEFAULT_ORPHANS);
+  const widows = Math.max(1, typography.widows ?? DEFAULT_WIDOWS);
+  const pages: LineData[][] = [];
+
+  const pullHeadingsDown = (start: number, end: number) => {
+    while (end - 1 > start && keepsWithNext(lines[end - 1])) end--;
+    return end;
+  };
+
+  const adjustBreak = (start: number, end: number) => {
+    end = pullHeadingsDown(start, end);
+
+    if (isFlowingText(lines[end - 1]) && isFlowingText(lines[end])) {
+      let runStart = end - 1;
+      while (runStart > start && isFlowingText(lines[runStart - 1])) runStart--;
+      let runEnd = end;
+      while (runEnd < lines.length && isFlowingText(lines[runEnd])) runEnd++;
+
+      const before = end - runStart;
+      const after = runEnd - end;
+
+      if (after < widows) {
+        const candidate = end - (widows - after);
+        if (candidate - runStart >= orphans) end = candidate;
+        else if (runStart > start) end = runStart;
+      } else if (before < orphans && runStart > start) {
+        end = runStart;
+      }
+
+      // The whole run moved: the heading introducing it must follow
+      if (end === runStart) end = pullHeadingsDown(start, end);
+    }
+
+    // Never produce an empty page
+    return end > start ? end : start + 1;
+  };
+
+  let start = 0;
+  while (start < lines.length) {
+    let end = start;
+    let used = 0;
+    let hasFootnotes = false;
+    while (end < lines.length) {
+      const notes = footnoteHeights[end] || 0;
+      const needed = heights[end] + (end > start ? gap : 0) +
+        notes + (notes > 0 && !hasFootnotes ? FOOTNOTE_AREA_OVERHEAD : 0);
+      if (used + needed > availableHeight && end > start) break;
+      used += needed;
+      hasFootnotes = hasFootnotes || notes > 0;
+      end++;
+    }
+
+    if (end < lines.length) {
+      // Adjusting only ever moves a break earlier, so the page still fits
+      const adjusted = adjustBreak(start, end);
+      end = Math.min(end, adjusted);
+    }
+
+    pages.push(lines.slice(start, end));
+    start = end;
+  }
+
+  return pages;
+}
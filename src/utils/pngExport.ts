@@ -19,6 +19,30 @@ export const defaultPngExportOptions: PngExportOptions = {
   backgroundColor: '#ffffff',
 };
 
+/**
+ * Copy the editor's arrow layer onto a page clone, shifted to the page's position, so the
+ * image shows the same routed arrows as the editor
+ */
+function overlayArrows(pageElement: HTMLElement, clone: HTMLElement): void {
+  const layer = pageElement.closest('.workspace-inner')?.querySelector<SVGSVGElement>('svg.arrow-layer');
+  if (!layer || layer.clientWidth === 0) return;
+
+  const layerRect = layer.getBoundingClientRect();
+  const pageRect = pageElement.getBoundingClientRect();
+  const zoom = layerRect.width / layer.clientWidth;
+
+  const arrows = layer.cloneNode(true) as SVGSVGElement;
+  arrows.setAttribute('width', String(layer.clientWidth));
+  arrows.setAttribute('height', String(layer.clientHeight));
+  arrows.style.position = 'absolute';
+  arrows.style.left = `${(layerRect.left - pageRect.left) / zoom}px`;
+  arrows.style.top = `${(layerRect.top - pageRect.top) / zoom}px`;
+  arrows.style.width = `${layer.clientWidth}px`;
+  arrows.style.height = `${layer.clientHeight}px`;
+  arrows.style.pointerEvents = 'none';
+  clone.appendChild(arrows);
+}
+
 /**
  * Capture a single page element as PNG
  */
@@ -45,6 +69,8 @@ export async function capturePageAsPng(
     });
   }
   
+  overlayArrows(pageElement, clone);
+  
   // Create a container that is on-screen but visually hidden
   // This helps html2canvas properly compute styles
   const container = document.createElement('div');
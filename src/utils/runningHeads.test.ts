@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest';
+import { getRunningHeads } from '../../runningHeads.js';
+import { LineData, PageData, ThemeConfig } from '../types';
+
+const line = (id: string, frenchText: string, sectionType?: LineData['sectionType']): LineData => ({
+  id,
+  frenchText,
+  englishText: '',
+  lineNumber: 1,
+  sectionType
+});
+
+const pages: PageData[] = [
+  { id: 'p1', pageNumber: 1, chapterId: 'c1', lines: [line('l1', 'Chapitre un', 'title')] },
+  { id: 'p2', pageNumber: 2, chapterId: 'c1', lines: [line('l2', 'Au marché', 'heading'), line('l3', 'Bonjour.')] },
+  { id: 'p3', pageNumber: 3, chapterId: 'c1', lines: [line('l4', 'Merci.')] },
+  { id: 'p4', pageNumber: 4, chapterId: 'c2', isBlank: true, lines: [] },
+  { id: 'p5', pageNumber: 5, chapterId: 'c2', lines: [line('l5', 'Chapitre deux', 'title')] }
+];
+
+const theme = {
+  pageTemplate: {
+    header: { left: '{{bookTitle}}', center: '', right: '{{sectionTitle}}' },
+    footer: { left: '', center: '{{pageNumber}}', right: '', showOnChapterOpeners: true },
+    alternateForEvenPages: true
+  }
+} as ThemeConfig;
+
+const project = {
+  theme,
+  metadata: { title: 'Le Livre', author: '', difficultyLevel: '', year: 2024 },
+  bookStructure: {
+    frontMatter: {},
+    chapters: [{ id: 'c1', title: 'Un', pageIds: [] }, { id: 'c2', title: 'Deux', pageIds: [] }],
+    backMatter: {}
+  }
+};
+
+describe('getRunningHeads', () => {
+  it('should leave out chapter openers and blank pages, and mirror versos', () => {
+    const heads = getRunningHeads(project, pages);
+
+    expect(heads.map(h => !!h.header)).toEqual([false, true, true, false, false]);
+    expect(heads.map(h => h.footer?.center)).toEqual(['1', '2', '3', undefined, '5']);
+    // Page 2 is a verso: the recto's outer slots swap sides
+    expect(heads[1].header).toMatchObject({ left: 'Au marché', right: 'Le Livre' });
+    // The section carries over to the next page of the chapter
+    expect(heads[2].header).toMatchObject({ left: 'Le Livre', right: 'Au marché' });
+  });
+
+  it('should use the verso template when one is set', () => {
+    const heads = getRunningHeads({
+      ...project,
+      theme: { ...theme, pageTemplate: { ...theme.pageTemplate, versoHeader: { left: '{{chapterTitle}}', center: '', right: '' } } }
+    }, pages);
+
+    expect(heads[1].header).toMatchObject({ left: 'Un', right: '' });
+    expect(heads[2].header).toMatchObject({ left: 'Le Livre' });
+  });
+});
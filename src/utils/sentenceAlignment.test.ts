@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'vitest';
+import { alignSentences, splitSentences, LOW_CONFIDENCE } from './sentenceAlignment';
+
+describe('splitSentences', () => {
+  it('should keep abbreviations, initials and dialogue inside their sentence', () => {
+    expect(splitSentences('M. Dupont est arrivé. « Bonjour ! » dit-il. Il attendait… Puis J. Martin lut la p. 12.', 'french')).toEqual([
+      'M. Dupont est arrivé.',
+      '« Bonjour ! » dit-il.',
+      'Il attendait…',
+      'Puis J. Martin lut la p. 12.'
+    ]);
+    expect(splitSentences('Mr. Smith left... and came back. "Why?" She asked.', 'english')).toEqual([
+      'Mr. Smith left... and came back.',
+      '"Why?"',
+      'She asked.'
+    ]);
+  });
+});
+
+describe('alignSentences', () => {
+  const french = [
+    'Le petit garçon regardait la mer depuis la fenêtre de sa chambre.',
+    'Il pleuvait.',
+    'Sa mère l\'appela pour le dîner, mais il ne répondit pas tout de suite.',
+    'Enfin, il descendit l\'escalier en courant.'
+  ];
+  const english = [
+    'The little boy was watching the sea from his bedroom window.',
+    'It was raining.',
+    'His mother called him for dinner, but he did not answer right away.',
+    'At last, he ran down the stairs.'
+  ];
+
+  it('should pair sentences one to one when the texts match', () => {
+    const pairs = alignSentences(french, english);
+    expect(pairs.map(p => p.bead)).toEqual(['1-1', '1-1', '1-1', '1-1']);
+    expect(pairs[2].english).toBe(english[2]);
+  });
+
+  it('should absorb a merged sentence without shifting the rest', () => {
+    const merged = [english[0], `${english[1]} ${english[2]}`, english[3]];
+    const pairs = alignSentences(french, merged);
+    expect(pairs.map(p => p.bead)).toEqual(['1-1', '2-1', '1-1']);
+    expect(pairs[2]).toMatchObject({ french: french[3], english: english[3] });
+    expect(pairs[1].confidence).toBeLessThan(LOW_CONFIDENCE + 0.1);
+  });
+});
@@ -0,0 +1,185 @@
+import type { Language, LineData, PageData } from '../types';
+import { isTextLine } from './pageBody';
+import { splitBodyByChapter } from './chapters';
+
+// Sentence alignment for `autoAlign`. Each text is split into sentences with French-aware
+// rules (abbreviations, initials, guillemets, ellipses), then the two sentence lists are
+// aligned by length in the manner of Gale & Church (1993): sentences of a translation have
+// proportional lengths, so a dynamic program picks the likeliest sequence of 1–1, 1–2, 2–1,
+// 2–2, 1–0 and 0–1 matches. Chapters and content blocks split the body into runs that are
+// aligned separately, so a mismatch never spreads past a block or a chapter.
+
+export type SentenceBead = '1-1' | '1-0' | '0-1' | '2-1' | '1-2' | '2-2';
+
+export interface SentencePair {
+  french: string;
+  english: string;
+  bead: SentenceBead; // French sentences–English sentences
+  confidence: number; // 0-1
+  lineId?: string; // Existing line with exactly this text, kept with its annotations
+}
+
+export type AlignmentEntry = { kind: 'pair'; pair: SentencePair } | { kind: 'block'; line: LineData };
+
+export interface AlignmentRun {
+  chapterId?: string;
+  entries: AlignmentEntry[];
+}
+
+export const LOW_CONFIDENCE = 0.5;
+
+// Words ending in "." that do not end a sentence (lowercase, without the dot)
+const ABBREVIATIONS: Record<Language, string[]> = {
+  french: ['m', 'mm', 'mme', 'mmes', 'mlle', 'mlles', 'dr', 'pr', 'me', 'mgr', 'st', 'ste', 'p', 'pp', 'cf', 'env', 'av', 'bd', 'vol', 'chap', 'fig', 'ex', 'art', 'ed', 'éd', 'hab', 'tél'],
+  english: ['mr', 'mrs', 'ms', 'dr', 'prof', 'st', 'jr', 'sr', 'vs', 'cf', 'p', 'pp', 'vol', 'ch', 'fig', 'mt', 'no', 'gen', 'col', 'capt', 'lt', 'sgt', 'rev']
+};
+
+// End punctuation, closing quotes (French spacing allowed), whitespace, then the start of a
+// sentence: an optional opening quote or dialogue dash and a capital letter
+const BOUNDARY = /([.!?…]+)((?:[\s\u00a0\u202f]*[»”"’)\]])*)\s+(?=[«“"'(\[—–-]?[\s\u00a0\u202f]*[A-ZÀ-ÖØ-Þ])/g;
+
+// Gale & Church priors and length model
+const BEADS: { bead: SentenceBead; fr: number; en: number; prior: number }[] = [
+  { bead: '1-1', fr: 1, en: 1, prior: 0.89 },
+  { bead: '1-0', fr: 1, en: 0, prior: 0.0099 / 2 },
+  { bead: '0-1', fr: 0, en: 1, prior: 0.0099 / 2 },
+  { bead: '2-1', fr: 2, en: 1, prior: 0.089 / 2 },
+  { bead: '1-2', fr: 1, en: 2, prior: 0.089 / 2 },
+  { bead: '2-2', fr: 2, en: 2, prior: 0.011 }
+];
+const VARIANCE = 6.8;
+// Merges and unmatched sentences are worth a look even when their lengths fit
+const BEAD_CONFIDENCE: Record<SentenceBead, number> = { '1-1': 1, '2-1': 0.55, '1-2': 0.55, '2-2': 0.45, '1-0': 0.1, '0-1': 0.1 };
+const BAND = 100; // How far the alignment may drift from the diagonal, in sentences
+
+/**
+ * Split text into sentences, keeping abbreviations ("M. Dupont", "p. 12"), initials and
+ * dialogue ("« Bonjour ! » dit-il.") inside their sentence
+ */
+export function splitSentences(text: string, language: Language): string[] {
+  const sentences: string[] = [];
+  let start = 0;
+
+  for (const match of text.matchAll(BOUNDARY)) {
+    const end = match.index! + match[1].length + match[2].length;
+    if (match[1] === '.') {
+      const word = text.slice(start, match.index).match(/([A-Za-zÀ-ÿ]+)$/)?.[1];
+      const isInitial = !!word && word.length === 1 && word === word.toUpperCase();
+      if (word && (isInitial || ABBREVIATIONS[language].includes(word.toLowerCase()))) continue;
+    }
+    sentences.push(text.slice(start, end).trim());
+    start = end;
+  }
+
+  sentences.push(text.slice(start).trim());
+  return sentences.filter(Boolean);
+}
+
+// Standard normal cumulative distribution (Abramowitz & Stegun 26.2.17)
+function normalCdf(z: number): number {
+  const t = 1 / (1 + 0.2316419 * Math.abs(z));
+  const density = Math.exp(-z * z / 2) / Math.sqrt(2 * Math.PI);
+  const tail = density * t * (0.31938153 + t * (-0.356563782 + t * (1.781477937 + t * (-1.821255978 + t * 1.330274429))));
+  return z >= 0 ? 1 - tail : tail;
+}
+
+/**
+ * Align two sentence lists by length. Each returned pair joins the sentences of one match.
+ */
+export function alignSentences(french: string[], english: string[]): SentencePair[] {
+  const n = french.length;
+  const m = english.length;
+  const frLengths = french.map(s => s.length);
+  const enLengths = english.map(s => s.length);
+  const ratio = (enLengths.reduce((a, b) => a + b, 0) || 1) / (frLengths.reduce((a, b) => a + b, 0) || 1);
+
+  // Chance of two lengths under the length model, before the bead prior
+  const lengthMatch = (frLength: number, enLength: number) => {
+    const mean = Math.max(1, (frLength + enLength / ratio) / 2);
+    const delta = (enLength - frLength * ratio) / Math.sqrt(mean * VARIANCE);
+    return 2 * (1 - normalCdf(Math.abs(delta)));
+  };
+  const sum = (lengths: number[], end: number, count: number) => lengths.slice(end - count, end).reduce((a, b) => a + b, 0);
+
+  const width = m + 1;
+  const cost = new Float64Array((n + 1) * width).fill(Infinity);
+  const back = new Int8Array((n + 1) * width).fill(-1);
+  cost[0] = 0;
+  const drift = BAND + Math.abs(n - m);
+
+  for (let i = 0; i <= n; i++) {
+    const diagonal = n > 0 ? Math.round((i * m) / n) : 0;
+    for (let j = Math.max(0, diagonal - drift); j <= Math.min(m, diagonal + drift); j++) {
+      if (i === 0 && j === 0) continue;
+      BEADS.forEach(({ fr, en, prior }, b) => {
+        if (i < fr || j < en) return;
+        const previous = cost[(i - fr) * width + (j - en)];
+        if (previous === Infinity) return;
+        const match = fr > 0 && en > 0 ? lengthMatch(sum(frLengths, i, fr), sum(enLengths, j, en)) : 1;
+        const total = previous - Math.log(prior) - Math.log(Math.max(match, 1e-12));
+        if (total < cost[i * width + j]) {
+          cost[i * width + j] = total;
+          back[i * width + j] = b;
+        }
+      });
+    }
+  }
+
+  const pairs: SentencePair[] = [];
+  let i = n;
+  let j = m;
+  while (i > 0 || j > 0) {
+    const { bead, fr, en } = BEADS[back[i * width + j]];
+    const frText = french.slice(i - fr, i);
+    const enText = english.slice(j - en, j);
+    const match = fr > 0 && en > 0 ? lengthMatch(sum(frLengths, i, fr), sum(enLengths, j, en)) : 1;
+    pairs.push({
+      french: frText.join(' '),
+      english: enText.join(' '),
+      bead,
+      confidence: Math.round(Math.sqrt(match) * BEAD_CONFIDENCE[bead] * 100) / 100
+    });
+    i -= fr;
+    j -= en;
+  }
+  return pairs.reverse();
+}
+
+const sameText = (a: string, b: string) => a.replace(/\s+/g, ' ').trim() === b.replace(/\s+/g, ' ').trim();
+
+/**
+ * Re-align the whole body by sentence. Content blocks stay in place between the runs of text
+ * around them, chapters keep their own runs, and pairs whose text matches an existing line
+ * exactly point to that line so its annotations survive.
+ */
+export function planSentenceAlignment(pages: PageData[]): AlignmentRun[] {
+  return splitBodyByChapter(pages).map(({ chapterId, lines }) => {
+    const entries: AlignmentEntry[] = [];
+    let textLines: LineData[] = [];
+
+    const flush = () => {
+      if (textLines.length === 0) return;
+      const french = splitSentences(textLines.map(l => l.frenchText).join(' '), 'french');
+      const english = splitSentences(textLines.map(l => l.englishText).join(' '), 'english');
+      const unused = [...textLines];
+      alignSentences(french, english).forEach(pair => {
+        const index = unused.findIndex(l => sameText(l.frenchText, pair.french) && sameText(l.englishText, pair.english));
+        if (index !== -1) pair.lineId = unused.splice(index, 1)[0].id;
+        entries.push({ kind: 'pair', pair });
+      });
+      textLines = [];
+    };
+
+    lines.forEach(line => {
+      if (isTextLine(line)) {
+        textLines.push(line);
+      } else {
+        flush();
+        entries.push({ kind: 'block', line });
+      }
+    });
+    flush();
+
+    return { chapterId, entries };
+  });
+}
@@ -0,0 +1,37 @@
+import { describe, it, expect } from 'vitest';
+import { parseSubtitles, pairCuesByTime } from './subtitleImport';
+
+describe('parseSubtitles', () => {
+  it('should read SRT and WebVTT cues without their formatting', () => {
+    const srt = '1\r\n00:00:01,000 --> 00:00:03,500\r\n<i>Bonjour,</i>\r\n{\\an8}mon ami.\r\n\r\n2\r\n00:00:04,000 --> 00:00:05,000\r\nÇa va ?\r\n';
+    expect(parseSubtitles(srt)).toEqual([
+      { start: 1, end: 3.5, text: 'Bonjour, mon ami.' },
+      { start: 4, end: 5, text: 'Ça va ?' }
+    ]);
+
+    const vtt = 'WEBVTT\n\nNOTE a comment\n\nintro\n01:02.250 --> 01:04.000 align:start\n<v Marie>Hello &amp; welcome.\n';
+    expect(parseSubtitles(vtt)).toEqual([{ start: 62.25, end: 64, text: 'Hello & welcome.' }]);
+  });
+});
+
+describe('pairCuesByTime', () => {
+  it('should join cues that overlap and keep unmatched cues on their own', () => {
+    const french = [
+      { start: 0, end: 2, text: 'Il pleut.' },
+      { start: 2, end: 6, text: 'Nous restons à la maison ce soir.' },
+      { start: 10, end: 11, text: 'Fin.' }
+    ];
+    const english = [
+      { start: 0.1, end: 2.1, text: 'It is raining.' },
+      { start: 2.2, end: 4, text: 'We are staying' },
+      { start: 4, end: 6, text: 'home tonight.' },
+      { start: 7, end: 8, text: '[music]' }
+    ];
+    expect(pairCuesByTime(french, english).map(p => [p.french, p.english])).toEqual([
+      ['Il pleut.', 'It is raining.'],
+      ['Nous restons à la maison ce soir.', 'We are staying home tonight.'],
+      ['', '[music]'],
+      ['Fin.', '']
+    ]);
+  });
+});
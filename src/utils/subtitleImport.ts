@@ -0,0 +1,118 @@
+// Subtitle import for bilingual files. SRT and WebVTT cues are read into timed text, and a
+// French and an English track are paired by time: cues that overlap the most are joined,
+// so a subtitle split in two in one language still pairs with its single counterpart.
+
+export interface SubtitleCue {
+  start: number; // Seconds
+  end: number;
+  text: string;
+}
+
+export interface SubtitlePair {
+  start: number;
+  end: number;
+  french: string;
+  english: string;
+}
+
+const TIMING = /(\d{1,2}:)?(\d{1,2}):(\d{2})[,.](\d{1,3})\s*-->\s*(\d{1,2}:)?(\d{1,2}):(\d{2})[,.](\d{1,3})/;
+
+function seconds(hours: string | undefined, minutes: string, secs: string, fraction: string): number {
+  return (hours ? parseInt(hours, 10) * 3600 : 0) + parseInt(minutes, 10) * 60 + parseInt(secs, 10) + parseInt(fraction.padEnd(3, '0'), 10) / 1000;
+}
+
+/**
+ * Strip formatting from cue text: HTML-like tags (<i>, <v Speaker>, <c.class>), SRT
+ * positioning codes ({\an8}) and line breaks
+ */
+function cleanCueText(lines: string[]): string {
+  return lines
+    .join(' ')
+    .replace(/<[^>]*>/g, '')
+    .replace(/\{\\[^}]*\}/g, '')
+    .replace(/&amp;/g, '&')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Read the cues of an SRT or WebVTT file. Cue numbers, identifiers, NOTE and STYLE blocks
+ * are skipped.
+ */
+export function parseSubtitles(text: string): SubtitleCue[] {
+  const cues: SubtitleCue[] = [];
+  text.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n').split(/\n{2,}/).forEach(block => {
+    const lines = block.split('\n');
+    const timingIndex = lines.findIndex(l => TIMING.test(l));
+    if (timingIndex === -1) return;
+    const m = lines[timingIndex].match(TIMING)!;
+    const cueText = cleanCueText(lines.slice(timingIndex + 1));
+    if (!cueText) return;
+    cues.push({
+      start: seconds(m[1]?.slice(0, -1), m[2], m[3], m[4]),
+      end: seconds(m[5]?.slice(0, -1), m[6], m[7], m[8]),
+      text: cueText
+    });
+  });
+  return cues.sort((a, b) => a.start - b.start);
+}
+
+const overlap = (a: SubtitleCue, b: SubtitleCue) => Math.max(0, Math.min(a.end, b.end) - Math.max(a.start, b.start));
+
+/**
+ * Pair two subtitle tracks by time. Each cue is linked to the cue of the other track it
+ * overlaps the most; linked cues form one pair. Cues that overlap nothing stay on their own.
+ */
+export function pairCuesByTime(french: SubtitleCue[], english: SubtitleCue[]): SubtitlePair[] {
+  // Union-find over all cues, French first then English
+  const parent = [...french, ...english].map((_, i) => i);
+  const find = (i: number): number => (parent[i] === i ? i : (parent[i] = find(parent[i])));
+  const link = (a: number, b: number) => { parent[find(a)] = find(b); };
+
+  const best = (cue: SubtitleCue, others: SubtitleCue[]) => {
+    let index = -1;
+    let most = 0;
+    others.forEach((other, i) => {
+      if (other.start >= cue.end || other.end <= cue.start) return;
+      const amount = overlap(cue, other);
+      if (amount > most) {
+        most = amount;
+        index = i;
+      }
+    });
+    return index;
+  };
+
+  french.forEach((cue, i) => {
+    const j = best(cue, english);
+    if (j !== -1) link(i, french.length + j);
+  });
+  english.forEach((cue, j) => {
+    const i = best(cue, french);
+    if (i !== -1) link(french.length + j, i);
+  });
+
+  const groups = new Map<number, { fr: SubtitleCue[]; en: SubtitleCue[] }>();
+  const add = (index: number, cue: SubtitleCue, side: 'fr' | 'en') => {
+    const root = find(index);
+    if (!groups.has(root)) groups.set(root, { fr: [], en: [] });
+    groups.get(root)![side].push(cue);
+  };
+  french.forEach((cue, i) => add(i, cue, 'fr'));
+  english.forEach((cue, j) => add(french.length + j, cue, 'en'));
+
+  return [...groups.values()]
+    .map(({ fr, en }) => {
+      const all = [...fr, ...en];
+      return {
+        start: Math.min(...all.map(c => c.start)),
+        end: Math.max(...all.map(c => c.end)),
+        french: fr.map(c => c.text).join(' '),
+        english: en.map(c => c.text).join(' ')
+      };
+    })
+    .sort((a, b) => a.start - b.start);
+}
@@ -0,0 +1,41 @@
+import { describe, it, expect } from 'vitest';
+import { lexicalScore, proposeLineAlignment } from './wordAlignment';
+import { tokenizeWords } from './wordTokens';
+import type { LineData } from '../types';
+
+const makeLine = (frenchText: string, englishText: string): LineData => ({
+  id: 'line-1',
+  lineNumber: 1,
+  frenchText,
+  englishText,
+  frenchWords: tokenizeWords(frenchText),
+  englishWords: tokenizeWords(englishText)
+});
+
+describe('lexicalScore', () => {
+  it('should score dictionary entries, cognates and unrelated words', () => {
+    expect(lexicalScore('chat', 'cat')).toBeGreaterThan(0.9);
+    expect(lexicalScore('rapidement', 'rapidly')).toBeGreaterThan(0.7);
+    expect(lexicalScore('constructor', 'the')).toBe(0);
+    expect(lexicalScore('maison', 'dog')).toBe(0);
+  });
+});
+
+describe('proposeLineAlignment', () => {
+  it('should link each word at most once and attach the article of an elided word', () => {
+    const line = makeLine("Le chat mange l'omelette rapidement", 'The cat eats the omelette quickly');
+    const proposals = proposeLineAlignment(line);
+    const texts = proposals.map(p => `${p.sourceText}=${p.targetText}`);
+
+    expect(texts).toEqual(['Le=The', 'chat=cat', 'mange=eats', "l'omelette=the omelette"]);
+    const linked = proposals.flatMap(p => p.targetWordIds);
+    expect(new Set(linked).size).toBe(linked.length);
+    proposals.forEach(p => expect(p.confidence).toBeGreaterThanOrEqual(0.5));
+  });
+
+  it('should skip words that are already linked', () => {
+    const line = makeLine('Le chat', 'The cat');
+    const existing = [{ id: 'p', lineId: line.id, sourceWordIds: [line.frenchWords![1].id], targetWordIds: [line.englishWords![1].id] }];
+    expect(proposeLineAlignment(line, existing).map(p => p.sourceText)).toEqual(['Le']);
+  });
+});
@@ -0,0 +1,174 @@
+import type { LineData, LinkedPair, Language } from '../types';
+import { tokenizeText, getLineWords } from './wordTokens';
+import { isTextLine } from './pageBody';
+import { FRENCH_ENGLISH, FRENCH_ELISIONS } from './frenchDictionary';
+
+// Proposes French–English word links without any network access. Each French/English word
+// pair on a line is scored on how alike the words are — a dictionary entry, an identical
+// word (names, numbers) or a cognate — weighted by how close their positions in the line
+// are. Pairs are then linked greedily from the most confident down, one link per word.
+
+export const MIN_CONFIDENCE = 0.5;
+
+const DICTIONARY_SCORE = 0.95;
+const MIN_COGNATE_SIMILARITY = 0.7;
+const MIN_COGNATE_LENGTH = 4;
+const POSITION_WEIGHT = 0.3; // Share of the confidence given to the position prior
+
+// French endings rewritten to their usual English form before comparing cognates
+const COGNATE_SUFFIXES: [RegExp, string][] = [
+  [/ement$/, 'ly'],
+  [/eux$/, 'ous'],
+  [/euse$/, 'ous'],
+  [/ique$/, 'ic'],
+  [/ite$/, 'ity'],
+  [/iste$/, 'ist'],
+  [/isme$/, 'ism'],
+  [/aire$/, 'ary'],
+  [/oire$/, 'ory'],
+  [/if$/, 'ive'],
+  [/ive$/, 'ive'],
+  [/er$/, 'e']
+];
+
+export interface AlignmentProposal {
+  id: string;
+  lineId: string;
+  sourceWordIds: string[]; // French
+  targetWordIds: string[]; // English
+  sourceText: string;
+  targetText: string;
+  confidence: number; // 0-1
+}
+
+// Own entries only: words like "constructor" must not hit Object.prototype
+const lookup = (table: Record<string, string[]>, word: string): string[] =>
+  Object.prototype.hasOwnProperty.call(table, word) ? table[word] : [];
+
+interface AlignWord {
+  id: string;
+  text: string;
+  norm: string;
+  index: number;
+  elision?: string; // French elided prefix, e.g. "l" for "l'homme"
+}
+
+/**
+ * Lowercase a word and strip its accents and typographic apostrophes
+ */
+export function normalizeWord(word: string): string {
+  return word
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/’/g, "'")
+    .toLowerCase();
+}
+
+/**
+ * Similarity (0-1) of two words from their edit distance
+ */
+export function wordSimilarity(a: string, b: string): number {
+  if (!a || !b) return 0;
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    previous = current;
+  }
+  return 1 - previous[b.length] / Math.max(a.length, b.length);
+}
+
+/**
+ * How alike a French and an English word are (0-1), whatever their positions
+ */
+export function lexicalScore(french: string, english: string): number {
+  if (french === english) return french.length > 1 || /\d/.test(french) ? 1 : 0;
+  if (lookup(FRENCH_ENGLISH, french).includes(english)) return DICTIONARY_SCORE;
+  if (french.length < MIN_COGNATE_LENGTH || english.length < MIN_COGNATE_LENGTH) return 0;
+
+  const anglicized = COGNATE_SUFFIXES.reduce((word, [suffix, replacement]) => word.replace(suffix, replacement), french);
+  const similarity = Math.max(wordSimilarity(french, english), wordSimilarity(anglicized, english));
+  return similarity >= MIN_COGNATE_SIMILARITY ? similarity : 0;
+}
+
+function getAlignWords(line: LineData, language: Language): AlignWord[] {
+  const text = language === 'french' ? line.frenchText : line.englishText;
+  const words = getLineWords(line, language) || [];
+  return tokenizeText(text || '').filter(t => t.isWord).map(({ text: token, wordIndex }) => {
+    const norm = normalizeWord(token);
+    const word: AlignWord = { id: words[wordIndex!]?.id, text: token, norm, index: wordIndex! };
+    const elided = language === 'french' ? norm.match(/^([a-z]+)'(.+)$/) : null;
+    if (elided && lookup(FRENCH_ELISIONS, elided[1]).length > 0) {
+      word.elision = elided[1];
+      word.norm = elided[2];
+    }
+    return word;
+  });
+}
+
+/**
+ * Link proposals for one text line. Words already in a linked pair are left out.
+ */
+export function proposeLineAlignment(line: LineData, linkedPairs: LinkedPair[] = []): AlignmentProposal[] {
+  if (!isTextLine(line)) return [];
+
+  const linePairs = linkedPairs.filter(p => p.lineId === line.id);
+  const isLinked = (id: string) => linePairs.some(p => p.sourceWordIds.includes(id) || p.targetWordIds.includes(id));
+  const allFrench = getAlignWords(line, 'french');
+  const allEnglish = getAlignWords(line, 'english');
+  const french = allFrench.filter(w => !isLinked(w.id));
+  const english = allEnglish.filter(w => !isLinked(w.id));
+  if (french.length === 0 || english.length === 0) return [];
+
+  // Relative position in the line, 0 at the start and 1 at the end
+  const frenchCount = allFrench.length;
+  const englishCount = allEnglish.length;
+  const relative = (index: number, count: number) => (count > 1 ? index / (count - 1) : 0.5);
+
+  const candidates: { fr: AlignWord; en: AlignWord; confidence: number }[] = [];
+  french.forEach(fr => english.forEach(en => {
+    const lexical = lexicalScore(fr.norm, en.norm);
+    if (lexical === 0) return;
+    const position = 1 - Math.abs(relative(fr.index, frenchCount) - relative(en.index, englishCount));
+    const confidence = lexical * (1 - POSITION_WEIGHT + POSITION_WEIGHT * position);
+    if (confidence >= MIN_CONFIDENCE) candidates.push({ fr, en, confidence });
+  }));
+  candidates.sort((a, b) => b.confidence - a.confidence);
+
+  const used = new Set<string>();
+  const proposals: AlignmentProposal[] = [];
+  candidates.forEach(({ fr, en, confidence }) => {
+    if (used.has(fr.id) || used.has(en.id)) return;
+    used.add(fr.id);
+    used.add(en.id);
+
+    // "l'homme" ↔ "the man": take the English word just before for the elided article
+    const targets = [en];
+    const before = english.find(w => w.index === en.index - 1);
+    if (fr.elision && before && !used.has(before.id) && lookup(FRENCH_ELISIONS, fr.elision).includes(before.norm)) {
+      used.add(before.id);
+      targets.unshift(before);
+    }
+
+    proposals.push({
+      id: `${line.id}:${fr.id}`,
+      lineId: line.id,
+      sourceWordIds: [fr.id],
+      targetWordIds: targets.map(w => w.id),
+      sourceText: fr.text,
+      targetText: targets.map(w => w.text).join(' '),
+      confidence: Math.round(confidence * 100) / 100
+    });
+  });
+
+  return proposals.sort((a, b) => french.findIndex(w => w.id === a.sourceWordIds[0]) - french.findIndex(w => w.id === b.sourceWordIds[0]));
+}
+
+/**
+ * Link proposals for several lines, e.g. a page or the whole book
+ */
+export function proposeAlignments(lines: LineData[], linkedPairs: LinkedPair[] = []): AlignmentProposal[] {
+  return lines.flatMap(line => proposeLineAlignment(line, linkedPairs));
+}
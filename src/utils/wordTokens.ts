@@ -0,0 +1,122 @@
+import { v4 as uuidv4 } from 'uuid';
+import type { Language, LineData, WordData } from '../types';
+
+// Same word definition used by every renderer: letters (incl. Latin-1 accents), digits, apostrophes
+const WORD_SPLIT = /([a-zA-Z0-9À-ÿ'']+)/;
+const WORD_TEST = /^[a-zA-Z0-9À-ÿ'']+$/;
+
+export interface TextToken {
+  text: string;
+  isWord: boolean;
+  /** Position among the words of the line (only set for word tokens) */
+  wordIndex?: number;
+}
+
+/**
+ * Split text into word and non-word (spaces, punctuation) tokens
+ */
+export function tokenizeText(text: string): TextToken[] {
+  let wordIndex = 0;
+  return text.split(WORD_SPLIT).filter(Boolean).map(token => {
+    const isWord = WORD_TEST.test(token);
+    return isWord ? { text: token, isWord, wordIndex: wordIndex++ } : { text: token, isWord };
+  });
+}
+
+/**
+ * Build fresh WordData entries (new UUIDs) for a piece of text
+ */
+export function tokenizeWords(text: string): WordData[] {
+  return tokenizeText(text)
+    .filter(t => t.isWord)
+    .map((t, index) => ({ id: uuidv4(), text: t.text, index }));
+}
+
+/**
+ * Re-tokenize edited text while keeping the IDs of words that survived the edit.
+ *
+ * Words are matched with a longest-common-subsequence diff on their text. Between two
+ * matched anchors, a run of removed words that is replaced by a run of the same length
+ * is treated as an in-place correction (e.g. a typo fix) and keeps its IDs too.
+ */
+export function retokenizeWords(previous: WordData[] | undefined, text: string): WordData[] {
+  const oldWords = previous || [];
+  const newTexts = tokenizeText(text).filter(t => t.isWord).map(t => t.text);
+  const n = oldWords.length;
+  const m = newTexts.length;
+
+  // LCS table over word texts (lines are short, O(n*m) is fine)
+  const lcs: number[][] = Array.from({ length: n + 1 }, () => new Array<number>(m + 1).fill(0));
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lcs[i][j] = oldWords[i].text === newTexts[j]
+        ? lcs[i + 1][j + 1] + 1
+        : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const ids: (string | null)[] = new Array(m).fill(null);
+  let i = 0;
+  let j = 0;
+  let gapOld: number[] = [];
+  let gapNew: number[] = [];
+
+  const closeGap = () => {
+    if (gapOld.length > 0 && gapOld.length === gapNew.length) {
+      gapNew.forEach((newIdx, k) => { ids[newIdx] = oldWords[gapOld[k]].id; });
+    }
+    gapOld = [];
+    gapNew = [];
+  };
+
+  while (i < n && j < m) {
+    if (oldWords[i].text === newTexts[j]) {
+      closeGap();
+      ids[j] = oldWords[i].id;
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      gapOld.push(i++);
+    } else {
+      gapNew.push(j++);
+    }
+  }
+  while (i < n) gapOld.push(i++);
+  while (j < m) gapNew.push(j++);
+  closeGap();
+
+  return newTexts.map((wordText, index) => ({ id: ids[index] || uuidv4(), text: wordText, index }));
+}
+
+/**
+ * Return a copy of the line with new text for one language and its words re-tokenized
+ */
+export function applyLineText(line: LineData, language: Language, text: string, words?: WordData[]): LineData {
+  const nextWords = words || retokenizeWords(getLineWords(line, language), text);
+  return language === 'french'
+    ? { ...line, frenchText: text, frenchWords: nextWords }
+    : { ...line, englishText: text, englishWords: nextWords };
+}
+
+export function getLineWords(line: LineData, language: Language): WordData[] | undefined {
+  return language === 'french' ? line.frenchWords : line.englishWords;
+}
+
+/**
+ * Make sure both languages of a line carry WordData (lines created before UUID words)
+ */
+export function ensureLineWords(line: LineData): LineData {
+  if (line.frenchWords && line.englishWords) return line;
+  return {
+    ...line,
+    frenchWords: line.frenchWords || tokenizeWords(line.frenchText || ''),
+    englishWords: line.englishWords || tokenizeWords(line.englishText || '')
+  };
+}
+
+/**
+ * Positional word ID used before UUID words; only needed to migrate old projects
+ */
+export function legacyWordId(lineId: string, language: Language, index: number): string {
+  return `${lineId}-${language}-${index}`;
+}